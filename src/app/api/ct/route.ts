@@ -0,0 +1,35 @@
+import { isValidDomain } from '@/lib/utils';
+
+export const runtime = 'nodejs';
+
+const CRTSH_URL = 'https://crt.sh/';
+const FETCH_TIMEOUT_MS = 30000;
+
+// Proxies crt.sh searches with the same q/output parameters so the browser only
+// talks to this origin and the slow upstream gets a longer timeout.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const query = searchParams.get('q')?.toLowerCase() ?? '';
+  const domain = query.replace(/^%\./, '');
+
+  if (!isValidDomain(domain)) {
+    return Response.json({ error: 'q must be a domain name, optionally prefixed with %.' }, { status: 400 });
+  }
+
+  try {
+    const response = await fetch(`${CRTSH_URL}?${new URLSearchParams({ q: query, output: 'json' })}`, {
+      cache: 'no-store',
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      return Response.json({ error: `crt.sh returned ${response.status}` }, { status: 502 });
+    }
+
+    return new Response(await response.text(), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    return Response.json({ error: `Failed to query crt.sh: ${error}` }, { status: 502 });
+  }
+}
@@ -0,0 +1,115 @@
+import dgram from 'node:dgram';
+import net from 'node:net';
+import { compareIP, formatIP, nonPublicReason, parseIP } from '@/lib/ip';
+
+export const runtime = 'nodejs';
+
+const DEFAULT_UPSTREAM = process.env.DNS_UPSTREAM ?? '1.1.1.1';
+const QUERY_TIMEOUT_MS = 5000;
+const MAX_MESSAGE_SIZE = 4096;
+
+// Only a datagram from the queried server carrying the query's ID is an answer;
+// anything else is stray or spoofed and the socket keeps waiting
+function isResponseTo(server: string, message: Uint8Array, response: Buffer, rinfo: dgram.RemoteInfo): boolean {
+  const from = parseIP(rinfo.address);
+  const to = parseIP(server);
+  return !!from && !!to && compareIP(from, to) === 0 && rinfo.port === 53 &&
+    response.length >= 12 && response[0] === message[0] && response[1] === message[1];
+}
+
+function queryUdp(server: string, message: Uint8Array): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const socket = dgram.createSocket(net.isIPv6(server) ? 'udp6' : 'udp4');
+    const timer = setTimeout(() => {
+      socket.close();
+      reject(new Error(`UDP query to ${server} timed out`));
+    }, QUERY_TIMEOUT_MS);
+
+    socket.on('message', (response, rinfo) => {
+      if (!isResponseTo(server, message, response, rinfo)) return;
+      clearTimeout(timer);
+      socket.close();
+      resolve(new Uint8Array(response));
+    });
+    socket.once('error', (error) => {
+      clearTimeout(timer);
+      socket.close();
+      reject(error);
+    });
+    socket.send(message, 53, server);
+  });
+}
+
+function queryTcp(server: string, message: Uint8Array): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let settled = false;
+    const socket = net.connect({ host: server, port: 53 });
+
+    const finish = (error: Error | null, response?: Uint8Array) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      socket.destroy();
+      if (error) reject(error);
+      else resolve(response!);
+    };
+    // Bounds the whole exchange; an idle timeout would restart with every trickled byte
+    const timer = setTimeout(() => finish(new Error(`TCP query to ${server} timed out`)), QUERY_TIMEOUT_MS);
+
+    socket.on('connect', () => {
+      const prefix = Buffer.alloc(2);
+      prefix.writeUInt16BE(message.length);
+      socket.write(Buffer.concat([prefix, Buffer.from(message)]));
+    });
+    socket.on('data', (chunk) => {
+      chunks.push(chunk);
+      const data = Buffer.concat(chunks);
+      if (data.length >= 2 && data.length >= data.readUInt16BE(0) + 2) {
+        finish(null, new Uint8Array(data.subarray(2, data.readUInt16BE(0) + 2)));
+      }
+    });
+    socket.on('error', (error) => finish(error));
+    socket.on('close', () => finish(new Error(`TCP connection to ${server} closed before a complete response`)));
+  });
+}
+
+export async function POST(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const requested = searchParams.get('server');
+  const transport = searchParams.get('transport') ?? 'udp';
+
+  const address = parseIP(requested ?? DEFAULT_UPSTREAM);
+  if (!address) {
+    return Response.json({ error: 'server must be an IP address' }, { status: 400 });
+  }
+  // The configured upstream may be an internal resolver; caller-chosen servers must be public
+  const blocked = requested !== null && nonPublicReason(address);
+  if (blocked) {
+    return Response.json({ error: `Refusing to query: ${blocked}` }, { status: 403 });
+  }
+  const server = formatIP(address);
+  if (transport !== 'udp' && transport !== 'tcp') {
+    return Response.json({ error: 'transport must be udp or tcp' }, { status: 400 });
+  }
+
+  const message = new Uint8Array(await request.arrayBuffer());
+  if (message.length < 12 || message.length > MAX_MESSAGE_SIZE) {
+    return Response.json({ error: 'invalid DNS message' }, { status: 400 });
+  }
+
+  try {
+    let response = transport === 'tcp' ? await queryTcp(server, message) : await queryUdp(server, message);
+
+    // TC bit: the answer did not fit in a datagram, retry over TCP
+    if (transport === 'udp' && response.length >= 4 && (response[2] & 0x02) !== 0) {
+      response = await queryTcp(server, message);
+    }
+
+    return new Response(response as BodyInit, {
+      headers: { 'Content-Type': 'application/dns-message' },
+    });
+  } catch (error) {
+    return Response.json({ error: String(error) }, { status: 502 });
+  }
+}
@@ -0,0 +1,45 @@
+import { formatIP, parseIP } from '@/lib/ip';
+
+export const runtime = 'nodejs';
+
+// ip-api.com only serves its free tier over plain HTTP, which an HTTPS page may
+// not call (mixed content). With IP_API_KEY set the pro endpoint is used over HTTPS.
+const IP_API_KEY = process.env.IP_API_KEY;
+const IP_API_URL = IP_API_KEY ? 'https://pro.ip-api.com/json/' : 'http://ip-api.com/json/';
+const FETCH_TIMEOUT_MS = 10000;
+
+// Proxies ip-api lookups so the browser only talks to this origin. The free
+// tier's 45 requests per minute are shared by everyone using this server, so
+// the X-Rl/X-Ttl quota headers are passed through.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const address = parseIP(searchParams.get('ip')?.trim() ?? '');
+  const fields = searchParams.get('fields') ?? '';
+
+  if (!address) {
+    return Response.json({ error: 'ip must be an IPv4 or IPv6 address' }, { status: 400 });
+  }
+  if (!/^[a-zA-Z,]*$/.test(fields)) {
+    return Response.json({ error: 'fields must be a comma-separated list of field names' }, { status: 400 });
+  }
+
+  const params = new URLSearchParams(fields ? { fields } : {});
+  if (IP_API_KEY) params.set('key', IP_API_KEY);
+
+  try {
+    const query = params.toString();
+    const response = await fetch(`${IP_API_URL}${encodeURIComponent(formatIP(address))}${query && `?${query}`}`, {
+      cache: 'no-store',
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+
+    const headers = new Headers({ 'Content-Type': 'application/json' });
+    for (const name of ['X-Rl', 'X-Ttl']) {
+      const value = response.headers.get(name);
+      if (value !== null) headers.set(name, value);
+    }
+    return new Response(await response.text(), { status: response.status, headers });
+  } catch (error) {
+    return Response.json({ error: `Failed to query ip-api.com: ${error}` }, { status: 502 });
+  }
+}
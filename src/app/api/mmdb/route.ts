@@ -0,0 +1,72 @@
+import { readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { openMMDB, type MMDBReader } from '@/lib/mmdb';
+import type { MMDBASNRecord, MMDBCityRecord } from '@/lib/ip-intel';
+import { parseIP } from '@/lib/ip';
+
+export const runtime = 'nodejs';
+
+const DATABASES = {
+  city: process.env.MMDB_CITY_PATH ?? 'data/GeoLite2-City.mmdb',
+  asn: process.env.MMDB_ASN_PATH ?? 'data/GeoLite2-ASN.mmdb',
+};
+
+type DatabaseName = keyof typeof DATABASES;
+
+// Readers are kept in memory and reopened when the file on disk is replaced
+const readers = new Map<DatabaseName, { mtime: number; reader: MMDBReader }>();
+
+async function loadReader(name: DatabaseName): Promise<MMDBReader | null> {
+  const file = path.resolve(DATABASES[name]);
+  let mtime: number;
+  try {
+    mtime = (await stat(file)).mtimeMs;
+  } catch {
+    readers.delete(name);
+    return null;
+  }
+
+  const cached = readers.get(name);
+  if (cached?.mtime === mtime) return cached.reader;
+
+  const reader = openMMDB(new Uint8Array(await readFile(file)));
+  readers.set(name, { mtime, reader });
+  return reader;
+}
+
+function describe(reader: MMDBReader | null) {
+  return reader && { type: reader.metadata.database_type, buildEpoch: reader.metadata.build_epoch };
+}
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const ip = searchParams.get('ip')?.trim() ?? '';
+  const address = parseIP(ip);
+
+  if (!address) {
+    return Response.json({ error: 'ip must be an IPv4 or IPv6 address' }, { status: 400 });
+  }
+
+  try {
+    const [city, asn] = await Promise.all([loadReader('city'), loadReader('asn')]);
+    if (!city && !asn) {
+      return Response.json(
+        { error: `No MMDB database found at ${DATABASES.city} or ${DATABASES.asn}; set MMDB_CITY_PATH and MMDB_ASN_PATH` },
+        { status: 503 }
+      );
+    }
+
+    // An IPv6 address cannot be looked up in an IPv4-only database
+    const lookup = <T,>(reader: MMDBReader | null) =>
+      reader && !(address.length === 16 && reader.metadata.ip_version === 4) ? reader.lookup<T>(address).record : null;
+
+    return Response.json({
+      ip,
+      city: lookup<MMDBCityRecord>(city),
+      asn: lookup<MMDBASNRecord>(asn),
+      databases: { city: describe(city), asn: describe(asn) },
+    });
+  } catch (error) {
+    return Response.json({ error: `Failed to read MMDB database: ${error instanceof Error ? error.message : error}` }, { status: 500 });
+  }
+}
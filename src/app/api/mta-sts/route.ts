@@ -0,0 +1,93 @@
+import { lookup } from 'node:dns/promises';
+import https from 'node:https';
+import { formatIP, nonPublicReason, parseIP } from '@/lib/ip';
+import { isValidDomain } from '@/lib/utils';
+
+export const runtime = 'nodejs';
+
+const FETCH_TIMEOUT_MS = 5000;
+const MAX_POLICY_SIZE = 64 * 1024;
+const POLICY_PATH = '/.well-known/mta-sts.txt';
+
+class TargetRefusedError extends Error {}
+
+class PolicyFetchError extends Error {}
+
+// Resolves on the server and returns a public address to connect to, so the route
+// cannot be pointed at loopback, private or link-local services
+async function resolvePublic(host: string): Promise<string> {
+  const addresses = (await lookup(host, { all: true, verbatim: true }))
+    .map((entry) => parseIP(entry.address))
+    .filter((address): address is Uint8Array => !!address);
+  if (addresses.length === 0) throw new Error(`${host} did not resolve to an address`);
+
+  const usable = addresses.find((address) => !nonPublicReason(address));
+  if (!usable) throw new TargetRefusedError(`Refusing to connect: ${nonPublicReason(addresses[0])}`);
+  return formatIP(usable);
+}
+
+// Connects to the vetted address while verifying the certificate for the policy
+// host. Redirects are not followed (RFC 8461 §3.3) and the body is read up to
+// MAX_POLICY_SIZE bytes.
+function fetchPolicy(host: string, address: string, url: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const request = https.get({ host: address, servername: host, path: POLICY_PATH, headers: { host } }, (response) => {
+      if (response.statusCode !== 200) {
+        fail(new PolicyFetchError(`${url} returned ${response.statusCode}`));
+        return;
+      }
+      if (Number(response.headers['content-length']) > MAX_POLICY_SIZE) {
+        fail(new PolicyFetchError(`${url} is larger than ${MAX_POLICY_SIZE} bytes`));
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      response.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_POLICY_SIZE) fail(new PolicyFetchError(`${url} is larger than ${MAX_POLICY_SIZE} bytes`));
+        else chunks.push(chunk);
+      });
+      response.on('end', () => {
+        clearTimeout(timer);
+        resolve(Buffer.concat(chunks).toString('utf8'));
+      });
+      response.on('error', fail);
+    });
+
+    const fail = (error: Error) => {
+      clearTimeout(timer);
+      request.destroy();
+      reject(error);
+    };
+    const timer = setTimeout(() => fail(new Error('timed out')), FETCH_TIMEOUT_MS);
+    request.on('error', fail);
+  });
+}
+
+// Browsers cannot read https://mta-sts.<domain>/ cross-origin, so the policy
+// file is fetched here and passed through as plain text.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const domain = searchParams.get('domain')?.toLowerCase() ?? '';
+
+  if (!isValidDomain(domain)) {
+    return Response.json({ error: 'domain must be a valid domain name' }, { status: 400 });
+  }
+
+  const host = `mta-sts.${domain}`;
+  const url = `https://${host}${POLICY_PATH}`;
+
+  try {
+    const body = await fetchPolicy(host, await resolvePublic(host), url);
+    return new Response(body, {
+      headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+    });
+  } catch (error) {
+    if (error instanceof TargetRefusedError) {
+      return Response.json({ error: error.message }, { status: 403 });
+    }
+    const message = error instanceof PolicyFetchError ? error.message : `Failed to fetch ${url}: ${error}`;
+    return Response.json({ error: message }, { status: 502 });
+  }
+}
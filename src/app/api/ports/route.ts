@@ -0,0 +1,193 @@
+import net from 'node:net';
+import {
+  describePort,
+  parsePortList,
+  PORT_PROFILES,
+  type PortDefinition,
+  type PortProfileId,
+  type PortScanEvent,
+  type PortScanResult,
+} from '@/lib/ports';
+import { cidrContains, classifyIP, formatIP, parseCIDR, parseIP, unmapIPv4, type CIDR } from '@/lib/ip';
+
+export const runtime = 'nodejs';
+
+const CONNECT_TIMEOUT_MS = 3000;
+const BANNER_TIMEOUT_MS = 2000;
+const MAX_BANNER_BYTES = 1024;
+const CONCURRENCY = 8;
+const SCANS_PER_WINDOW = Number(process.env.PORT_SCAN_RATE_LIMIT ?? 5);
+const RATE_WINDOW_MS = 60000;
+// Number of reverse proxies in front of the app that append to X-Forwarded-For.
+// With none, the header is entirely client-controlled and all clients share one limit.
+const TRUSTED_PROXY_HOPS = Number(process.env.PORT_SCAN_TRUSTED_PROXY_HOPS ?? 0);
+
+const ALLOWLIST = (process.env.PORT_SCAN_ALLOWLIST ?? '')
+  .split(',')
+  .map((cidr) => parseCIDR(cidr))
+  .filter((cidr): cidr is CIDR => !!cidr);
+
+const scansByClient = new Map<string, number[]>();
+
+// Without PORT_SCAN_ALLOWLIST any public address may be scanned, but never
+// private, loopback, link-local or other special-purpose space that could be
+// reachable from the server itself.
+function policyError(address: Uint8Array): string | null {
+  // ::ffff:a.b.c.d reaches the IPv4 host, so it is checked as one
+  const target = unmapIPv4(address);
+
+  if (ALLOWLIST.length > 0) {
+    return ALLOWLIST.some((cidr) => cidrContains(cidr, target)) ? null : 'Address is not in PORT_SCAN_ALLOWLIST';
+  }
+  const special = classifyIP(target);
+  return special ? `Scanning ${special.cidr} (${special.name}, ${special.rfc}) is not allowed` : null;
+}
+
+// The address the nearest trusted proxy saw; clients can only prepend entries before it
+function clientKey(request: Request): string {
+  if (TRUSTED_PROXY_HOPS <= 0) return 'all';
+  const hops = (request.headers.get('x-forwarded-for') ?? '').split(',').map((hop) => hop.trim()).filter(Boolean);
+  return hops[hops.length - TRUSTED_PROXY_HOPS] ?? 'unknown';
+}
+
+// Sliding window per client; returns the seconds to wait when the limit is reached
+function rateLimit(client: string): number | null {
+  const now = Date.now();
+  for (const [key, times] of scansByClient) {
+    if (times.every((time) => now - time >= RATE_WINDOW_MS)) scansByClient.delete(key);
+  }
+  const recent = (scansByClient.get(client) ?? []).filter((time) => now - time < RATE_WINDOW_MS);
+  if (recent.length >= SCANS_PER_WINDOW) {
+    scansByClient.set(client, recent);
+    return Math.ceil((recent[0] + RATE_WINDOW_MS - now) / 1000);
+  }
+  scansByClient.set(client, [...recent, now]);
+  return null;
+}
+
+function formatBanner(entry: PortDefinition, raw: string): string | undefined {
+  if (!raw) return undefined;
+  const lines = raw.split(/\r?\n/);
+  if (entry.banner === 'http' && /^HTTP\/\d/.test(lines[0])) {
+    const server = lines.find((line) => /^server:/i.test(line))?.slice(7).trim();
+    return [lines[0].trim(), server].filter(Boolean).join(' · ');
+  }
+  return lines[0].replace(/[^\x20-\x7e]/g, '').trim().slice(0, 200) || undefined;
+}
+
+// host must be the canonical text of the address that passed policyError: the
+// OS resolver reads forms such as 012.0.0.1 differently from parseIP.
+function probe(host: string, entry: PortDefinition): Promise<PortScanResult> {
+  const started = performance.now();
+
+  return new Promise((resolve) => {
+    const socket = net.connect({ host, port: entry.port });
+    let connected = false;
+    let settled = false;
+    let raw = '';
+
+    const finish = (result: Pick<PortScanResult, 'state' | 'error'>) => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      resolve({
+        port: entry.port,
+        service: entry.service,
+        ...result,
+        banner: result.state === 'open' ? formatBanner(entry, raw) : undefined,
+        responseTime: Math.round(performance.now() - started),
+      });
+    };
+
+    socket.setTimeout(CONNECT_TIMEOUT_MS);
+    socket.once('connect', () => {
+      connected = true;
+      if (!entry.banner) return finish({ state: 'open' });
+      socket.setTimeout(BANNER_TIMEOUT_MS);
+      if (entry.banner === 'http') {
+        socket.write(`HEAD / HTTP/1.0\r\nHost: ${host.includes(':') ? `[${host}]` : host}\r\nUser-Agent: dnsintel-port-check\r\n\r\n`);
+      }
+    });
+    socket.on('data', (chunk: Buffer) => {
+      raw += chunk.toString('latin1');
+      const complete = entry.banner === 'http' ? raw.includes('\r\n\r\n') : raw.includes('\n');
+      if (complete || raw.length >= MAX_BANNER_BYTES) finish({ state: 'open' });
+    });
+    socket.once('timeout', () => finish({ state: connected ? 'open' : 'filtered' }));
+    socket.once('close', () => finish({ state: connected ? 'open' : 'filtered' }));
+    socket.once('error', (error: NodeJS.ErrnoException) => {
+      if (connected) return finish({ state: 'open' });
+      finish(error.code === 'ECONNREFUSED' ? { state: 'closed' } : { state: 'filtered', error: error.code ?? error.message });
+    });
+  });
+}
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const ip = searchParams.get('ip')?.trim() ?? '';
+  const profile = searchParams.get('profile') as PortProfileId | null;
+  const custom = searchParams.get('ports');
+  const address = parseIP(ip);
+
+  if (!address) {
+    return Response.json({ error: 'ip must be an IPv4 or IPv6 address' }, { status: 400 });
+  }
+
+  let entries: PortDefinition[];
+  if (custom !== null) {
+    const ports = parsePortList(custom);
+    if (!ports) return Response.json({ error: 'ports must list 1 to 32 port numbers' }, { status: 400 });
+    entries = ports.map(describePort);
+  } else if (profile && profile in PORT_PROFILES) {
+    entries = PORT_PROFILES[profile].ports;
+  } else {
+    return Response.json({ error: `profile must be one of ${Object.keys(PORT_PROFILES).join(', ')}` }, { status: 400 });
+  }
+
+  const blocked = policyError(address);
+  if (blocked) return Response.json({ error: blocked }, { status: 403 });
+
+  const retryAfter = rateLimit(clientKey(request));
+  if (retryAfter !== null) {
+    return Response.json(
+      { error: `Rate limit of ${SCANS_PER_WINDOW} scans per minute reached; retry in ${retryAfter}s` },
+      { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+    );
+  }
+
+  const host = formatIP(unmapIPv4(address));
+  const encoder = new TextEncoder();
+  const started = performance.now();
+  let cancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: PortScanEvent) => {
+        if (!cancelled) controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      };
+      send({ type: 'start', ip: host, ports: entries.map((entry) => entry.port) });
+
+      const queue = [...entries];
+      let open = 0;
+      await Promise.all(
+        Array.from({ length: Math.min(CONCURRENCY, queue.length) }, async () => {
+          for (let entry = queue.shift(); entry && !cancelled; entry = queue.shift()) {
+            const result = await probe(host, entry);
+            if (result.state === 'open') open++;
+            send({ type: 'port', result });
+          }
+        })
+      );
+
+      send({ type: 'done', open, elapsed: Math.round(performance.now() - started) });
+      if (!cancelled) controller.close();
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' },
+  });
+}
@@ -0,0 +1,39 @@
+import type { RDAPBootstrapFile, RDAPRegistry } from '@/lib/rdap-bootstrap';
+
+export const runtime = 'nodejs';
+
+const IANA_BOOTSTRAP_URL = 'https://data.iana.org/rdap/';
+const REGISTRIES: RDAPRegistry[] = ['dns', 'ipv4', 'ipv6', 'asn'];
+const FETCH_TIMEOUT_MS = 15000;
+
+// Serves the current IANA bootstrap files (RFC 9224) so the client can replace
+// its bundled snapshot without depending on data.iana.org allowing CORS.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const registry = searchParams.get('registry') as RDAPRegistry | null;
+
+  if (!registry || !REGISTRIES.includes(registry)) {
+    return Response.json({ error: `registry must be one of ${REGISTRIES.join(', ')}` }, { status: 400 });
+  }
+
+  try {
+    const response = await fetch(`${IANA_BOOTSTRAP_URL}${registry}.json`, {
+      cache: 'no-store',
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      return Response.json({ error: `IANA returned ${response.status}` }, { status: 502 });
+    }
+
+    const body = await response.json();
+    if (!Array.isArray(body?.services)) {
+      return Response.json({ error: 'IANA bootstrap file has no services' }, { status: 502 });
+    }
+
+    const file: RDAPBootstrapFile = { publication: String(body.publication ?? ''), services: body.services };
+    return Response.json(file);
+  } catch (error) {
+    return Response.json({ error: `Failed to fetch the IANA bootstrap file: ${error}` }, { status: 502 });
+  }
+}
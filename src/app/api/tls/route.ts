@@ -0,0 +1,147 @@
+import { X509Certificate } from 'node:crypto';
+import { lookup } from 'node:dns/promises';
+import tls, { type DetailedPeerCertificate } from 'node:tls';
+import { isValidDomain, isValidIP } from '@/lib/utils';
+import { formatIP, nonPublicReason, parseIP } from '@/lib/ip';
+import type { TLSCertificateInfo, TLSInspection } from '@/lib/tls';
+import { parseCertificateDER } from '@/lib/x509';
+
+export const runtime = 'nodejs';
+
+const CONNECT_TIMEOUT_MS = 10000;
+const MAX_CHAIN_LENGTH = 10;
+
+function distinguishedName(value: string): { name: string; cn: string } {
+  const parts = value.split('\n').filter(Boolean);
+  const cn = parts.find((part) => part.startsWith('CN='))?.slice(3);
+  const o = parts.find((part) => part.startsWith('O='))?.slice(2);
+  return { name: parts.join(', '), cn: cn ?? o ?? value };
+}
+
+function accessURIs(infoAccess: string | undefined, method: string): string[] {
+  return (infoAccess ?? '')
+    .split('\n')
+    .filter((line) => line.startsWith(`${method} - URI:`))
+    .map((line) => line.slice(method.length + 7));
+}
+
+function describeCertificate(peer: DetailedPeerCertificate): TLSCertificateInfo {
+  const cert = new X509Certificate(peer.raw);
+  const subject = distinguishedName(cert.subject);
+  const issuer = distinguishedName(cert.issuer);
+  const details = cert.publicKey.asymmetricKeyDetails;
+  const { signatureAlgorithm, crl } = parseCertificateDER(new Uint8Array(peer.raw));
+
+  return {
+    subject: subject.cn,
+    subjectName: subject.name,
+    issuer: issuer.cn,
+    issuerName: issuer.name,
+    sans: (cert.subjectAltName ?? '')
+      .split(', ')
+      .filter((name) => name.startsWith('DNS:') || name.startsWith('IP Address:'))
+      .map((name) => name.slice(name.indexOf(':') + 1)),
+    serialNumber: cert.serialNumber,
+    fingerprint256: cert.fingerprint256,
+    keyType: cert.publicKey.asymmetricKeyType ?? 'unknown',
+    keySize: details?.modulusLength ?? (cert.publicKey.asymmetricKeyType === 'ed25519' ? 256 : undefined),
+    curve: details?.namedCurve,
+    signatureAlgorithm,
+    validFrom: new Date(cert.validFrom).toISOString(),
+    validTo: new Date(cert.validTo).toISOString(),
+    ocsp: accessURIs(cert.infoAccess, 'OCSP'),
+    caIssuers: accessURIs(cert.infoAccess, 'CA Issuers'),
+    crl,
+    ca: cert.ca,
+    selfSigned: cert.checkIssued(cert) && cert.verify(cert.publicKey),
+  };
+}
+
+class TargetRefusedError extends Error {}
+
+// Resolves on the server and returns a public address to connect to, so the route
+// cannot be pointed at loopback, private or link-local services
+async function resolvePublic(host: string): Promise<string> {
+  const addresses = (await lookup(host, { all: true, verbatim: true }))
+    .map((entry) => parseIP(entry.address))
+    .filter((address): address is Uint8Array => !!address);
+  if (addresses.length === 0) throw new Error(`${host} did not resolve to an address`);
+
+  const usable = addresses.find((address) => !nonPublicReason(address));
+  if (!usable) throw new TargetRefusedError(`Refusing to connect: ${nonPublicReason(addresses[0])}`);
+  return formatIP(usable);
+}
+
+function connect(host: string, address: string, port: number, servername: string): Promise<TLSInspection> {
+  const started = performance.now();
+
+  return new Promise((resolve, reject) => {
+    const socket = tls.connect({
+      host: address,
+      port,
+      servername: isValidIP(servername) ? undefined : servername,
+      rejectUnauthorized: false,
+      // Accept legacy protocols and ciphers so outdated servers can be reported rather than refused
+      minVersion: 'TLSv1',
+      ciphers: 'DEFAULT:@SECLEVEL=0',
+    });
+
+    socket.setTimeout(CONNECT_TIMEOUT_MS, () => {
+      socket.destroy();
+      reject(new Error(`Connection to ${host}:${port} timed out`));
+    });
+    socket.once('error', reject);
+
+    socket.once('secureConnect', () => {
+      const chain: TLSCertificateInfo[] = [];
+      let peer: DetailedPeerCertificate | undefined = socket.getPeerCertificate(true);
+      const seen = new Set<string>();
+
+      while (peer?.raw && !seen.has(peer.fingerprint256) && chain.length < MAX_CHAIN_LENGTH) {
+        seen.add(peer.fingerprint256);
+        chain.push(describeCertificate(peer));
+        peer = peer.issuerCertificate;
+      }
+
+      const cipher = socket.getCipher();
+      resolve({
+        host,
+        port,
+        servername,
+        address: socket.remoteAddress ?? '',
+        protocol: socket.getProtocol() ?? 'unknown',
+        cipher: { name: cipher.name, standardName: cipher.standardName, version: cipher.version },
+        authorized: socket.authorized,
+        authorizationError: socket.authorizationError ? String(socket.authorizationError) : undefined,
+        chain,
+        responseTime: Math.round(performance.now() - started),
+      });
+      socket.end();
+    });
+  });
+}
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const host = searchParams.get('host')?.toLowerCase() ?? '';
+  const port = Number(searchParams.get('port') ?? 443);
+  const servername = searchParams.get('servername')?.toLowerCase() || host;
+
+  if (!isValidDomain(host) && !isValidIP(host)) {
+    return Response.json({ error: 'host must be a domain name or IP address' }, { status: 400 });
+  }
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    return Response.json({ error: 'port must be between 1 and 65535' }, { status: 400 });
+  }
+  if (!isValidDomain(servername) && !isValidIP(servername)) {
+    return Response.json({ error: 'servername must be a domain name' }, { status: 400 });
+  }
+
+  try {
+    const address = await resolvePublic(host);
+    return Response.json(await connect(host, address, port, servername));
+  } catch (error) {
+    const status = error instanceof TargetRefusedError ? 403 : 502;
+    return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status });
+  }
+}
@@ -8,6 +8,7 @@ import { IPIntelligenceTool } from '@/components/IPIntelligenceTool';
 import { AttackSurfaceTool } from '@/components/AttackSurfaceTool';
 import { InfrastructureGraph } from '@/components/InfrastructureGraph';
 import { SubdomainTestTool } from '@/components/SubdomainTestTool';
+import { SubdomainEnumerationTool } from '@/components/SubdomainEnumerationTool';
 
 export default function Home() {
   const [activeTool, setActiveTool] = useState('dns');
@@ -25,6 +26,8 @@ export default function Home() {
         return <InfrastructureGraph />;
       case 'subdomain':
         return <SubdomainTestTool />;
+      case 'enumerate':
+        return <SubdomainEnumerationTool />;
       default:
         return <DNSLookupTool />;
     }
@@ -42,6 +45,8 @@ export default function Home() {
         return 'Infrastructure Visualization';
       case 'subdomain':
         return 'Ephemeral Subdomain Testing';
+      case 'enumerate':
+        return 'Subdomain Enumeration';
       default:
         return 'DNS Lookup';
     }
@@ -1,17 +1,47 @@
 'use client';
 
-import { useState } from 'react';
-import { Shield, AlertTriangle, CheckCircle, XCircle, AlertCircle, ExternalLink } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { Shield, AlertTriangle, CheckCircle, XCircle, AlertCircle, ExternalLink, Lock, Mail, Send, Key, Server, Link2, Network, BadgeCheck, Info } from 'lucide-react';
 import { cn, isValidDomain, getRiskScoreColor, getRiskScoreLabel } from '@/lib/utils';
 import { analyzeAttackSurface, type AttackSurfaceResult } from '@/lib/dns';
+import type { CAAPermission } from '@/lib/caa';
+import { getResolver, DEFAULT_RESOLVER_ID } from '@/lib/resolver';
+import { DEFAULT_DKIM_SELECTORS } from '@/lib/dkim';
+import { evaluateSPF, SPF_LOOKUP_LIMIT, SPF_VOID_LOOKUP_LIMIT, type SPFEvaluation } from '@/lib/spf';
+import { lookupRDAPDomain, type RDAPDomain, type RDAPResult } from '@/lib/rdap';
+import { ResolverSelect } from '@/components/ResolverSelect';
+import { SOADetails } from '@/components/SOADetails';
+import { DomainRegistrationCard } from '@/components/RDAPDetails';
 
 const severityOrder = ['critical', 'high', 'medium', 'low'] as const;
 
 export function AttackSurfaceTool() {
   const [domain, setDomain] = useState('');
+  const [resolverId, setResolverId] = useState(DEFAULT_RESOLVER_ID);
   const [result, setResult] = useState<AttackSurfaceResult | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [extraSelectors, setExtraSelectors] = useState('');
+  const [senderIp, setSenderIp] = useState('');
+  const [senderAddress, setSenderAddress] = useState('');
+  const [evaluation, setEvaluation] = useState<SPFEvaluation | null>(null);
+  const [evaluating, setEvaluating] = useState(false);
+  const [registration, setRegistration] = useState<RDAPResult<RDAPDomain> | null>(null);
+  const registrationAbort = useRef<AbortController | null>(null);
+
+  useEffect(() => () => registrationAbort.current?.abort(), []);
+
+  // A newer analysis aborts the previous lookup, so a slow registry cannot
+  // show another domain's registration
+  const loadRegistration = async (name: string) => {
+    registrationAbort.current?.abort();
+    const controller = new AbortController();
+    registrationAbort.current = controller;
+    setRegistration(null);
+
+    const found = await lookupRDAPDomain(name, controller.signal);
+    if (!controller.signal.aborted) setRegistration(found);
+  };
 
   const handleAnalyze = async () => {
     if (!domain.trim()) {
@@ -29,9 +59,12 @@ export function AttackSurfaceTool() {
     setError(null);
     setLoading(true);
     setResult(null);
+    setEvaluation(null);
+    loadRegistration(cleanDomain);
 
     try {
-      const analysis = await analyzeAttackSurface(cleanDomain);
+      const selectors = [...DEFAULT_DKIM_SELECTORS, ...extraSelectors.split(/[\s,]+/).filter(Boolean)];
+      const analysis = await analyzeAttackSurface(cleanDomain, getResolver(resolverId), { dkimSelectors: selectors });
       setResult(analysis);
     } catch (err) {
       setError('Failed to analyze attack surface');
@@ -40,6 +73,26 @@ export function AttackSurfaceTool() {
     }
   };
 
+  const handleEvaluate = async () => {
+    if (!result || !senderIp.trim()) return;
+
+    setError(null);
+    setEvaluating(true);
+    try {
+      setEvaluation(await evaluateSPF(
+        senderIp.trim(),
+        result.domain,
+        senderAddress.trim() || undefined,
+        getResolver(resolverId)
+      ));
+    } catch {
+      setEvaluation(null);
+      setError('Failed to evaluate SPF for this sender');
+    } finally {
+      setEvaluating(false);
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
       handleAnalyze();
@@ -78,6 +131,8 @@ export function AttackSurfaceTool() {
             placeholder="Enter domain (e.g., example.com)"
             className="flex-1 px-4 py-2.5 bg-[#1a1a24] border border-[#27272a] rounded-lg text-[#f4f4f5] placeholder-[#71717a] font-mono text-sm focus:border-[#00d4aa] transition-colors"
           />
+
+          <ResolverSelect value={resolverId} onChange={setResolverId} />
           
           <button
             onClick={handleAnalyze}
@@ -98,6 +153,15 @@ export function AttackSurfaceTool() {
           </button>
         </div>
 
+        <input
+          type="text"
+          value={extraSelectors}
+          onChange={(e) => setExtraSelectors(e.target.value)}
+          onKeyDown={handleKeyPress}
+          placeholder="Additional DKIM selectors (comma-separated)"
+          className="mt-3 w-full px-4 py-2.5 bg-[#1a1a24] border border-[#27272a] rounded-lg text-[#f4f4f5] placeholder-[#71717a] font-mono text-sm focus:border-[#00d4aa] transition-colors"
+        />
+
         {error && (
           <div className="mt-3 p-3 bg-red-500/10 border border-red-500/30 rounded-lg flex items-center gap-2 text-red-400 text-sm">
             <AlertCircle size={16} />
@@ -106,7 +170,7 @@ export function AttackSurfaceTool() {
         )}
 
         <p className="mt-2 text-xs text-[#71717a]">
-          Press Ctrl+Enter to analyze • Checks SPF, DMARC, DNSSEC, MX, NS records
+          Press Ctrl+Enter to analyze • Checks SPF, DMARC, DKIM, DNSSEC, MX, MTA-STS, TLS-RPT, BIMI, NS records
         </p>
       </div>
 
@@ -135,7 +199,7 @@ export function AttackSurfaceTool() {
               </div>
             </div>
 
-            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+            <div className="grid grid-cols-2 sm:grid-cols-6 gap-3">
               <CheckCheck
                 label="SPF"
                 status={result.checks.spf.present ? (result.checks.spf.valid ? 'valid' : 'invalid') : 'missing'}
@@ -144,9 +208,22 @@ export function AttackSurfaceTool() {
                 label="DMARC"
                 status={result.checks.dmarc.present ? (result.checks.dmarc.valid ? 'valid' : 'invalid') : 'missing'}
               />
+              <CheckCheck
+                label="DKIM"
+                status={
+                  !result.checks.dkim.present ? 'missing' :
+                  result.checks.dkim.keys.some((k) => k.errors.length > 0 || k.testing || (k.keyType === 'rsa' && (k.bits ?? 0) <= 1024)) ? 'warning' :
+                  'valid'
+                }
+              />
               <CheckCheck
                 label="DNSSEC"
-                status={result.checks.dnssec.present ? 'valid' : 'missing'}
+                status={
+                  result.checks.dnssec.status === 'secure' ? 'valid' :
+                  result.checks.dnssec.status === 'bogus' ? 'invalid' :
+                  result.checks.dnssec.status === 'indeterminate' ? 'warning' :
+                  'missing'
+                }
               />
               <CheckCheck
                 label="MX"
@@ -159,6 +236,457 @@ export function AttackSurfaceTool() {
             </div>
           </div>
 
+          <DomainRegistrationCard result={registration} onRetry={() => loadRegistration(result.domain)} />
+
+          {result.checks.spf.present && (
+            <div className="card">
+              <h3 className="font-semibold mb-4 flex items-center gap-2">
+                <Send size={18} className="text-[#7c3aed]" />
+                SPF Evaluation
+              </h3>
+
+              <div className="p-3 bg-[#1a1a24] rounded-lg font-mono text-sm text-[#f4f4f5] break-all mb-4">
+                {result.checks.spf.record}
+              </div>
+
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 mb-4">
+                {([
+                  ['DNS Lookups', `${result.checks.spf.lookupCount}/${SPF_LOOKUP_LIMIT}`, result.checks.spf.lookupCount > SPF_LOOKUP_LIMIT],
+                  ['Void Lookups', `${result.checks.spf.voidLookupCount}/${SPF_VOID_LOOKUP_LIMIT}`, result.checks.spf.voidLookupCount > SPF_VOID_LOOKUP_LIMIT],
+                  ['Default', result.checks.spf.allQualifier ? `${result.checks.spf.allQualifier}all` : '—', false],
+                ] as const).map(([label, value, exceeded]) => (
+                  <div key={label} className="p-3 bg-[#1a1a24] rounded-lg">
+                    <div className="text-xs text-[#71717a] mb-1">{label}</div>
+                    <div className={cn('font-mono text-sm', exceeded ? 'text-red-400' : 'text-[#f4f4f5]')}>{value}</div>
+                  </div>
+                ))}
+              </div>
+
+              {[...result.checks.spf.errors, ...result.checks.spf.warnings].length > 0 && (
+                <ul className="space-y-1 mb-4 text-sm">
+                  {result.checks.spf.errors.map((message) => (
+                    <li key={message} className="flex items-start gap-2 text-red-400">
+                      <XCircle size={14} className="mt-0.5 flex-shrink-0" />
+                      {message}
+                    </li>
+                  ))}
+                  {result.checks.spf.warnings.map((message) => (
+                    <li key={message} className="flex items-start gap-2 text-yellow-400">
+                      <AlertCircle size={14} className="mt-0.5 flex-shrink-0" />
+                      {message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="flex flex-col sm:flex-row gap-3">
+                <input
+                  type="text"
+                  value={senderIp}
+                  onChange={(e) => setSenderIp(e.target.value)}
+                  placeholder="Sender IP (e.g., 192.0.2.1)"
+                  className="flex-1 px-4 py-2.5 bg-[#1a1a24] border border-[#27272a] rounded-lg text-[#f4f4f5] placeholder-[#71717a] font-mono text-sm focus:border-[#00d4aa] transition-colors"
+                />
+                <input
+                  type="text"
+                  value={senderAddress}
+                  onChange={(e) => setSenderAddress(e.target.value)}
+                  placeholder={`Sender (default postmaster@${result.domain})`}
+                  className="flex-1 px-4 py-2.5 bg-[#1a1a24] border border-[#27272a] rounded-lg text-[#f4f4f5] placeholder-[#71717a] font-mono text-sm focus:border-[#00d4aa] transition-colors"
+                />
+                <button
+                  onClick={handleEvaluate}
+                  disabled={evaluating || !senderIp.trim()}
+                  className={cn(
+                    'btn-primary flex items-center justify-center gap-2 min-w-[120px]',
+                    (evaluating || !senderIp.trim()) && 'opacity-50 cursor-not-allowed'
+                  )}
+                >
+                  {evaluating ? <div className="spinner" /> : 'Evaluate'}
+                </button>
+              </div>
+
+              {evaluation && (
+                <div className="mt-4">
+                  <div className="flex items-center gap-2 mb-2 text-sm">
+                    <span className={cn(
+                      'px-2 py-0.5 rounded font-mono uppercase text-xs',
+                      evaluation.result === 'pass' ? 'bg-green-500/20 text-green-400' :
+                      evaluation.result === 'fail' || evaluation.result === 'permerror' ? 'bg-red-500/20 text-red-400' :
+                      evaluation.result === 'softfail' || evaluation.result === 'temperror' ? 'bg-orange-500/20 text-orange-400' :
+                      'bg-[#1a1a24] text-[#a1a1aa]'
+                    )}>
+                      {evaluation.result}
+                    </span>
+                    <span className="text-[#71717a]">
+                      {evaluation.ip} as {evaluation.sender} • {evaluation.lookupCount} lookups
+                    </span>
+                  </div>
+                  <ol className="p-3 bg-[#1a1a24] rounded-lg font-mono text-xs space-y-1">
+                    {evaluation.trace.map((step, index) => (
+                      <li key={index} style={{ paddingLeft: `${step.depth * 16}px` }} className="text-[#a1a1aa]">
+                        <span className="text-[#71717a]">{step.domain}</span>
+                        {step.term && <span className="text-[#00d4aa]"> {step.term}</span>}
+                        {' '}{step.message}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+            </div>
+          )}
+
+          {result.checks.dmarc.policy && (
+            <div className="card">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="font-semibold flex items-center gap-2">
+                  <Mail size={18} className="text-[#7c3aed]" />
+                  DMARC Policy
+                </h3>
+                <span className="font-mono text-xs text-[#71717a]">
+                  {result.checks.dmarc.source}{result.checks.dmarc.inherited && ' (organizational domain)'}
+                </span>
+              </div>
+
+              <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 mb-4">
+                {([
+                  ['Policy', result.checks.dmarc.disposition ?? '—'],
+                  ['Subdomains', result.checks.dmarc.policy.sp ?? result.checks.dmarc.policy.p ?? '—'],
+                  ['Coverage', `${result.checks.dmarc.policy.pct}%`],
+                  ['DKIM Align', result.checks.dmarc.policy.adkim === 's' ? 'strict' : 'relaxed'],
+                  ['SPF Align', result.checks.dmarc.policy.aspf === 's' ? 'strict' : 'relaxed'],
+                ] as const).map(([label, value]) => (
+                  <div key={label} className="p-3 bg-[#1a1a24] rounded-lg">
+                    <div className="text-xs text-[#71717a] mb-1">{label}</div>
+                    <div className="font-mono text-sm text-[#f4f4f5]">{value}</div>
+                  </div>
+                ))}
+              </div>
+
+              {[...result.checks.dmarc.errors, ...result.checks.dmarc.warnings].length > 0 && (
+                <ul className="space-y-1 mb-4 text-sm">
+                  {result.checks.dmarc.errors.map((message) => (
+                    <li key={message} className="flex items-start gap-2 text-red-400">
+                      <XCircle size={14} className="mt-0.5 flex-shrink-0" />
+                      {message}
+                    </li>
+                  ))}
+                  {result.checks.dmarc.warnings.map((message) => (
+                    <li key={message} className="flex items-start gap-2 text-yellow-400">
+                      <AlertCircle size={14} className="mt-0.5 flex-shrink-0" />
+                      {message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {result.checks.dmarc.destinations.length > 0 && (
+                <div className="space-y-2">
+                  {result.checks.dmarc.destinations.map((destination) => (
+                    <div key={destination.uri} className="flex items-center justify-between p-3 bg-[#1a1a24] rounded-lg">
+                      <span className="font-mono text-sm text-[#f4f4f5] break-all">{destination.uri}</span>
+                      <span className={cn(
+                        'text-xs',
+                        destination.authorized ? 'text-green-400' : 'text-orange-400'
+                      )}>
+                        {!destination.external ? 'Same domain' : destination.authorized ? 'Authorized' : 'Not authorized'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {result.checks.dkim.present && (
+            <div className="card">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="font-semibold flex items-center gap-2">
+                  <Key size={18} className="text-[#7c3aed]" />
+                  DKIM Keys
+                </h3>
+                <span className="text-xs text-[#71717a]">
+                  {result.checks.dkim.keys.length} of {result.checks.dkim.selectors.length} selectors found
+                </span>
+              </div>
+
+              <div className="space-y-2">
+                {result.checks.dkim.keys.map((key) => (
+                  <div key={key.selector} className="flex items-center justify-between p-3 bg-[#1a1a24] rounded-lg">
+                    <div className="flex items-center gap-3">
+                      {key.revoked || key.errors.length > 0 ? (
+                        <XCircle size={16} className="text-red-500" />
+                      ) : key.testing || (key.keyType === 'rsa' && (key.bits ?? 0) <= 1024) ? (
+                        <AlertCircle size={16} className="text-yellow-500" />
+                      ) : (
+                        <CheckCircle size={16} className="text-green-500" />
+                      )}
+                      <span className="font-mono text-sm text-[#f4f4f5]">{key.name}</span>
+                    </div>
+                    <div className="flex items-center gap-2 text-xs">
+                      {key.revoked ? (
+                        <span className="px-2 py-0.5 bg-red-500/20 text-red-400 rounded font-mono">revoked</span>
+                      ) : (
+                        <span className="px-2 py-0.5 bg-[#27272a] text-[#a1a1aa] rounded font-mono">
+                          {key.keyType.toUpperCase()}{key.bits && ` ${key.bits}-bit`}
+                        </span>
+                      )}
+                      {key.testing && (
+                        <span className="px-2 py-0.5 bg-yellow-500/20 text-yellow-400 rounded font-mono">t=y</span>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {result.checks.mx.present && (
+            <div className="card">
+              <h3 className="font-semibold mb-4 flex items-center gap-2">
+                <Server size={18} className="text-[#7c3aed]" />
+                Mail Transport
+              </h3>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+                {([
+                  ['MTA-STS', result.checks.mtaSts.policy?.mode ?? (result.checks.mtaSts.present ? 'policy unavailable' : 'not deployed')],
+                  ['TLS-RPT', result.checks.tlsRpt.rua.join(', ') || 'not deployed'],
+                  ['BIMI', result.checks.bimi.present ? (result.checks.bimi.logo ?? 'declined') : 'not deployed'],
+                ] as const).map(([label, value]) => (
+                  <div key={label} className="p-3 bg-[#1a1a24] rounded-lg">
+                    <div className="text-xs text-[#71717a] mb-1">{label}</div>
+                    <div className="font-mono text-sm text-[#f4f4f5] break-all">{value}</div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                {result.checks.mx.records.map((record) => {
+                  const host = record.split(' ').pop() ?? record;
+                  const covered = !result.checks.mtaSts.uncoveredMx.includes(host.toLowerCase().replace(/\.$/, ''));
+                  return (
+                    <div key={record} className="flex items-center justify-between p-3 bg-[#1a1a24] rounded-lg">
+                      <span className="font-mono text-sm text-[#f4f4f5]">{record}</span>
+                      {result.checks.mtaSts.policy && (
+                        <span className={cn('text-xs', covered ? 'text-green-400' : 'text-orange-400')}>
+                          {covered ? 'Covered by policy' : 'Not in policy'}
+                        </span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <div className="card">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="font-semibold flex items-center gap-2">
+                <BadgeCheck size={18} className="text-[#7c3aed]" />
+                Certificate Authorities
+              </h3>
+              <span className="font-mono text-xs text-[#71717a]">
+                {result.checks.caa.relevantName ? `CAA at ${result.checks.caa.relevantName}` : 'no CAA records'}
+              </span>
+            </div>
+
+            {result.checks.caa.error && (
+              <p className="mb-3 text-xs text-yellow-400">{result.checks.caa.error}</p>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              {([
+                ['Certificates', describePermission(result.checks.caa.issue)],
+                ['Wildcards', describePermission(result.checks.caa.issueWild)],
+                ['Incident Reports', result.checks.caa.iodef.join(', ') || 'not configured'],
+              ] as const).map(([label, value]) => (
+                <div key={label} className="p-3 bg-[#1a1a24] rounded-lg">
+                  <div className="text-xs text-[#71717a] mb-1">{label}</div>
+                  <div className="font-mono text-sm text-[#f4f4f5] break-all">{value}</div>
+                </div>
+              ))}
+            </div>
+
+            {result.checks.caa.properties.length > 0 && (
+              <div className="mt-3 p-3 bg-[#1a1a24] rounded-lg font-mono text-xs text-[#a1a1aa] space-y-1">
+                {result.checks.caa.properties.map((property, idx) => (
+                  <div key={idx}>
+                    {property.flags} {property.tag} &quot;{property.value}&quot;
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {result.checks.delegation.nameservers.length > 0 && (
+            <div className="card">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="font-semibold flex items-center gap-2">
+                  <Network size={18} className="text-[#7c3aed]" />
+                  Delegation
+                </h3>
+                <span className="font-mono text-xs text-[#71717a]">
+                  {result.checks.delegation.parentZone ? `delegated from ${result.checks.delegation.parentZone}` : 'parent unknown'}
+                </span>
+              </div>
+
+              {!result.checks.delegation.reachable && (
+                <p className="mb-3 text-xs text-yellow-400">
+                  No nameserver answered a direct query, so lame delegation, serial and recursion checks were skipped.
+                </p>
+              )}
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-[#71717a] uppercase tracking-wide border-b border-[#27272a]">
+                      <th className="py-2 pr-4 font-medium">Nameserver</th>
+                      <th className="py-2 pr-4 font-medium">Listed In</th>
+                      <th className="py-2 pr-4 font-medium">Addresses</th>
+                      <th className="py-2 pr-4 font-medium">Serial</th>
+                      <th className="py-2 font-medium">ASN</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.checks.delegation.nameservers.map((ns) => (
+                      <tr key={ns.name} className="border-b border-[#27272a] last:border-0 align-top">
+                        <td className="py-2 pr-4 font-mono text-[#f4f4f5]">{ns.name}</td>
+                        <td className="py-2 pr-4 text-xs">
+                          <span className={ns.inParent ? 'text-green-400' : 'text-[#71717a] line-through'}>parent</span>
+                          {' / '}
+                          <span className={ns.inChild ? 'text-green-400' : 'text-[#71717a] line-through'}>zone</span>
+                        </td>
+                        <td className="py-2 pr-4 font-mono text-xs">
+                          {ns.probes.map((probe) => (
+                            <div
+                              key={probe.address}
+                              className={cn(
+                                probe.authoritative ? 'text-[#00d4aa]' : probe.responded ? 'text-orange-400' : 'text-[#71717a]'
+                              )}
+                              title={probe.error}
+                            >
+                              {probe.address}
+                              {ns.glue.includes(probe.address) && ' (glue)'}
+                              {probe.openRecursion && <span className="text-red-400"> open resolver</span>}
+                            </div>
+                          ))}
+                        </td>
+                        <td className="py-2 pr-4 font-mono text-xs text-[#a1a1aa]">
+                          {[...new Set(ns.probes.map((p) => p.serial).filter((serial) => serial !== undefined))].join(', ') || '—'}
+                        </td>
+                        <td className="py-2 text-xs text-[#a1a1aa]">{ns.asn ?? '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {result.checks.soa.record && (
+                <div className="mt-4 pt-4 border-t border-[#27272a]">
+                  <div className="text-xs text-[#71717a] uppercase tracking-wide mb-2">Start of Authority</div>
+                  <SOADetails soa={result.checks.soa.record} />
+                </div>
+              )}
+            </div>
+          )}
+
+          {result.checks.takeover.chains.length > 0 && (
+            <div className="card">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="font-semibold flex items-center gap-2">
+                  <Link2 size={18} className="text-[#7c3aed]" />
+                  CNAME Chains
+                </h3>
+                <span className="text-xs text-[#71717a]">
+                  {result.checks.takeover.scanned.length} names scanned
+                </span>
+              </div>
+
+              <div className="space-y-2">
+                {result.checks.takeover.chains.map((chain) => (
+                  <div key={chain.host} className="flex items-center justify-between gap-3 p-3 bg-[#1a1a24] rounded-lg">
+                    <div className="flex items-center gap-3 min-w-0">
+                      {chain.dangling ? (
+                        <XCircle size={16} className="text-red-500 flex-shrink-0" />
+                      ) : chain.error ? (
+                        <AlertCircle size={16} className="text-yellow-500 flex-shrink-0" />
+                      ) : chain.unclaimedPage ? (
+                        <Info size={16} className="text-[#7c3aed] flex-shrink-0" />
+                      ) : (
+                        <CheckCircle size={16} className="text-green-500 flex-shrink-0" />
+                      )}
+                      <div className="min-w-0">
+                        <span className="font-mono text-sm text-[#f4f4f5] break-all">{chain.chain.join(' → ')}</span>
+                        {!chain.dangling && chain.unclaimedPage && (
+                          <p className="text-xs text-[#71717a] mt-1">
+                            {chain.service} answers for unclaimed names; check that {chain.host} does not show &ldquo;{chain.unclaimedPage}&rdquo;
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2 text-xs flex-shrink-0">
+                      {chain.service && (
+                        <span className="px-2 py-0.5 bg-[#27272a] text-[#a1a1aa] rounded">{chain.service}</span>
+                      )}
+                      {chain.dangling && (
+                        <span className="px-2 py-0.5 bg-red-500/20 text-red-400 rounded font-mono">NXDOMAIN</span>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {result.checks.dnssec.chain.length > 0 && (
+            <div className="card">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="font-semibold flex items-center gap-2">
+                  <Lock size={18} className="text-[#7c3aed]" />
+                  DNSSEC Chain of Trust
+                </h3>
+                <div className="flex items-center gap-2 text-xs">
+                  <span className={cn(
+                    'px-2 py-0.5 rounded font-mono',
+                    result.checks.dnssec.adBit ? 'bg-green-500/20 text-green-400' : 'bg-[#1a1a24] text-[#71717a]'
+                  )}>
+                    AD {result.checks.dnssec.adBit ? 'set' : 'clear'}
+                  </span>
+                  {result.checks.dnssec.algorithms.map((algorithm) => (
+                    <span key={algorithm} className="px-2 py-0.5 bg-[#1a1a24] rounded font-mono text-[#a1a1aa]">
+                      {algorithm}
+                    </span>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {result.checks.dnssec.chain.map((link) => (
+                  <div key={link.zone} className="flex items-center justify-between p-3 bg-[#1a1a24] rounded-lg">
+                    <div className="flex items-center gap-3">
+                      {link.status === 'secure' ? (
+                        <CheckCircle size={16} className="text-green-500" />
+                      ) : link.status === 'bogus' ? (
+                        <XCircle size={16} className="text-red-500" />
+                      ) : (
+                        <AlertCircle size={16} className="text-yellow-500" />
+                      )}
+                      <span className="font-mono text-sm text-[#f4f4f5]">{link.zone}</span>
+                    </div>
+                    <span className="text-xs text-[#71717a] text-right">{link.message}</span>
+                  </div>
+                ))}
+              </div>
+
+              {result.checks.dnssec.signatureExpiration && (
+                <p className="mt-3 text-xs text-[#71717a]">
+                  Earliest RRSIG expiration: {new Date(result.checks.dnssec.signatureExpiration).toLocaleString()}
+                </p>
+              )}
+            </div>
+          )}
+
           {result.issues.length > 0 && (
             <div className="card">
               <h3 className="font-semibold mb-4 flex items-center gap-2">
@@ -227,6 +755,12 @@ export function AttackSurfaceTool() {
   );
 }
 
+function describePermission(permission: CAAPermission): string {
+  if (!permission.restricted) return 'any CA';
+  if (permission.issuers.length === 0) return 'no CA';
+  return permission.issuers.map((issuer) => issuer.name ?? issuer.domain).join(', ');
+}
+
 function CheckCheck({ label, status }: { label: string; status: 'valid' | 'invalid' | 'missing' | 'warning' }) {
   return (
     <div className={cn(
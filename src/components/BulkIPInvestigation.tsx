@@ -0,0 +1,308 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, Download, Globe, List, Search, Square, AlertTriangle } from 'lucide-react';
+import { cn, downloadFile } from '@/lib/utils';
+import { compareIP, parseIP } from '@/lib/ip';
+import { getIPProvider, type IPIntelligenceProvider } from '@/lib/ip-intel';
+import { intelPoint } from '@/lib/geo';
+import {
+  bulkResultsToCSV,
+  bulkResultsToJSON,
+  describeFlags,
+  groupBulkResults,
+  investigateIPs,
+  parseBulkTargets,
+  DEFAULT_BULK_CONCURRENCY,
+  DEFAULT_BULK_RATE,
+  MAX_BULK_ADDRESSES,
+  type BulkGroupKey,
+  type BulkIPResult,
+} from '@/lib/bulk-ip';
+import { GeoMap } from '@/components/GeoMap';
+
+type SortKey = 'ip' | 'country' | 'asn' | 'org' | 'flags';
+
+const COLUMNS: Array<{ key: SortKey; label: string }> = [
+  { key: 'ip', label: 'IP' },
+  { key: 'country', label: 'Country' },
+  { key: 'asn', label: 'ASN' },
+  { key: 'org', label: 'Organization' },
+  { key: 'flags', label: 'Flags' },
+];
+
+const GROUPS: Array<{ key: BulkGroupKey | 'none'; label: string }> = [
+  { key: 'none', label: 'No grouping' },
+  { key: 'asn', label: 'Group by ASN' },
+  { key: 'country', label: 'Group by country' },
+  { key: 'flags', label: 'Group by hosting/proxy' },
+];
+
+function sortValue(result: BulkIPResult, key: SortKey): string {
+  if (key === 'flags') return describeFlags(result);
+  if (key === 'country') return result.data?.country ?? '';
+  if (key === 'org') return result.data?.org ?? '';
+  // Numeric ASN order, padded so string comparison works
+  if (key === 'asn') return result.data?.asn.match(/^AS(\d+)/i)?.[1].padStart(10, '0') ?? '';
+  return result.ip;
+}
+
+function compareResults(a: BulkIPResult, b: BulkIPResult, key: SortKey): number {
+  if (key === 'ip') return compareIP(parseIP(a.ip) ?? new Uint8Array(), parseIP(b.ip) ?? new Uint8Array());
+  return sortValue(a, key).localeCompare(sortValue(b, key)) || compareResults(a, b, 'ip');
+}
+
+function FlagChips({ result }: { result: BulkIPResult }) {
+  if (result.special) {
+    return <span className="px-2 py-0.5 rounded text-xs bg-orange-500/10 text-orange-400">{result.special.name}</span>;
+  }
+  if (!result.data) {
+    return <span className="text-xs text-red-400">{result.errors.map((e) => e.message).join('; ') || 'No data'}</span>;
+  }
+  return (
+    <span className="flex flex-wrap gap-1">
+      {result.data.isHosting && <span className="px-2 py-0.5 rounded text-xs bg-blue-500/10 text-blue-400">Hosting</span>}
+      {result.data.isProxy && <span className="px-2 py-0.5 rounded text-xs bg-orange-500/10 text-orange-400">Proxy/VPN</span>}
+      {result.data.isMobile && <span className="px-2 py-0.5 rounded text-xs bg-green-500/10 text-green-400">Mobile</span>}
+      {!result.data.isHosting && !result.data.isProxy && !result.data.isMobile && <span className="text-xs text-[#71717a]">—</span>}
+    </span>
+  );
+}
+
+interface BulkIPInvestigationProps {
+  providerIds: string[];
+  onSingleLookup: () => void;
+}
+
+export function BulkIPInvestigation({ providerIds, onSingleLookup }: BulkIPInvestigationProps) {
+  const [input, setInput] = useState('');
+  const [concurrency, setConcurrency] = useState(DEFAULT_BULK_CONCURRENCY);
+  const [rate, setRate] = useState(DEFAULT_BULK_RATE);
+  const [results, setResults] = useState<BulkIPResult[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const [groupBy, setGroupBy] = useState<BulkGroupKey | 'none'>('none');
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'ip', descending: false });
+  const controller = useRef<AbortController | null>(null);
+
+  const providers = providerIds.map(getIPProvider).filter((p): p is IPIntelligenceProvider => !!p);
+
+  const handleInvestigate = async () => {
+    const { addresses, errors } = parseBulkTargets(input);
+    setWarnings(errors);
+    if (addresses.length === 0) {
+      setError(`Enter up to ${MAX_BULK_ADDRESSES} IP addresses or CIDR blocks`);
+      return;
+    }
+
+    controller.current = new AbortController();
+    setError(null);
+    setResults([]);
+    setProgress({ done: 0, total: addresses.length });
+    setRunning(true);
+
+    try {
+      await investigateIPs(addresses, {
+        providers,
+        concurrency,
+        ratePerMinute: rate,
+        signal: controller.current.signal,
+        onResult: (result) => setResults((current) => [...current, result]),
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleSort = (key: SortKey) => {
+    setSort((current) => ({ key, descending: current.key === key && !current.descending }));
+  };
+
+  const sorted = [...results].sort((a, b) => compareResults(a, b, sort.key) * (sort.descending ? -1 : 1));
+  const groups = groupBy === 'none' ? [{ key: 'all', label: '', results: sorted }] : groupBulkResults(sorted, groupBy);
+  const stamp = new Date().toISOString().slice(0, 10);
+  const located = sorted.flatMap((result) => (result.data && result.sources.lat ? [intelPoint(result.data)] : []));
+
+  return (
+    <div className="space-y-6">
+      <div className="card">
+        <h2 className="text-xl font-semibold mb-4 flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <List className="text-[#00d4aa]" size={20} />
+            Bulk IP Investigation
+          </span>
+          <button onClick={onSingleLookup} className="btn-secondary flex items-center gap-2 text-xs font-normal">
+            <Globe size={14} />
+            Single lookup
+          </button>
+        </h2>
+
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          rows={6}
+          placeholder={'203.0.113.7\n198.51.100.0/28\n2001:db8::1  # comments are ignored'}
+          className="w-full px-4 py-2.5 bg-[#1a1a24] border border-[#27272a] rounded-lg text-[#f4f4f5] placeholder-[#71717a] font-mono text-sm focus:border-[#00d4aa] transition-colors"
+        />
+
+        <div className="mt-3 flex flex-col sm:flex-row sm:items-center gap-3 text-sm">
+          <label className="flex items-center gap-2 text-[#71717a]">
+            Parallel
+            <select
+              value={concurrency}
+              onChange={(e) => setConcurrency(Number(e.target.value))}
+              disabled={running}
+              className="px-3 py-2 bg-[#1a1a24] border border-[#27272a] rounded-lg text-[#f4f4f5] font-mono text-sm"
+            >
+              {[1, 2, 4, 8].map((n) => (
+                <option key={n} value={n}>{n}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex items-center gap-2 text-[#71717a]">
+            Lookups/min
+            <input
+              type="number"
+              min={1}
+              max={600}
+              value={rate}
+              onChange={(e) => setRate(Math.max(1, Number(e.target.value) || DEFAULT_BULK_RATE))}
+              disabled={running}
+              className="w-24 px-3 py-2 bg-[#1a1a24] border border-[#27272a] rounded-lg text-[#f4f4f5] font-mono text-sm"
+            />
+          </label>
+
+          <span className="text-xs text-[#71717a] flex-1">
+            {providers.map((p) => p.label).join(', ') || 'No providers selected'}
+          </span>
+
+          {running ? (
+            <button onClick={() => controller.current?.abort()} className="btn-secondary flex items-center justify-center gap-2">
+              <Square size={16} />
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={handleInvestigate}
+              disabled={providers.length === 0}
+              className={cn('btn-primary flex items-center justify-center gap-2', providers.length === 0 && 'opacity-50 cursor-not-allowed')}
+            >
+              <Search size={16} />
+              Investigate
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="mt-3 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm">
+            {error}
+          </div>
+        )}
+
+        {warnings.length > 0 && (
+          <ul className="mt-3 p-3 bg-yellow-500/10 rounded-lg text-yellow-400 text-sm space-y-1">
+            {warnings.map((warning) => (
+              <li key={warning} className="flex items-center gap-2">
+                <AlertTriangle size={14} className="flex-shrink-0" />
+                {warning}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <p className="mt-2 text-xs text-[#71717a]">
+          Up to {MAX_BULK_ADDRESSES} addresses per run; special-purpose addresses are classified without querying providers
+        </p>
+      </div>
+
+      {progress && (
+        <div className="card animate-fade-in">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+            <p className="text-xs text-[#71717a] flex items-center gap-2">
+              {running && <span className="spinner" />}
+              {progress.done}/{progress.total} addresses investigated
+            </p>
+
+            <div className="flex items-center gap-2">
+              <select
+                value={groupBy}
+                onChange={(e) => setGroupBy(e.target.value as BulkGroupKey | 'none')}
+                title="Grouping"
+                className="px-3 py-2 bg-[#1a1a24] border border-[#27272a] rounded-lg text-[#f4f4f5] text-xs"
+              >
+                {GROUPS.map((group) => (
+                  <option key={group.key} value={group.key}>{group.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => downloadFile(`ip-investigation-${stamp}.csv`, bulkResultsToCSV(sorted), 'text/csv')}
+                disabled={results.length === 0}
+                className="btn-secondary flex items-center gap-2 text-xs"
+              >
+                <Download size={12} />
+                CSV
+              </button>
+              <button
+                onClick={() => downloadFile(`ip-investigation-${stamp}.json`, bulkResultsToJSON(sorted), 'application/json')}
+                disabled={results.length === 0}
+                className="btn-secondary flex items-center gap-2 text-xs"
+              >
+                <Download size={12} />
+                JSON
+              </button>
+            </div>
+          </div>
+
+          {results.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-[#71717a] uppercase tracking-wide border-b border-[#27272a]">
+                    {COLUMNS.map((column) => (
+                      <th key={column.key} className="py-2 pr-4 font-medium">
+                        <button onClick={() => handleSort(column.key)} className="flex items-center gap-1 uppercase hover:text-[#f4f4f5]">
+                          {column.label}
+                          {sort.key === column.key && (sort.descending ? <ArrowDown size={12} /> : <ArrowUp size={12} />)}
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {groups.map((group) => [
+                    group.label ? (
+                      <tr key={`group-${group.key}`} className="bg-[#1a1a24]">
+                        <td colSpan={COLUMNS.length} className="py-2 px-2 text-xs text-[#a1a1aa]">
+                          {group.label} <span className="text-[#71717a]">({group.results.length})</span>
+                        </td>
+                      </tr>
+                    ) : null,
+                    ...group.results.map((result) => (
+                      <tr key={`${group.key}-${result.ip}`} className="border-b border-[#27272a] last:border-0 align-top">
+                        <td className="py-2 pr-4 font-mono text-[#f4f4f5]">{result.ip}</td>
+                        <td className="py-2 pr-4 text-[#a1a1aa]">
+                          {result.data?.countryCode ? `${result.data.country} (${result.data.countryCode})` : '—'}
+                        </td>
+                        <td className="py-2 pr-4 font-mono text-xs text-[#a1a1aa]">{result.data?.asn || '—'}</td>
+                        <td className="py-2 pr-4 text-[#a1a1aa]">{result.data?.org || result.data?.isp || '—'}</td>
+                        <td className="py-2"><FlagChips result={result} /></td>
+                      </tr>
+                    )),
+                  ])}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {progress && <GeoMap title="Address Locations" points={located} loading={running} />}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+'use client';
+
+import { useState } from 'react';
+import { Lock, Search, AlertTriangle, Globe } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  certificateStatus,
+  getCTSource,
+  listCTSources,
+  searchCertificates,
+  DEFAULT_CT_SOURCE_ID,
+  EXPIRY_WARNING_DAYS,
+  type CertificateStatus,
+  type CTSearchResult,
+} from '@/lib/ct';
+
+const STATUS_STYLES: Record<CertificateStatus, { label: string; className: string }> = {
+  valid: { label: 'Valid', className: 'bg-green-500/10 text-green-400' },
+  expiring: { label: 'Expiring', className: 'bg-yellow-500/10 text-yellow-400' },
+  expired: { label: 'Expired', className: 'bg-[#27272a] text-[#71717a]' },
+  'not-yet-valid': { label: 'Not Yet Valid', className: 'bg-blue-500/10 text-blue-400' },
+};
+
+const MAX_ROWS = 50;
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+interface CertificateTransparencyPanelProps {
+  domain: string;
+}
+
+export function CertificateTransparencyPanel({ domain }: CertificateTransparencyPanelProps) {
+  const [sourceId, setSourceId] = useState(DEFAULT_CT_SOURCE_ID);
+  const [result, setResult] = useState<CTSearchResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [showExpired, setShowExpired] = useState(false);
+
+  const handleSearch = async () => {
+    setLoading(true);
+    try {
+      setResult(await searchCertificates(domain, getCTSource(sourceId)));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const now = new Date();
+  const certificates = (result?.certificates ?? [])
+    .map((certificate) => ({ certificate, status: certificateStatus(certificate, now) }))
+    .filter(({ status }) => showExpired || status !== 'expired');
+  const expiring = certificates.filter(({ status }) => status === 'expiring');
+
+  return (
+    <div className="card animate-fade-in">
+      <h3 className="font-semibold mb-4 flex items-center gap-2">
+        <Lock size={16} className="text-[#7c3aed]" />
+        Certificate Transparency
+      </h3>
+
+      <div className="flex flex-col sm:flex-row gap-3 mb-4">
+        <select
+          value={sourceId}
+          onChange={(e) => setSourceId(e.target.value)}
+          title="CT log source"
+          className="px-4 py-2.5 bg-[#1a1a24] border border-[#27272a] rounded-lg text-[#f4f4f5] font-mono text-sm focus:border-[#00d4aa] transition-colors"
+        >
+          {listCTSources().map((source) => (
+            <option key={source.id} value={source.id}>{source.label}</option>
+          ))}
+        </select>
+
+        <button
+          onClick={handleSearch}
+          disabled={loading}
+          className={cn('btn-secondary flex items-center justify-center gap-2', loading && 'opacity-50 cursor-not-allowed')}
+        >
+          {loading ? <div className="spinner" /> : <Search size={16} />}
+          Search CT Logs for {domain}
+        </button>
+      </div>
+
+      {result?.error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm">
+          {result.error}
+        </div>
+      )}
+
+      {result && !result.error && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-3 text-xs text-[#71717a]">
+            <span>
+              {result.certificates.length} certificate{result.certificates.length !== 1 ? 's' : ''} logged,{' '}
+              {result.subdomains.length} subdomain{result.subdomains.length !== 1 ? 's' : ''} discovered
+            </span>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={showExpired} onChange={(e) => setShowExpired(e.target.checked)} />
+              Show expired
+            </label>
+          </div>
+
+          {expiring.length > 0 && (
+            <div className="p-3 mb-3 rounded-lg bg-yellow-500/10 text-yellow-400 text-sm flex items-center gap-2">
+              <AlertTriangle size={16} />
+              {expiring.length} certificate{expiring.length !== 1 ? 's expire' : ' expires'} within {EXPIRY_WARNING_DAYS} days
+            </div>
+          )}
+
+          {certificates.length > 0 && (
+            <div className="overflow-x-auto mb-4">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-[#71717a] uppercase tracking-wide border-b border-[#27272a]">
+                    <th className="py-2 pr-4 font-medium">Names</th>
+                    <th className="py-2 pr-4 font-medium">Issuer</th>
+                    <th className="py-2 pr-4 font-medium">Valid</th>
+                    <th className="py-2 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {certificates.slice(0, MAX_ROWS).map(({ certificate, status }) => (
+                    <tr key={certificate.id} className="border-b border-[#27272a] last:border-0 align-top">
+                      <td className="py-2 pr-4 font-mono text-xs text-[#f4f4f5] break-all">
+                        {certificate.names.slice(0, 3).join(', ')}
+                        {certificate.names.length > 3 && (
+                          <span className="text-[#71717a]" title={certificate.names.join('\n')}>
+                            {' '}+{certificate.names.length - 3} more
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-xs text-[#a1a1aa]" title={certificate.issuerName}>{certificate.issuer}</td>
+                      <td className="py-2 pr-4 font-mono text-xs text-[#a1a1aa] whitespace-nowrap">
+                        {isoDate(certificate.notBefore)} → {isoDate(certificate.notAfter)}
+                      </td>
+                      <td className="py-2">
+                        <span className={cn('px-2 py-0.5 rounded text-xs', STATUS_STYLES[status].className)}>
+                          {STATUS_STYLES[status].label}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {certificates.length > MAX_ROWS && (
+                <p className="mt-2 text-xs text-[#71717a]">Showing the {MAX_ROWS} most recent of {certificates.length}.</p>
+              )}
+            </div>
+          )}
+
+          {result.subdomains.length > 0 && (
+            <div>
+              <h4 className="text-xs text-[#71717a] uppercase tracking-wide mb-2 flex items-center gap-2">
+                <Globe size={12} />
+                Discovered Subdomains
+              </h4>
+              <div className="flex flex-wrap gap-2">
+                {result.subdomains.map((name) => (
+                  <span key={name} className="px-2 py-1 bg-[#1a1a24] rounded font-mono text-xs text-[#00d4aa]">
+                    {name}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
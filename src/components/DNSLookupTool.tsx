@@ -1,11 +1,149 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { Search, Copy, Clock, History, Trash2, Check, AlertCircle } from 'lucide-react';
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import { Search, Copy, Clock, History, Trash2, Check, AlertCircle, ArrowUp, ArrowDown } from 'lucide-react';
 import { cn, copyToClipboard, formatRelativeTime, isValidDomain } from '@/lib/utils';
-import { lookupDNS, type RecordType, type DNSLookupResult } from '@/lib/dns';
+import { lookupDNS, type RecordType, type DNSLookupResult, type DNSRecord } from '@/lib/dns';
+import type { RecordData } from '@/lib/records';
+import { getResolver, DEFAULT_RESOLVER_ID } from '@/lib/resolver';
+import { ResolverSelect } from '@/components/ResolverSelect';
+import { SOADetails } from '@/components/SOADetails';
 
-const RECORD_TYPES: RecordType[] = ['A', 'AAAA', 'MX', 'TXT', 'CNAME', 'NS', 'SOA', 'PTR', 'SRV'];
+const RECORD_TYPES: RecordType[] = [
+  'A', 'AAAA', 'MX', 'TXT', 'CNAME', 'NS', 'SOA', 'PTR', 'SRV',
+  'CAA', 'HTTPS', 'SVCB', 'TLSA', 'DS', 'DNSKEY', 'NAPTR', 'SSHFP', 'LOC', 'HINFO',
+];
+
+const FIELD_LABELS: Record<RecordType, string[]> = {
+  A: ['Address'],
+  AAAA: ['Address'],
+  CNAME: ['Target'],
+  NS: ['Nameserver'],
+  PTR: ['Target'],
+  MX: ['Priority', 'Exchange'],
+  SRV: ['Priority', 'Weight', 'Port', 'Target'],
+  TXT: ['Text'],
+  CAA: ['Flags', 'Tag', 'Value'],
+  SOA: ['Primary', 'Contact', 'Serial'],
+  HTTPS: ['Priority', 'Target', 'Params'],
+  SVCB: ['Priority', 'Target', 'Params'],
+  TLSA: ['Usage', 'Selector', 'Matching', 'Data'],
+  DS: ['Key Tag', 'Algorithm', 'Digest Type', 'Digest'],
+  DNSKEY: ['Flags', 'Algorithm', 'Public Key'],
+  NAPTR: ['Order', 'Pref', 'Flags', 'Services', 'Regexp', 'Replacement'],
+  SSHFP: ['Algorithm', 'Type', 'Fingerprint'],
+  LOC: ['Latitude', 'Longitude', 'Altitude'],
+  HINFO: ['CPU', 'OS'],
+};
+
+const MESSAGE_FLAGS = ['qr', 'aa', 'tc', 'rd', 'ra', 'ad', 'cd'] as const;
+
+type SortColumn = number | 'ttl';
+
+interface SortState {
+  column: SortColumn;
+  descending: boolean;
+}
+
+interface RecordRow {
+  record: DNSRecord;
+  // Undefined for records of another type in the answer, e.g. a CNAME ahead of the A records
+  fields?: Array<string | number>;
+}
+
+function recordFields(data: RecordData): Array<string | number> {
+  switch (data.type) {
+    case 'A':
+    case 'AAAA':
+      return [data.address];
+    case 'CNAME':
+    case 'NS':
+    case 'PTR':
+      return [data.target];
+    case 'MX':
+      return [data.priority, data.exchange];
+    case 'SRV':
+      return [data.priority, data.weight, data.port, data.target];
+    case 'TXT':
+      return [data.text];
+    case 'CAA':
+      return [data.critical ? `${data.flags} (critical)` : data.flags, data.tag, data.value];
+    case 'SOA':
+      return [data.mname, data.email, data.serial];
+    case 'SVCB':
+    case 'HTTPS':
+      return [
+        data.priority,
+        data.target,
+        Object.entries(data.params).map(([key, value]) => (value ? `${key}=${value}` : key)).join(' '),
+      ];
+    case 'TLSA':
+      return [data.usage, data.selector, data.matchingType, data.data];
+    case 'DS':
+      return [data.keyTag, data.algorithm, data.digestType, data.digest];
+    case 'DNSKEY':
+      return [data.flags === 257 ? `${data.flags} (KSK)` : data.flags, data.algorithm, data.publicKey];
+    case 'NAPTR':
+      return [data.order, data.preference, data.flags, data.services, data.regexp, data.replacement];
+    case 'SSHFP':
+      return [data.algorithm, data.fingerprintType, data.fingerprint];
+    case 'LOC':
+      return [Number(data.latitude.toFixed(6)), Number(data.longitude.toFixed(6)), `${data.altitude}m`];
+    case 'HINFO':
+      return [data.cpu, data.os];
+  }
+}
+
+function sortValue(row: RecordRow, column: SortColumn): string | number | undefined {
+  if (column === 'ttl') return row.record.ttl;
+  return row.fields?.[column];
+}
+
+function compareRows(a: RecordRow, b: RecordRow, { column, descending }: SortState): number {
+  const left = sortValue(a, column);
+  const right = sortValue(b, column);
+  // Rows without parsed fields stay at the bottom in either direction
+  if (left === undefined || right === undefined) return left === undefined ? (right === undefined ? 0 : 1) : -1;
+  const order = typeof left === 'number' && typeof right === 'number'
+    ? left - right
+    : String(left).localeCompare(String(right), undefined, { numeric: true });
+  return descending ? -order : order;
+}
+
+function SortButton({
+  label,
+  column,
+  sort,
+  onSort,
+}: {
+  label: string;
+  column: SortColumn;
+  sort: SortState | null;
+  onSort: (column: SortColumn) => void;
+}) {
+  const active = sort?.column === column;
+  return (
+    <button
+      onClick={() => onSort(column)}
+      className={cn('flex items-center gap-1 uppercase hover:text-[#f4f4f5] transition-colors', active && 'text-[#00d4aa]')}
+    >
+      {label}
+      {active && (sort.descending ? <ArrowDown size={12} /> : <ArrowUp size={12} />)}
+    </button>
+  );
+}
+
+function TXTChunks({ chunks }: { chunks: string[] }) {
+  return (
+    <span className="flex flex-wrap gap-1">
+      {chunks.map((chunk, idx) => (
+        <span key={idx} title={`String ${idx + 1} of ${chunks.length} (${chunk.length} characters)`} className="px-1 bg-[#0a0a0f] rounded">
+          {chunk}
+        </span>
+      ))}
+    </span>
+  );
+}
 
 interface HistoryItem {
   id: string;
@@ -17,11 +155,13 @@ interface HistoryItem {
 export function DNSLookupTool() {
   const [domain, setDomain] = useState('');
   const [recordType, setRecordType] = useState<RecordType>('A');
+  const [resolverId, setResolverId] = useState(DEFAULT_RESOLVER_ID);
   const [result, setResult] = useState<DNSLookupResult | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [history, setHistory] = useState<HistoryItem[]>([]);
   const [copied, setCopied] = useState(false);
+  const [sort, setSort] = useState<SortState | null>(null);
 
   useEffect(() => {
     const saved = localStorage.getItem('dns-history');
@@ -55,9 +195,10 @@ export function DNSLookupTool() {
     setError(null);
     setLoading(true);
     setResult(null);
+    setSort(null);
 
     try {
-      const lookupResult = await lookupDNS(cleanDomain, recordType);
+      const lookupResult = await lookupDNS(cleanDomain, recordType, getResolver(resolverId));
       setResult(lookupResult);
       
       if (!lookupResult.error) {
@@ -87,6 +228,20 @@ export function DNSLookupTool() {
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const toggleSort = (column: SortColumn) => {
+    setSort((current) => ({
+      column,
+      descending: current?.column === column ? !current.descending : false,
+    }));
+  };
+
+  const fieldLabels = result ? FIELD_LABELS[result.recordType] : [];
+  const rows: RecordRow[] = (result?.records ?? []).map((record) => ({
+    record,
+    fields: record.data && record.data.type === result?.recordType ? recordFields(record.data) : undefined,
+  }));
+  const sortedRecords = sort ? [...rows].sort((a, b) => compareRows(a, b, sort)) : rows;
+
   const clearHistory = () => {
     setHistory([]);
     localStorage.removeItem('dns-history');
@@ -119,6 +274,8 @@ export function DNSLookupTool() {
               <option key={type} value={type}>{type}</option>
             ))}
           </select>
+
+          <ResolverSelect value={resolverId} onChange={setResolverId} />
           
           <button
             onClick={handleLookup}
@@ -180,39 +337,99 @@ export function DNSLookupTool() {
               <p className="text-red-400 text-sm">{result.error}</p>
             </div>
           ) : result.records.length > 0 ? (
-            <div className="space-y-2">
-              {result.records.map((record, idx) => (
-                <div
-                  key={idx}
-                  className="flex items-center justify-between p-3 bg-[#1a1a24] rounded-lg group"
-                >
-                  <div className="flex items-center gap-4">
-                    <span className="font-mono text-xs text-[#71717a] w-16">
-                      {record.type}
-                    </span>
-                    <span className="font-mono text-sm text-[#f4f4f5] break-all">
-                      {record.type === 'MX' ? `${record.priority} ${record.value}` : record.value}
-                    </span>
-                  </div>
-                  <div className="flex items-center gap-3">
-                    <span className="font-mono text-xs text-[#71717a]">
-                      TTL: {record.ttl}
-                    </span>
-                    <button
-                      onClick={() => handleCopy(record.value)}
-                      className="p-1.5 rounded hover:bg-[#27272a] text-[#71717a] hover:text-[#f4f4f5] transition-colors opacity-0 group-hover:opacity-100"
-                    >
-                      {copied ? <Check size={14} /> : <Copy size={14} />}
-                    </button>
-                  </div>
-                </div>
-              ))}
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-[#71717a] uppercase tracking-wide border-b border-[#27272a]">
+                    <th className="py-2 pr-4 font-medium">Type</th>
+                    {fieldLabels.map((label, column) => (
+                      <th key={label} className="py-2 pr-4 font-medium">
+                        <SortButton label={label} column={column} sort={sort} onSort={toggleSort} />
+                      </th>
+                    ))}
+                    <th className="py-2 pr-4 font-medium">
+                      <SortButton label="TTL" column="ttl" sort={sort} onSort={toggleSort} />
+                    </th>
+                    <th className="py-2 w-8" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {sortedRecords.map(({ record, fields }, idx) => (
+                    <Fragment key={idx}>
+                      <tr className={cn('group', record.data?.type !== 'SOA' && 'border-b border-[#27272a] last:border-0')}>
+                        <td className="py-2 pr-4 font-mono text-xs text-[#71717a]">{record.type}</td>
+                        {fields ? (
+                          fields.map((field, column) => (
+                            <td key={column} className="py-2 pr-4 font-mono text-[#f4f4f5] break-all">
+                              {record.data?.type === 'TXT' && record.data.chunks.length > 1 ? (
+                                <TXTChunks chunks={record.data.chunks} />
+                              ) : (
+                                field
+                              )}
+                            </td>
+                          ))
+                        ) : (
+                          <td colSpan={fieldLabels.length} className="py-2 pr-4 font-mono text-[#a1a1aa] break-all">
+                            {record.value}
+                          </td>
+                        )}
+                        <td className="py-2 pr-4 font-mono text-xs text-[#71717a]">{record.ttl}</td>
+                        <td className="py-2 text-right">
+                          <button
+                            onClick={() => handleCopy(record.value)}
+                            title="Copy raw value"
+                            className="p-1.5 rounded hover:bg-[#27272a] text-[#71717a] hover:text-[#f4f4f5] transition-colors opacity-0 group-hover:opacity-100"
+                          >
+                            {copied ? <Check size={14} /> : <Copy size={14} />}
+                          </button>
+                        </td>
+                      </tr>
+                      {record.data?.type === 'SOA' && (
+                        <tr className="border-b border-[#27272a] last:border-0">
+                          <td colSpan={fieldLabels.length + 3} className="pb-3">
+                            <SOADetails soa={record.data} />
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
             </div>
           ) : (
             <div className="p-4 bg-[#1a1a24] rounded-lg text-center text-[#71717a]">
               No {recordType} records found
             </div>
           )}
+
+          {result.message && (
+            <div className="mt-4 pt-4 border-t border-[#27272a] space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs text-[#71717a]">Flags</span>
+                {MESSAGE_FLAGS.filter((flag) => result.message!.flags[flag]).map((flag) => (
+                  <span key={flag} className="px-1.5 py-0.5 bg-[#1a1a24] rounded text-xs font-mono text-[#7c3aed] uppercase">
+                    {flag}
+                  </span>
+                ))}
+              </div>
+
+              {(['authority', 'additional'] as const).map((section) => result.message![section].length > 0 && (
+                <div key={section}>
+                  <div className="text-xs text-[#71717a] uppercase tracking-wide mb-1">{section}</div>
+                  <div className="space-y-1">
+                    {result.message![section].map((record, idx) => (
+                      <div key={idx} className="flex items-center gap-4 px-3 py-2 bg-[#1a1a24] rounded-lg font-mono text-xs">
+                        <span className="text-[#71717a] w-16">{record.type}</span>
+                        <span className="text-[#a1a1aa]">{record.name}</span>
+                        <span className="text-[#f4f4f5] break-all flex-1">{record.data}</span>
+                        <span className="text-[#71717a]">TTL: {record.ttl}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       )}
 
@@ -0,0 +1,148 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Map as MapIcon } from 'lucide-react';
+import * as d3 from 'd3';
+import { feature } from 'topojson-client';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+import land110m from 'world-atlas/land-110m.json';
+import { clusterPoints, type GeoCluster, type GeoPoint } from '@/lib/geo';
+
+// Natural Earth 1:110m land outline from world-atlas, bundled so the map needs no tile server
+const topology = land110m as unknown as Topology<{ land: GeometryCollection }>;
+const LAND = feature(topology, topology.objects.land);
+
+const MAX_TOOLTIP_POINTS = 8;
+const TOOLTIP_WIDTH = 260;
+
+interface GeoMapProps {
+  points: GeoPoint[];
+  title?: string;
+  // Set while the locations are still being looked up
+  loading?: boolean;
+}
+
+export function GeoMap({ points, title = 'Geolocation', loading }: GeoMapProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [hovered, setHovered] = useState<{ cluster: GeoCluster; style: React.CSSProperties } | null>(null);
+
+  const renderMap = useCallback(() => {
+    if (!svgRef.current || !containerRef.current) return;
+
+    const width = containerRef.current.clientWidth;
+    const height = Math.round(width * 0.5);
+    const projection = d3.geoNaturalEarth1().fitSize([width, height], { type: 'Sphere' });
+    const path = d3.geoPath(projection);
+
+    d3.select(svgRef.current).selectAll('*').remove();
+
+    const svg = d3.select(svgRef.current)
+      .attr('width', width)
+      .attr('height', height)
+      .attr('viewBox', [0, 0, width, height]);
+
+    svg.append('path')
+      .datum({ type: 'Sphere' } as d3.GeoPermissibleObjects)
+      .attr('d', path)
+      .attr('fill', '#111118')
+      .attr('stroke', '#27272a');
+
+    svg.append('path')
+      .datum(d3.geoGraticule10())
+      .attr('d', path)
+      .attr('fill', 'none')
+      .attr('stroke', '#1f1f29')
+      .attr('stroke-width', 0.5);
+
+    svg.append('path')
+      .datum(LAND)
+      .attr('d', path)
+      .attr('fill', '#27272a')
+      .attr('stroke', '#3f3f46')
+      .attr('stroke-width', 0.5);
+
+    const clusters = clusterPoints(points, (point) => projection([point.lon, point.lat]));
+
+    const marker = svg.append('g')
+      .selectAll('g')
+      .data(clusters)
+      .join('g')
+      .attr('class', 'cursor-pointer')
+      .attr('transform', (d) => `translate(${d.x},${d.y})`)
+      .on('mouseenter', (_event, d) => setHovered({
+        cluster: d,
+        // Opens away from the nearest edges so the tooltip stays inside the map
+        style: {
+          width: TOOLTIP_WIDTH,
+          ...(d.x > width / 2 ? { right: width - d.x + 12 } : { left: d.x + 12 }),
+          ...(d.y > height / 2 ? { bottom: height - d.y + 12 } : { top: d.y + 12 }),
+        },
+      }))
+      .on('mouseleave', () => setHovered(null));
+
+    marker.append('circle')
+      .attr('r', (d) => (d.points.length > 1 ? 6 + Math.min(8, Math.sqrt(d.points.length) * 2) : 5))
+      .attr('fill', '#00d4aa')
+      .attr('fill-opacity', 0.8)
+      .attr('stroke', '#0a0a0f')
+      .attr('stroke-width', 2);
+
+    marker.filter((d) => d.points.length > 1)
+      .append('text')
+      .text((d) => d.points.length)
+      .attr('text-anchor', 'middle')
+      .attr('dy', '0.35em')
+      .attr('fill', '#0a0a0f')
+      .attr('font-size', '10px')
+      .attr('font-weight', 600)
+      .attr('font-family', 'JetBrains Mono, monospace');
+  }, [points]);
+
+  useEffect(() => {
+    renderMap();
+  }, [renderMap]);
+
+  useEffect(() => {
+    window.addEventListener('resize', renderMap);
+    return () => window.removeEventListener('resize', renderMap);
+  }, [renderMap]);
+
+  return (
+    <div className="card animate-fade-in">
+      <h3 className="font-semibold mb-4 flex items-center gap-2">
+        <MapIcon size={16} className="text-[#7c3aed]" />
+        {title}
+        {loading && <span className="spinner" />}
+        {!loading && points.length > 1 && <span className="text-xs font-normal text-[#71717a]">{points.length} addresses</span>}
+      </h3>
+
+      <div ref={containerRef} className="relative w-full bg-[#1a1a24] rounded-lg overflow-hidden">
+        <svg ref={svgRef} className="w-full block"></svg>
+
+        {hovered && (
+          <div
+            className="absolute pointer-events-none p-3 bg-[#0a0a0f]/95 border border-[#27272a] rounded-lg text-xs space-y-2"
+            style={hovered.style}
+          >
+            {hovered.cluster.points.slice(0, MAX_TOOLTIP_POINTS).map((point) => (
+              <div key={point.id}>
+                <div className="font-mono text-[#f4f4f5] break-all">{point.label}</div>
+                {point.details.filter(Boolean).map((detail) => (
+                  <div key={detail} className="text-[#a1a1aa]">{detail}</div>
+                ))}
+              </div>
+            ))}
+            {hovered.cluster.points.length > MAX_TOOLTIP_POINTS && (
+              <div className="text-[#71717a]">+{hovered.cluster.points.length - MAX_TOOLTIP_POINTS} more</div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {!loading && points.length === 0 && (
+        <p className="mt-3 text-xs text-[#71717a]">No provider returned coordinates for these addresses</p>
+      )}
+    </div>
+  );
+}
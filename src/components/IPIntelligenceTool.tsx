@@ -1,17 +1,73 @@
 'use client';
 
 import { useState } from 'react';
-import { Globe, Copy, Check, AlertCircle, MapPin, Building, Wifi, Shield, Smartphone } from 'lucide-react';
-import { cn, copyToClipboard, isValidIP } from '@/lib/utils';
-import { getIPIntelligence, type IPIntelligenceData } from '@/lib/dns';
+import { Globe, Copy, Check, AlertCircle, AlertTriangle, MapPin, Building, Wifi, Shield, Smartphone, ArrowLeftRight, Info, List } from 'lucide-react';
+import { cn, copyToClipboard } from '@/lib/utils';
+import { classifyIP, formatIP, parseIP, type IPCategory, type IPClassification } from '@/lib/ip';
+import {
+  getIPProvider,
+  listIPProviders,
+  lookupIPIntelligence,
+  DEFAULT_IP_PROVIDER_IDS,
+  type IPIntelligenceProvider,
+  type IPIntelligenceResult,
+  type IPProviderFailure,
+} from '@/lib/ip-intel';
+import { checkReverseDNS, type ReverseDNSCheck } from '@/lib/reverse-dns';
+import { lookupRDAPASN, lookupRDAPIP, type RDAPAutnum, type RDAPNetwork, type RDAPResult } from '@/lib/rdap';
+import { intelPoint } from '@/lib/geo';
+import { BulkIPInvestigation } from '@/components/BulkIPInvestigation';
+import { GeoMap } from '@/components/GeoMap';
+import { PortScanPanel } from '@/components/PortScanPanel';
+import { NetworkOwnershipCard } from '@/components/RDAPDetails';
+
+function describeFailure(failure: IPProviderFailure): string {
+  const label = getIPProvider(failure.provider)?.label ?? failure.provider;
+  const limit = failure.rateLimit;
+  const details = [
+    limit?.remaining !== undefined && `${limit.remaining} requests left`,
+    limit?.resetIn !== undefined && `retry in ${limit.resetIn}s`,
+  ].filter(Boolean);
+  return `${label}: ${failure.message}${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+}
+
+const CATEGORY_LABELS: Record<IPCategory, string> = {
+  private: 'Private',
+  loopback: 'Loopback',
+  'link-local': 'Link-Local',
+  cgnat: 'CGNAT',
+  documentation: 'Documentation',
+  multicast: 'Multicast',
+  bogon: 'Bogon',
+};
+
+function SourceTag({ source }: { source?: string }) {
+  if (!source) return null;
+  return (
+    <span className="px-1.5 py-0.5 bg-[#27272a] text-[#71717a] rounded text-[10px] font-mono">
+      {getIPProvider(source)?.label ?? source}
+    </span>
+  );
+}
 
 export function IPIntelligenceTool() {
   const [ip, setIP] = useState('');
-  const [result, setResult] = useState<IPIntelligenceData | null>(null);
+  const [intel, setIntel] = useState<IPIntelligenceResult | null>(null);
+  const [providerIds, setProviderIds] = useState<string[]>(DEFAULT_IP_PROVIDER_IDS);
+  const [bulk, setBulk] = useState(false);
+  const [reverse, setReverse] = useState<ReverseDNSCheck | null>(null);
+  const [special, setSpecial] = useState<(IPClassification & { ip: string }) | null>(null);
+  const [ownership, setOwnership] = useState<{ network: RDAPResult<RDAPNetwork>; autnum?: RDAPResult<RDAPAutnum> } | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
 
+  const loadOwnership = async (address: string, asn?: string) => {
+    setOwnership(null);
+    const [network, autnum] = await Promise.all([lookupRDAPIP(address), asn ? lookupRDAPASN(asn) : undefined]);
+    setOwnership({ network, autnum });
+  };
+
   const handleLookup = async () => {
     if (!ip.trim()) {
       setError('Please enter an IP address');
@@ -19,22 +75,34 @@ export function IPIntelligenceTool() {
     }
 
     const cleanIP = ip.trim();
+    const bytes = parseIP(cleanIP);
     
-    if (!isValidIP(cleanIP)) {
+    if (!bytes) {
       setError('Please enter a valid IP address');
       return;
     }
 
     setError(null);
+    setIntel(null);
+    setReverse(null);
+
+    // Special-purpose addresses have no geolocation or owner to look up
+    const classification = classifyIP(bytes);
+    setSpecial(classification && { ...classification, ip: formatIP(bytes) });
+    if (classification) return;
+
     setLoading(true);
-    setResult(null);
+
+    const providers = providerIds.map(getIPProvider).filter((p): p is IPIntelligenceProvider => !!p);
 
     try {
-      const data = await getIPIntelligence(cleanIP);
-      if (data) {
-        setResult(data);
-      } else {
+      const [data, reverseCheck] = await Promise.all([lookupIPIntelligence(cleanIP, providers), checkReverseDNS(cleanIP)]);
+      setIntel(data);
+      setReverse(reverseCheck);
+      if (!data.data) {
         setError('Failed to fetch IP intelligence data');
+      } else {
+        loadOwnership(cleanIP, data.data.asn || undefined);
       }
     } catch (err) {
       setError('Failed to lookup IP address');
@@ -49,18 +117,35 @@ export function IPIntelligenceTool() {
     }
   };
 
+  const toggleProvider = (id: string) => {
+    setProviderIds((ids) => (ids.includes(id) ? ids.filter((other) => other !== id) : [...ids, id]));
+  };
+
+  const result = intel?.data ?? null;
+  const sources = intel?.sources ?? {};
+
   const handleCopy = async (text: string) => {
     await copyToClipboard(text);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
+  if (bulk) {
+    return <BulkIPInvestigation providerIds={providerIds} onSingleLookup={() => setBulk(false)} />;
+  }
+
   return (
     <div className="space-y-6">
       <div className="card">
-        <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
-          <Globe className="text-[#00d4aa]" size={20} />
-          IP Intelligence
+        <h2 className="text-xl font-semibold mb-4 flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <Globe className="text-[#00d4aa]" size={20} />
+            IP Intelligence
+          </span>
+          <button onClick={() => setBulk(true)} className="btn-secondary flex items-center gap-2 text-xs font-normal">
+            <List size={14} />
+            Bulk mode
+          </button>
         </h2>
         
         <div className="flex flex-col sm:flex-row gap-3">
@@ -92,6 +177,28 @@ export function IPIntelligenceTool() {
           </button>
         </div>
 
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-[#71717a]">Providers:</span>
+          {listIPProviders().map((provider) => {
+            const position = providerIds.indexOf(provider.id);
+            return (
+              <button
+                key={provider.id}
+                onClick={() => toggleProvider(provider.id)}
+                title={position >= 0 ? `Priority ${position + 1} when merging fields` : 'Not queried'}
+                className={cn(
+                  'px-2 py-1 rounded border transition-colors',
+                  position >= 0
+                    ? 'border-[#00d4aa] text-[#00d4aa] bg-[#00d4aa]/10'
+                    : 'border-[#27272a] text-[#71717a] hover:text-[#f4f4f5]'
+                )}
+              >
+                {position >= 0 && `${position + 1}. `}{provider.label}
+              </button>
+            );
+          })}
+        </div>
+
         {error && (
           <div className="mt-3 p-3 bg-red-500/10 border border-red-500/30 rounded-lg flex items-center gap-2 text-red-400 text-sm">
             <AlertCircle size={16} />
@@ -99,11 +206,58 @@ export function IPIntelligenceTool() {
           </div>
         )}
 
+        {intel && intel.errors.length > 0 && (
+          <ul className="mt-3 p-3 bg-yellow-500/10 rounded-lg text-yellow-400 text-sm space-y-1">
+            {intel.errors.map((failure) => (
+              <li key={failure.provider} className="flex items-center gap-2">
+                <AlertTriangle size={14} className="flex-shrink-0" />
+                {describeFailure(failure)}
+              </li>
+            ))}
+          </ul>
+        )}
+
         <p className="mt-2 text-xs text-[#71717a]">
           Press Ctrl+Enter to lookup
         </p>
       </div>
 
+      {special && (
+        <div className="card animate-fade-in">
+          <h3 className="font-semibold mb-4 flex items-center gap-2">
+            <Info size={16} className="text-[#7c3aed]" />
+            Special-Purpose Address
+          </h3>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between p-3 bg-[#1a1a24] rounded-lg">
+              <span className="text-sm text-[#71717a]">IP Address</span>
+              <span className="font-mono text-sm text-[#f4f4f5]">{special.ip}</span>
+            </div>
+
+            <div className="flex items-center justify-between p-3 bg-[#1a1a24] rounded-lg">
+              <span className="text-sm text-[#71717a]">Category</span>
+              <span className="px-2 py-0.5 rounded text-xs bg-orange-500/10 text-orange-400">
+                {CATEGORY_LABELS[special.category]}
+              </span>
+            </div>
+
+            <div className="flex items-center justify-between p-3 bg-[#1a1a24] rounded-lg">
+              <span className="text-sm text-[#71717a]">Block</span>
+              <span className="text-sm text-[#f4f4f5]">
+                {special.name} · <span className="font-mono">{special.cidr}</span> · {special.rfc}
+              </span>
+            </div>
+
+            <p className="p-3 bg-[#1a1a24] rounded-lg text-sm text-[#a1a1aa]">
+              {special.description}
+              {special.mapped && ' The address is IPv4-mapped IPv6, so its embedded IPv4 address was classified.'}
+              {' '}Geolocation, ownership and port scans only apply to public addresses, so no providers were queried.
+            </p>
+          </div>
+        </div>
+      )}
+
       {result && (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 animate-fade-in">
           <div className="card">
@@ -132,27 +286,42 @@ export function IPIntelligenceTool() {
               </div>
 
               <div className="flex items-center justify-between p-3 bg-[#1a1a24] rounded-lg">
-                <span className="text-sm text-[#71717a]">Country</span>
+                <span className="text-sm text-[#71717a] flex items-center gap-2">
+                  Country
+                  <SourceTag source={sources.country} />
+                </span>
                 <span className="text-sm text-[#f4f4f5]">{result.country} ({result.countryCode})</span>
               </div>
 
               <div className="flex items-center justify-between p-3 bg-[#1a1a24] rounded-lg">
-                <span className="text-sm text-[#71717a]">Region</span>
+                <span className="text-sm text-[#71717a] flex items-center gap-2">
+                  Region
+                  <SourceTag source={sources.region} />
+                </span>
                 <span className="text-sm text-[#f4f4f5]">{result.region}</span>
               </div>
 
               <div className="flex items-center justify-between p-3 bg-[#1a1a24] rounded-lg">
-                <span className="text-sm text-[#71717a]">City</span>
+                <span className="text-sm text-[#71717a] flex items-center gap-2">
+                  City
+                  <SourceTag source={sources.city} />
+                </span>
                 <span className="text-sm text-[#f4f4f5]">{result.city}</span>
               </div>
 
               <div className="flex items-center justify-between p-3 bg-[#1a1a24] rounded-lg">
-                <span className="text-sm text-[#71717a]">Coordinates</span>
+                <span className="text-sm text-[#71717a] flex items-center gap-2">
+                  Coordinates
+                  <SourceTag source={sources.lat} />
+                </span>
                 <span className="font-mono text-sm text-[#f4f4f5]">{result.lat}, {result.lon}</span>
               </div>
 
               <div className="flex items-center justify-between p-3 bg-[#1a1a24] rounded-lg">
-                <span className="text-sm text-[#71717a]">Timezone</span>
+                <span className="text-sm text-[#71717a] flex items-center gap-2">
+                  Timezone
+                  <SourceTag source={sources.timezone} />
+                </span>
                 <span className="text-sm text-[#f4f4f5]">{result.timezone}</span>
               </div>
             </div>
@@ -166,21 +335,76 @@ export function IPIntelligenceTool() {
             
             <div className="space-y-3">
               <div className="flex items-center justify-between p-3 bg-[#1a1a24] rounded-lg">
-                <span className="text-sm text-[#71717a]">ISP</span>
+                <span className="text-sm text-[#71717a] flex items-center gap-2">
+                  ISP
+                  <SourceTag source={sources.isp} />
+                </span>
                 <span className="text-sm text-[#f4f4f5] text-right max-w-[200px]">{result.isp}</span>
               </div>
 
               <div className="flex items-center justify-between p-3 bg-[#1a1a24] rounded-lg">
-                <span className="text-sm text-[#71717a]">Organization</span>
+                <span className="text-sm text-[#71717a] flex items-center gap-2">
+                  Organization
+                  <SourceTag source={sources.org} />
+                </span>
                 <span className="text-sm text-[#f4f4f5] text-right max-w-[200px]">{result.org}</span>
               </div>
 
               <div className="flex items-center justify-between p-3 bg-[#1a1a24] rounded-lg">
-                <span className="text-sm text-[#71717a]">ASN</span>
+                <span className="text-sm text-[#71717a] flex items-center gap-2">
+                  ASN
+                  <SourceTag source={sources.asn} />
+                </span>
                 <span className="font-mono text-sm text-[#f4f4f5]">{result.asn}</span>
               </div>
             </div>
 
+            {reverse && (
+              <>
+                <h3 className="font-semibold mt-6 mb-4 flex items-center gap-2">
+                  <ArrowLeftRight size={16} className="text-[#7c3aed]" />
+                  Reverse DNS
+                </h3>
+
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between p-3 bg-[#1a1a24] rounded-lg">
+                    <span className="text-sm text-[#71717a]">Forward-Confirmed</span>
+                    <span className={cn(
+                      'text-sm font-medium',
+                      reverse.confirmed ? 'text-green-400' : 'text-orange-400'
+                    )}>
+                      {reverse.confirmed ? 'Yes' : 'No'}
+                    </span>
+                  </div>
+
+                  {reverse.error ? (
+                    <div className="p-3 bg-[#1a1a24] rounded-lg text-sm text-red-400">{reverse.error}</div>
+                  ) : reverse.names.length === 0 ? (
+                    <div className="p-3 bg-[#1a1a24] rounded-lg text-sm text-[#71717a]">
+                      No PTR record at <span className="font-mono break-all">{reverse.reverseName}</span>
+                    </div>
+                  ) : (
+                    reverse.names.map((ptr) => (
+                      <div key={ptr.name} className="p-3 bg-[#1a1a24] rounded-lg">
+                        <div className="flex items-center justify-between gap-3">
+                          <span className="font-mono text-sm text-[#f4f4f5] break-all">{ptr.name}</span>
+                          <span className={cn(
+                            'px-2 py-0.5 rounded text-xs flex-shrink-0',
+                            ptr.confirmed ? 'bg-green-500/10 text-green-400' : 'bg-orange-500/10 text-orange-400'
+                          )}>
+                            {ptr.confirmed ? 'Confirmed' : 'Mismatch'}
+                          </span>
+                        </div>
+                        <div className="mt-1 font-mono text-xs text-[#71717a] break-all">
+                          {ptr.error ?? (ptr.addresses.length > 0 ? `→ ${ptr.addresses.join(', ')}` : '→ no forward address')}
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </>
+            )}
+
             <h3 className="font-semibold mt-6 mb-4 flex items-center gap-2">
               <Shield size={16} className="text-[#7c3aed]" />
               Security Flags
@@ -191,6 +415,7 @@ export function IPIntelligenceTool() {
                 <span className="text-sm text-[#71717a] flex items-center gap-2">
                   <Smartphone size={14} />
                   Mobile Network
+                  <SourceTag source={sources.isMobile} />
                 </span>
                 <span className={cn(
                   'text-sm font-medium',
@@ -204,6 +429,7 @@ export function IPIntelligenceTool() {
                 <span className="text-sm text-[#71717a] flex items-center gap-2">
                   <Wifi size={14} />
                   Proxy/VPN
+                  <SourceTag source={sources.isProxy} />
                 </span>
                 <span className={cn(
                   'text-sm font-medium',
@@ -217,6 +443,7 @@ export function IPIntelligenceTool() {
                 <span className="text-sm text-[#71717a] flex items-center gap-2">
                   <Building size={14} />
                   Hosting Provider
+                  <SourceTag source={sources.isHosting} />
                 </span>
                 <span className={cn(
                   'text-sm font-medium',
@@ -229,6 +456,12 @@ export function IPIntelligenceTool() {
           </div>
         </div>
       )}
+
+      {result && sources.lat && <GeoMap key={result.ip} points={[intelPoint(result)]} />}
+
+      {result && <NetworkOwnershipCard ownership={ownership} onRetry={() => loadOwnership(result.ip, result.asn || undefined)} />}
+
+      {result && <PortScanPanel key={result.ip} ip={result.ip} />}
     </div>
   );
 }
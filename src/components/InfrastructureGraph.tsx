@@ -5,6 +5,11 @@ import { Network, ZoomIn, ZoomOut, Maximize2, Download, Loader2 } from 'lucide-r
 import * as d3 from 'd3';
 import { cn, isValidDomain } from '@/lib/utils';
 import { lookupDNS, type RecordType } from '@/lib/dns';
+import { getResolver, DEFAULT_RESOLVER_ID } from '@/lib/resolver';
+import { investigateIPs, type BulkIPResult } from '@/lib/bulk-ip';
+import { intelPoint } from '@/lib/geo';
+import { ResolverSelect } from '@/components/ResolverSelect';
+import { GeoMap } from '@/components/GeoMap';
 
 interface GraphNode {
   id: string;
@@ -21,12 +26,34 @@ interface GraphLink {
 
 export function InfrastructureGraph() {
   const [domain, setDomain] = useState('');
+  const [resolverId, setResolverId] = useState(DEFAULT_RESOLVER_ID);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [graphData, setGraphData] = useState<{ nodes: GraphNode[]; links: GraphLink[] } | null>(null);
+  const [locations, setLocations] = useState<BulkIPResult[] | null>(null);
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
+  const locationsAbort = useRef<AbortController | null>(null);
+
+  useEffect(() => () => locationsAbort.current?.abort(), []);
+
+  // Runs after the graph is drawn; a newer analysis aborts it so another
+  // domain's locations never replace the current ones
+  const loadLocations = async (addresses: string[]) => {
+    locationsAbort.current?.abort();
+    const controller = new AbortController();
+    locationsAbort.current = controller;
+    setLocations(null);
+
+    try {
+      const results = await investigateIPs(addresses, { signal: controller.signal });
+      if (!controller.signal.aborted) setLocations(results);
+    } catch {
+      if (!controller.signal.aborted) setLocations([]);
+    }
+  };
+
   const handleAnalyze = async () => {
     if (!domain.trim()) {
       setError('Please enter a domain');
@@ -43,26 +70,32 @@ export function InfrastructureGraph() {
     setError(null);
     setLoading(true);
     setGraphData(null);
+    locationsAbort.current?.abort();
 
     try {
       const nodes: GraphNode[] = [{ id: cleanDomain, type: 'domain', label: cleanDomain }];
       const links: GraphLink[] = [];
 
+      const resolver = getResolver(resolverId);
       const [aResult, aaaaResult, mxResult, nsResult, cnameResult] = await Promise.all([
-        lookupDNS(cleanDomain, 'A'),
-        lookupDNS(cleanDomain, 'AAAA'),
-        lookupDNS(cleanDomain, 'MX'),
-        lookupDNS(cleanDomain, 'NS'),
-        lookupDNS(cleanDomain, 'CNAME'),
+        lookupDNS(cleanDomain, 'A', resolver),
+        lookupDNS(cleanDomain, 'AAAA', resolver),
+        lookupDNS(cleanDomain, 'MX', resolver),
+        lookupDNS(cleanDomain, 'NS', resolver),
+        lookupDNS(cleanDomain, 'CNAME', resolver),
       ]);
 
-      aResult.records.forEach((record) => {
+      // Answers to A and AAAA queries also carry the CNAME records that led to them
+      const aRecords = aResult.records.filter((record) => record.type === 'A');
+      const aaaaRecords = aaaaResult.records.filter((record) => record.type === 'AAAA');
+
+      aRecords.forEach((record) => {
         const nodeId = `a-${record.value}`;
         nodes.push({ id: nodeId, type: 'a', label: record.value, value: record.value });
         links.push({ source: cleanDomain, target: nodeId, type: 'A' });
       });
 
-      aaaaResult.records.forEach((record) => {
+      aaaaRecords.forEach((record) => {
         const nodeId = `aaaa-${record.value}`;
         nodes.push({ id: nodeId, type: 'aaaa', label: record.value, value: record.value });
         links.push({ source: cleanDomain, target: nodeId, type: 'AAAA' });
@@ -87,6 +120,8 @@ export function InfrastructureGraph() {
       });
 
       setGraphData({ nodes, links });
+      const addresses = [...aRecords, ...aaaaRecords].map((record) => record.value);
+      if (addresses.length > 0) loadLocations(addresses);
     } catch (err) {
       setError('Failed to analyze infrastructure');
     } finally {
@@ -214,6 +249,9 @@ export function InfrastructureGraph() {
     return () => window.removeEventListener('resize', handleResize);
   }, [graphData, renderGraph]);
 
+  const addressCount = graphData?.nodes.filter((node) => node.type === 'a' || node.type === 'aaaa').length ?? 0;
+  const located = (locations ?? []).flatMap((result) => (result.data && result.sources.lat ? [intelPoint(result.data)] : []));
+
   return (
     <div className="space-y-6">
       <div className="card">
@@ -231,6 +269,8 @@ export function InfrastructureGraph() {
             placeholder="Enter domain (e.g., example.com)"
             className="flex-1 px-4 py-2.5 bg-[#1a1a24] border border-[#27272a] rounded-lg text-[#f4f4f5] placeholder-[#71717a] font-mono text-sm focus:border-[#00d4aa] transition-colors"
           />
+
+          <ResolverSelect value={resolverId} onChange={setResolverId} />
           
           <button
             onClick={handleAnalyze}
@@ -294,6 +334,8 @@ export function InfrastructureGraph() {
           </div>
         </div>
       )}
+
+      {addressCount > 0 && <GeoMap title="Address Locations" points={located} loading={!locations} />}
     </div>
   );
 }
@@ -0,0 +1,162 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Radar, Search, Square } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  parsePortList,
+  scanPorts,
+  MAX_CUSTOM_PORTS,
+  PORT_PROFILES,
+  type PortProfileId,
+  type PortScanResult,
+  type PortState,
+} from '@/lib/ports';
+
+const STATE_STYLES: Record<PortState, string> = {
+  open: 'bg-green-500/10 text-green-400',
+  closed: 'bg-[#27272a] text-[#71717a]',
+  filtered: 'bg-yellow-500/10 text-yellow-400',
+};
+
+interface PortScanPanelProps {
+  ip: string;
+}
+
+export function PortScanPanel({ ip }: PortScanPanelProps) {
+  const [profile, setProfile] = useState<PortProfileId | 'custom'>('web');
+  const [customPorts, setCustomPorts] = useState('');
+  const [results, setResults] = useState<PortScanResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [elapsed, setElapsed] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const controller = useRef<AbortController | null>(null);
+
+  const handleScan = async () => {
+    const ports = profile === 'custom' ? parsePortList(customPorts) : null;
+    if (profile === 'custom' && !ports) {
+      setError(`Enter 1 to ${MAX_CUSTOM_PORTS} port numbers separated by commas`);
+      return;
+    }
+
+    controller.current = new AbortController();
+    setScanning(true);
+    setError(null);
+    setResults([]);
+    setElapsed(null);
+
+    try {
+      await scanPorts(
+        ip,
+        ports ? { ports } : { profile: profile as PortProfileId },
+        (event) => {
+          if (event.type === 'start') setTotal(event.ports.length);
+          if (event.type === 'port') setResults((current) => [...current, event.result]);
+          if (event.type === 'done') setElapsed(event.elapsed);
+        },
+        controller.current.signal
+      );
+    } catch (err) {
+      if (!controller.current.signal.aborted) setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const sorted = [...results].sort((a, b) => a.port - b.port);
+  const open = results.filter((r) => r.state === 'open').length;
+
+  return (
+    <div className="card animate-fade-in">
+      <h3 className="font-semibold mb-4 flex items-center gap-2">
+        <Radar size={16} className="text-[#7c3aed]" />
+        Port Availability
+      </h3>
+
+      <div className="flex flex-col sm:flex-row gap-3 mb-4">
+        <select
+          value={profile}
+          onChange={(e) => setProfile(e.target.value as PortProfileId | 'custom')}
+          disabled={scanning}
+          title="Port profile"
+          className="px-4 py-2.5 bg-[#1a1a24] border border-[#27272a] rounded-lg text-[#f4f4f5] font-mono text-sm focus:border-[#00d4aa] transition-colors"
+        >
+          {Object.values(PORT_PROFILES).map((entry) => (
+            <option key={entry.id} value={entry.id}>
+              {entry.label} ({entry.ports.map((p) => p.port).join(', ')})
+            </option>
+          ))}
+          <option value="custom">Custom ports</option>
+        </select>
+
+        {profile === 'custom' && (
+          <input
+            type="text"
+            value={customPorts}
+            onChange={(e) => setCustomPorts(e.target.value)}
+            placeholder="22, 80, 443"
+            className="flex-1 px-4 py-2.5 bg-[#1a1a24] border border-[#27272a] rounded-lg text-[#f4f4f5] placeholder-[#71717a] font-mono text-sm focus:border-[#00d4aa] transition-colors"
+          />
+        )}
+
+        {scanning ? (
+          <button onClick={() => controller.current?.abort()} className="btn-secondary flex items-center justify-center gap-2">
+            <Square size={16} />
+            Stop
+          </button>
+        ) : (
+          <button onClick={handleScan} className="btn-secondary flex items-center justify-center gap-2">
+            <Search size={16} />
+            Scan {ip}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 mb-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      {(scanning || results.length > 0) && (
+        <p className="mb-3 text-xs text-[#71717a] flex items-center gap-2">
+          {scanning && <span className="spinner" />}
+          {results.length}/{total} ports checked, {open} open
+          {elapsed !== null && ` in ${(elapsed / 1000).toFixed(1)}s`}
+        </p>
+      )}
+
+      {sorted.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-[#71717a] uppercase tracking-wide border-b border-[#27272a]">
+                <th className="py-2 pr-4 font-medium">Port</th>
+                <th className="py-2 pr-4 font-medium">Service</th>
+                <th className="py-2 pr-4 font-medium">State</th>
+                <th className="py-2 pr-4 font-medium">Banner</th>
+                <th className="py-2 font-medium text-right">Time</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map((result) => (
+                <tr key={result.port} className="border-b border-[#27272a] last:border-0 align-top">
+                  <td className="py-2 pr-4 font-mono text-[#f4f4f5]">{result.port}</td>
+                  <td className="py-2 pr-4 font-mono text-xs text-[#a1a1aa]">{result.service}</td>
+                  <td className="py-2 pr-4">
+                    <span className={cn('px-2 py-0.5 rounded text-xs', STATE_STYLES[result.state])} title={result.error}>
+                      {result.state}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-4 font-mono text-xs text-[#a1a1aa] break-all">{result.banner ?? '—'}</td>
+                  <td className="py-2 font-mono text-xs text-[#71717a] text-right whitespace-nowrap">{result.responseTime}ms</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
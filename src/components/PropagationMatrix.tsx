@@ -0,0 +1,288 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Activity, RefreshCw, Square, CheckCircle, XCircle, AlertCircle, Clock } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { RecordType } from '@/lib/dns';
+import {
+  checkPropagation,
+  watchPropagation,
+  listPropagationResolvers,
+  answerKey,
+  remainingTtl,
+  DEFAULT_PROPAGATION_RESOLVERS,
+  type PropagationSnapshot,
+  type PropagationWatch,
+} from '@/lib/propagation';
+
+const RECORD_TYPES: RecordType[] = [
+  'A', 'AAAA', 'MX', 'TXT', 'CNAME', 'NS', 'SOA', 'PTR', 'SRV',
+  'CAA', 'HTTPS', 'SVCB', 'TLSA', 'DS', 'DNSKEY', 'NAPTR', 'SSHFP', 'LOC', 'HINFO',
+];
+
+const INTERVALS = [
+  { label: '10s', ms: 10000 },
+  { label: '30s', ms: 30000 },
+  { label: '1m', ms: 60000 },
+  { label: '5m', ms: 300000 },
+];
+
+interface PropagationMatrixProps {
+  domain: string;
+}
+
+export function PropagationMatrix({ domain }: PropagationMatrixProps) {
+  const resolvers = listPropagationResolvers();
+  const [recordType, setRecordType] = useState<RecordType>('A');
+  const [selected, setSelected] = useState<string[]>(DEFAULT_PROPAGATION_RESOLVERS);
+  const [expected, setExpected] = useState('');
+  const [intervalMs, setIntervalMs] = useState(INTERVALS[1].ms);
+  const [snapshot, setSnapshot] = useState<PropagationSnapshot | null>(null);
+  const [watch, setWatch] = useState<PropagationWatch | null>(null);
+  const [running, setRunning] = useState(false);
+  const [watching, setWatching] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const toggleResolver = (id: string) => {
+    setSelected((current) => current.includes(id) ? current.filter((r) => r !== id) : [...current, id]);
+  };
+
+  const expectedValues = () => {
+    const values = expected.split(/[\s,]+/).filter(Boolean);
+    return values.length > 0 ? values : undefined;
+  };
+
+  const handleCheck = async () => {
+    setRunning(true);
+    setWatch(null);
+    try {
+      setSnapshot(await checkPropagation(
+        domain,
+        recordType,
+        resolvers.filter((r) => selected.includes(r.id)),
+        expectedValues()
+      ));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleWatch = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setWatching(true);
+    setWatch(null);
+
+    try {
+      await watchPropagation(domain, recordType, resolvers.filter((r) => selected.includes(r.id)), {
+        intervalMs,
+        expected: expectedValues(),
+        signal: controller.signal,
+        onSnapshot: (latest, progress) => {
+          setSnapshot(latest);
+          setWatch({ ...progress, snapshots: [...progress.snapshots] });
+        },
+      });
+    } finally {
+      abortRef.current = null;
+      setRunning(false);
+      setWatching(false);
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const startedAt = watch?.snapshots[0]?.timestamp;
+
+  return (
+    <div className="card animate-fade-in">
+      <h3 className="font-semibold mb-4 flex items-center gap-2">
+        <Activity size={16} className="text-[#7c3aed]" />
+        Propagation Matrix
+      </h3>
+
+      <div className="flex flex-col sm:flex-row gap-3 mb-3">
+        <select
+          value={recordType}
+          onChange={(e) => setRecordType(e.target.value as RecordType)}
+          title="Record type"
+          className="px-4 py-2.5 bg-[#1a1a24] border border-[#27272a] rounded-lg text-[#f4f4f5] font-mono text-sm focus:border-[#00d4aa] transition-colors"
+        >
+          {RECORD_TYPES.map((type) => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+
+        <input
+          type="text"
+          value={expected}
+          onChange={(e) => setExpected(e.target.value)}
+          placeholder="Expected values (optional, e.g., 192.0.2.10)"
+          className="flex-1 px-4 py-2.5 bg-[#1a1a24] border border-[#27272a] rounded-lg text-[#f4f4f5] placeholder-[#71717a] font-mono text-sm focus:border-[#00d4aa] transition-colors"
+        />
+
+        <select
+          value={intervalMs}
+          onChange={(e) => setIntervalMs(Number(e.target.value))}
+          title="Poll interval"
+          className="px-4 py-2.5 bg-[#1a1a24] border border-[#27272a] rounded-lg text-[#f4f4f5] font-mono text-sm focus:border-[#00d4aa] transition-colors"
+        >
+          {INTERVALS.map(({ label, ms }) => (
+            <option key={ms} value={ms}>Every {label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {resolvers.map((resolver) => (
+          <button
+            key={resolver.id}
+            onClick={() => toggleResolver(resolver.id)}
+            className={cn(
+              'px-3 py-1 rounded-lg text-xs border transition-colors',
+              selected.includes(resolver.id)
+                ? 'bg-[#00d4aa]/10 border-[#00d4aa]/40 text-[#00d4aa]'
+                : 'bg-[#1a1a24] border-[#27272a] text-[#71717a] hover:text-[#f4f4f5]'
+            )}
+          >
+            {resolver.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-3 mb-4">
+        <button
+          onClick={handleCheck}
+          disabled={running || selected.length === 0}
+          className={cn(
+            'btn-secondary flex items-center justify-center gap-2',
+            (running || selected.length === 0) && 'opacity-50 cursor-not-allowed'
+          )}
+        >
+          <RefreshCw size={16} />
+          Check Once
+        </button>
+        {watching ? (
+          <button onClick={handleStop} className="btn-primary flex items-center justify-center gap-2">
+            <Square size={16} />
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={handleWatch}
+            disabled={running || selected.length === 0}
+            className={cn(
+              'btn-primary flex items-center justify-center gap-2',
+              (running || selected.length === 0) && 'opacity-50 cursor-not-allowed'
+            )}
+          >
+            <Activity size={16} />
+            Watch Until Converged
+          </button>
+        )}
+      </div>
+
+      {snapshot && (
+        <>
+          <div className={cn(
+            'p-3 rounded-lg mb-3 text-sm flex items-center gap-2',
+            snapshot.converged ? 'bg-green-500/10 text-green-400' : 'bg-yellow-500/10 text-yellow-400'
+          )}>
+            {snapshot.converged ? <CheckCircle size={16} /> : <AlertCircle size={16} />}
+            {snapshot.converged
+              ? `All resolvers agree on ${snapshot.consensus}`
+              : `${snapshot.disagreeing.length} of ${snapshot.answers.length} resolvers differ from ${snapshot.consensus ?? 'the majority'}`}
+            {!snapshot.converged && snapshot.settlesIn !== undefined && ` • stale answers expire within ${snapshot.settlesIn}s`}
+            {watch && !snapshot.converged && watching && ` • polling round ${watch.snapshots.length}`}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-[#71717a] uppercase tracking-wide border-b border-[#27272a]">
+                  <th className="py-2 pr-4 font-medium">Resolver</th>
+                  <th className="py-2 pr-4 font-medium">Answer</th>
+                  <th className="py-2 pr-4 font-medium">TTL</th>
+                  <th className="py-2 pr-4 font-medium">Time</th>
+                  {watch && <th className="py-2 font-medium">Picked Up</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {snapshot.answers.map((answer) => {
+                  const disagrees = snapshot.disagreeing.includes(answer.resolverId);
+                  const changes = watch?.timeline[answer.resolverId] ?? [];
+                  const pickedUp = changes.find((c) => c.key === snapshot.consensus);
+                  const ttl = remainingTtl(answer);
+                  // A lower TTL than the freshest matching answer means this copy was cached earlier
+                  const cachedFor = !disagrees && ttl !== undefined && snapshot.ttl !== undefined ? snapshot.ttl - ttl : 0;
+                  return (
+                    <tr
+                      key={answer.resolverId}
+                      className={cn('border-b border-[#27272a] last:border-0', disagrees && 'bg-yellow-500/5')}
+                    >
+                      <td className="py-2 pr-4">
+                        <div className="flex items-center gap-2">
+                          {answer.status === 'error' ? (
+                            <AlertCircle size={14} className="text-red-400" />
+                          ) : disagrees ? (
+                            <XCircle size={14} className="text-yellow-400" />
+                          ) : (
+                            <CheckCircle size={14} className="text-green-400" />
+                          )}
+                          <span className="text-[#f4f4f5]">{answer.label}</span>
+                        </div>
+                      </td>
+                      <td className={cn('py-2 pr-4 font-mono break-all', disagrees ? 'text-yellow-400' : 'text-[#00d4aa]')}>
+                        {answer.status === 'error' ? answer.error : answerKey(answer)}
+                      </td>
+                      <td className="py-2 pr-4 font-mono text-[#a1a1aa]">
+                        {ttl === undefined ? '—' : ttl}
+                        {disagrees && ttl !== undefined && (
+                          <span className="ml-2 text-xs text-yellow-400">expires in {ttl}s</span>
+                        )}
+                        {cachedFor > 0 && (
+                          <span className="ml-2 text-xs text-[#71717a]">cached {cachedFor}s earlier</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 font-mono text-[#71717a]">{answer.responseTime}ms</td>
+                      {watch && (
+                        <td className="py-2 font-mono text-[#71717a]">
+                          {pickedUp && startedAt ? `+${Math.round((pickedUp.at.getTime() - startedAt.getTime()) / 1000)}s` : '—'}
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {watch && watch.snapshots.length > 1 && startedAt && (
+        <div className="mt-4">
+          <h4 className="text-xs text-[#71717a] uppercase tracking-wide mb-2 flex items-center gap-2">
+            <Clock size={12} />
+            Timeline
+          </h4>
+          <ol className="p-3 bg-[#1a1a24] rounded-lg font-mono text-xs space-y-1">
+            {Object.entries(watch.timeline)
+              .flatMap(([resolverId, changes]) => changes.slice(1).map((change) => ({ resolverId, ...change })))
+              .sort((a, b) => a.at.getTime() - b.at.getTime())
+              .map((change) => (
+                <li key={`${change.resolverId}-${change.at.getTime()}`} className="text-[#a1a1aa]">
+                  <span className="text-[#71717a]">+{Math.round((change.at.getTime() - startedAt.getTime()) / 1000)}s</span>{' '}
+                  {resolvers.find((r) => r.id === change.resolverId)?.label ?? change.resolverId} → {change.key}
+                </li>
+              ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { useState } from 'react';
+import { FileText, Landmark, Mail, RefreshCw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  getRDAPBootstrap,
+  refreshRDAPBootstrap,
+  type RDAPAutnum,
+  type RDAPContact,
+  type RDAPDomain,
+  type RDAPNetwork,
+  type RDAPResult,
+} from '@/lib/rdap';
+
+function isoDate(value?: string): string {
+  return value ? value.slice(0, 10) : '—';
+}
+
+function daysUntil(value?: string): number | null {
+  return value ? Math.floor((new Date(value).getTime() - Date.now()) / 86400000) : null;
+}
+
+function Row({ label, value, warn }: { label: string; value: React.ReactNode; warn?: boolean }) {
+  return (
+    <div className="flex items-start justify-between gap-4 p-3 bg-[#1a1a24] rounded-lg">
+      <span className="text-sm text-[#71717a] flex-shrink-0">{label}</span>
+      <span className={cn('text-sm text-right break-all', warn ? 'text-orange-400' : 'text-[#f4f4f5]')}>{value}</span>
+    </div>
+  );
+}
+
+function AbuseContacts({ contacts }: { contacts: RDAPContact[] }) {
+  const emails = [...new Set(contacts.flatMap((contact) => contact.emails))];
+  if (emails.length === 0) return <Row label="Abuse Contact" value="—" />;
+  return (
+    <Row
+      label="Abuse Contact"
+      value={
+        <span className="flex flex-col items-end gap-1">
+          {emails.map((email) => (
+            <a key={email} href={`mailto:${email}`} className="font-mono text-[#00d4aa] hover:underline flex items-center gap-1">
+              <Mail size={12} />
+              {email}
+            </a>
+          ))}
+        </span>
+      }
+    />
+  );
+}
+
+function RDAPError({ result, onRetry }: { result: RDAPResult<unknown>; onRetry: () => void }) {
+  const [refreshing, setRefreshing] = useState(false);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await refreshRDAPBootstrap();
+      onRetry();
+    } catch {
+      setRefreshing(false);
+    }
+  };
+
+  return (
+    <div className="p-3 bg-[#1a1a24] rounded-lg text-sm flex items-center justify-between gap-3">
+      <span className="text-[#a1a1aa]">{result.error}</span>
+      <button
+        onClick={handleRefresh}
+        disabled={refreshing}
+        title={`Bootstrap: ${getRDAPBootstrap('dns').publication}`}
+        className={cn('btn-secondary flex items-center gap-2 text-xs flex-shrink-0', refreshing && 'opacity-50 cursor-not-allowed')}
+      >
+        <RefreshCw size={12} className={cn(refreshing && 'animate-spin')} />
+        Refresh Bootstrap
+      </button>
+    </div>
+  );
+}
+
+interface DomainRegistrationCardProps {
+  // Null while the lookup is running
+  result: RDAPResult<RDAPDomain> | null;
+  onRetry: () => void;
+}
+
+export function DomainRegistrationCard({ result, onRetry }: DomainRegistrationCardProps) {
+  const data = result?.data;
+  const expiresIn = daysUntil(data?.events.expiration);
+
+  return (
+    <div className="card">
+      <h3 className="font-semibold mb-4 flex items-center gap-2">
+        <FileText size={18} className="text-[#7c3aed]" />
+        Registration (RDAP)
+      </h3>
+
+      {!result && <div className="spinner" />}
+      {result?.error && <RDAPError result={result} onRetry={onRetry} />}
+
+      {data && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <Row
+            label="Registrar"
+            value={[data.registrar?.name, data.registrar?.ianaId && `(IANA ${data.registrar.ianaId})`].filter(Boolean).join(' ') || '—'}
+          />
+          <Row label="Registrant" value={data.registrant?.organization ?? data.registrant?.name ?? 'Redacted'} />
+          <Row label="Registered" value={isoDate(data.events.registration)} />
+          <Row
+            label="Expires"
+            value={`${isoDate(data.events.expiration)}${expiresIn !== null ? ` (${expiresIn} days)` : ''}`}
+            warn={expiresIn !== null && expiresIn < 30}
+          />
+          <Row label="Updated" value={isoDate(data.events.lastChanged)} />
+          <Row label="Status" value={data.status.join(', ') || '—'} />
+          <AbuseContacts contacts={data.abuse} />
+          <Row label="Delegation Signed" value={data.dnssec === undefined ? '—' : data.dnssec ? 'Yes' : 'No'} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface NetworkOwnershipCardProps {
+  // Null while the lookups are running
+  ownership: { network: RDAPResult<RDAPNetwork>; autnum?: RDAPResult<RDAPAutnum> } | null;
+  onRetry: () => void;
+}
+
+export function NetworkOwnershipCard({ ownership, onRetry }: NetworkOwnershipCardProps) {
+  const net = ownership?.network.data;
+  const as = ownership?.autnum?.data;
+
+  return (
+    <div className="card animate-fade-in">
+      <h3 className="font-semibold mb-4 flex items-center gap-2">
+        <Landmark size={16} className="text-[#7c3aed]" />
+        Network Ownership (RDAP)
+      </h3>
+
+      {!ownership && <div className="spinner" />}
+      {ownership?.network.error && <RDAPError result={ownership.network} onRetry={onRetry} />}
+
+      {net && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <Row label="Network" value={<span className="font-mono">{net.cidrs.join(', ') || `${net.startAddress} – ${net.endAddress}`}</span>} />
+          <Row label="Range" value={<span className="font-mono">{net.startAddress} – {net.endAddress}</span>} />
+          <Row label="Name" value={[net.name, net.handle && `(${net.handle})`].filter(Boolean).join(' ') || '—'} />
+          <Row label="Type" value={net.type ?? '—'} />
+          <Row label="Holder" value={net.registrant?.organization ?? net.registrant?.name ?? '—'} />
+          <Row label="Allocated" value={`${isoDate(net.events.registration)}${net.country ? ` · ${net.country}` : ''}`} />
+          <AbuseContacts contacts={net.abuse} />
+          <Row label="Parent" value={net.parentHandle ?? '—'} />
+        </div>
+      )}
+
+      {as && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-3">
+          <Row
+            label="Autonomous System"
+            value={`AS${as.startAutnum}${as.endAutnum !== as.startAutnum ? `–AS${as.endAutnum}` : ''} ${as.name ?? ''}`.trim()}
+          />
+          <Row label="AS Holder" value={as.registrant?.organization ?? as.registrant?.name ?? '—'} />
+          <Row label="AS Registered" value={`${isoDate(as.events.registration)}${as.country ? ` · ${as.country}` : ''}`} />
+          <AbuseContacts contacts={as.abuse} />
+        </div>
+      )}
+      {ownership?.autnum?.error && (
+        <p className="mt-3 text-xs text-[#71717a]">{ownership.autnum.query}: {ownership.autnum.error}</p>
+      )}
+    </div>
+  );
+}
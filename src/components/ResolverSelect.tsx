@@ -0,0 +1,28 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import { listResolvers } from '@/lib/resolver';
+
+interface ResolverSelectProps {
+  value: string;
+  onChange: (resolverId: string) => void;
+  className?: string;
+}
+
+export function ResolverSelect({ value, onChange, className }: ResolverSelectProps) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      title="DNS resolver"
+      className={cn(
+        'px-4 py-2.5 bg-[#1a1a24] border border-[#27272a] rounded-lg text-[#f4f4f5] font-mono text-sm focus:border-[#00d4aa] transition-colors',
+        className
+      )}
+    >
+      {listResolvers().map((resolver) => (
+        <option key={resolver.id} value={resolver.id}>{resolver.label}</option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { cn, formatDuration } from '@/lib/utils';
+import { auditSOA, detectSerialFormat, type SOARecord } from '@/lib/soa';
+
+interface SOADetailsProps {
+  soa: SOARecord;
+  className?: string;
+}
+
+const SERIAL_FORMAT_LABELS = {
+  date: 'date-based',
+  'unix-time': 'unix time',
+  counter: 'counter',
+  unknown: 'unknown format',
+};
+
+export function SOADetails({ soa, className }: SOADetailsProps) {
+  const problems = auditSOA(soa);
+  const flagged = new Set(problems.map((p) => p.kind));
+
+  const fields: Array<[string, string, boolean]> = [
+    ['Primary', soa.mname, false],
+    ['Contact', soa.email, flagged.has('rname')],
+    ['Serial', `${soa.serial} (${SERIAL_FORMAT_LABELS[detectSerialFormat(soa.serial)]})`, flagged.has('serial')],
+    ['Refresh', formatDuration(soa.refresh), flagged.has('refresh')],
+    ['Retry', formatDuration(soa.retry), flagged.has('retry')],
+    ['Expire', formatDuration(soa.expire), flagged.has('expire')],
+    ['Negative TTL', formatDuration(soa.minimum), flagged.has('minimum')],
+  ];
+
+  return (
+    <div className={className}>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {fields.map(([label, value, warn]) => (
+          <div key={label} className="p-2 bg-[#0a0a0f] rounded">
+            <div className="text-xs text-[#71717a]">{label}</div>
+            <div className={cn('font-mono text-xs break-all', warn ? 'text-yellow-400' : 'text-[#f4f4f5]')}>{value}</div>
+          </div>
+        ))}
+      </div>
+      {problems.length > 0 && (
+        <ul className="mt-2 space-y-1 text-xs text-yellow-400">
+          {problems.map((problem) => (
+            <li key={problem.detail}>{problem.detail}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -9,7 +9,8 @@ import {
   Terminal,
   ChevronLeft,
   ChevronRight,
-  Zap
+  Zap,
+  Radar
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
@@ -24,6 +25,7 @@ const tools = [
   { id: 'attack', label: 'Attack Surface', icon: Shield },
   { id: 'graph', label: 'Infrastructure', icon: Network },
   { id: 'subdomain', label: 'Subdomain Test', icon: Zap },
+  { id: 'enumerate', label: 'Subdomain Enum', icon: Radar },
 ];
 
 export function Sidebar({ activeTool, onToolChange }: SidebarProps) {
@@ -0,0 +1,236 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Radar, Square, AlertCircle, AlertTriangle, Copy, Check } from 'lucide-react';
+import { cn, isValidDomain, copyToClipboard } from '@/lib/utils';
+import {
+  enumerateSubdomains,
+  parseWordlist,
+  DEFAULT_PERMUTATIONS,
+  type EnumeratedHost,
+  type WildcardInfo,
+} from '@/lib/enumeration';
+import { BUNDLED_WORDLISTS, DEFAULT_WORDLIST } from '@/lib/wordlists';
+import { getResolver, DEFAULT_RESOLVER_ID } from '@/lib/resolver';
+import { ResolverSelect } from '@/components/ResolverSelect';
+
+const CUSTOM_WORDLIST = 'custom';
+
+export function SubdomainEnumerationTool() {
+  const [domain, setDomain] = useState('');
+  const [resolverId, setResolverId] = useState(DEFAULT_RESOLVER_ID);
+  const [wordlist, setWordlist] = useState(DEFAULT_WORDLIST);
+  const [customWords, setCustomWords] = useState('');
+  const [permute, setPermute] = useState(false);
+  const [hosts, setHosts] = useState<EnumeratedHost[]>([]);
+  const [wildcard, setWildcard] = useState<WildcardInfo | null>(null);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const handleStart = async () => {
+    if (!domain.trim()) {
+      setError('Please enter a domain');
+      return;
+    }
+
+    const cleanDomain = domain.trim().toLowerCase();
+
+    if (!isValidDomain(cleanDomain)) {
+      setError('Please enter a valid domain (e.g., example.com)');
+      return;
+    }
+
+    const words = wordlist === CUSTOM_WORDLIST ? parseWordlist(customWords) : BUNDLED_WORDLISTS[wordlist].words;
+    if (words.length === 0) {
+      setError('The custom wordlist is empty');
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setError(null);
+    setRunning(true);
+    setHosts([]);
+    setWildcard(null);
+    setProgress({ done: 0, total: 0 });
+
+    try {
+      await enumerateSubdomains(cleanDomain, words, {
+        resolver: getResolver(resolverId),
+        permutations: permute ? DEFAULT_PERMUTATIONS : false,
+        signal: controller.signal,
+        onWildcard: setWildcard,
+        onHost: (host) => setHosts((current) => [...current, host]),
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+    } catch {
+      setError('Enumeration failed');
+    } finally {
+      abortRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleCopy = async () => {
+    await copyToClipboard(hosts.map((h) => h.host).join('\n'));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey) && !running) {
+      handleStart();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="card">
+        <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+          <Radar className="text-[#00d4aa]" size={20} />
+          Subdomain Enumeration
+        </h2>
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <input
+            type="text"
+            value={domain}
+            onChange={(e) => setDomain(e.target.value)}
+            onKeyDown={handleKeyPress}
+            placeholder="Enter domain (e.g., example.com)"
+            className="flex-1 px-4 py-2.5 bg-[#1a1a24] border border-[#27272a] rounded-lg text-[#f4f4f5] placeholder-[#71717a] font-mono text-sm focus:border-[#00d4aa] transition-colors"
+          />
+
+          <select
+            value={wordlist}
+            onChange={(e) => setWordlist(e.target.value)}
+            title="Wordlist"
+            className="px-4 py-2.5 bg-[#1a1a24] border border-[#27272a] rounded-lg text-[#f4f4f5] font-mono text-sm focus:border-[#00d4aa] transition-colors"
+          >
+            {Object.entries(BUNDLED_WORDLISTS).map(([id, list]) => (
+              <option key={id} value={id}>{list.label}</option>
+            ))}
+            <option value={CUSTOM_WORDLIST}>Custom</option>
+          </select>
+
+          <ResolverSelect value={resolverId} onChange={setResolverId} />
+
+          {running ? (
+            <button onClick={handleStop} className="btn-secondary flex items-center justify-center gap-2 min-w-[140px]">
+              <Square size={16} />
+              Stop
+            </button>
+          ) : (
+            <button onClick={handleStart} className="btn-primary flex items-center justify-center gap-2 min-w-[140px]">
+              <Radar size={16} />
+              Enumerate
+            </button>
+          )}
+        </div>
+
+        {wordlist === CUSTOM_WORDLIST && (
+          <textarea
+            value={customWords}
+            onChange={(e) => setCustomWords(e.target.value)}
+            placeholder="One label per line (e.g., api, vpn, staging)"
+            rows={5}
+            className="mt-3 w-full px-4 py-2.5 bg-[#1a1a24] border border-[#27272a] rounded-lg text-[#f4f4f5] placeholder-[#71717a] font-mono text-sm focus:border-[#00d4aa] transition-colors"
+          />
+        )}
+
+        <label className="mt-3 flex items-center gap-2 text-sm text-[#a1a1aa]">
+          <input type="checkbox" checked={permute} onChange={(e) => setPermute(e.target.checked)} />
+          Include permutations (dev-, -staging, numeric suffixes)
+        </label>
+
+        {error && (
+          <div className="mt-3 p-3 bg-red-500/10 border border-red-500/30 rounded-lg flex items-center gap-2 text-red-400 text-sm">
+            <AlertCircle size={16} />
+            {error}
+          </div>
+        )}
+
+        {progress.total > 0 && (
+          <div className="mt-4">
+            <div className="flex justify-between text-xs text-[#71717a] mb-1">
+              <span>{progress.done} / {progress.total} names tested</span>
+              <span>{hosts.length} found</span>
+            </div>
+            <div className="h-1.5 bg-[#1a1a24] rounded-full overflow-hidden">
+              <div
+                className="h-full bg-[#00d4aa] transition-all"
+                style={{ width: `${(progress.done / progress.total) * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        <p className="mt-2 text-xs text-[#71717a]">
+          Press Ctrl+Enter to start • Wildcard answers are detected with random labels and filtered out
+        </p>
+      </div>
+
+      {wildcard?.detected && (
+        <div className="p-4 bg-yellow-500/10 border border-yellow-500/30 rounded-lg flex items-start gap-3 text-sm">
+          <AlertTriangle size={16} className="text-yellow-400 mt-0.5 flex-shrink-0" />
+          <span className="text-yellow-400">
+            Wildcard DNS detected ({[...wildcard.cnames, ...wildcard.addresses].join(', ')}). Names answering
+            the same way were excluded from the results.
+          </span>
+        </div>
+      )}
+
+      {hosts.length > 0 && (
+        <div className="card animate-fade-in">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="font-semibold">Discovered Hosts ({hosts.length})</h3>
+            <button
+              onClick={handleCopy}
+              className="p-2 rounded hover:bg-[#27272a] text-[#71717a] hover:text-[#f4f4f5] transition-colors"
+            >
+              {copied ? <Check size={16} className="text-green-400" /> : <Copy size={16} />}
+            </button>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-[#71717a] uppercase tracking-wide border-b border-[#27272a]">
+                  <th className="py-2 pr-4 font-medium">Host</th>
+                  <th className="py-2 pr-4 font-medium">Addresses</th>
+                  <th className="py-2 pr-4 font-medium">CNAME</th>
+                  <th className="py-2 font-medium">Source</th>
+                </tr>
+              </thead>
+              <tbody>
+                {hosts.map((host) => (
+                  <tr key={host.host} className="border-b border-[#27272a] last:border-0">
+                    <td className="py-2 pr-4 font-mono text-[#f4f4f5]">{host.host}</td>
+                    <td className="py-2 pr-4 font-mono text-[#00d4aa]">{host.addresses.join(', ') || '—'}</td>
+                    <td className="py-2 pr-4 font-mono text-[#a1a1aa]">{host.cname ?? '—'}</td>
+                    <td className="py-2">
+                      <span className={cn(
+                        'px-2 py-0.5 rounded text-xs',
+                        host.source === 'wordlist' ? 'bg-[#27272a] text-[#a1a1aa]' : 'bg-violet-500/20 text-violet-400'
+                      )}>
+                        {host.source}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
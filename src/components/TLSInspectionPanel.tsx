@@ -0,0 +1,157 @@
+'use client';
+
+import { useState } from 'react';
+import { ShieldCheck, Search, AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { auditTLS, inspectTLS, type TLSInspection } from '@/lib/tls';
+
+const SEVERITY_STYLES = {
+  critical: 'text-red-400',
+  high: 'text-orange-400',
+  medium: 'text-yellow-400',
+  low: 'text-blue-400',
+};
+
+interface TLSInspectionPanelProps {
+  domain: string;
+}
+
+export function TLSInspectionPanel({ domain }: TLSInspectionPanelProps) {
+  const [host, setHost] = useState(domain);
+  const [port, setPort] = useState('443');
+  const [inspection, setInspection] = useState<TLSInspection | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleInspect = async () => {
+    setLoading(true);
+    setError(null);
+    setInspection(null);
+    try {
+      setInspection(await inspectTLS(host.trim().toLowerCase(), Number(port) || 443));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const problems = inspection ? auditTLS(inspection) : [];
+  const flagged = new Set(problems.map((p) => p.kind));
+
+  return (
+    <div className="card animate-fade-in">
+      <h3 className="font-semibold mb-4 flex items-center gap-2">
+        <ShieldCheck size={16} className="text-[#7c3aed]" />
+        TLS Certificate
+      </h3>
+
+      <div className="flex flex-col sm:flex-row gap-3 mb-4">
+        <input
+          type="text"
+          value={host}
+          onChange={(e) => setHost(e.target.value)}
+          placeholder="Host"
+          className="flex-1 px-4 py-2.5 bg-[#1a1a24] border border-[#27272a] rounded-lg text-[#f4f4f5] placeholder-[#71717a] font-mono text-sm focus:border-[#00d4aa] transition-colors"
+        />
+        <input
+          type="number"
+          value={port}
+          onChange={(e) => setPort(e.target.value)}
+          min={1}
+          max={65535}
+          title="Port"
+          className="w-28 px-4 py-2.5 bg-[#1a1a24] border border-[#27272a] rounded-lg text-[#f4f4f5] font-mono text-sm focus:border-[#00d4aa] transition-colors"
+        />
+        <button
+          onClick={handleInspect}
+          disabled={loading || !host.trim()}
+          className={cn(
+            'btn-secondary flex items-center justify-center gap-2',
+            (loading || !host.trim()) && 'opacity-50 cursor-not-allowed'
+          )}
+        >
+          {loading ? <div className="spinner" /> : <Search size={16} />}
+          Inspect
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      {inspection && (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4">
+            {([
+              ['Protocol', inspection.protocol, flagged.has('legacy-protocol')],
+              ['Cipher', inspection.cipher.standardName ?? inspection.cipher.name, false],
+              ['Trust', inspection.authorized ? 'trusted' : inspection.authorizationError ?? 'untrusted', !inspection.authorized],
+              ['Address', `${inspection.address}:${inspection.port}`, false],
+            ] as const).map(([label, value, warn]) => (
+              <div key={label} className="p-3 bg-[#1a1a24] rounded-lg">
+                <div className="text-xs text-[#71717a] mb-1">{label}</div>
+                <div className={cn('font-mono text-sm break-all', warn ? 'text-orange-400' : 'text-[#f4f4f5]')}>{value}</div>
+              </div>
+            ))}
+          </div>
+
+          {problems.length > 0 ? (
+            <ul className="mb-4 space-y-1">
+              {problems.map((problem) => (
+                <li key={problem.detail} className={cn('flex items-center gap-2 text-sm', SEVERITY_STYLES[problem.severity])}>
+                  <AlertTriangle size={14} className="flex-shrink-0" />
+                  {problem.detail}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="mb-4 flex items-center gap-2 text-sm text-green-400">
+              <CheckCircle size={14} />
+              Certificate chain is valid for {inspection.servername}
+            </div>
+          )}
+
+          <div className="space-y-3">
+            {inspection.chain.map((cert, index) => (
+              <div key={cert.fingerprint256} className="p-3 bg-[#1a1a24] rounded-lg">
+                <div className="flex items-center justify-between gap-3 mb-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    {cert.selfSigned && !inspection.authorized ? (
+                      <XCircle size={14} className="text-orange-400 flex-shrink-0" />
+                    ) : (
+                      <CheckCircle size={14} className="text-green-400 flex-shrink-0" />
+                    )}
+                    <span className="font-mono text-sm text-[#f4f4f5] break-all" title={cert.subjectName}>{cert.subject}</span>
+                  </div>
+                  <span className="px-2 py-0.5 bg-[#27272a] text-[#a1a1aa] rounded text-xs flex-shrink-0">
+                    {index === 0 ? 'leaf' : cert.selfSigned ? 'root' : 'intermediate'}
+                  </span>
+                </div>
+
+                <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                  {([
+                    ['Issuer', cert.issuerName],
+                    ['Valid', `${cert.validFrom.slice(0, 10)} → ${cert.validTo.slice(0, 10)}`],
+                    ['Key', [cert.keyType.toUpperCase(), cert.keySize && `${cert.keySize} bits`, cert.curve].filter(Boolean).join(' ')],
+                    ['Signature', cert.signatureAlgorithm],
+                    ['OCSP', cert.ocsp.join(', ') || '—'],
+                    ['CRL', cert.crl.join(', ') || '—'],
+                    ...(index === 0 ? [['SANs', cert.sans.join(', ') || '—']] : []),
+                  ] as Array<[string, string]>).map(([label, value]) => (
+                    <div key={label} className="flex gap-2 min-w-0">
+                      <dt className="text-[#71717a] w-16 flex-shrink-0">{label}</dt>
+                      <dd className="font-mono text-[#a1a1aa] break-all">{value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import type { IPIntelligenceData } from './dns';
+import { classifyIP, cidrSize, compareIP, formatCIDR, formatIP, iterateCIDR, parseCIDR, parseIP, type IPClassification } from './ip';
+import {
+  lookupIPIntelligence,
+  type IPIntelligenceProvider,
+  type IPIntelligenceResult,
+  type IPProviderFailure,
+} from './ip-intel';
+
+export interface BulkTargets {
+  addresses: string[];
+  // Entries that were skipped, with the reason
+  errors: string[];
+}
+
+export interface BulkIPResult {
+  ip: string;
+  data: IPIntelligenceData | null;
+  sources: IPIntelligenceResult['sources'];
+  // Special-purpose addresses are classified locally and never sent to providers
+  special?: IPClassification;
+  errors: IPProviderFailure[];
+}
+
+export type BulkGroupKey = 'asn' | 'country' | 'flags';
+
+export interface BulkGroup {
+  key: string;
+  label: string;
+  results: BulkIPResult[];
+}
+
+export interface BulkInvestigationOptions {
+  providers?: IPIntelligenceProvider[];
+  concurrency?: number;
+  // Lookups started per minute across all workers
+  ratePerMinute?: number;
+  signal?: AbortSignal;
+  onResult?: (result: BulkIPResult) => void;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export const MAX_BULK_ADDRESSES = 256;
+export const DEFAULT_BULK_CONCURRENCY = 4;
+// ip-api.com's free tier allows 45 requests per minute
+export const DEFAULT_BULK_RATE = 40;
+// A provider asking for a longer pause than this fails the address instead
+const MAX_RATE_LIMIT_WAIT_MS = 65000;
+
+// Accepts addresses and CIDR blocks separated by whitespace or commas, with # comments
+export function parseBulkTargets(text: string, limit = MAX_BULK_ADDRESSES): BulkTargets {
+  const seen = new Set<string>();
+  const errors: string[] = [];
+
+  const entries = text.split('\n').flatMap((line) => line.replace(/#.*$/, '').split(/[\s,]+/)).filter(Boolean);
+  for (const entry of entries) {
+    const cidr = parseCIDR(entry);
+    if (!cidr) {
+      errors.push(`${entry}: not an IP address or CIDR block`);
+      continue;
+    }
+
+    const size = cidrSize(cidr);
+    if (seen.size + size > limit) {
+      errors.push(`${entry}: ${size.toLocaleString()} addresses would exceed the limit of ${limit}`);
+      continue;
+    }
+    const given = parseIP(entry.split('/')[0]);
+    if (given && compareIP(given, cidr.network) !== 0) {
+      errors.push(`${entry}: host bits set, investigating ${formatCIDR(cidr)}`);
+    }
+    for (const address of iterateCIDR(cidr)) seen.add(formatIP(address));
+  }
+
+  return { addresses: [...seen], errors };
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+// Workers share one start schedule spaced 60/rate seconds apart, and all of them
+// pause when a provider answers 429 with a reset time.
+export async function investigateIPs(addresses: string[], options: BulkInvestigationOptions = {}): Promise<BulkIPResult[]> {
+  const {
+    providers,
+    concurrency = DEFAULT_BULK_CONCURRENCY,
+    ratePerMinute = DEFAULT_BULK_RATE,
+    signal,
+    onResult,
+    onProgress,
+  } = options;
+  const interval = ratePerMinute > 0 ? 60000 / ratePerMinute : 0;
+  const results: BulkIPResult[] = [];
+  let nextStart = Date.now();
+  let next = 0;
+  let done = 0;
+
+  const waitForSlot = async () => {
+    const start = Math.max(nextStart, Date.now());
+    nextStart = start + interval;
+    await sleep(start - Date.now(), signal);
+  };
+
+  const investigate = async (ip: string): Promise<BulkIPResult> => {
+    const bytes = parseIP(ip);
+    const special = bytes ? classifyIP(bytes) : null;
+    if (special) return { ip, data: null, sources: {}, special, errors: [] };
+
+    for (let attempt = 0; ; attempt++) {
+      await waitForSlot();
+      if (signal?.aborted) return { ip, data: null, sources: {}, errors: [] };
+
+      const intel = await lookupIPIntelligence(ip, providers, signal);
+      const resetIn = Math.max(0, ...intel.errors.map((error) => (error.status === 429 ? error.rateLimit?.resetIn ?? 0 : 0)));
+      const limited = intel.errors.some((error) => error.status === 429);
+      if (intel.data || !limited || attempt > 0 || resetIn * 1000 > MAX_RATE_LIMIT_WAIT_MS) {
+        return { ip, data: intel.data, sources: intel.sources, errors: intel.errors };
+      }
+      nextStart = Math.max(nextStart, Date.now() + Math.max(resetIn, 1) * 1000);
+    }
+  };
+
+  const worker = async () => {
+    while (next < addresses.length && !signal?.aborted) {
+      const ip = addresses[next++];
+      const result = await investigate(ip);
+      if (signal?.aborted) break;
+      done++;
+      results.push(result);
+      onResult?.(result);
+      onProgress?.(done, addresses.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, addresses.length)) }, worker));
+
+  return results.sort((a, b) => compareIP(parseIP(a.ip) ?? new Uint8Array(), parseIP(b.ip) ?? new Uint8Array()));
+}
+
+export function describeFlags(result: BulkIPResult): string {
+  if (result.special) return 'Special-purpose';
+  if (!result.data) return 'Unknown';
+  const flags = [result.data.isHosting && 'Hosting', result.data.isProxy && 'Proxy/VPN', result.data.isMobile && 'Mobile'].filter(Boolean);
+  return flags.length > 0 ? flags.join(' + ') : 'None';
+}
+
+function groupOf(result: BulkIPResult, key: BulkGroupKey): { key: string; label: string } {
+  if (key === 'flags') {
+    const label = describeFlags(result);
+    return { key: label, label };
+  }
+  if (result.special) return { key: `special:${result.special.category}`, label: `${result.special.name} (${result.special.cidr})` };
+  if (!result.data) return { key: 'unknown', label: 'No data' };
+
+  if (key === 'asn') {
+    const asn = result.data.asn.match(/^AS\d+/i)?.[0].toUpperCase();
+    return asn ? { key: asn, label: result.data.asn } : { key: 'unknown', label: 'No ASN' };
+  }
+  return result.data.countryCode
+    ? { key: result.data.countryCode, label: `${result.data.country} (${result.data.countryCode})` }
+    : { key: 'unknown', label: 'No country' };
+}
+
+// Largest groups first
+export function groupBulkResults(results: BulkIPResult[], key: BulkGroupKey): BulkGroup[] {
+  const groups = new Map<string, BulkGroup>();
+  for (const result of results) {
+    const { key: id, label } = groupOf(result, key);
+    const group = groups.get(id) ?? { key: id, label, results: [] };
+    group.results.push(result);
+    groups.set(id, group);
+  }
+  return [...groups.values()].sort((a, b) => b.results.length - a.results.length || a.label.localeCompare(b.label));
+}
+
+const CSV_COLUMNS = [
+  'ip', 'version', 'country', 'countryCode', 'region', 'city', 'isp', 'org', 'asn',
+  'lat', 'lon', 'timezone', 'isMobile', 'isProxy', 'isHosting', 'special', 'errors',
+] as const;
+
+// Provider strings such as org names are neutralized so spreadsheets do not run them as formulas
+function csvCell(value: unknown): string {
+  let text = value === undefined || value === null ? '' : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function bulkResultsToCSV(results: BulkIPResult[]): string {
+  const rows = results.map((result) => {
+    const row: Record<string, unknown> = {
+      ...result.data,
+      ip: result.ip,
+      version: result.data?.version ?? (result.ip.includes(':') ? 6 : 4),
+      special: result.special && `${result.special.name} (${result.special.cidr})`,
+      errors: result.errors.map((error) => `${error.provider}: ${error.message}`).join('; '),
+    };
+    return CSV_COLUMNS.map((column) => csvCell(row[column])).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+}
+
+export function bulkResultsToJSON(results: BulkIPResult[]): string {
+  return JSON.stringify(results, null, 2);
+}
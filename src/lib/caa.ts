@@ -0,0 +1,199 @@
+import { lookupDNS } from './dns';
+import { getOrganizationalDomain, isSubdomainOf, stripTrailingDot } from './domain';
+import type { Resolver } from './resolver';
+
+export type CAAProblemKind = 'missing' | 'wildcard-open' | 'iodef-invalid' | 'unknown-critical';
+
+export interface CAAProblem {
+  kind: CAAProblemKind;
+  detail: string;
+}
+
+export interface CAAProperty {
+  flags: number;
+  critical: boolean;
+  tag: string;
+  value: string;
+}
+
+export interface CAAIssuer {
+  domain: string;
+  name?: string;
+  parameters: Record<string, string>;
+}
+
+export interface CAAPermission {
+  // False when no property restricts issuance, so any CA may issue
+  restricted: boolean;
+  issuers: CAAIssuer[];
+}
+
+export interface CAACheck {
+  present: boolean;
+  // Owner of the relevant RRset after climbing towards the apex (RFC 8659 section 3)
+  relevantName?: string;
+  checked: string[];
+  properties: CAAProperty[];
+  issue: CAAPermission;
+  issueWild: CAAPermission;
+  iodef: string[];
+  error?: string;
+  problems: CAAProblem[];
+}
+
+export const CA_NAMES: Record<string, string> = {
+  'letsencrypt.org': "Let's Encrypt",
+  'pki.goog': 'Google Trust Services',
+  'digicert.com': 'DigiCert',
+  'symantec.com': 'DigiCert (Symantec)',
+  'geotrust.com': 'DigiCert (GeoTrust)',
+  'sectigo.com': 'Sectigo',
+  'comodoca.com': 'Sectigo (Comodo)',
+  'globalsign.com': 'GlobalSign',
+  'amazon.com': 'Amazon',
+  'amazontrust.com': 'Amazon',
+  'awstrust.com': 'Amazon',
+  'amazonaws.com': 'Amazon',
+  'godaddy.com': 'GoDaddy',
+  'starfieldtech.com': 'Starfield',
+  'entrust.net': 'Entrust',
+  'ssl.com': 'SSL.com',
+  'buypass.com': 'Buypass',
+  'identrust.com': 'IdenTrust',
+  'harica.gr': 'HARICA',
+  'certum.pl': 'Certum',
+};
+
+const KNOWN_TAGS = new Set(['issue', 'issuewild', 'iodef', 'issuemail', 'issuevmc', 'contactemail', 'contactphone']);
+
+// Names from the queried one up to the organizational domain; CAs keep climbing
+// to the TLD, but nothing above the apex is under the domain owner's control.
+function candidateNames(domain: string): string[] {
+  const name = stripTrailingDot(domain);
+  const apex = getOrganizationalDomain(name);
+  if (!isSubdomainOf(name, apex)) return [name];
+
+  const labels = name.split('.');
+  const apexLength = apex.split('.').length;
+  return labels.slice(0, labels.length - apexLength + 1).map((_, i) => labels.slice(i).join('.'));
+}
+
+export function parseIssuer(value: string): CAAIssuer {
+  const [domainPart, ...parameterParts] = value.split(';');
+  const domain = stripTrailingDot(domainPart.trim());
+  const parameters: Record<string, string> = {};
+  for (const part of parameterParts) {
+    const eq = part.indexOf('=');
+    if (eq > 0) parameters[part.slice(0, eq).trim().toLowerCase()] = part.slice(eq + 1).trim();
+  }
+  return { domain, name: CA_NAMES[domain], parameters };
+}
+
+function permission(properties: CAAProperty[], tag: string): CAAPermission | null {
+  const matching = properties.filter((p) => p.tag === tag);
+  if (matching.length === 0) return null;
+  // A bare ";" forbids every CA, so it contributes no issuer (RFC 8659 section 4.2)
+  const issuers = matching.map((p) => parseIssuer(p.value)).filter((issuer) => issuer.domain !== '');
+  return { restricted: true, issuers };
+}
+
+async function resolves(host: string, resolver?: Resolver): Promise<boolean> {
+  for (const type of ['MX', 'A', 'AAAA'] as const) {
+    if ((await lookupDNS(host, type, resolver)).records.length > 0) return true;
+  }
+  return false;
+}
+
+async function checkIodef(uri: string, resolver?: Resolver): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return `"${uri}" is not a valid URL`;
+  }
+
+  if (url.protocol === 'mailto:') {
+    const host = url.pathname.split('@')[1];
+    if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(url.pathname)) return `"${uri}" is not a valid mailto address`;
+    if (!(await resolves(host, resolver))) return `the mail domain of "${uri}" does not resolve`;
+    return null;
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return `"${uri}" uses ${url.protocol.slice(0, -1)}, but only mailto, http and https are defined for iodef`;
+  }
+  if (!(await resolves(url.hostname, resolver))) return `the host in "${uri}" does not resolve`;
+  if (url.protocol === 'http:') return `"${uri}" sends incident reports over plain HTTP`;
+  return null;
+}
+
+export async function checkCAA(domain: string, resolver?: Resolver): Promise<CAACheck> {
+  const checked: string[] = [];
+  const problems: CAAProblem[] = [];
+  let properties: CAAProperty[] = [];
+  let relevantName: string | undefined;
+  let error: string | undefined;
+
+  for (const name of candidateNames(domain)) {
+    checked.push(name);
+    const result = await lookupDNS(name, 'CAA', resolver);
+    if (result.error && result.rcode !== 3) {
+      error = `CAA lookup for ${name} failed: ${result.error}`;
+      break;
+    }
+
+    // Property tags are case-insensitive (RFC 8659 §4.1)
+    properties = result.records.flatMap((r) =>
+      r.data?.type === 'CAA'
+        ? [{ flags: r.data.flags, critical: r.data.critical, tag: r.data.tag.toLowerCase(), value: r.data.value }]
+        : []
+    );
+    if (properties.length > 0) {
+      relevantName = name;
+      break;
+    }
+  }
+
+  const issue = permission(properties, 'issue') ?? { restricted: false, issuers: [] };
+  const issueWild = permission(properties, 'issuewild') ?? issue;
+  const iodef = properties.filter((p) => p.tag === 'iodef').map((p) => p.value);
+
+  if (!error) {
+    if (!relevantName) {
+      problems.push({ kind: 'missing', detail: `No CAA records at ${checked.join(', ')}` });
+    } else if (!issue.restricted) {
+      problems.push({ kind: 'missing', detail: `The CAA set at ${relevantName} has no issue property` });
+    }
+  }
+
+  if (issue.restricted && !properties.some((p) => p.tag === 'issuewild') && issue.issuers.length > 0) {
+    problems.push({
+      kind: 'wildcard-open',
+      detail: `No issuewild property, so ${issue.issuers.map((i) => i.name ?? i.domain).join(', ')} may also issue wildcard certificates`,
+    });
+  }
+
+  for (const property of properties.filter((p) => p.critical && !KNOWN_TAGS.has(p.tag))) {
+    problems.push({
+      kind: 'unknown-critical',
+      detail: `Critical property "${property.tag}" is not understood by CAs, which must then refuse all issuance`,
+    });
+  }
+
+  for (const uri of iodef) {
+    const problem = await checkIodef(uri, resolver);
+    if (problem) problems.push({ kind: 'iodef-invalid', detail: problem });
+  }
+
+  return {
+    present: !!relevantName,
+    relevantName,
+    checked,
+    properties,
+    issue,
+    issueWild,
+    iodef,
+    error,
+    problems,
+  };
+}
@@ -0,0 +1,182 @@
+import sampleEntries from '../data/ct/example.com.json';
+import { isSubdomainOf, stripTrailingDot } from './domain';
+
+export interface CTCertificate {
+  id: string;
+  serialNumber: string;
+  issuer: string;
+  issuerName: string;
+  commonName: string;
+  names: string[];
+  notBefore: Date;
+  notAfter: Date;
+  loggedAt?: Date;
+}
+
+export interface CTLogSource {
+  id: string;
+  label: string;
+  search(domain: string, signal?: AbortSignal): Promise<CTCertificate[]>;
+}
+
+// Row shape returned by crt.sh's ?output=json, which other CT search frontends copy
+export interface CrtShEntry {
+  id: number;
+  issuer_name: string;
+  common_name: string;
+  name_value: string;
+  serial_number: string;
+  not_before: string;
+  not_after: string;
+  entry_timestamp?: string | null;
+}
+
+export type CertificateStatus = 'valid' | 'expiring' | 'expired' | 'not-yet-valid';
+
+export interface CTSearchResult {
+  domain: string;
+  source: string;
+  certificates: CTCertificate[];
+  subdomains: string[];
+  error?: string;
+}
+
+export const EXPIRY_WARNING_DAYS = 30;
+
+// crt.sh timestamps are UTC but carry no zone designator
+function parseUTC(value: string): Date {
+  return new Date(/[zZ]|[+-]\d{2}:?\d{2}$/.test(value) ? value : `${value}Z`);
+}
+
+function issuerLabel(issuerName: string): string {
+  const fields = Object.fromEntries(
+    issuerName.split(/,\s*(?=[A-Za-z]+=)/).map((part) => {
+      const eq = part.indexOf('=');
+      return [part.slice(0, eq).trim().toUpperCase(), part.slice(eq + 1).replace(/^"|"$/g, '').trim()];
+    })
+  );
+  return [fields.O, fields.CN].filter(Boolean).join(' ') || issuerName;
+}
+
+// A precertificate and its final certificate are logged separately but share
+// issuer and serial number, so they are merged into one entry.
+export function parseCrtShEntries(entries: CrtShEntry[]): CTCertificate[] {
+  const certificates = new Map<string, CTCertificate>();
+
+  for (const entry of entries) {
+    const key = `${entry.issuer_name}|${entry.serial_number}`;
+    const names = entry.name_value.split(/\s+/).map(stripTrailingDot).filter(Boolean);
+    const existing = certificates.get(key);
+
+    if (existing) {
+      existing.names = [...new Set([...existing.names, ...names])];
+      continue;
+    }
+
+    certificates.set(key, {
+      id: String(entry.id),
+      serialNumber: entry.serial_number,
+      issuer: issuerLabel(entry.issuer_name),
+      issuerName: entry.issuer_name,
+      commonName: stripTrailingDot(entry.common_name ?? ''),
+      names: [...new Set(names)],
+      notBefore: parseUTC(entry.not_before),
+      notAfter: parseUTC(entry.not_after),
+      loggedAt: entry.entry_timestamp ? parseUTC(entry.entry_timestamp) : undefined,
+    });
+  }
+
+  return [...certificates.values()];
+}
+
+export function createCrtShSource(id: string, label: string, endpoint: string): CTLogSource {
+  return {
+    id,
+    label,
+    async search(domain, signal) {
+      const name = stripTrailingDot(domain);
+      // %.name only matches subdomains, so certificates naming just the apex need their own query
+      const pages = await Promise.all([name, `%.${name}`].map(async (q): Promise<CrtShEntry[]> => {
+        const response = await fetch(`${endpoint}?${new URLSearchParams({ q, output: 'json' })}`, { signal });
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.error ?? `${label} returned ${response.status}`);
+        }
+        return response.json();
+      }));
+      return parseCrtShEntries(pages.flat());
+    },
+  };
+}
+
+export function createFixtureCTSource(id: string, label: string, entries: CrtShEntry[]): CTLogSource {
+  return {
+    id,
+    label,
+    async search(domain) {
+      const matching = entries.filter((entry) =>
+        entry.name_value.split(/\s+/).some((name) => isSubdomainOf(name.replace(/^\*\./, ''), domain))
+      );
+      return parseCrtShEntries(matching);
+    },
+  };
+}
+
+export function certificateStatus(certificate: CTCertificate, now: Date = new Date()): CertificateStatus {
+  if (certificate.notBefore.getTime() > now.getTime()) return 'not-yet-valid';
+  if (certificate.notAfter.getTime() <= now.getTime()) return 'expired';
+  if (certificate.notAfter.getTime() - now.getTime() < EXPIRY_WARNING_DAYS * 86400000) return 'expiring';
+  return 'valid';
+}
+
+export function extractSubdomains(domain: string, certificates: CTCertificate[]): string[] {
+  const base = stripTrailingDot(domain);
+  const names = certificates
+    .flatMap((cert) => [cert.commonName, ...cert.names])
+    .map((name) => name.replace(/^\*\./, '').toLowerCase())
+    .filter((name) => name !== base && isSubdomainOf(name, base) && !name.includes('@'));
+  return [...new Set(names)].sort();
+}
+
+export const DEFAULT_CT_SOURCE_ID = 'crtsh-server';
+
+const registry = new Map<string, CTLogSource>();
+
+export function registerCTSource(source: CTLogSource): void {
+  registry.set(source.id, source);
+}
+
+[
+  createCrtShSource(DEFAULT_CT_SOURCE_ID, 'crt.sh (via server)', '/api/ct'),
+  createCrtShSource('crtsh', 'crt.sh (direct)', 'https://crt.sh/'),
+  // Bundled crt.sh rows for example.com, for trying the panel without network access
+  createFixtureCTSource('sample', 'Sample data (example.com)', sampleEntries),
+].forEach(registerCTSource);
+
+export function listCTSources(): CTLogSource[] {
+  return [...registry.values()];
+}
+
+export function getCTSource(id: string = DEFAULT_CT_SOURCE_ID): CTLogSource {
+  return registry.get(id) ?? registry.get(DEFAULT_CT_SOURCE_ID)!;
+}
+
+export async function searchCertificates(
+  domain: string,
+  source: CTLogSource = getCTSource(),
+  signal?: AbortSignal
+): Promise<CTSearchResult> {
+  try {
+    const certificates = (await source.search(domain, signal))
+      .sort((a, b) => b.notBefore.getTime() - a.notBefore.getTime());
+    return { domain, source: source.id, certificates, subdomains: extractSubdomains(domain, certificates) };
+  } catch (error) {
+    return {
+      domain,
+      source: source.id,
+      certificates: [],
+      subdomains: [],
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
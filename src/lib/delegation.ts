@@ -0,0 +1,249 @@
+import { getIPIntelligence, lookupDNS } from './dns';
+import type { DNSMessage } from './dns-message';
+import { isSubdomainOf, stripTrailingDot } from './domain';
+import { createServerRouteResolver, type Resolver } from './resolver';
+import { parseSOA } from './soa';
+
+export type DelegationProblemKind =
+  | 'ns-mismatch'
+  | 'lame-delegation'
+  | 'missing-glue'
+  | 'serial-mismatch'
+  | 'open-recursion'
+  | 'single-subnet'
+  | 'single-asn';
+
+export interface DelegationProblem {
+  kind: DelegationProblemKind;
+  server?: string;
+  detail: string;
+}
+
+export interface NameserverProbe {
+  address: string;
+  responded: boolean;
+  authoritative: boolean;
+  serial?: number;
+  openRecursion: boolean;
+  error?: string;
+}
+
+export interface DelegatedNameserver {
+  name: string;
+  inParent: boolean;
+  inChild: boolean;
+  glue: string[];
+  probes: NameserverProbe[];
+  asn?: string;
+}
+
+export interface DelegationCheck {
+  zone: string;
+  parentZone?: string;
+  parentNs: string[];
+  childNs: string[];
+  nameservers: DelegatedNameserver[];
+  serials: number[];
+  // False when no nameserver answered a direct query, e.g. without the /api/dns route
+  reachable: boolean;
+  problems: DelegationProblem[];
+}
+
+export interface DelegationOptions {
+  directResolver?: (address: string) => Resolver;
+  lookupASN?: (address: string) => Promise<string | undefined>;
+  recursionProbe?: string;
+}
+
+const DEFAULT_RECURSION_PROBE = 'example.com';
+const MAX_PARENT_SERVERS = 3;
+
+function defaultDirectResolver(address: string): Resolver {
+  return createServerRouteResolver(`direct-${address}`, address, 'udp', address);
+}
+
+async function defaultLookupASN(address: string): Promise<string | undefined> {
+  return (await getIPIntelligence(address))?.asn || undefined;
+}
+
+async function resolveAddresses(name: string, resolver?: Resolver): Promise<string[]> {
+  const result = await lookupDNS(name, 'A', resolver);
+  return result.records.filter((r) => r.type === 'A').map((r) => r.value);
+}
+
+async function findParentZone(zone: string, resolver?: Resolver): Promise<{ name: string; servers: string[] } | null> {
+  const labels = zone.split('.');
+  for (let i = 1; i < labels.length; i++) {
+    const name = labels.slice(i).join('.');
+    const result = await lookupDNS(name, 'NS', resolver);
+    const servers = result.records.filter((r) => r.type === 'NS').map((r) => stripTrailingDot(r.value));
+    if (servers.length > 0) return { name, servers };
+  }
+  return null;
+}
+
+// Asks the parent's servers for the delegation itself: the referral's authority
+// section holds the parent-side NS set and the additional section holds glue.
+async function fetchReferral(
+  zone: string,
+  parentServers: string[],
+  directResolver: (address: string) => Resolver,
+  resolver?: Resolver
+): Promise<{ ns: string[]; glue: Map<string, string[]> } | null> {
+  for (const server of parentServers.slice(0, MAX_PARENT_SERVERS)) {
+    for (const address of await resolveAddresses(server, resolver)) {
+      let message: DNSMessage | undefined;
+      try {
+        ({ message } = await directResolver(address).query(zone, 'NS', { recursionDesired: false }));
+      } catch {
+        continue;
+      }
+      if (!message) continue;
+
+      const records = [...message.answers, ...message.authority]
+        .filter((r) => r.type === 'NS' && stripTrailingDot(r.name) === zone);
+      if (records.length === 0) continue;
+
+      const glue = new Map<string, string[]>();
+      for (const record of message.additional.filter((r) => r.type === 'A' || r.type === 'AAAA')) {
+        const name = stripTrailingDot(record.name);
+        glue.set(name, [...(glue.get(name) ?? []), record.data]);
+      }
+      return { ns: [...new Set(records.map((r) => stripTrailingDot(r.data)))], glue };
+    }
+  }
+  return null;
+}
+
+async function probeServer(
+  zone: string,
+  address: string,
+  resolver: Resolver,
+  recursionProbe: string
+): Promise<NameserverProbe> {
+  const probe: NameserverProbe = { address, responded: false, authoritative: false, openRecursion: false };
+
+  try {
+    const { status, message } = await resolver.query(zone, 'SOA', { recursionDesired: false });
+    probe.responded = true;
+    const soa = message?.answers.find((r) => r.type === 'SOA');
+    probe.authoritative = status === 0 && !!message?.flags.aa && !!soa;
+    if (soa) probe.serial = parseSOA(soa.data)?.serial;
+    if (!probe.authoritative) probe.error = status !== 0 ? `rcode ${status}` : 'Answer is not authoritative';
+  } catch (error) {
+    probe.error = error instanceof Error ? error.message : String(error);
+    return probe;
+  }
+
+  try {
+    const { status, message } = await resolver.query(recursionProbe, 'A', { recursionDesired: true });
+    probe.openRecursion = status === 0 && !!message?.flags.ra && (message?.answers.length ?? 0) > 0;
+  } catch {
+    // A server that drops recursive queries is the desired behaviour
+  }
+
+  return probe;
+}
+
+function subnet24(address: string): string | undefined {
+  const octets = address.split('.');
+  return octets.length === 4 ? octets.slice(0, 3).join('.') : undefined;
+}
+
+export async function auditDelegation(
+  domain: string,
+  resolver?: Resolver,
+  {
+    directResolver = defaultDirectResolver,
+    lookupASN = defaultLookupASN,
+    recursionProbe = DEFAULT_RECURSION_PROBE,
+  }: DelegationOptions = {}
+): Promise<DelegationCheck> {
+  const zone = stripTrailingDot(domain);
+  const problems: DelegationProblem[] = [];
+
+  const childResult = await lookupDNS(zone, 'NS', resolver);
+  const childNs = [...new Set(childResult.records.filter((r) => r.type === 'NS').map((r) => stripTrailingDot(r.value)))];
+
+  if (childNs.length === 0) {
+    return { zone, parentNs: [], childNs, nameservers: [], serials: [], reachable: false, problems };
+  }
+
+  const parent = await findParentZone(zone, resolver);
+  const referral = parent ? await fetchReferral(zone, parent.servers, directResolver, resolver) : null;
+  const parentNs = referral?.ns ?? [];
+
+  const names = [...new Set([...parentNs, ...childNs])].sort();
+  const probeTarget = zone === DEFAULT_RECURSION_PROBE && recursionProbe === DEFAULT_RECURSION_PROBE ? 'example.org' : recursionProbe;
+
+  const nameservers = await Promise.all(names.map(async (name): Promise<DelegatedNameserver> => {
+    const glue = referral?.glue.get(name) ?? [];
+    const addresses = glue.filter((a) => !a.includes(':'));
+    if (addresses.length === 0) addresses.push(...(await resolveAddresses(name, resolver)));
+
+    const probes = await Promise.all(
+      addresses.map((address) => probeServer(zone, address, directResolver(address), probeTarget))
+    );
+    const asn = addresses[0] ? await lookupASN(addresses[0]).catch(() => undefined) : undefined;
+
+    return { name, inParent: parentNs.includes(name), inChild: childNs.includes(name), glue, probes, asn };
+  }));
+
+  const probes = nameservers.flatMap((ns) => ns.probes);
+  const reachable = probes.some((p) => p.responded);
+  const serials = [...new Set(probes.filter((p) => p.authoritative && p.serial !== undefined).map((p) => p.serial!))];
+
+  if (referral) {
+    const onlyParent = parentNs.filter((ns) => !childNs.includes(ns));
+    const onlyChild = childNs.filter((ns) => !parentNs.includes(ns));
+    if (onlyParent.length > 0 || onlyChild.length > 0) {
+      problems.push({
+        kind: 'ns-mismatch',
+        detail: [
+          onlyParent.length > 0 && `only at the parent: ${onlyParent.join(', ')}`,
+          onlyChild.length > 0 && `only in the zone: ${onlyChild.join(', ')}`,
+        ].filter(Boolean).join('; '),
+      });
+    }
+
+    for (const ns of parentNs.filter((name) => isSubdomainOf(name, zone) && !referral.glue.has(name))) {
+      problems.push({ kind: 'missing-glue', server: ns, detail: `${ns} is inside ${zone} but ${parent?.name} serves no glue for it` });
+    }
+  }
+
+  if (reachable) {
+    for (const ns of nameservers) {
+      if (ns.probes.length === 0) {
+        problems.push({ kind: 'lame-delegation', server: ns.name, detail: `${ns.name} has no address records` });
+      } else if (ns.probes.every((p) => !p.authoritative)) {
+        problems.push({
+          kind: 'lame-delegation',
+          server: ns.name,
+          detail: `${ns.name} does not answer authoritatively for ${zone} (${ns.probes.map((p) => `${p.address}: ${p.error}`).join(', ')})`,
+        });
+      }
+      for (const probe of ns.probes.filter((p) => p.openRecursion)) {
+        problems.push({ kind: 'open-recursion', server: ns.name, detail: `${ns.name} (${probe.address}) resolves ${probeTarget} for anyone` });
+      }
+    }
+
+    if (serials.length > 1) {
+      const bySerial = nameservers
+        .flatMap((ns) => ns.probes.filter((p) => p.authoritative).map((p) => `${ns.name}=${p.serial}`));
+      problems.push({ kind: 'serial-mismatch', detail: `SOA serials differ: ${bySerial.join(', ')}` });
+    }
+  }
+
+  const addresses = nameservers.flatMap((ns) => ns.probes.map((p) => p.address));
+  const subnets = new Set(addresses.map(subnet24).filter(Boolean));
+  if (addresses.length > 1 && subnets.size === 1) {
+    problems.push({ kind: 'single-subnet', detail: `Every nameserver address is in ${[...subnets][0]}.0/24` });
+  }
+
+  const asns = nameservers.map((ns) => ns.asn);
+  if (nameservers.length > 1 && asns.every((asn) => asn && asn === asns[0])) {
+    problems.push({ kind: 'single-asn', detail: `Every nameserver is announced by ${asns[0]}` });
+  }
+
+  return { zone, parentZone: parent?.name, parentNs, childNs, nameservers, serials, reachable, problems };
+}
@@ -0,0 +1,168 @@
+import { lookupDNS } from './dns';
+import { base64ToBytes } from './dns-message';
+import { stripTrailingDot } from './domain';
+import type { Resolver } from './resolver';
+
+export interface DKIMKey {
+  selector: string;
+  name: string;
+  record: string;
+  keyType: string;
+  bits?: number;
+  revoked: boolean;
+  testing: boolean;
+  strictSubdomains: boolean;
+  hashAlgorithms: string[];
+  errors: string[];
+}
+
+export interface DKIMCheck {
+  present: boolean;
+  selectors: string[];
+  keys: DKIMKey[];
+}
+
+// Selectors used by the major mailbox providers and ESPs. DKIM selectors cannot be
+// enumerated, so anything not on this list has to be supplied by the caller.
+export const DEFAULT_DKIM_SELECTORS = [
+  'default', 'dkim', 'mail', 'email', 'smtp', 'key1', 'key2',
+  'google', 'selector1', 'selector2', 's1', 's2', 'k1', 'k2', 'k3',
+  'fm1', 'fm2', 'fm3', 'protonmail', 'protonmail2', 'protonmail3',
+  'mandrill', 'mxvault', 'zendesk1', 'zendesk2', 'everlytickey1', 'everlytickey2',
+  'sig1', 'pm', 'mailjet', 'cm',
+];
+
+const RSA_ENCRYPTION_OID = '2a864886f70d010101';
+
+function readTag(bytes: Uint8Array, offset: number, tag: number): { start: number; end: number } {
+  if (bytes[offset] !== tag) throw new Error(`Expected DER tag 0x${tag.toString(16)}`);
+  let length = bytes[offset + 1];
+  let start = offset + 2;
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < count; i++) length = (length << 8) | bytes[start + i];
+    start += count;
+  }
+  if (start + length > bytes.length) throw new Error('Truncated DER value');
+  return { start, end: start + length };
+}
+
+function integerBits(bytes: Uint8Array, start: number, end: number): number {
+  while (start < end && bytes[start] === 0) start++;
+  if (start === end) return 0;
+  return (end - start - 1) * 8 + bytes[start].toString(2).length;
+}
+
+// Accepts both SubjectPublicKeyInfo (what RFC 6376 requires) and a bare PKCS#1
+// RSAPublicKey, which a number of providers publish instead.
+function rsaModulusBits(der: Uint8Array): number {
+  const outer = readTag(der, 0, 0x30);
+
+  if (der[outer.start] === 0x30) {
+    const algorithm = readTag(der, outer.start, 0x30);
+    const oid = readTag(der, algorithm.start, 0x06);
+    const oidHex = Array.from(der.slice(oid.start, oid.end), (b) => b.toString(16).padStart(2, '0')).join('');
+    if (oidHex !== RSA_ENCRYPTION_OID) throw new Error('Public key is not an RSA key');
+
+    const bitString = readTag(der, algorithm.end, 0x03);
+    const inner = readTag(der, bitString.start + 1, 0x30);
+    const modulus = readTag(der, inner.start, 0x02);
+    return integerBits(der, modulus.start, modulus.end);
+  }
+
+  const modulus = readTag(der, outer.start, 0x02);
+  return integerBits(der, modulus.start, modulus.end);
+}
+
+export function isDKIMRecord(value: string): boolean {
+  return /^v\s*=\s*DKIM1\s*(;|$)/i.test(value.trim()) || /(^|;)\s*p\s*=/i.test(value);
+}
+
+export function parseDKIM(selector: string, name: string, record: string): DKIMKey {
+  const errors: string[] = [];
+  const tags = new Map<string, string>();
+
+  record.split(';').map((t) => t.trim()).filter(Boolean).forEach((tag, index) => {
+    const eq = tag.indexOf('=');
+    if (eq < 0) {
+      errors.push(`Malformed tag "${tag}"`);
+      return;
+    }
+    const key = tag.slice(0, eq).trim().toLowerCase();
+    if (key === 'v' && index !== 0) errors.push('v=DKIM1 must be the first tag');
+    if (tags.has(key)) errors.push(`Duplicate tag "${key}"`);
+    tags.set(key, tag.slice(eq + 1).replace(/\s+/g, ''));
+  });
+
+  if (tags.has('v') && tags.get('v') !== 'DKIM1') errors.push(`Unsupported version v=${tags.get('v')}`);
+
+  const keyType = (tags.get('k') ?? 'rsa').toLowerCase();
+  const flags = (tags.get('t') ?? '').split(':').map((f) => f.trim().toLowerCase());
+  const publicKey = tags.get('p');
+
+  const key: DKIMKey = {
+    selector,
+    name,
+    record,
+    keyType,
+    revoked: publicKey === '',
+    testing: flags.includes('y'),
+    strictSubdomains: flags.includes('s'),
+    hashAlgorithms: (tags.get('h') ?? 'sha1:sha256').split(':').map((h) => h.toLowerCase()),
+    errors,
+  };
+
+  if (publicKey === undefined) {
+    errors.push('Required tag "p" is missing');
+    return key;
+  }
+  if (key.revoked) return key;
+
+  let der: Uint8Array;
+  try {
+    der = base64ToBytes(publicKey);
+  } catch {
+    errors.push('p= is not valid base64');
+    return key;
+  }
+
+  if (keyType === 'rsa') {
+    try {
+      key.bits = rsaModulusBits(der);
+    } catch (error) {
+      errors.push(`Unable to decode RSA public key: ${error instanceof Error ? error.message : error}`);
+    }
+  } else if (keyType === 'ed25519') {
+    if (der.length === 32) key.bits = 256;
+    else errors.push(`Ed25519 public key is ${der.length} bytes; expected 32`);
+  } else {
+    errors.push(`Unknown key type k=${keyType}`);
+  }
+
+  if (key.hashAlgorithms.some((h) => h !== 'sha1' && h !== 'sha256')) {
+    errors.push(`Unknown hash algorithm in h=${tags.get('h')}`);
+  }
+
+  return key;
+}
+
+async function probeSelector(selector: string, domain: string, resolver?: Resolver): Promise<DKIMKey | null> {
+  const name = `${selector}._domainkey.${domain}`;
+  const result = await lookupDNS(name, 'TXT', resolver);
+  const record = result.records.filter((r) => r.type === 'TXT').map((r) => r.value).find(isDKIMRecord);
+  return record ? parseDKIM(selector, name, record) : null;
+}
+
+export async function discoverDKIM(
+  domain: string,
+  resolver?: Resolver,
+  selectors: string[] = DEFAULT_DKIM_SELECTORS
+): Promise<DKIMCheck> {
+  const name = stripTrailingDot(domain);
+  const unique = [...new Set(selectors.map((s) => s.trim().toLowerCase()).filter(Boolean))];
+  const keys = (await Promise.all(unique.map((selector) => probeSelector(selector, name, resolver))))
+    .filter((key): key is DKIMKey => key !== null);
+
+  return { present: keys.length > 0, selectors: unique, keys };
+}
@@ -0,0 +1,182 @@
+import { lookupDNS } from './dns';
+import { getOrganizationalDomain, stripTrailingDot } from './domain';
+import type { Resolver } from './resolver';
+
+export type DMARCDisposition = 'none' | 'quarantine' | 'reject';
+
+export interface DMARCPolicy {
+  p?: DMARCDisposition;
+  sp?: DMARCDisposition;
+  pct: number;
+  rua: string[];
+  ruf: string[];
+  adkim: 'r' | 's';
+  aspf: 'r' | 's';
+  fo: string[];
+  ri: number;
+}
+
+export interface DMARCReportDestination {
+  uri: string;
+  domain: string;
+  external: boolean;
+  authorized: boolean;
+  authorizationRecord?: string;
+}
+
+export interface DMARCCheck {
+  present: boolean;
+  valid: boolean;
+  record?: string;
+  source?: string;
+  inherited: boolean;
+  policy?: DMARCPolicy;
+  disposition?: DMARCDisposition;
+  errors: string[];
+  warnings: string[];
+  destinations: DMARCReportDestination[];
+}
+
+const DISPOSITIONS: DMARCDisposition[] = ['none', 'quarantine', 'reject'];
+
+export function isDMARCRecord(value: string): boolean {
+  return /^v\s*=\s*DMARC1\s*(;|$)/i.test(value.trim());
+}
+
+export function parseDMARC(record: string): { policy: DMARCPolicy; errors: string[]; warnings: string[] } {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const policy: DMARCPolicy = { pct: 100, rua: [], ruf: [], adkim: 'r', aspf: 'r', fo: ['0'], ri: 86400 };
+  const tags = record.split(';').map((t) => t.trim()).filter(Boolean);
+
+  if (!tags[0] || !/^v\s*=\s*DMARC1$/i.test(tags[0])) {
+    errors.push('First tag must be v=DMARC1');
+  }
+
+  const seen = new Set<string>();
+  for (const tag of tags.slice(1)) {
+    const eq = tag.indexOf('=');
+    if (eq < 0) {
+      errors.push(`Malformed tag "${tag}"`);
+      continue;
+    }
+    const key = tag.slice(0, eq).trim().toLowerCase();
+    const value = tag.slice(eq + 1).trim();
+
+    if (seen.has(key)) errors.push(`Duplicate tag "${key}"`);
+    seen.add(key);
+
+    switch (key) {
+      case 'p':
+      case 'sp':
+        if (DISPOSITIONS.includes(value.toLowerCase() as DMARCDisposition)) {
+          policy[key] = value.toLowerCase() as DMARCDisposition;
+        } else {
+          errors.push(`Invalid ${key}=${value}; expected none, quarantine or reject`);
+        }
+        break;
+      case 'pct': {
+        const pct = Number(value);
+        if (Number.isInteger(pct) && pct >= 0 && pct <= 100) policy.pct = pct;
+        else errors.push(`Invalid pct=${value}; expected an integer from 0 to 100`);
+        break;
+      }
+      case 'rua':
+      case 'ruf':
+        policy[key] = value.split(',').map((uri) => uri.trim()).filter(Boolean);
+        for (const uri of policy[key]) {
+          if (!/^mailto:[^@\s]+@[^@\s!]+(![0-9]+[kmgt]?)?$/i.test(uri)) errors.push(`Invalid ${key} URI "${uri}"`);
+        }
+        break;
+      case 'adkim':
+      case 'aspf':
+        if (value === 'r' || value === 's') policy[key] = value;
+        else errors.push(`Invalid ${key}=${value}; expected r or s`);
+        break;
+      case 'fo':
+        policy.fo = value.split(':').map((o) => o.trim());
+        if (policy.fo.some((o) => !['0', '1', 'd', 's'].includes(o))) errors.push(`Invalid fo=${value}`);
+        break;
+      case 'ri': {
+        const ri = Number(value);
+        if (Number.isInteger(ri) && ri >= 0) policy.ri = ri;
+        else errors.push(`Invalid ri=${value}`);
+        break;
+      }
+      case 'rf':
+        break;
+      default:
+        // RFC 7489 section 6.3: receivers ignore unknown tags, so the record still applies
+        warnings.push(`Unknown tag "${key}" is ignored`);
+    }
+  }
+
+  if (!policy.p) {
+    if (policy.rua.length > 0) policy.p = 'none';
+    else errors.push('Required tag "p" is missing');
+  }
+
+  return { policy, errors, warnings };
+}
+
+async function fetchDMARC(name: string, resolver?: Resolver): Promise<string[]> {
+  const result = await lookupDNS(`_dmarc.${name}`, 'TXT', resolver);
+  return result.records.map((r) => r.value).filter(isDMARCRecord);
+}
+
+async function checkDestination(uri: string, domain: string, resolver?: Resolver): Promise<DMARCReportDestination> {
+  const destination = stripTrailingDot(uri.replace(/^mailto:/i, '').split('!')[0].split('@')[1] ?? '');
+  const external = getOrganizationalDomain(destination) !== getOrganizationalDomain(domain);
+
+  if (!external) return { uri, domain: destination, external, authorized: true };
+
+  const authorizationRecord = `${domain}._report._dmarc.${destination}`;
+  const result = await lookupDNS(authorizationRecord, 'TXT', resolver);
+  return {
+    uri,
+    domain: destination,
+    external,
+    authorized: result.records.some((r) => isDMARCRecord(r.value)),
+    authorizationRecord,
+  };
+}
+
+export async function discoverDMARC(domain: string, resolver?: Resolver): Promise<DMARCCheck> {
+  const organizational = getOrganizationalDomain(domain);
+  let source = stripTrailingDot(domain);
+  let records = await fetchDMARC(source, resolver);
+
+  if (records.length === 0 && organizational !== source) {
+    source = organizational;
+    records = await fetchDMARC(source, resolver);
+  }
+
+  const check: DMARCCheck = {
+    present: records.length > 0,
+    valid: false,
+    source: `_dmarc.${source}`,
+    inherited: source !== stripTrailingDot(domain),
+    errors: [],
+    warnings: [],
+    destinations: [],
+  };
+
+  if (records.length === 0) return check;
+
+  if (records.length > 1) {
+    check.errors.push(`${records.length} DMARC records published; receivers will ignore all of them`);
+  }
+
+  const { policy, errors, warnings } = parseDMARC(records[0]);
+  check.record = records[0];
+  check.policy = policy;
+  check.disposition = check.inherited ? policy.sp ?? policy.p : policy.p;
+  check.errors.push(...errors);
+  check.warnings = warnings;
+  check.valid = check.errors.length === 0;
+  check.destinations = await Promise.all(
+    [...new Set([...policy.rua, ...policy.ruf])].map((uri) => checkDestination(uri, source, resolver))
+  );
+
+  return check;
+}
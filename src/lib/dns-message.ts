@@ -0,0 +1,962 @@
+import type { DNSRecord } from './dns';
+import { formatIP, parseIP } from './ip';
+import { parseLOC, parseRecordData } from './records';
+
+export const TYPE_CODES = {
+  A: 1,
+  NS: 2,
+  CNAME: 5,
+  SOA: 6,
+  PTR: 12,
+  HINFO: 13,
+  MX: 15,
+  TXT: 16,
+  AAAA: 28,
+  LOC: 29,
+  SRV: 33,
+  NAPTR: 35,
+  OPT: 41,
+  DS: 43,
+  SSHFP: 44,
+  RRSIG: 46,
+  NSEC: 47,
+  DNSKEY: 48,
+  NSEC3: 50,
+  TLSA: 52,
+  SVCB: 64,
+  HTTPS: 65,
+  CAA: 257,
+} as const;
+
+export type MessageType = keyof typeof TYPE_CODES;
+
+const TYPE_NAMES: Record<number, string> = Object.fromEntries(
+  Object.entries(TYPE_CODES).map(([name, code]) => [code, name])
+);
+
+// Types without a mnemonic use the generic TYPEnnn form (RFC 3597 section 5)
+export function recordTypeName(code: number): string {
+  return TYPE_NAMES[code] ?? `TYPE${code}`;
+}
+
+export function recordTypeCode(type: string): number | undefined {
+  const code = (TYPE_CODES as Record<string, number>)[type.toUpperCase()];
+  if (code !== undefined) return code;
+  const generic = /^TYPE(\d{1,5})$/i.exec(type);
+  return generic && Number(generic[1]) <= 65535 ? Number(generic[1]) : undefined;
+}
+
+export interface MessageFlags {
+  qr: boolean;
+  opcode: number;
+  aa: boolean;
+  tc: boolean;
+  rd: boolean;
+  ra: boolean;
+  ad: boolean;
+  cd: boolean;
+  rcode: number;
+}
+
+export interface Question {
+  name: string;
+  type: string;
+  class: number;
+}
+
+export interface ResourceRecord {
+  name: string;
+  type: string;
+  typeCode: number;
+  class: number;
+  ttl: number;
+  data: string;
+  rdata?: Uint8Array;
+}
+
+export interface EDNS {
+  udpSize: number;
+  dnssecOk: boolean;
+  version: number;
+  extendedRcode: number;
+}
+
+export interface DNSMessage {
+  id: number;
+  flags: MessageFlags;
+  questions: Question[];
+  answers: ResourceRecord[];
+  authority: ResourceRecord[];
+  additional: ResourceRecord[];
+  edns?: EDNS;
+}
+
+export interface QueryOptions {
+  id?: number;
+  dnssecOk?: boolean;
+  checkingDisabled?: boolean;
+  recursionDesired?: boolean;
+}
+
+// Types whose RDATA may carry compression pointers on the wire (RFC 3597 section 4)
+const COMPRESSIBLE_TYPES = new Set<number>([2, 5, 6, 12, 15]);
+
+const SVC_PARAM_KEYS = ['mandatory', 'alpn', 'no-default-alpn', 'port', 'ipv4hint', 'ech', 'ipv6hint'];
+
+// LOC stores angles in thousandths of an arcsecond offset from 2^31, and
+// altitude in centimetres above a base 100 km below the WGS 84 spheroid (RFC 1876)
+const LOC_EQUATOR = 2 ** 31;
+const LOC_ALTITUDE_BASE = 10000000;
+
+// Names
+
+export function normalizeName(name: string): string {
+  const trimmed = name.toLowerCase();
+  return trimmed.endsWith('.') ? trimmed : `${trimmed}.`;
+}
+
+function parseNameLabels(name: string): Uint8Array[] {
+  if (name === '.' || name === '') return [];
+  const labels: Uint8Array[] = [];
+  let current: number[] = [];
+
+  for (let i = 0; i < name.length; i++) {
+    const ch = name[i];
+    if (ch === '\\') {
+      const digits = name.slice(i + 1, i + 4);
+      if (/^\d{3}$/.test(digits)) {
+        current.push(parseInt(digits, 10));
+        i += 3;
+      } else {
+        current.push(name.charCodeAt(++i));
+      }
+    } else if (ch === '.') {
+      labels.push(Uint8Array.from(current));
+      current = [];
+    } else {
+      current.push(name.charCodeAt(i));
+    }
+  }
+  if (current.length > 0) labels.push(Uint8Array.from(current));
+
+  for (const label of labels) {
+    if (label.length === 0) throw new Error(`Empty label in name: ${name}`);
+    if (label.length > 63) throw new Error(`Label too long in name: ${name}`);
+  }
+  return labels;
+}
+
+function formatLabel(label: Uint8Array): string {
+  let out = '';
+  for (const byte of label) {
+    if (byte === 0x2e || byte === 0x5c) out += `\\${String.fromCharCode(byte)}`;
+    else if (byte <= 0x20 || byte >= 0x7f) out += `\\${byte.toString().padStart(3, '0')}`;
+    else out += String.fromCharCode(byte);
+  }
+  return out;
+}
+
+// Encoding helpers
+
+function hexToBytes(hex: string): Uint8Array {
+  const clean = hex.replace(/\s+/g, '');
+  if (clean.length % 2 !== 0 || /[^0-9a-f]/i.test(clean)) throw new Error(`Invalid hex: ${hex}`);
+  const out = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < out.length; i++) out[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16);
+  return out;
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function base64ToBytes(b64: string): Uint8Array {
+  const binary = atob(b64.replace(/\s+/g, ''));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+// Base32 with the extended hex alphabet and no padding, as NSEC3 hashes use (RFC 5155 section 3.3)
+const BASE32HEX = '0123456789abcdefghijklmnopqrstuv';
+
+export function bytesToBase32Hex(bytes: Uint8Array): string {
+  let out = '';
+  let value = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    value = ((value << 8) | byte) & 0xffff;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32HEX[(value >> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  return bits > 0 ? out + BASE32HEX[(value << (5 - bits)) & 31] : out;
+}
+
+export function base32HexToBytes(text: string): Uint8Array {
+  const out: number[] = [];
+  let value = 0;
+  let bits = 0;
+  for (const char of text.toLowerCase()) {
+    const digit = BASE32HEX.indexOf(char);
+    if (digit < 0) throw new Error(`Invalid base32hex: ${text}`);
+    value = ((value << 5) | digit) & 0xffff;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Uint8Array.from(out);
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function parseAddress(ip: string, length: 4 | 16): Uint8Array {
+  const bytes = parseIP(ip);
+  if (!bytes || bytes.length !== length) throw new Error(`Invalid ${length === 4 ? 'IPv4' : 'IPv6'} address: ${ip}`);
+  return bytes;
+}
+
+// Presentation-format tokenizer: splits on whitespace, keeps quoted strings intact
+
+function tokenize(data: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /"((?:[^"\\]|\\.)*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(data)) !== null) {
+    tokens.push(match[1] !== undefined ? `"${match[1]}"` : match[2]);
+  }
+  return tokens;
+}
+
+function unquote(token: string): string {
+  const inner = token.startsWith('"') && token.endsWith('"') ? token.slice(1, -1) : token;
+  return inner.replace(/\\(\d{3}|.)/g, (_, esc: string) =>
+    esc.length === 3 ? String.fromCharCode(parseInt(esc, 10)) : esc
+  );
+}
+
+function quote(bytes: Uint8Array): string {
+  let out = '';
+  for (const byte of bytes) {
+    if (byte === 0x22 || byte === 0x5c) out += `\\${String.fromCharCode(byte)}`;
+    else if (byte < 0x20 || byte >= 0x7f) out += `\\${byte.toString().padStart(3, '0')}`;
+    else out += String.fromCharCode(byte);
+  }
+  return `"${out}"`;
+}
+
+// Sizes and precisions are a mantissa and power of ten packed into one octet, in centimetres
+function encodeLOCPrecision(meters: number): number {
+  const centimeters = Math.round(meters * 100);
+  let exponent = 0;
+  while (exponent < 9 && centimeters >= 10 ** (exponent + 1)) exponent++;
+  return (Math.min(9, Math.floor(centimeters / 10 ** exponent)) << 4) | exponent;
+}
+
+function parseTimestamp(value: string): number {
+  if (/^\d{14}$/.test(value)) {
+    const [, y, mo, d, h, mi, s] = value.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/)!;
+    return Date.UTC(+y, +mo - 1, +d, +h, +mi, +s) / 1000;
+  }
+  return parseInt(value, 10);
+}
+
+export function formatTimestamp(seconds: number): string {
+  return new Date(seconds * 1000).toISOString().replace(/[-:T]/g, '').slice(0, 14);
+}
+
+class MessageWriter {
+  private bytes: number[] = [];
+  private names = new Map<string, number>();
+
+  get length(): number {
+    return this.bytes.length;
+  }
+
+  u8(value: number) {
+    this.bytes.push(value & 0xff);
+  }
+
+  u16(value: number) {
+    this.bytes.push((value >> 8) & 0xff, value & 0xff);
+  }
+
+  u32(value: number) {
+    this.u16(Math.floor(value / 0x10000) & 0xffff);
+    this.u16(value & 0xffff);
+  }
+
+  raw(data: ArrayLike<number>) {
+    for (let i = 0; i < data.length; i++) this.bytes.push(data[i]);
+  }
+
+  setU16(offset: number, value: number) {
+    this.bytes[offset] = (value >> 8) & 0xff;
+    this.bytes[offset + 1] = value & 0xff;
+  }
+
+  name(name: string, compress: boolean) {
+    const labels = parseNameLabels(name);
+    for (let i = 0; i < labels.length; i++) {
+      const suffix = labels.slice(i).map(formatLabel).join('.').toLowerCase();
+      const pointer = this.names.get(suffix);
+      if (compress && pointer !== undefined) {
+        this.u16(0xc000 | pointer);
+        return;
+      }
+      if (compress && this.bytes.length < 0x3fff) this.names.set(suffix, this.bytes.length);
+      this.u8(labels[i].length);
+      this.raw(labels[i]);
+    }
+    this.u8(0);
+  }
+
+  characterString(value: Uint8Array) {
+    if (value.length > 255) throw new Error('Character string longer than 255 bytes');
+    this.u8(value.length);
+    this.raw(value);
+  }
+
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+const textEncoder = new TextEncoder();
+
+function latin1(value: string): Uint8Array {
+  return Uint8Array.from(value, (c) => c.charCodeAt(0) & 0xff);
+}
+
+function writeSvcParams(writer: MessageWriter, params: string[]) {
+  const encoded = params.map((param) => {
+    const eq = param.indexOf('=');
+    const key = eq < 0 ? param : param.slice(0, eq);
+    const value = eq < 0 ? '' : unquote(param.slice(eq + 1));
+    const keyIndex = key.startsWith('key') ? parseInt(key.slice(3), 10) : SVC_PARAM_KEYS.indexOf(key);
+    if (keyIndex < 0 || Number.isNaN(keyIndex)) throw new Error(`Unknown SvcParam key: ${key}`);
+
+    const out = new MessageWriter();
+    switch (keyIndex) {
+      case 0:
+        value.split(',').forEach((k) => out.u16(SVC_PARAM_KEYS.indexOf(k) >= 0 ? SVC_PARAM_KEYS.indexOf(k) : parseInt(k.slice(3), 10)));
+        break;
+      case 1:
+        value.split(',').forEach((alpn) => out.characterString(latin1(alpn)));
+        break;
+      case 2:
+        break;
+      case 3:
+        out.u16(parseInt(value, 10));
+        break;
+      case 4:
+        value.split(',').forEach((ip) => out.raw(parseAddress(ip, 4)));
+        break;
+      case 5:
+        out.raw(base64ToBytes(value));
+        break;
+      case 6:
+        value.split(',').forEach((ip) => out.raw(parseAddress(ip, 16)));
+        break;
+      default:
+        out.raw(latin1(value));
+    }
+    return { key: keyIndex, value: out.toBytes() };
+  });
+
+  for (const { key, value } of encoded.sort((a, b) => a.key - b.key)) {
+    writer.u16(key);
+    writer.u16(value.length);
+    writer.raw(value);
+  }
+}
+
+// Type bitmaps list the types present at a name in 256-type windows (RFC 4034 section 4.1.2)
+function writeTypeBitmap(writer: MessageWriter, types: string[]) {
+  const windows = new Map<number, number[]>();
+  for (const type of types) {
+    const code = recordTypeCode(type);
+    if (code === undefined) throw new Error(`Unknown type in bitmap: ${type}`);
+    const bitmap = windows.get(code >> 8) ?? [];
+    bitmap[(code & 0xff) >> 3] = (bitmap[(code & 0xff) >> 3] ?? 0) | (0x80 >> (code & 7));
+    windows.set(code >> 8, bitmap);
+  }
+
+  for (const [window, bitmap] of [...windows].sort(([a], [b]) => a - b)) {
+    writer.u8(window);
+    writer.u8(bitmap.length);
+    writer.raw(Array.from(bitmap, (byte) => byte ?? 0));
+  }
+}
+
+function writeRdata(writer: MessageWriter, typeCode: number, data: string, compress: boolean) {
+  const tokens = tokenize(data);
+
+  if (tokens[0] === '\\#') {
+    writer.raw(hexToBytes(tokens.slice(2).join('')));
+    return;
+  }
+
+  switch (typeCode) {
+    case 1:
+      writer.raw(parseAddress(data.trim(), 4));
+      break;
+    case 28:
+      writer.raw(parseAddress(data.trim(), 16));
+      break;
+    case 2:
+    case 5:
+    case 12:
+      writer.name(tokens[0], compress);
+      break;
+    case 15:
+      writer.u16(parseInt(tokens[0], 10));
+      writer.name(tokens[1], compress);
+      break;
+    case 16: {
+      const quoted = tokens.length > 0 && tokens.every((t) => t.startsWith('"'));
+      if (quoted) {
+        tokens.forEach((t) => writer.characterString(latin1(unquote(t))));
+      } else {
+        const bytes = textEncoder.encode(data);
+        for (let i = 0; i < bytes.length || i === 0; i += 255) writer.characterString(bytes.subarray(i, i + 255));
+      }
+      break;
+    }
+    case 6:
+      writer.name(tokens[0], compress);
+      writer.name(tokens[1], compress);
+      tokens.slice(2, 7).forEach((n) => writer.u32(parseInt(n, 10)));
+      break;
+    case 33:
+      tokens.slice(0, 3).forEach((n) => writer.u16(parseInt(n, 10)));
+      writer.name(tokens[3], false);
+      break;
+    case 13:
+      tokens.slice(0, 2).forEach((t) => writer.characterString(latin1(unquote(t))));
+      break;
+    case 29: {
+      const loc = parseLOC(data);
+      if (!loc) throw new Error(`Invalid LOC record: ${data}`);
+      writer.u8(0);
+      [loc.size, loc.horizontalPrecision, loc.verticalPrecision].forEach((m) => writer.u8(encodeLOCPrecision(m)));
+      writer.u32(Math.round(loc.latitude * 3600000) + LOC_EQUATOR);
+      writer.u32(Math.round(loc.longitude * 3600000) + LOC_EQUATOR);
+      writer.u32(Math.round(loc.altitude * 100) + LOC_ALTITUDE_BASE);
+      break;
+    }
+    case 35:
+      writer.u16(parseInt(tokens[0], 10));
+      writer.u16(parseInt(tokens[1], 10));
+      tokens.slice(2, 5).forEach((t) => writer.characterString(latin1(unquote(t))));
+      writer.name(tokens[5], false);
+      break;
+    case 44:
+      writer.u8(parseInt(tokens[0], 10));
+      writer.u8(parseInt(tokens[1], 10));
+      writer.raw(hexToBytes(tokens.slice(2).join('')));
+      break;
+    case 43:
+      writer.u16(parseInt(tokens[0], 10));
+      writer.u8(parseInt(tokens[1], 10));
+      writer.u8(parseInt(tokens[2], 10));
+      writer.raw(hexToBytes(tokens.slice(3).join('')));
+      break;
+    case 48:
+      writer.u16(parseInt(tokens[0], 10));
+      writer.u8(parseInt(tokens[1], 10));
+      writer.u8(parseInt(tokens[2], 10));
+      writer.raw(base64ToBytes(tokens.slice(3).join('')));
+      break;
+    case 46: {
+      const covered = recordTypeCode(tokens[0]);
+      if (covered === undefined) throw new Error(`Unknown covered type in RRSIG: ${tokens[0]}`);
+      writer.u16(covered);
+      writer.u8(parseInt(tokens[1], 10));
+      writer.u8(parseInt(tokens[2], 10));
+      writer.u32(parseInt(tokens[3], 10));
+      writer.u32(parseTimestamp(tokens[4]));
+      writer.u32(parseTimestamp(tokens[5]));
+      writer.u16(parseInt(tokens[6], 10));
+      writer.name(tokens[7], false);
+      writer.raw(base64ToBytes(tokens.slice(8).join('')));
+      break;
+    }
+    case 47:
+      writer.name(tokens[0], false);
+      writeTypeBitmap(writer, tokens.slice(1));
+      break;
+    case 50: {
+      const salt = tokens[3] === '-' ? new Uint8Array(0) : hexToBytes(tokens[3]);
+      const next = base32HexToBytes(tokens[4]);
+      writer.u8(parseInt(tokens[0], 10));
+      writer.u8(parseInt(tokens[1], 10));
+      writer.u16(parseInt(tokens[2], 10));
+      writer.u8(salt.length);
+      writer.raw(salt);
+      writer.u8(next.length);
+      writer.raw(next);
+      writeTypeBitmap(writer, tokens.slice(5));
+      break;
+    }
+    case 52:
+      tokens.slice(0, 3).forEach((n) => writer.u8(parseInt(n, 10)));
+      writer.raw(hexToBytes(tokens.slice(3).join('')));
+      break;
+    case 64:
+    case 65:
+      writer.u16(parseInt(tokens[0], 10));
+      writer.name(tokens[1], false);
+      writeSvcParams(writer, tokens.slice(2));
+      break;
+    case 257: {
+      const tag = latin1(tokens[1]);
+      writer.u8(parseInt(tokens[0], 10));
+      writer.u8(tag.length);
+      writer.raw(tag);
+      writer.raw(latin1(unquote(tokens.slice(2).join(' '))));
+      break;
+    }
+    default:
+      throw new Error(`Cannot encode ${recordTypeName(typeCode)} record from presentation format`);
+  }
+}
+
+export function encodeRdata(type: string | number, data: string): Uint8Array {
+  const typeCode = typeof type === 'number' ? type : recordTypeCode(type);
+  if (typeCode === undefined) throw new Error(`Unknown record type: ${type}`);
+  const writer = new MessageWriter();
+  writeRdata(writer, typeCode, data, false);
+  return writer.toBytes();
+}
+
+export function encodeName(name: string): Uint8Array {
+  const writer = new MessageWriter();
+  writer.name(name, false);
+  return writer.toBytes();
+}
+
+function writeRecord(writer: MessageWriter, record: ResourceRecord) {
+  writer.name(record.name, true);
+  writer.u16(record.typeCode);
+  writer.u16(record.class);
+  writer.u32(record.ttl);
+  const lengthOffset = writer.length;
+  writer.u16(0);
+  if (record.rdata) writer.raw(record.rdata);
+  else writeRdata(writer, record.typeCode, record.data, true);
+  writer.setU16(lengthOffset, writer.length - lengthOffset - 2);
+}
+
+export function encodeMessage(message: DNSMessage): Uint8Array {
+  const writer = new MessageWriter();
+  const { flags } = message;
+  const additional = [...message.additional];
+
+  if (message.edns) {
+    additional.push({
+      name: '.',
+      type: 'OPT',
+      typeCode: TYPE_CODES.OPT,
+      class: message.edns.udpSize,
+      ttl: ((message.edns.extendedRcode << 24) | (message.edns.version << 16) | (message.edns.dnssecOk ? 0x8000 : 0)) >>> 0,
+      data: '',
+      rdata: new Uint8Array(0),
+    });
+  }
+
+  writer.u16(message.id);
+  writer.u16(
+    (flags.qr ? 0x8000 : 0) |
+    ((flags.opcode & 0xf) << 11) |
+    (flags.aa ? 0x0400 : 0) |
+    (flags.tc ? 0x0200 : 0) |
+    (flags.rd ? 0x0100 : 0) |
+    (flags.ra ? 0x0080 : 0) |
+    (flags.ad ? 0x0020 : 0) |
+    (flags.cd ? 0x0010 : 0) |
+    (flags.rcode & 0xf)
+  );
+  writer.u16(message.questions.length);
+  writer.u16(message.answers.length);
+  writer.u16(message.authority.length);
+  writer.u16(additional.length);
+
+  for (const question of message.questions) {
+    writer.name(question.name, true);
+    const typeCode = recordTypeCode(question.type);
+    if (typeCode === undefined) throw new Error(`Unknown record type: ${question.type}`);
+    writer.u16(typeCode);
+    writer.u16(question.class);
+  }
+
+  message.answers.forEach((record) => writeRecord(writer, record));
+  message.authority.forEach((record) => writeRecord(writer, record));
+  additional.forEach((record) => writeRecord(writer, record));
+
+  return writer.toBytes();
+}
+
+export function encodeQuery(name: string, type: string, options: QueryOptions = {}): Uint8Array {
+  return encodeMessage({
+    id: options.id ?? 0,
+    flags: {
+      qr: false,
+      opcode: 0,
+      aa: false,
+      tc: false,
+      rd: options.recursionDesired ?? true,
+      ra: false,
+      ad: true,
+      cd: options.checkingDisabled ?? false,
+      rcode: 0,
+    },
+    questions: [{ name, type, class: 1 }],
+    answers: [],
+    authority: [],
+    additional: [],
+    edns: { udpSize: 4096, dnssecOk: options.dnssecOk ?? false, version: 0, extendedRcode: 0 },
+  });
+}
+
+// Decoding
+
+function readName(buf: Uint8Array, start: number): { name: string; next: number } {
+  const labels: string[] = [];
+  let offset = start;
+  let next = -1;
+  let jumps = 0;
+
+  while (true) {
+    if (offset >= buf.length) throw new Error('Name runs past end of message');
+    const len = buf[offset];
+
+    if ((len & 0xc0) === 0xc0) {
+      if (++jumps > 64) throw new Error('Compression loop in name');
+      if (next < 0) next = offset + 2;
+      offset = ((len & 0x3f) << 8) | buf[offset + 1];
+      continue;
+    }
+
+    if (len === 0) {
+      if (next < 0) next = offset + 1;
+      break;
+    }
+
+    labels.push(formatLabel(buf.subarray(offset + 1, offset + 1 + len)));
+    offset += len + 1;
+  }
+
+  return { name: labels.length ? `${labels.join('.')}.` : '.', next };
+}
+
+function readCharacterStrings(rdata: Uint8Array): Uint8Array[] {
+  const chunks: Uint8Array[] = [];
+  let offset = 0;
+  while (offset < rdata.length) {
+    const len = rdata[offset];
+    chunks.push(rdata.subarray(offset + 1, offset + 1 + len));
+    offset += len + 1;
+  }
+  return chunks;
+}
+
+function formatSvcParams(rdata: Uint8Array): string {
+  const view = new DataView(rdata.buffer, rdata.byteOffset, rdata.byteLength);
+  const params: string[] = [];
+  let offset = 0;
+
+  while (offset + 4 <= rdata.length) {
+    const key = view.getUint16(offset);
+    const len = view.getUint16(offset + 2);
+    const value = rdata.subarray(offset + 4, offset + 4 + len);
+    const valueView = new DataView(value.buffer, value.byteOffset, value.byteLength);
+    const name = SVC_PARAM_KEYS[key] ?? `key${key}`;
+
+    switch (key) {
+      case 0: {
+        const keys: string[] = [];
+        for (let i = 0; i < len; i += 2) keys.push(SVC_PARAM_KEYS[valueView.getUint16(i)] ?? `key${valueView.getUint16(i)}`);
+        params.push(`${name}=${keys.join(',')}`);
+        break;
+      }
+      case 1:
+        params.push(`${name}=${readCharacterStrings(value).map((c) => String.fromCharCode(...c)).join(',')}`);
+        break;
+      case 2:
+        params.push(name);
+        break;
+      case 3:
+        params.push(`${name}=${valueView.getUint16(0)}`);
+        break;
+      case 4: {
+        const ips: string[] = [];
+        for (let i = 0; i < len; i += 4) ips.push(Array.from(value.subarray(i, i + 4)).join('.'));
+        params.push(`${name}=${ips.join(',')}`);
+        break;
+      }
+      case 5:
+        params.push(`${name}=${bytesToBase64(value)}`);
+        break;
+      case 6: {
+        const ips: string[] = [];
+        for (let i = 0; i < len; i += 16) ips.push(formatIP(value.subarray(i, i + 16)));
+        params.push(`${name}=${ips.join(',')}`);
+        break;
+      }
+      default:
+        params.push(`${name}=${quote(value)}`);
+    }
+    offset += 4 + len;
+  }
+
+  return params.join(' ');
+}
+
+function formatTypeBitmap(bitmap: Uint8Array): string {
+  const types: string[] = [];
+  let offset = 0;
+  while (offset + 2 <= bitmap.length) {
+    const window = bitmap[offset];
+    const len = bitmap[offset + 1];
+    for (let i = 0; i < len; i++) {
+      for (let bit = 0; bit < 8; bit++) {
+        if (bitmap[offset + 2 + i] & (0x80 >> bit)) {
+          const code = window * 256 + i * 8 + bit;
+          types.push(recordTypeName(code));
+        }
+      }
+    }
+    offset += 2 + len;
+  }
+  return types.join(' ');
+}
+
+function formatUnknownRdata(rdata: Uint8Array): string {
+  return `\\# ${rdata.length}${rdata.length ? ` ${bytesToHex(rdata)}` : ''}`;
+}
+
+function formatLOCAngle(raw: number, hemispheres: string): string {
+  const offset = raw - LOC_EQUATOR;
+  const abs = Math.abs(offset);
+  const degrees = Math.floor(abs / 3600000);
+  const minutes = Math.floor((abs % 3600000) / 60000);
+  const seconds = (abs % 60000) / 1000;
+  return `${degrees} ${minutes} ${seconds.toFixed(3)} ${hemispheres[offset < 0 ? 1 : 0]}`;
+}
+
+function formatLOC(view: DataView, start: number): string {
+  const precision = (byte: number) => `${(((byte >> 4) * 10 ** (byte & 0x0f)) / 100).toFixed(2)}m`;
+  return [
+    formatLOCAngle(view.getUint32(start + 4), 'NS'),
+    formatLOCAngle(view.getUint32(start + 8), 'EW'),
+    `${((view.getUint32(start + 12) - LOC_ALTITUDE_BASE) / 100).toFixed(2)}m`,
+    precision(view.getUint8(start + 1)),
+    precision(view.getUint8(start + 2)),
+    precision(view.getUint8(start + 3)),
+  ].join(' ');
+}
+
+function formatRdata(buf: Uint8Array, typeCode: number, start: number, length: number): string {
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+  const rdata = buf.subarray(start, start + length);
+
+  switch (typeCode) {
+    case 1:
+      return Array.from(rdata).join('.');
+    case 28:
+      return formatIP(rdata);
+    case 2:
+    case 5:
+    case 12:
+      return readName(buf, start).name;
+    case 15:
+      return `${view.getUint16(start)} ${readName(buf, start + 2).name}`;
+    case 16:
+      return readCharacterStrings(rdata).map(quote).join(' ');
+    case 6: {
+      const mname = readName(buf, start);
+      const rname = readName(buf, mname.next);
+      const numbers = [0, 4, 8, 12, 16].map((i) => view.getUint32(rname.next + i));
+      return [mname.name, rname.name, ...numbers].join(' ');
+    }
+    case 33:
+      return [
+        view.getUint16(start),
+        view.getUint16(start + 2),
+        view.getUint16(start + 4),
+        readName(buf, start + 6).name,
+      ].join(' ');
+    case 13:
+      return readCharacterStrings(rdata).map(quote).join(' ');
+    case 29:
+      return rdata[0] === 0 && length === 16 ? formatLOC(view, start) : formatUnknownRdata(rdata);
+    case 35: {
+      const strings: string[] = [];
+      let offset = 4;
+      for (let i = 0; i < 3; i++) {
+        strings.push(quote(rdata.subarray(offset + 1, offset + 1 + rdata[offset])));
+        offset += rdata[offset] + 1;
+      }
+      return [view.getUint16(start), view.getUint16(start + 2), ...strings, readName(buf, start + offset).name].join(' ');
+    }
+    case 43:
+      return [view.getUint16(start), rdata[2], rdata[3], bytesToHex(rdata.subarray(4)).toUpperCase()].join(' ');
+    case 44:
+      return [rdata[0], rdata[1], bytesToHex(rdata.subarray(2)).toUpperCase()].join(' ');
+    case 48:
+      return [view.getUint16(start), rdata[2], rdata[3], bytesToBase64(rdata.subarray(4))].join(' ');
+    case 46: {
+      const signer = readName(buf, start + 18);
+      const covered = view.getUint16(start);
+      return [
+        recordTypeName(covered),
+        rdata[2],
+        rdata[3],
+        view.getUint32(start + 4),
+        formatTimestamp(view.getUint32(start + 8)),
+        formatTimestamp(view.getUint32(start + 12)),
+        view.getUint16(start + 16),
+        signer.name,
+        bytesToBase64(buf.subarray(signer.next, start + length)),
+      ].join(' ');
+    }
+    case 47: {
+      const next = readName(buf, start);
+      return `${next.name} ${formatTypeBitmap(buf.subarray(next.next, start + length))}`;
+    }
+    case 50: {
+      const saltLength = rdata[4];
+      const hashLength = rdata[5 + saltLength];
+      const hashEnd = 6 + saltLength + hashLength;
+      return [
+        rdata[0],
+        rdata[1],
+        view.getUint16(start + 2),
+        saltLength ? bytesToHex(rdata.subarray(5, 5 + saltLength)).toUpperCase() : '-',
+        bytesToBase32Hex(rdata.subarray(6 + saltLength, hashEnd)).toUpperCase(),
+        formatTypeBitmap(rdata.subarray(hashEnd)),
+      ].join(' ').trim();
+    }
+    case 52:
+      return [rdata[0], rdata[1], rdata[2], bytesToHex(rdata.subarray(3)).toUpperCase()].join(' ');
+    case 64:
+    case 65: {
+      const target = readName(buf, start + 2);
+      const params = formatSvcParams(buf.subarray(target.next, start + length));
+      return [view.getUint16(start), target.name, params].filter((p) => p !== '').join(' ');
+    }
+    case 257: {
+      const tagLength = rdata[1];
+      const tag = String.fromCharCode(...rdata.subarray(2, 2 + tagLength));
+      return `${rdata[0]} ${tag} ${quote(rdata.subarray(2 + tagLength))}`;
+    }
+    default:
+      return formatUnknownRdata(rdata);
+  }
+}
+
+function readRecord(buf: Uint8Array, view: DataView, offset: number): { record: ResourceRecord; next: number } {
+  const { name, next } = readName(buf, offset);
+  const typeCode = view.getUint16(next);
+  const rdlength = view.getUint16(next + 8);
+  const rdataStart = next + 10;
+  if (rdataStart + rdlength > buf.length) throw new Error('Record data runs past end of message');
+
+  return {
+    record: {
+      name,
+      type: recordTypeName(typeCode),
+      typeCode,
+      class: view.getUint16(next + 2),
+      ttl: view.getUint32(next + 4),
+      data: typeCode === TYPE_CODES.OPT ? '' : formatRdata(buf, typeCode, rdataStart, rdlength),
+      rdata: COMPRESSIBLE_TYPES.has(typeCode)
+        ? encodeRdata(typeCode, formatRdata(buf, typeCode, rdataStart, rdlength))
+        : buf.slice(rdataStart, rdataStart + rdlength),
+    },
+    next: rdataStart + rdlength,
+  };
+}
+
+export function decodeMessage(buf: Uint8Array): DNSMessage {
+  if (buf.length < 12) throw new Error('DNS message shorter than header');
+
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+  const rawFlags = view.getUint16(2);
+  const counts = [4, 6, 8, 10].map((offset) => view.getUint16(offset));
+
+  let offset = 12;
+  const questions: Question[] = [];
+  for (let i = 0; i < counts[0]; i++) {
+    const { name, next } = readName(buf, offset);
+    const typeCode = view.getUint16(next);
+    questions.push({ name, type: recordTypeName(typeCode), class: view.getUint16(next + 2) });
+    offset = next + 4;
+  }
+
+  const sections: ResourceRecord[][] = [[], [], []];
+  for (let s = 0; s < 3; s++) {
+    for (let i = 0; i < counts[s + 1]; i++) {
+      const { record, next } = readRecord(buf, view, offset);
+      sections[s].push(record);
+      offset = next;
+    }
+  }
+
+  const [answers, authority, additionalWithOpt] = sections;
+  const opt = additionalWithOpt.find((r) => r.typeCode === TYPE_CODES.OPT);
+  const edns = opt && {
+    udpSize: opt.class,
+    extendedRcode: opt.ttl >>> 24,
+    version: (opt.ttl >>> 16) & 0xff,
+    dnssecOk: (opt.ttl & 0x8000) !== 0,
+  };
+
+  return {
+    id: view.getUint16(0),
+    flags: {
+      qr: (rawFlags & 0x8000) !== 0,
+      opcode: (rawFlags >> 11) & 0xf,
+      aa: (rawFlags & 0x0400) !== 0,
+      tc: (rawFlags & 0x0200) !== 0,
+      rd: (rawFlags & 0x0100) !== 0,
+      ra: (rawFlags & 0x0080) !== 0,
+      ad: (rawFlags & 0x0020) !== 0,
+      cd: (rawFlags & 0x0010) !== 0,
+      rcode: ((edns?.extendedRcode ?? 0) << 4) | (rawFlags & 0xf),
+    },
+    questions,
+    answers,
+    authority,
+    additional: additionalWithOpt.filter((r) => r !== opt),
+    edns,
+  };
+}
+
+// Presentation helpers shared by resolvers
+
+export function txtChunks(data: string): string[] {
+  const tokens = tokenize(data);
+  if (tokens.length === 0 || !tokens.every((t) => t.startsWith('"'))) return [data];
+  return tokens.map((t) => new TextDecoder().decode(latin1(unquote(t))));
+}
+
+export function toDNSRecord(record: ResourceRecord): DNSRecord {
+  const type = recordTypeName(record.typeCode);
+  const data = parseRecordData(type, record.data) ?? undefined;
+  return {
+    type,
+    name: record.name,
+    value: data?.type === 'TXT' ? data.text : record.data,
+    ttl: record.ttl,
+    priority: data?.type === 'MX' ? data.priority : undefined,
+    data,
+  };
+}
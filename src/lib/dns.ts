@@ -1,4 +1,45 @@
-export type RecordType = 'A' | 'AAAA' | 'MX' | 'TXT' | 'CNAME' | 'NS' | 'SOA' | 'PTR' | 'SRV';
+import { checkCAA, type CAACheck, type CAAProblemKind } from './caa';
+import type { DNSMessage } from './dns-message';
+import { auditDelegation, type DelegationCheck, type DelegationOptions, type DelegationProblemKind } from './delegation';
+import { DEFAULT_DKIM_SELECTORS, discoverDKIM, type DKIMCheck } from './dkim';
+import { discoverDMARC, type DMARCCheck } from './dmarc';
+import { validateDNSSEC, type DNSSECCheck, type DNSSECProblemKind } from './dnssec';
+import {
+  checkBIMI,
+  checkMTASTS,
+  checkTLSRPT,
+  type BIMICheck,
+  type MTASTSCheck,
+  type MTASTSPolicyFetcher,
+  type TLSRPTCheck,
+} from './mail-posture';
+import { lookupIPIntelligence } from './ip-intel';
+import type { RecordData } from './records';
+import { getResolver, RCODE_NAMES, type Resolver } from './resolver';
+import { auditSOA, detectSerialFormat, type SOAProblem, type SOAProblemKind, type SOARecord, type SOASerialFormat } from './soa';
+import { analyzeSPF, SPF_LOOKUP_LIMIT, SPF_VOID_LOOKUP_LIMIT, type SPFCheck } from './spf';
+import { DEFAULT_TAKEOVER_SUBDOMAINS, scanTakeover, type TakeoverCheck } from './takeover';
+
+export type RecordType =
+  | 'A'
+  | 'AAAA'
+  | 'MX'
+  | 'TXT'
+  | 'CNAME'
+  | 'NS'
+  | 'SOA'
+  | 'PTR'
+  | 'SRV'
+  | 'CAA'
+  | 'HTTPS'
+  | 'SVCB'
+  | 'TLSA'
+  | 'DS'
+  | 'DNSKEY'
+  | 'NAPTR'
+  | 'SSHFP'
+  | 'LOC'
+  | 'HINFO';
 
 export interface DNSRecord {
   type: string;
@@ -6,6 +47,7 @@ export interface DNSRecord {
   value: string;
   ttl: number;
   priority?: number;
+  data?: RecordData;
 }
 
 export interface DNSLookupResult {
@@ -14,6 +56,8 @@ export interface DNSLookupResult {
   records: DNSRecord[];
   responseTime: number;
   timestamp: Date;
+  rcode?: number;
+  message?: DNSMessage;
   error?: string;
 }
 
@@ -49,176 +93,238 @@ export interface AttackSurfaceResult {
   riskScore: number;
   issues: AttackSurfaceIssue[];
   checks: {
-    spf: { present: boolean; valid: boolean; record?: string };
-    dmarc: { present: boolean; valid: boolean; record?: string };
-    dnssec: { present: boolean; signed: boolean };
+    spf: SPFCheck;
+    dmarc: DMARCCheck;
+    dkim: DKIMCheck;
+    dnssec: DNSSECCheck;
     mx: { present: boolean; records: string[] };
+    mtaSts: MTASTSCheck;
+    tlsRpt: TLSRPTCheck;
+    bimi: BIMICheck;
     ns: { present: boolean; records: string[] };
+    soa: { record?: SOARecord; serialFormat?: SOASerialFormat; problems: SOAProblem[] };
+    delegation: DelegationCheck;
+    takeover: TakeoverCheck;
+    caa: CAACheck;
   };
 }
 
-const DNS_OVER_HTTPS_SERVERS = [
-  'https://dns.google/resolve',
-  'https://cloudflare-dns.com/dns-query',
-];
+export interface AttackSurfaceOptions {
+  dkimSelectors?: string[];
+  fetchMTASTSPolicy?: MTASTSPolicyFetcher;
+  takeoverSubdomains?: string[];
+  delegation?: DelegationOptions;
+}
 
 export async function lookupDNS(
   domain: string,
-  recordType: RecordType = 'A'
+  recordType: RecordType = 'A',
+  resolver: Resolver = getResolver()
 ): Promise<DNSLookupResult> {
   const startTime = performance.now();
-  
-  const typeCode: Record<RecordType, number> = {
-    A: 1,
-    AAAA: 28,
-    MX: 15,
-    TXT: 16,
-    CNAME: 5,
-    NS: 2,
-    SOA: 6,
-    PTR: 12,
-    SRV: 33,
-  };
-
-  const params = new URLSearchParams({
-    name: domain,
-    type: typeCode[recordType].toString(),
-  });
-
-  const errors: string[] = [];
 
-  for (const server of DNS_OVER_HTTPS_SERVERS) {
-    try {
-      const response = await fetch(`${server}?${params}`, {
-        headers: {
-          Accept: 'application/dns-json',
-        },
-      });
-
-      if (!response.ok) {
-        errors.push(`Server ${server} returned ${response.status}`);
-        continue;
-      }
-
-      const data = await response.json();
-      const responseTime = Math.round(performance.now() - startTime);
-
-      if (data.Status === 0 && data.Answer) {
-        const records: DNSRecord[] = data.Answer.map((answer: any) => ({
-          type: answer.type === 1 ? 'A' : answer.type === 28 ? 'AAAA' : 
-                answer.type === 15 ? 'MX' : answer.type === 16 ? 'TXT' :
-                answer.type === 5 ? 'CNAME' : answer.type === 2 ? 'NS' :
-                answer.type === 6 ? 'SOA' : answer.type === 12 ? 'PTR' :
-                answer.type === 33 ? 'SRV' : 'UNKNOWN',
-          name: answer.name,
-          value: answer.data,
-          ttl: answer.TTL,
-          priority: answer.type === 15 ? parseInt(answer.data.split(' ')[0]) : undefined,
-        }));
-
-        return {
-          domain,
-          recordType,
-          records,
-          responseTime,
-          timestamp: new Date(),
-        };
-      } else if (data.Status === 3) {
-        return {
-          domain,
-          recordType,
-          records: [],
-          responseTime: Math.round(performance.now() - startTime),
-          timestamp: new Date(),
-          error: 'NXDOMAIN - Domain does not exist',
-        };
-      }
-    } catch (error) {
-      errors.push(`Server ${server} failed: ${error}`);
-    }
-  }
-
-  return {
+  const result = (
+    records: DNSRecord[],
+    rcode?: number,
+    error?: string,
+    message?: DNSMessage
+  ): DNSLookupResult => ({
     domain,
     recordType,
-    records: [],
+    records,
     responseTime: Math.round(performance.now() - startTime),
     timestamp: new Date(),
-    error: `All DNS servers failed: ${errors.join(', ')}`,
-  };
-}
+    rcode,
+    message,
+    error,
+  });
 
-export async function getIPIntelligence(ip: string): Promise<IPIntelligenceData | null> {
   try {
-    const response = await fetch(
-      `http://ip-api.com/json/${ip}?fields=status,message,country,countryCode,region,regionName,city,isp,org,as,lat,lon,timezone,mobile,proxy,hosting`
-    );
-
-    if (!response.ok) {
-      throw new Error('Failed to fetch IP data');
-    }
+    const answer = await resolver.query(domain, recordType);
 
-    const data = await response.json();
-
-    if (data.status !== 'success') {
-      throw new Error(data.message || 'IP lookup failed');
+    if (answer.status === 0) {
+      return result(answer.records, 0, undefined, answer.message);
+    } else if (answer.status === 3) {
+      return result([], 3, 'NXDOMAIN - Domain does not exist', answer.message);
     }
 
-    return {
-      ip: data.query,
-      version: data.query.includes(':') ? 6 : 4,
-      country: data.country,
-      countryCode: data.countryCode,
-      region: data.regionName,
-      city: data.city,
-      isp: data.isp,
-      org: data.org,
-      asn: data.as,
-      lat: data.lat,
-      lon: data.lon,
-      timezone: data.timezone,
-      isMobile: data.mobile,
-      isProxy: data.proxy,
-      isHosting: data.hosting,
-    };
+    return result([], answer.status, `${resolver.label} returned ${RCODE_NAMES[answer.status] ?? `RCODE ${answer.status}`}`, answer.message);
   } catch (error) {
-    console.error('IP intelligence error:', error);
-    return null;
+    return result([], undefined, error instanceof Error ? error.message : String(error));
   }
 }
 
-export async function analyzeAttackSurface(domain: string): Promise<AttackSurfaceResult> {
+// Merged answer of the default providers; use lookupIPIntelligence for sources and errors
+export async function getIPIntelligence(ip: string): Promise<IPIntelligenceData | null> {
+  return (await lookupIPIntelligence(ip)).data;
+}
+
+const DNSSEC_ISSUES: Record<
+  DNSSECProblemKind,
+  Pick<AttackSurfaceIssue, 'severity' | 'title' | 'description' | 'recommendation'> & { score: number }
+> = {
+  unsigned: {
+    severity: 'low',
+    title: 'DNSSEC Not Configured',
+    description: 'The zone is not part of a DNSSEC chain of trust.',
+    recommendation: 'Consider enabling DNSSEC to protect against DNS spoofing attacks.',
+    score: 10,
+  },
+  'bogus-signature': {
+    severity: 'critical',
+    title: 'DNSSEC Signature Invalid',
+    description: 'A signature in the chain of trust failed to verify, so validating resolvers will return SERVFAIL.',
+    recommendation: 'Re-sign the zone and confirm the signing keys match the published DNSKEY set.',
+    score: 30,
+  },
+  'expiring-signature': {
+    severity: 'medium',
+    title: 'DNSSEC Signatures Expiring',
+    description: 'RRSIG records for the zone expire within the next seven days.',
+    recommendation: 'Check that automatic re-signing is running for this zone.',
+    score: 10,
+  },
+  'ds-mismatch': {
+    severity: 'high',
+    title: 'DS/DNSKEY Mismatch',
+    description: 'The DS record at the parent does not match any DNSKEY published by the zone.',
+    recommendation: 'Update the DS record at your registrar to match the current key-signing key.',
+    score: 25,
+  },
+};
+
+const DELEGATION_ISSUES: Record<
+  DelegationProblemKind,
+  Pick<AttackSurfaceIssue, 'severity' | 'category' | 'title' | 'description' | 'recommendation'> & { score: number }
+> = {
+  'ns-mismatch': {
+    severity: 'medium',
+    category: 'DNS Delegation',
+    title: 'Parent and Child NS Sets Differ',
+    description: 'The nameservers delegated by the parent zone do not match the NS records published in the zone;',
+    recommendation: 'Update the delegation at your registrar and the zone apex NS records so both list the same servers.',
+    score: 10,
+  },
+  'lame-delegation': {
+    severity: 'high',
+    category: 'DNS Delegation',
+    title: 'Lame Delegation',
+    description: 'A delegated nameserver does not serve the zone:',
+    recommendation: 'Remove the server from the delegation or configure it to serve the zone.',
+    score: 20,
+  },
+  'missing-glue': {
+    severity: 'high',
+    category: 'DNS Delegation',
+    title: 'Missing Glue Record',
+    description: 'An in-zone nameserver cannot be reached without glue:',
+    recommendation: 'Register the nameserver host and its addresses with your registrar so the parent publishes glue.',
+    score: 15,
+  },
+  'serial-mismatch': {
+    severity: 'medium',
+    category: 'DNS Delegation',
+    title: 'Nameservers Out of Sync',
+    description: 'Authoritative servers are serving different versions of the zone.',
+    recommendation: 'Check zone transfers (AXFR/IXFR and NOTIFY) between primary and secondaries.',
+    score: 10,
+  },
+  'open-recursion': {
+    severity: 'high',
+    category: 'Infrastructure',
+    title: 'Open Recursive Resolver',
+    description: 'An authoritative nameserver also recurses for arbitrary clients, which makes it usable for amplification attacks and cache poisoning:',
+    recommendation: 'Disable recursion on authoritative servers or restrict it to trusted networks.',
+    score: 20,
+  },
+  'single-subnet': {
+    severity: 'medium',
+    category: 'Infrastructure',
+    title: 'Nameservers on a Single Subnet',
+    description: 'A single routing or upstream failure takes down every nameserver.',
+    recommendation: 'Place at least one nameserver on a different network.',
+    score: 10,
+  },
+  'single-asn': {
+    severity: 'low',
+    category: 'Infrastructure',
+    title: 'Nameservers in a Single ASN',
+    description: 'All nameservers depend on one network operator.',
+    recommendation: 'Add a secondary DNS provider on a different autonomous system.',
+    score: 5,
+  },
+};
+
+const CAA_ISSUES: Record<
+  CAAProblemKind,
+  Pick<AttackSurfaceIssue, 'severity' | 'title' | 'description' | 'recommendation'> & { score: number }
+> = {
+  missing: {
+    severity: 'low',
+    title: 'No CAA Policy',
+    description: 'Any certificate authority may issue certificates for this domain.',
+    recommendation: 'Publish CAA issue records naming only the CAs you use, e.g. 0 issue "letsencrypt.org".',
+    score: 5,
+  },
+  'wildcard-open': {
+    severity: 'low',
+    title: 'Wildcard Issuance Not Restricted',
+    description: 'Wildcard certificates fall back to the issue policy.',
+    recommendation: 'Add 0 issuewild ";" if you do not use wildcard certificates, or name the CA that issues them.',
+    score: 3,
+  },
+  'iodef-invalid': {
+    severity: 'low',
+    title: 'CAA Incident Reporting Broken',
+    description: 'CAs cannot deliver reports of rejected certificate requests:',
+    recommendation: 'Point iodef at a reachable mailto: address or https: endpoint.',
+    score: 2,
+  },
+  'unknown-critical': {
+    severity: 'medium',
+    title: 'Unknown Critical CAA Property',
+    description: 'Certificate issuance is blocked for every CA.',
+    recommendation: 'Clear the critical flag (128) on the property or remove it.',
+    score: 10,
+  },
+};
+
+const SOA_ISSUE_TITLES: Record<SOAProblemKind, string> = {
+  refresh: 'SOA Refresh Interval Out of Range',
+  retry: 'SOA Retry Interval Misconfigured',
+  expire: 'SOA Expire Interval Misconfigured',
+  minimum: 'SOA Negative-Caching TTL Out of Range',
+  serial: 'SOA Serial Problem',
+  rname: 'SOA Contact Address Invalid',
+};
+
+export async function analyzeAttackSurface(
+  domain: string,
+  resolver: Resolver = getResolver(),
+  options: AttackSurfaceOptions = {}
+): Promise<AttackSurfaceResult> {
   const issues: AttackSurfaceIssue[] = [];
   let riskScore = 0;
 
-  const [spfResult, dmarcResult, dnssecResult, mxResult, nsResult] = await Promise.all([
-    lookupDNS(domain, 'TXT'),
-    lookupDNS(domain, 'TXT'),
-    lookupDNS(domain, 'SOA'),
-    lookupDNS(domain, 'MX'),
-    lookupDNS(domain, 'NS'),
+  const mxLookup = lookupDNS(domain, 'MX', resolver);
+  const mxHosts = (result: DNSLookupResult) => result.records.map(r => r.value.split(' ').pop() ?? '');
+
+  const [spf, dmarc, dkim, dnssec, mxResult, mtaSts, tlsRpt, bimi, nsResult, soaResult, delegation, takeover, caa] = await Promise.all([
+    analyzeSPF(domain, resolver),
+    discoverDMARC(domain, resolver),
+    discoverDKIM(domain, resolver, options.dkimSelectors ?? DEFAULT_DKIM_SELECTORS),
+    validateDNSSEC(domain, resolver),
+    mxLookup,
+    mxLookup.then(result => checkMTASTS(domain, mxHosts(result), resolver, options.fetchMTASTSPolicy)),
+    checkTLSRPT(domain, resolver),
+    checkBIMI(domain, resolver),
+    lookupDNS(domain, 'NS', resolver),
+    lookupDNS(domain, 'SOA', resolver),
+    auditDelegation(domain, resolver, options.delegation),
+    scanTakeover(domain, resolver, options.takeoverSubdomains ?? DEFAULT_TAKEOVER_SUBDOMAINS),
+    checkCAA(domain, resolver),
   ]);
 
-  const spfRecord = spfResult.records.find(r => r.value.startsWith('v=spf1'));
-  const dmarcRecord = dmarcResult.records.find(r => r.value.startsWith('v=dmarc1'));
-
-  const spf = {
-    present: !!spfRecord,
-    valid: spfRecord ? spfRecord.value.includes('v=spf1') : false,
-    record: spfRecord?.value,
-  };
-
-  const dmarc = {
-    present: !!dmarcRecord,
-    valid: dmarcRecord ? dmarcRecord.value.includes('v=dmarc1') : false,
-    record: dmarcRecord?.value,
-  };
-
-  const dnssec = {
-    present: dnssecResult.records.length > 0,
-    signed: false,
-  };
-
   const mx = {
     present: mxResult.records.length > 0,
     records: mxResult.records.map(r => r.value),
@@ -229,6 +335,14 @@ export async function analyzeAttackSurface(domain: string): Promise<AttackSurfac
     records: nsResult.records.map(r => r.value),
   };
 
+  const soaData = soaResult.records.find(r => r.type === 'SOA')?.data;
+  const soaRecord = soaData?.type === 'SOA' ? soaData : undefined;
+  const soa = {
+    record: soaRecord,
+    serialFormat: soaRecord ? detectSerialFormat(soaRecord.serial) : undefined,
+    problems: soaRecord ? auditSOA(soaRecord) : [],
+  };
+
   if (!spf.present) {
     issues.push({
       id: 'spf-missing',
@@ -239,16 +353,79 @@ export async function analyzeAttackSurface(domain: string): Promise<AttackSurfac
       recommendation: 'Add an SPF record to specify authorized mail servers.',
     });
     riskScore += 25;
-  } else if (!spf.valid) {
+  } else if (spf.records.length > 1) {
     issues.push({
-      id: 'spf-invalid',
-      severity: 'medium',
+      id: 'spf-multiple',
+      severity: 'high',
       category: 'Email Security',
-      title: 'SPF Record Invalid',
-      description: 'SPF record exists but may be misconfigured.',
-      recommendation: 'Review SPF syntax and ensure it covers all authorized servers.',
+      title: 'Multiple SPF Records',
+      description: `${domain} publishes ${spf.records.length} SPF records, so every SPF check returns permerror.`,
+      recommendation: 'Merge all authorized senders into a single v=spf1 record.',
     });
-    riskScore += 15;
+    riskScore += 20;
+  } else {
+    const loops = spf.errors.filter((e) => e.startsWith('Include loop'));
+    const syntaxErrors = spf.errors.filter((e) => !loops.includes(e) && !/^More than \d+ (DNS|void) lookups/.test(e));
+
+    if (spf.lookupCount > SPF_LOOKUP_LIMIT) {
+      issues.push({
+        id: 'spf-lookup-limit',
+        severity: 'high',
+        category: 'Email Security',
+        title: 'SPF Lookup Limit Exceeded',
+        description: `Evaluating the SPF record takes ${spf.lookupCount} DNS lookups; receivers stop at ${SPF_LOOKUP_LIMIT} and return permerror.`,
+        recommendation: 'Flatten nested includes or replace them with ip4/ip6 ranges to stay under the limit.',
+      });
+      riskScore += 20;
+    }
+
+    if (spf.voidLookupCount > SPF_VOID_LOOKUP_LIMIT) {
+      issues.push({
+        id: 'spf-void-lookups',
+        severity: 'medium',
+        category: 'Email Security',
+        title: 'Too Many Void SPF Lookups',
+        description: `${spf.voidLookupCount} SPF lookups return no records; receivers may return permerror after ${SPF_VOID_LOOKUP_LIMIT}.`,
+        recommendation: 'Remove mechanisms that point at names which no longer exist.',
+      });
+      riskScore += 10;
+    }
+
+    if (loops.length > 0) {
+      issues.push({
+        id: 'spf-include-loop',
+        severity: 'high',
+        category: 'Email Security',
+        title: 'SPF Include Loop',
+        description: `${loops.join('; ')}.`,
+        recommendation: 'Remove the include or redirect that points back to a domain already being evaluated.',
+      });
+      riskScore += 20;
+    }
+
+    if (spf.allQualifier === '+' || spf.allQualifier === '?') {
+      issues.push({
+        id: 'spf-permissive',
+        severity: spf.allQualifier === '+' ? 'high' : 'medium',
+        category: 'Email Security',
+        title: 'Permissive SPF Policy',
+        description: `The record ends in "${spf.allQualifier}all", so mail from any host is ${spf.allQualifier === '+' ? 'authorized' : 'treated as neutral'}.`,
+        recommendation: 'End the record with -all or ~all once every legitimate sender is listed.',
+      });
+      riskScore += spf.allQualifier === '+' ? 20 : 10;
+    }
+
+    if (syntaxErrors.length > 0) {
+      issues.push({
+        id: 'spf-invalid',
+        severity: 'medium',
+        category: 'Email Security',
+        title: 'SPF Record Invalid',
+        description: `SPF record is misconfigured: ${syntaxErrors.join('; ')}.`,
+        recommendation: 'Review SPF syntax and ensure it covers all authorized servers.',
+      });
+      riskScore += 15;
+    }
   }
 
   if (!dmarc.present) {
@@ -267,22 +444,154 @@ export async function analyzeAttackSurface(domain: string): Promise<AttackSurfac
       severity: 'medium',
       category: 'Email Security',
       title: 'DMARC Record Invalid',
-      description: 'DMARC record exists but may be misconfigured.',
+      description: `DMARC record at ${dmarc.source} is misconfigured: ${dmarc.errors.join('; ')}.`,
       recommendation: 'Review DMARC policy syntax and alignment settings.',
     });
     riskScore += 10;
   }
 
-  if (!dnssec.present) {
+  if (dmarc.policy) {
+    if (dmarc.disposition === 'none') {
+      issues.push({
+        id: 'dmarc-policy-none',
+        severity: 'medium',
+        category: 'Email Security',
+        title: 'DMARC Policy Not Enforced',
+        description: `The DMARC policy published at ${dmarc.source} resolves to none for ${domain}, so receivers deliver spoofed mail that fails authentication.`,
+        recommendation: 'Move to p=quarantine and then p=reject once aggregate reports show legitimate mail aligns.',
+      });
+      riskScore += 15;
+    }
+
+    if (dmarc.policy.pct < 100) {
+      issues.push({
+        id: 'dmarc-partial-pct',
+        severity: 'low',
+        category: 'Email Security',
+        title: 'DMARC Applied to Partial Traffic',
+        description: `pct=${dmarc.policy.pct} applies the policy to only ${dmarc.policy.pct}% of failing mail.`,
+        recommendation: 'Raise pct to 100 once the policy has been validated.',
+      });
+      riskScore += 5;
+    }
+
+    if (dmarc.policy.rua.length === 0) {
+      issues.push({
+        id: 'dmarc-no-rua',
+        severity: 'low',
+        category: 'Email Security',
+        title: 'DMARC Aggregate Reports Disabled',
+        description: 'No rua= destination is set, so you receive no visibility into who sends mail as this domain.',
+        recommendation: 'Add rua=mailto:<address> to collect aggregate reports.',
+      });
+      riskScore += 5;
+    }
+
+    for (const destination of dmarc.destinations.filter((d) => !d.authorized)) {
+      issues.push({
+        id: `dmarc-unauthorized-destination-${destination.uri}`,
+        severity: 'medium',
+        category: 'Email Security',
+        title: 'DMARC Report Destination Not Authorized',
+        description: `${destination.domain} does not publish ${destination.authorizationRecord}, so reports to ${destination.uri} will be discarded.`,
+        recommendation: `Ask the operator of ${destination.domain} to publish the external reporting authorization record, or use a mailbox in your own domain.`,
+      });
+      riskScore += 5;
+    }
+  }
+
+  if (!dkim.present) {
     issues.push({
-      id: 'dnssec-missing',
+      id: 'dkim-missing',
       severity: 'low',
+      category: 'Email Security',
+      title: 'No DKIM Keys Found',
+      description: `None of the ${dkim.selectors.length} probed selectors publish a DKIM key under _domainkey.${domain}.`,
+      recommendation: 'Sign outgoing mail with DKIM, or add your provider\'s selector to the probe list if it is not a common one.',
+    });
+    riskScore += 5;
+  }
+
+  for (const key of dkim.keys) {
+    if (key.revoked) {
+      issues.push({
+        id: `dkim-revoked-${key.selector}`,
+        severity: 'low',
+        category: 'Email Security',
+        title: 'Revoked DKIM Key',
+        description: `${key.name} publishes an empty p= tag, so any mail still signed with selector "${key.selector}" fails DKIM.`,
+        recommendation: 'Remove the record once no sender uses this selector.',
+      });
+      riskScore += 5;
+      continue;
+    }
+
+    if (key.errors.length > 0) {
+      issues.push({
+        id: `dkim-invalid-${key.selector}`,
+        severity: 'medium',
+        category: 'Email Security',
+        title: 'DKIM Key Record Invalid',
+        description: `${key.name} is misconfigured: ${key.errors.join('; ')}.`,
+        recommendation: 'Republish the key record exactly as generated by your mail provider.',
+      });
+      riskScore += 10;
+    }
+
+    if (key.keyType === 'rsa' && key.bits !== undefined && key.bits <= 1024) {
+      issues.push({
+        id: `dkim-weak-key-${key.selector}`,
+        severity: key.bits < 1024 ? 'high' : 'medium',
+        category: 'Email Security',
+        title: 'Weak DKIM Key',
+        description: `Selector "${key.selector}" uses a ${key.bits}-bit RSA key, which is within reach of factoring and lets an attacker forge signed mail.`,
+        recommendation: 'Rotate to a 2048-bit RSA or Ed25519 key under a new selector.',
+      });
+      riskScore += key.bits < 1024 ? 20 : 10;
+    }
+
+    if (key.testing) {
+      issues.push({
+        id: `dkim-test-mode-${key.selector}`,
+        severity: 'medium',
+        category: 'Email Security',
+        title: 'DKIM Key in Test Mode',
+        description: `Selector "${key.selector}" sets t=y, so receivers treat signatures as unverified and DMARC gains no protection from them.`,
+        recommendation: 'Remove the y flag from the t= tag once signing has been verified.',
+      });
+      riskScore += 10;
+    }
+  }
+
+  // Resolving chains into providers that answer for unclaimed names are listed
+  // with the CNAME chains for a manual check, not scored
+  for (const finding of takeover.findings.filter((chain) => chain.dangling)) {
+    issues.push({
+      id: `takeover-${finding.host}`,
+      severity: 'critical',
+      category: 'Subdomain Takeover',
+      title: finding.service ? `Dangling CNAME to ${finding.service}` : 'Dangling CNAME',
+      description: `${finding.chain.join(' → ')} ends at ${finding.target}, which returns NXDOMAIN. ${
+        finding.service
+          ? `Anyone can register that name on ${finding.service} and serve content as ${finding.host}.`
+          : `If ${finding.target} can be registered by a third party, they will control ${finding.host}.`
+      }`,
+      recommendation: `Remove the CNAME for ${finding.host}, or reclaim the resource it points to.`,
+    });
+    riskScore += 40;
+  }
+
+  for (const problem of dnssec.problems) {
+    const issue = DNSSEC_ISSUES[problem.kind];
+    issues.push({
+      id: `dnssec-${problem.kind}`,
+      severity: issue.severity,
       category: 'DNSSEC',
-      title: 'DNSSEC Not Configured',
-      description: 'Domain does not appear to have DNSSEC enabled.',
-      recommendation: 'Consider enabling DNSSEC to protect against DNS spoofing attacks.',
+      title: issue.title,
+      description: `${issue.description} ${problem.detail}.`,
+      recommendation: issue.recommendation,
     });
-    riskScore += 10;
+    riskScore += issue.score;
   }
 
   if (!mx.present) {
@@ -297,6 +606,91 @@ export async function analyzeAttackSurface(domain: string): Promise<AttackSurfac
     riskScore += 15;
   }
 
+  if (mx.present && !mtaSts.present) {
+    issues.push({
+      id: 'mta-sts-missing',
+      severity: 'low',
+      category: 'Email Security',
+      title: 'MTA-STS Not Deployed',
+      description: `No _mta-sts.${domain} record found, so sending servers fall back to opportunistic TLS that an attacker can downgrade.`,
+      recommendation: 'Publish an MTA-STS policy at https://mta-sts.<domain>/.well-known/mta-sts.txt and announce it with a _mta-sts TXT record.',
+    });
+    riskScore += 5;
+  }
+
+  if (mtaSts.present) {
+    if (mtaSts.errors.length > 0) {
+      issues.push({
+        id: 'mta-sts-invalid',
+        severity: 'medium',
+        category: 'Email Security',
+        title: 'MTA-STS Policy Invalid',
+        description: `MTA-STS is misconfigured: ${mtaSts.errors.join('; ')}.`,
+        recommendation: 'Fix the policy file and bump the id= in the _mta-sts record so senders refetch it.',
+      });
+      riskScore += 10;
+    }
+
+    if (mtaSts.policy && mtaSts.policy.mode !== 'enforce') {
+      issues.push({
+        id: 'mta-sts-not-enforced',
+        severity: 'low',
+        category: 'Email Security',
+        title: 'MTA-STS Not Enforced',
+        description: `The MTA-STS policy is in mode: ${mtaSts.policy.mode}, so senders still deliver when TLS validation fails.`,
+        recommendation: 'Switch to mode: enforce once TLS-RPT reports show no failures.',
+      });
+      riskScore += 5;
+    }
+
+    if (mtaSts.policy && mtaSts.uncoveredMx.length > 0) {
+      const enforced = mtaSts.policy.mode === 'enforce';
+      issues.push({
+        id: 'mta-sts-mx-uncovered',
+        severity: enforced ? 'high' : 'medium',
+        category: 'Email Delivery',
+        title: 'MX Hosts Not Covered by MTA-STS',
+        description: `${mtaSts.uncoveredMx.join(', ')} ${mtaSts.uncoveredMx.length === 1 ? 'does' : 'do'} not match any mx: pattern in the policy${enforced ? ', so compliant senders will refuse to deliver to them' : ''}.`,
+        recommendation: 'Add an mx: line for every published MX host before enforcing the policy.',
+      });
+      riskScore += enforced ? 20 : 10;
+    }
+  }
+
+  if (mx.present && !tlsRpt.present) {
+    issues.push({
+      id: 'tls-rpt-missing',
+      severity: 'low',
+      category: 'Email Security',
+      title: 'TLS Reporting Disabled',
+      description: `No _smtp._tls.${domain} record found, so you receive no reports about failed TLS deliveries.`,
+      recommendation: 'Publish v=TLSRPTv1; rua=mailto:<address> at _smtp._tls.',
+    });
+    riskScore += 5;
+  } else if (tlsRpt.errors.length > 0) {
+    issues.push({
+      id: 'tls-rpt-invalid',
+      severity: 'low',
+      category: 'Email Security',
+      title: 'TLS-RPT Record Invalid',
+      description: `TLS-RPT is misconfigured: ${tlsRpt.errors.join('; ')}.`,
+      recommendation: 'Review the rua= destinations in the _smtp._tls record.',
+    });
+    riskScore += 5;
+  }
+
+  if (bimi.errors.length > 0) {
+    issues.push({
+      id: 'bimi-invalid',
+      severity: 'low',
+      category: 'Email Security',
+      title: 'BIMI Record Invalid',
+      description: `The BIMI record at default._bimi.${domain} is misconfigured: ${bimi.errors.join('; ')}.`,
+      recommendation: 'Point l= at an HTTPS-hosted SVG Tiny PS logo and a= at your Verified Mark Certificate.',
+    });
+    riskScore += 5;
+  }
+
   if (ns.records.length < 2) {
     issues.push({
       id: 'ns-insufficient',
@@ -309,13 +703,53 @@ export async function analyzeAttackSurface(domain: string): Promise<AttackSurfac
     riskScore += 5;
   }
 
+  for (const kind of [...new Set(soa.problems.map((p) => p.kind))]) {
+    const problems = soa.problems.filter((p) => p.kind === kind);
+    const severity = problems.some((p) => p.severity === 'medium') ? 'medium' : 'low';
+    issues.push({
+      id: `soa-${kind}`,
+      severity,
+      category: 'Zone Hygiene',
+      title: SOA_ISSUE_TITLES[kind],
+      description: `The SOA record for ${domain}: ${problems.map((p) => p.detail).join('; ')}.`,
+      recommendation: 'Review the SOA record at your DNS provider against the RFC 1912 recommendations.',
+    });
+    riskScore += severity === 'medium' ? 5 : 2;
+  }
+
+  for (const problem of delegation.problems) {
+    const issue = DELEGATION_ISSUES[problem.kind];
+    issues.push({
+      id: problem.server ? `delegation-${problem.kind}-${problem.server}` : `delegation-${problem.kind}`,
+      severity: issue.severity,
+      category: issue.category,
+      title: issue.title,
+      description: `${issue.description} ${problem.detail}.`,
+      recommendation: issue.recommendation,
+    });
+    riskScore += issue.score;
+  }
+
+  for (const kind of [...new Set(caa.problems.map((p) => p.kind))]) {
+    const issue = CAA_ISSUES[kind];
+    issues.push({
+      id: `caa-${kind}`,
+      severity: issue.severity,
+      category: 'Certificates',
+      title: issue.title,
+      description: `${issue.description} ${caa.problems.filter((p) => p.kind === kind).map((p) => p.detail).join('; ')}.`,
+      recommendation: issue.recommendation,
+    });
+    riskScore += issue.score;
+  }
+
   riskScore = Math.min(riskScore, 100);
 
   return {
     domain,
     riskScore,
     issues,
-    checks: { spf, dmarc, dnssec, mx, ns },
+    checks: { spf, dmarc, dkim, dnssec, mx, mtaSts, tlsRpt, bimi, ns, soa, delegation, takeover, caa },
   };
 }
 
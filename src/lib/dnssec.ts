@@ -0,0 +1,669 @@
+import {
+  TYPE_CODES,
+  base64ToBytes,
+  bytesToBase32Hex,
+  bytesToHex,
+  encodeName,
+  encodeRdata,
+  normalizeName,
+  type MessageType,
+  type ResourceRecord,
+} from './dns-message';
+import type { Resolver } from './resolver';
+
+export type DNSSECStatus = 'secure' | 'insecure' | 'bogus' | 'indeterminate';
+
+export type DNSSECProblemKind = 'unsigned' | 'bogus-signature' | 'expiring-signature' | 'ds-mismatch';
+
+export interface DNSSECProblem {
+  kind: DNSSECProblemKind;
+  zone: string;
+  detail: string;
+}
+
+export interface DNSSECKey {
+  keyTag: number;
+  algorithm: number;
+  flags: number;
+  matchesDS: boolean;
+}
+
+export interface DNSSECZoneLink {
+  zone: string;
+  status: DNSSECStatus;
+  dsCount: number;
+  keys: DNSSECKey[];
+  message: string;
+}
+
+export interface DNSSECCheck {
+  present: boolean;
+  signed: boolean;
+  status: DNSSECStatus;
+  adBit: boolean;
+  algorithms: string[];
+  chain: DNSSECZoneLink[];
+  signatureExpiration?: string;
+  problems: DNSSECProblem[];
+}
+
+export interface DNSSECOptions {
+  now?: Date;
+  trustAnchors?: string[];
+}
+
+export const DNSSEC_ALGORITHMS: Record<number, string> = {
+  5: 'RSASHA1',
+  7: 'RSASHA1-NSEC3-SHA1',
+  8: 'RSASHA256',
+  10: 'RSASHA512',
+  13: 'ECDSAP256SHA256',
+  14: 'ECDSAP384SHA384',
+  15: 'ED25519',
+  16: 'ED448',
+};
+
+// Algorithms importDnskey can verify; RFC 4035 section 5.2 treats a zone signed
+// with none of them as insecure rather than bogus
+const SUPPORTED_ALGORITHMS = new Set([5, 7, 8, 10, 13, 14, 15]);
+
+const DIGEST_ALGORITHMS: Record<number, string> = {
+  1: 'SHA-1',
+  2: 'SHA-256',
+  4: 'SHA-384',
+};
+
+// IANA root zone KSK-2017 and KSK-2024 (https://data.iana.org/root-anchors/root-anchors.xml)
+export const ROOT_TRUST_ANCHORS = [
+  '20326 8 2 E06D44B80B8F1D39A95C0B0D7C65D08458E880409BBC683457104237C7F8EC8D',
+  '38696 8 2 683D2D0ACB8C9B712A1948B27F741219298D0A450D612C483AF444A4C0FB2B16',
+];
+
+const EXPIRY_WARNING_SECONDS = 7 * 24 * 60 * 60;
+
+// RFC 4034 section 6.2: types whose RDATA names are lowercased in canonical form
+const CANONICAL_NAME_TYPES = new Set<number>([2, 5, 6, 12, 15, 33]);
+
+interface RRset {
+  records: ResourceRecord[];
+  signatures: ResourceRecord[];
+  // Authority section, where a negative answer carries its NSEC/NSEC3 proof
+  authority: ResourceRecord[];
+  ad: boolean;
+}
+
+type DenialProof = 'insecure-delegation' | 'no-zone-cut';
+
+interface Signature {
+  typeCovered: string;
+  algorithm: number;
+  labels: number;
+  originalTtl: number;
+  expiration: number;
+  inception: number;
+  keyTag: number;
+  signer: string;
+  signature: Uint8Array;
+  rdataWithoutSignature: Uint8Array;
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+function u16(value: number): Uint8Array {
+  return Uint8Array.of(value >> 8, value & 0xff);
+}
+
+function u32(value: number): Uint8Array {
+  return Uint8Array.of(value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff);
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  return Uint8Array.from(hex.match(/../g) ?? [], (byte) => parseInt(byte, 16));
+}
+
+// RFC 4034 section 6.1: names sort label by label from the root, case-insensitively
+function compareNames(a: string, b: string): number {
+  const encoder = new TextEncoder();
+  const labels = (name: string) => normalizeName(name).split('.').filter(Boolean).reverse().map((l) => encoder.encode(l));
+  const left = labels(a);
+  const right = labels(b);
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    const order = compareBytes(left[i], right[i]);
+    if (order !== 0) return order;
+  }
+  return left.length - right.length;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function canonicalRdata(record: ResourceRecord): Uint8Array {
+  if (CANONICAL_NAME_TYPES.has(record.typeCode)) return encodeRdata(record.typeCode, record.data.toLowerCase());
+  return record.rdata ?? encodeRdata(record.typeCode, record.data);
+}
+
+function parseSignature(record: ResourceRecord): Signature {
+  const tokens = record.data.trim().split(/\s+/);
+  const data = [...tokens.slice(0, 7), tokens[7].toLowerCase(), ...tokens.slice(8)].join(' ');
+  const rdata = encodeRdata('RRSIG', data);
+  const signature = base64ToBytes(tokens.slice(8).join(''));
+  const view = new DataView(rdata.buffer, rdata.byteOffset, rdata.byteLength);
+
+  return {
+    typeCovered: tokens[0].toUpperCase(),
+    algorithm: rdata[2],
+    labels: rdata[3],
+    originalTtl: view.getUint32(4),
+    expiration: view.getUint32(8),
+    inception: view.getUint32(12),
+    keyTag: view.getUint16(16),
+    signer: normalizeName(tokens[7]),
+    signature,
+    rdataWithoutSignature: rdata.subarray(0, rdata.length - signature.length),
+  };
+}
+
+export function computeKeyTag(dnskeyRdata: Uint8Array): number {
+  let ac = 0;
+  for (let i = 0; i < dnskeyRdata.length; i++) ac += i & 1 ? dnskeyRdata[i] : dnskeyRdata[i] << 8;
+  ac += (ac >> 16) & 0xffff;
+  return ac & 0xffff;
+}
+
+function signedData(signature: Signature, rrset: ResourceRecord[]): Uint8Array {
+  const ownerLabels = normalizeName(rrset[0].name).split('.').filter(Boolean);
+  const owner = ownerLabels.length > signature.labels
+    ? `*.${ownerLabels.slice(-signature.labels).join('.')}.`
+    : normalizeName(rrset[0].name);
+  const ownerWire = encodeName(owner);
+
+  const rdatas = rrset
+    .map(canonicalRdata)
+    .sort(compareBytes)
+    .filter((rdata, i, all) => i === 0 || compareBytes(rdata, all[i - 1]) !== 0);
+
+  return concat(
+    signature.rdataWithoutSignature,
+    ...rdatas.map((rdata) => concat(
+      ownerWire,
+      u16(rrset[0].typeCode),
+      u16(1),
+      u32(signature.originalTtl),
+      u16(rdata.length),
+      rdata
+    ))
+  );
+}
+
+async function importDnskey(algorithm: number, key: Uint8Array): Promise<{ key: CryptoKey; params: AlgorithmIdentifier | EcdsaParams } | null> {
+  try {
+    return await importSupportedDnskey(algorithm, key);
+  } catch {
+    // e.g. a browser without Ed25519 in WebCrypto
+    return null;
+  }
+}
+
+async function importSupportedDnskey(algorithm: number, key: Uint8Array): Promise<{ key: CryptoKey; params: AlgorithmIdentifier | EcdsaParams } | null> {
+  const subtle = globalThis.crypto.subtle;
+
+  switch (algorithm) {
+    case 5:
+    case 7:
+    case 8:
+    case 10: {
+      const hash = algorithm === 8 ? 'SHA-256' : algorithm === 10 ? 'SHA-512' : 'SHA-1';
+      const exponentLength = key[0] === 0 ? (key[1] << 8) | key[2] : key[0];
+      const offset = key[0] === 0 ? 3 : 1;
+      const jwk: JsonWebKey = {
+        kty: 'RSA',
+        e: toBase64Url(key.subarray(offset, offset + exponentLength)),
+        n: toBase64Url(key.subarray(offset + exponentLength)),
+        ext: true,
+      };
+      return {
+        key: await subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash }, false, ['verify']),
+        params: { name: 'RSASSA-PKCS1-v1_5' },
+      };
+    }
+    case 13:
+    case 14: {
+      const namedCurve = algorithm === 13 ? 'P-256' : 'P-384';
+      const hash = algorithm === 13 ? 'SHA-256' : 'SHA-384';
+      return {
+        key: await subtle.importKey('raw', concat(Uint8Array.of(4), key) as BufferSource, { name: 'ECDSA', namedCurve }, false, ['verify']),
+        params: { name: 'ECDSA', hash },
+      };
+    }
+    case 15:
+      return {
+        key: await subtle.importKey('raw', key as BufferSource, { name: 'Ed25519' }, false, ['verify']),
+        params: { name: 'Ed25519' },
+      };
+    default:
+      return null;
+  }
+}
+
+function dnskeyFields(record: ResourceRecord) {
+  const rdata = canonicalRdata(record);
+  return {
+    rdata,
+    flags: (rdata[0] << 8) | rdata[1],
+    algorithm: rdata[3],
+    publicKey: rdata.subarray(4),
+    keyTag: computeKeyTag(rdata),
+  };
+}
+
+async function verifyRRset(
+  rrset: RRset,
+  dnskeys: ResourceRecord[],
+  zone: string,
+  now: number
+): Promise<{ valid: boolean; insecure?: boolean; expiration?: number; reason: string }> {
+  if (rrset.signatures.length === 0) {
+    return { valid: false, reason: `no RRSIG covering ${rrset.records[0].type} ${rrset.records[0].name}` };
+  }
+
+  let reason = 'no signature matched a zone key';
+  let unsupported = 0;
+  for (const record of rrset.signatures) {
+    const signature = parseSignature(record);
+    const unsupportedReason = `unsupported algorithm ${DNSSEC_ALGORITHMS[signature.algorithm] ?? signature.algorithm}`;
+    if (!SUPPORTED_ALGORITHMS.has(signature.algorithm)) {
+      unsupported++;
+      reason = unsupportedReason;
+      continue;
+    }
+    if (signature.signer !== zone) {
+      reason = `RRSIG signer ${signature.signer} is not ${zone}`;
+      continue;
+    }
+    if (now > signature.expiration) {
+      reason = `RRSIG expired at ${new Date(signature.expiration * 1000).toISOString()}`;
+      continue;
+    }
+    if (now < signature.inception) {
+      reason = `RRSIG not valid until ${new Date(signature.inception * 1000).toISOString()}`;
+      continue;
+    }
+
+    const keys = dnskeys.map(dnskeyFields)
+      .filter((dnskey) => dnskey.keyTag === signature.keyTag && dnskey.algorithm === signature.algorithm);
+    let imports = 0;
+    for (const dnskey of keys) {
+      const imported = await importDnskey(dnskey.algorithm, dnskey.publicKey);
+      if (!imported) continue;
+      imports++;
+
+      const ok = await globalThis.crypto.subtle.verify(
+        imported.params,
+        imported.key,
+        signature.signature as BufferSource,
+        signedData(signature, rrset.records) as BufferSource
+      );
+      if (ok) return { valid: true, expiration: signature.expiration, reason: '' };
+      reason = `signature by key ${dnskey.keyTag} does not verify`;
+    }
+    if (keys.length > 0 && imports === 0) {
+      unsupported++;
+      reason = unsupportedReason;
+    }
+  }
+
+  return { valid: false, insecure: unsupported === rrset.signatures.length, reason };
+}
+
+// RFC 4035 section 5.2: DS records whose algorithm or digest cannot be checked do not count
+function hasUsableDS(dsRecords: string[]): boolean {
+  return dsRecords.some((ds) => {
+    const [, algorithm, digestType] = ds.trim().split(/\s+/);
+    return SUPPORTED_ALGORITHMS.has(parseInt(algorithm, 10)) && !!DIGEST_ALGORITHMS[parseInt(digestType, 10)];
+  });
+}
+
+async function matchesDS(owner: string, dnskey: ResourceRecord, dsRecords: string[]): Promise<boolean> {
+  const { rdata, keyTag, algorithm } = dnskeyFields(dnskey);
+
+  for (const ds of dsRecords) {
+    const [tag, alg, digestType, ...digest] = ds.trim().split(/\s+/);
+    const hash = DIGEST_ALGORITHMS[parseInt(digestType, 10)];
+    if (parseInt(tag, 10) !== keyTag || parseInt(alg, 10) !== algorithm || !hash) continue;
+
+    const computed = await globalThis.crypto.subtle.digest(hash, concat(encodeName(owner), rdata) as BufferSource);
+    if (bytesToHex(new Uint8Array(computed)) === digest.join('').toLowerCase()) return true;
+  }
+  return false;
+}
+
+async function fetchRRset(
+  resolver: Resolver,
+  name: string,
+  type: MessageType,
+  checkingDisabled = true
+): Promise<RRset> {
+  const answer = await resolver.query(name, type, { dnssecOk: true, checkingDisabled });
+  const answers = answer.message?.answers ?? [];
+  const owner = normalizeName(name);
+  const atOwner = answers.filter((r) => normalizeName(r.name) === owner);
+
+  return {
+    records: atOwner.filter((r) => r.typeCode === TYPE_CODES[type]),
+    signatures: atOwner.filter((r) => r.typeCode === TYPE_CODES.RRSIG && r.data.split(' ')[0].toUpperCase() === type),
+    authority: answer.message?.authority ?? [],
+    ad: answer.message?.flags.ad ?? false,
+  };
+}
+
+async function nsec3Hash(name: string, salt: Uint8Array, iterations: number): Promise<string> {
+  const subtle = globalThis.crypto.subtle;
+  let hash = new Uint8Array(await subtle.digest('SHA-1', concat(encodeName(normalizeName(name)), salt) as BufferSource));
+  for (let i = 0; i < iterations; i++) {
+    hash = new Uint8Array(await subtle.digest('SHA-1', concat(hash, salt) as BufferSource));
+  }
+  return bytesToBase32Hex(hash);
+}
+
+function typesAtDelegation(types: string[]): DenialProof | 'ds-present' {
+  if (types.includes('DS')) return 'ds-present';
+  return types.includes('NS') && !types.includes('SOA') ? 'insecure-delegation' : 'no-zone-cut';
+}
+
+// Checks the signed NSEC or NSEC3 records the parent returned with an empty DS answer
+// (RFC 4035 section 5.2, RFC 5155 section 8.6).
+async function proveNoDS(
+  name: string,
+  authority: ResourceRecord[],
+  zone: string,
+  zoneKeys: ResourceRecord[],
+  now: number
+): Promise<{ proof?: DenialProof; bogus?: string }> {
+  const signed = async (records: ResourceRecord[]) => {
+    for (const record of records) {
+      const owner = normalizeName(record.name);
+      const signatures = authority.filter((r) => r.typeCode === TYPE_CODES.RRSIG &&
+        normalizeName(r.name) === owner && r.data.split(' ')[0].toUpperCase() === record.type);
+      const check = await verifyRRset({ records: [record], signatures, authority: [], ad: false }, zoneKeys, zone, now);
+      if (!check.valid) return `${record.type} ${record.name}: ${check.reason}`;
+    }
+    return null;
+  };
+  const conclude = async (records: ResourceRecord[], result: DenialProof | 'ds-present') => {
+    const failure = await signed(records);
+    if (failure) return { bogus: failure };
+    if (result === 'ds-present') return { bogus: `${records[0].type} ${records[0].name} lists a DS record the parent did not return` };
+    return { proof: result };
+  };
+
+  const nsec = authority.filter((r) => r.typeCode === TYPE_CODES.NSEC);
+  for (const record of nsec) {
+    const [next, ...types] = record.data.trim().split(/\s+/);
+    if (compareNames(record.name, name) === 0) return conclude([record], typesAtDelegation(types));
+    // The last NSEC in a zone wraps around to the apex
+    const covers = compareNames(record.name, name) < 0 &&
+      (compareNames(name, next) < 0 || compareNames(next, record.name) <= 0);
+    if (covers) return conclude([record], 'no-zone-cut');
+  }
+
+  const nsec3 = authority
+    .filter((r) => r.typeCode === TYPE_CODES.NSEC3)
+    .map((record) => {
+      const [algorithm, flags, iterations, salt, next, ...types] = record.data.trim().split(/\s+/);
+      return {
+        record,
+        hashAlgorithm: Number(algorithm),
+        optOut: (Number(flags) & 1) === 1,
+        iterations: Number(iterations),
+        salt: salt === '-' ? new Uint8Array(0) : hexToBytes(salt),
+        owner: normalizeName(record.name).split('.')[0],
+        next: next.toLowerCase(),
+        types,
+      };
+    })
+    .filter((entry) => entry.hashAlgorithm === 1);
+  if (nsec3.length === 0) return {};
+
+  const { salt, iterations } = nsec3[0];
+  const hash = (owner: string) => nsec3Hash(owner, salt, iterations);
+  const matching = async (owner: string) => {
+    const hashed = await hash(owner);
+    return nsec3.find((entry) => entry.owner === hashed);
+  };
+  const covering = async (owner: string) => {
+    const hashed = await hash(owner);
+    return nsec3.find((entry) => entry.owner < entry.next
+      ? entry.owner < hashed && hashed < entry.next
+      : entry.owner < hashed || hashed < entry.next);
+  };
+
+  const exact = await matching(name);
+  if (exact) return conclude([exact.record], typesAtDelegation(exact.types));
+
+  // Closest encloser proof: the nearest existing ancestor, plus an NSEC3 covering the
+  // name one label below it. With opt-out set, that span may hold unsigned delegations.
+  const labels = normalizeName(name).split('.').filter(Boolean);
+  for (let i = 1; i < labels.length; i++) {
+    const encloser = `${labels.slice(i).join('.')}.`;
+    if (compareNames(encloser, zone) < 0) break;
+    const closest = await matching(encloser);
+    if (!closest) continue;
+
+    const cover = await covering(`${labels.slice(i - 1).join('.')}.`);
+    if (!cover) return {};
+    return conclude([closest.record, cover.record], cover.optOut ? 'insecure-delegation' : 'no-zone-cut');
+  }
+  return {};
+}
+
+function zoneNames(domain: string): string[] {
+  const labels = normalizeName(domain).split('.').filter(Boolean);
+  return ['.', ...labels.map((_, i) => `${labels.slice(labels.length - 1 - i).join('.')}.`)];
+}
+
+export async function validateDNSSEC(
+  domain: string,
+  resolver: Resolver,
+  { now = new Date(), trustAnchors = ROOT_TRUST_ANCHORS }: DNSSECOptions = {}
+): Promise<DNSSECCheck> {
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+  const chain: DNSSECZoneLink[] = [];
+  const problems: DNSSECProblem[] = [];
+  const algorithms = new Set<string>();
+  const target = normalizeName(domain);
+  let expirations: number[] = [];
+
+  let trustedDS = trustAnchors;
+  let zone = '.';
+  let zoneKeys: ResourceRecord[] = [];
+  let status = 'secure' as DNSSECStatus;
+  let present = false;
+
+  const fail = (kind: DNSSECProblemKind, link: DNSSECZoneLink, detail: string) => {
+    link.status = 'bogus';
+    link.message = detail;
+    problems.push({ kind, zone: link.zone, detail });
+    status = 'bogus';
+  };
+
+  try {
+    for (const name of zoneNames(domain)) {
+      const link: DNSSECZoneLink = { zone: name, status: 'secure', dsCount: 0, keys: [], message: '' };
+
+      if (name !== '.') {
+        const ds = await fetchRRset(resolver, name, 'DS');
+        if (ds.records.length === 0) {
+          const dnskey = await fetchRRset(resolver, name, 'DNSKEY');
+          if (dnskey.records.length === 0) {
+            // An empty DS answer is only trusted with the parent's signed denial
+            const denial = await proveNoDS(name, ds.authority, zone, zoneKeys, nowSeconds);
+            if (denial.proof === 'no-zone-cut') continue;
+
+            chain.push(link);
+            if (denial.bogus) {
+              fail('bogus-signature', link, `Denial of DS for ${name}: ${denial.bogus}`);
+            } else if (denial.proof === 'insecure-delegation') {
+              link.status = 'insecure';
+              link.message = `${zone} proves it has no DS record for ${name}`;
+              problems.push({ kind: 'unsigned', zone: name, detail: `No DS record at ${zone} delegates a signed zone for ${name}` });
+              status = 'insecure';
+            } else {
+              link.status = 'indeterminate';
+              link.message = `${zone} returned no DS record for ${name} and no NSEC or NSEC3 proof of its absence`;
+              status = 'indeterminate';
+            }
+            break;
+          }
+
+          present = true;
+          link.status = 'insecure';
+          link.keys = dnskey.records.map((r) => ({ ...dnskeyFields(r), matchesDS: false }));
+          link.message = `DNSKEY published but ${zone} has no DS record for ${name}`;
+          chain.push(link);
+          problems.push({ kind: 'unsigned', zone: name, detail: link.message });
+          status = 'insecure';
+          break;
+        }
+
+        link.dsCount = ds.records.length;
+        const dsCheck = await verifyRRset(ds, zoneKeys, zone, nowSeconds);
+        if (!dsCheck.valid) {
+          chain.push(link);
+          fail('bogus-signature', link, `DS RRset for ${name}: ${dsCheck.reason}`);
+          break;
+        }
+        trustedDS = ds.records.map((r) => r.data);
+      }
+
+      if (!hasUsableDS(trustedDS)) {
+        present = true;
+        link.status = 'insecure';
+        link.message = `DS records for ${name} use only unsupported algorithms or digests`;
+        chain.push(link);
+        status = 'insecure';
+        break;
+      }
+
+      const dnskey = await fetchRRset(resolver, name, 'DNSKEY');
+      if (dnskey.records.length === 0) {
+        chain.push(link);
+        if (name === '.') {
+          status = 'indeterminate';
+          link.status = 'indeterminate';
+          link.message = 'Resolver did not return the root DNSKEY RRset';
+        } else {
+          fail('ds-mismatch', link, `${name} has DS records at the parent but publishes no DNSKEY`);
+        }
+        break;
+      }
+
+      const matched: ResourceRecord[] = [];
+      for (const key of dnskey.records) {
+        const fields = dnskeyFields(key);
+        const isMatch = await matchesDS(name, key, trustedDS);
+        if (isMatch) matched.push(key);
+        link.keys.push({ keyTag: fields.keyTag, algorithm: fields.algorithm, flags: fields.flags, matchesDS: isMatch });
+        algorithms.add(DNSSEC_ALGORITHMS[fields.algorithm] ?? `ALG${fields.algorithm}`);
+      }
+      chain.push(link);
+
+      if (matched.length === 0) {
+        fail('ds-mismatch', link, `No DNSKEY at ${name} matches the DS digest published by its parent`);
+        break;
+      }
+
+      const keyCheck = await verifyRRset(dnskey, matched, name, nowSeconds);
+      if (keyCheck.insecure) {
+        present = true;
+        link.status = 'insecure';
+        link.message = `DNSKEY RRset for ${name} is signed only with ${keyCheck.reason}`;
+        status = 'insecure';
+        break;
+      }
+      if (!keyCheck.valid) {
+        fail('bogus-signature', link, `DNSKEY RRset for ${name}: ${keyCheck.reason}`);
+        break;
+      }
+
+      link.message = `${link.keys.length} key(s), ${matched.length} matching DS`;
+      expirations = keyCheck.expiration ? [keyCheck.expiration] : [];
+      zone = name;
+      zoneKeys = dnskey.records;
+    }
+
+    if (status === 'secure') {
+      const soa = await fetchRRset(resolver, domain, 'SOA');
+      const isApex = soa.records.length > 0;
+      let data = isApex ? soa : await fetchRRset(resolver, domain, 'A');
+      // An alias owns only its CNAME RRset, signed in this zone; the A records belong to the target
+      if (!isApex && data.records.length === 0) {
+        const cname = await fetchRRset(resolver, domain, 'CNAME');
+        if (cname.records.length > 0) data = cname;
+      }
+
+      if ((isApex && target !== zone) || (!isApex && data.signatures.length === 0)) {
+        status = 'insecure';
+        problems.push({ kind: 'unsigned', zone: target, detail: `No DS record at ${zone} delegates a signed zone for ${target}` });
+      } else if (data.records.length > 0) {
+        const dataCheck = await verifyRRset(data, zoneKeys, zone, nowSeconds);
+        if (dataCheck.insecure) {
+          status = 'insecure';
+        } else if (!dataCheck.valid) {
+          const link = chain[chain.length - 1];
+          fail('bogus-signature', link, `${data.records[0].type} RRset for ${domain}: ${dataCheck.reason}`);
+        } else if (dataCheck.expiration) {
+          expirations.push(dataCheck.expiration);
+        }
+      }
+    }
+  } catch (error) {
+    status = 'indeterminate';
+    chain.push({
+      zone,
+      status: 'indeterminate',
+      dsCount: 0,
+      keys: [],
+      message: `Validation aborted: ${error instanceof Error ? error.message : error}`,
+    });
+  }
+
+  const earliest = expirations.length ? Math.min(...expirations) : undefined;
+  if (status === 'secure' && earliest !== undefined && earliest - nowSeconds < EXPIRY_WARNING_SECONDS) {
+    problems.push({
+      kind: 'expiring-signature',
+      zone,
+      detail: `RRSIG for ${zone} expires at ${new Date(earliest * 1000).toISOString()}`,
+    });
+  }
+
+  const adCheck = await resolver.query(domain, 'SOA', { dnssecOk: true }).catch(() => null);
+
+  return {
+    present: present || status === 'secure' || status === 'bogus',
+    signed: status === 'secure',
+    status,
+    adBit: adCheck?.message?.flags.ad ?? false,
+    algorithms: [...algorithms],
+    chain,
+    signatureExpiration: status === 'secure' && earliest !== undefined ? new Date(earliest * 1000).toISOString() : undefined,
+    problems,
+  };
+}
@@ -0,0 +1,55 @@
+// Multi-label public suffixes most often seen in practice. Single-label TLDs are implied.
+const MULTI_LABEL_SUFFIXES = new Set([
+  'co.uk', 'org.uk', 'ac.uk', 'gov.uk', 'me.uk', 'net.uk', 'ltd.uk', 'plc.uk', 'sch.uk',
+  'com.au', 'net.au', 'org.au', 'edu.au', 'gov.au', 'asn.au', 'id.au',
+  'co.nz', 'org.nz', 'net.nz', 'govt.nz', 'ac.nz',
+  'co.jp', 'ne.jp', 'or.jp', 'ac.jp', 'go.jp',
+  'co.kr', 'or.kr', 'ac.kr', 'go.kr',
+  'com.br', 'net.br', 'org.br', 'gov.br',
+  'com.cn', 'net.cn', 'org.cn', 'gov.cn', 'edu.cn',
+  'com.hk', 'org.hk', 'net.hk', 'edu.hk', 'gov.hk',
+  'com.sg', 'org.sg', 'net.sg', 'edu.sg', 'gov.sg',
+  'com.tw', 'org.tw', 'net.tw', 'edu.tw', 'gov.tw',
+  'co.in', 'net.in', 'org.in', 'firm.in', 'gen.in', 'ind.in', 'ac.in', 'gov.in',
+  'com.mx', 'org.mx', 'gob.mx', 'edu.mx',
+  'com.ar', 'org.ar', 'gob.ar',
+  'co.za', 'org.za', 'gov.za', 'ac.za',
+  'com.tr', 'org.tr', 'gov.tr', 'edu.tr',
+  'co.il', 'org.il', 'ac.il', 'gov.il',
+  'com.my', 'org.my', 'gov.my',
+  'co.id', 'or.id', 'ac.id', 'go.id',
+  'com.ph', 'org.ph', 'gov.ph',
+  'com.vn', 'gov.vn',
+  'com.ua', 'org.ua', 'gov.ua',
+  'com.pl', 'org.pl', 'net.pl',
+  'co.th', 'or.th', 'ac.th', 'go.th',
+  'github.io', 'gitlab.io', 'herokuapp.com', 'vercel.app', 'netlify.app', 'pages.dev',
+  'azurewebsites.net', 'cloudfront.net', 'appspot.com', 'blogspot.com', 'firebaseapp.com', 'web.app',
+]);
+
+export function stripTrailingDot(name: string): string {
+  return name.toLowerCase().replace(/\.$/, '');
+}
+
+export function getPublicSuffix(domain: string): string {
+  const labels = stripTrailingDot(domain).split('.');
+  for (let i = 0; i < labels.length - 1; i++) {
+    const candidate = labels.slice(i).join('.');
+    if (MULTI_LABEL_SUFFIXES.has(candidate)) return candidate;
+  }
+  return labels[labels.length - 1];
+}
+
+export function getOrganizationalDomain(domain: string): string {
+  const name = stripTrailingDot(domain);
+  const suffix = getPublicSuffix(name);
+  if (name === suffix) return name;
+  const labels = name.slice(0, -(suffix.length + 1)).split('.');
+  return `${labels[labels.length - 1]}.${suffix}`;
+}
+
+export function isSubdomainOf(name: string, parent: string): boolean {
+  const child = stripTrailingDot(name);
+  const base = stripTrailingDot(parent);
+  return child === base || child.endsWith(`.${base}`);
+}
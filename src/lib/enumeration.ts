@@ -0,0 +1,154 @@
+import { lookupDNS } from './dns';
+import { stripTrailingDot } from './domain';
+import type { Resolver } from './resolver';
+
+export interface WildcardInfo {
+  detected: boolean;
+  addresses: string[];
+  cnames: string[];
+}
+
+export interface EnumeratedHost {
+  host: string;
+  addresses: string[];
+  cname?: string;
+  source: 'wordlist' | 'permutation';
+}
+
+export interface PermutationOptions {
+  prefixes?: string[];
+  suffixes?: string[];
+  numericSuffixes?: number;
+}
+
+export interface EnumerationOptions {
+  resolver?: Resolver;
+  concurrency?: number;
+  permutations?: PermutationOptions | false;
+  signal?: AbortSignal;
+  onWildcard?: (wildcard: WildcardInfo) => void;
+  onHost?: (host: EnumeratedHost) => void;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface EnumerationResult {
+  domain: string;
+  wildcard: WildcardInfo;
+  hosts: EnumeratedHost[];
+  tested: number;
+  aborted: boolean;
+}
+
+const DEFAULT_CONCURRENCY = 8;
+const WILDCARD_PROBES = 3;
+
+export const DEFAULT_PERMUTATIONS: Required<PermutationOptions> = {
+  prefixes: ['dev', 'staging', 'test', 'qa', 'uat', 'prod', 'old', 'new'],
+  suffixes: ['dev', 'staging', 'test', 'qa', 'uat', 'prod', 'old', 'new'],
+  numericSuffixes: 3,
+};
+
+function randomLabel(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(8));
+  return `wc-${Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')}`;
+}
+
+export function parseWordlist(text: string): string[] {
+  return [...new Set(
+    text.replace(/#.*$/gm, '')
+      .split(/[\s,]+/)
+      .map((word) => stripTrailingDot(word.toLowerCase()))
+      .filter((word) => /^[a-z0-9_]([a-z0-9_-]*[a-z0-9_])?(\.[a-z0-9_]([a-z0-9_-]*[a-z0-9_])?)*$/.test(word))
+  )];
+}
+
+export function generatePermutations(words: string[], options: PermutationOptions = DEFAULT_PERMUTATIONS): string[] {
+  const { prefixes = [], suffixes = [], numericSuffixes = 0 } = options;
+  const seen = new Set(words);
+  const permutations: string[] = [];
+
+  const add = (word: string) => {
+    if (seen.has(word)) return;
+    seen.add(word);
+    permutations.push(word);
+  };
+
+  for (const word of words) {
+    for (const prefix of prefixes) if (prefix !== word) add(`${prefix}-${word}`);
+    for (const suffix of suffixes) if (suffix !== word) add(`${word}-${suffix}`);
+    for (let n = 1; n <= numericSuffixes; n++) {
+      add(`${word}${n}`);
+      add(`${word}-${n}`);
+    }
+  }
+
+  return permutations;
+}
+
+async function resolveHost(host: string, resolver?: Resolver): Promise<Omit<EnumeratedHost, 'source'> | null> {
+  const result = await lookupDNS(host, 'A', resolver);
+  const addresses = result.records.filter((r) => r.type === 'A').map((r) => r.value);
+  const cname = result.records.find((r) => r.type === 'CNAME')?.value;
+  if (addresses.length === 0 && !cname) return null;
+  return { host, addresses, cname: cname ? stripTrailingDot(cname) : undefined };
+}
+
+// Answers for labels that cannot exist tell us what a wildcard record returns;
+// any brute-forced name answering the same way is discarded.
+export async function detectWildcard(domain: string, resolver?: Resolver): Promise<WildcardInfo> {
+  const probes = await Promise.all(
+    Array.from({ length: WILDCARD_PROBES }, () => resolveHost(`${randomLabel()}.${domain}`, resolver))
+  );
+  const answered = probes.filter((probe): probe is NonNullable<typeof probe> => probe !== null);
+
+  return {
+    detected: answered.length > 0,
+    addresses: [...new Set(answered.flatMap((probe) => probe.addresses))],
+    cnames: [...new Set(answered.flatMap((probe) => (probe.cname ? [probe.cname] : [])))],
+  };
+}
+
+function matchesWildcard(host: Omit<EnumeratedHost, 'source'>, wildcard: WildcardInfo): boolean {
+  if (!wildcard.detected) return false;
+  if (host.cname) return wildcard.cnames.includes(host.cname);
+  return host.addresses.every((address) => wildcard.addresses.includes(address));
+}
+
+export async function enumerateSubdomains(
+  domain: string,
+  words: string[],
+  options: EnumerationOptions = {}
+): Promise<EnumerationResult> {
+  const { resolver, concurrency = DEFAULT_CONCURRENCY, permutations = false, signal, onWildcard, onHost, onProgress } = options;
+  const name = stripTrailingDot(domain);
+  const wildcard = await detectWildcard(name, resolver);
+  onWildcard?.(wildcard);
+
+  const candidates: Array<{ label: string; source: EnumeratedHost['source'] }> = [
+    ...words.map((label) => ({ label, source: 'wordlist' as const })),
+    ...(permutations ? generatePermutations(words, permutations) : []).map((label) => ({ label, source: 'permutation' as const })),
+  ];
+
+  const hosts: EnumeratedHost[] = [];
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < candidates.length && !signal?.aborted) {
+      const { label, source } = candidates[next++];
+      const resolved = await resolveHost(`${label}.${name}`, resolver);
+      done++;
+
+      if (resolved && !matchesWildcard(resolved, wildcard)) {
+        const host = { ...resolved, source };
+        hosts.push(host);
+        onHost?.(host);
+      }
+      onProgress?.(done, candidates.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, candidates.length)) }, worker));
+
+  return { domain: name, wildcard, hosts, tested: done, aborted: !!signal?.aborted };
+}
@@ -0,0 +1,52 @@
+import type { IPIntelligenceData } from './dns';
+
+export interface GeoPoint {
+  id: string;
+  lat: number;
+  lon: number;
+  label: string;
+  details: string[];
+}
+
+export interface GeoCluster {
+  x: number;
+  y: number;
+  points: GeoPoint[];
+}
+
+// Points closer than this on screen are drawn as one marker
+export const CLUSTER_RADIUS = 14;
+
+export function intelPoint(data: IPIntelligenceData): GeoPoint {
+  return {
+    id: data.ip,
+    lat: data.lat,
+    lon: data.lon,
+    label: data.ip,
+    details: [[data.city, data.region, data.country].filter(Boolean).join(', '), data.org || data.isp, data.asn],
+  };
+}
+
+// Greedy clustering in screen space; a cluster's position is the mean of its points.
+// Points the projection cannot place are dropped.
+export function clusterPoints(
+  points: GeoPoint[],
+  project: (point: GeoPoint) => [number, number] | null,
+  radius = CLUSTER_RADIUS
+): GeoCluster[] {
+  const clusters: GeoCluster[] = [];
+  for (const point of points) {
+    const position = project(point);
+    if (!position) continue;
+    const [x, y] = position;
+    const near = clusters.find((cluster) => Math.hypot(cluster.x - x, cluster.y - y) < radius);
+    if (near) {
+      near.points.push(point);
+      near.x += (x - near.x) / near.points.length;
+      near.y += (y - near.y) / near.points.length;
+    } else {
+      clusters.push({ x, y, points: [point] });
+    }
+  }
+  return clusters;
+}
@@ -0,0 +1,357 @@
+import type { IPIntelligenceData } from './dns';
+
+export type IPIntelligenceField = Exclude<keyof IPIntelligenceData, 'ip' | 'version'>;
+
+export type IPIntelligenceFields = Partial<Pick<IPIntelligenceData, IPIntelligenceField>>;
+
+export interface IPIntelligenceProvider {
+  id: string;
+  label: string;
+  lookup(ip: string, signal?: AbortSignal): Promise<IPIntelligenceFields>;
+}
+
+export interface RateLimitInfo {
+  limit?: number;
+  remaining?: number;
+  // Seconds until the quota resets or the provider accepts requests again
+  resetIn?: number;
+}
+
+export interface IPProviderFailure {
+  provider: string;
+  message: string;
+  status?: number;
+  rateLimit?: RateLimitInfo;
+}
+
+export interface IPIntelligenceResult {
+  ip: string;
+  // Null when no provider returned any field
+  data: IPIntelligenceData | null;
+  // Provider id that supplied each field; fields without an entry hold placeholders
+  sources: Partial<Record<IPIntelligenceField, string>>;
+  providers: string[];
+  errors: IPProviderFailure[];
+}
+
+export class IPIntelligenceError extends Error {
+  constructor(
+    public provider: string,
+    message: string,
+    public status?: number,
+    public rateLimit?: RateLimitInfo
+  ) {
+    super(message);
+  }
+}
+
+const EMPTY_FIELDS: Pick<IPIntelligenceData, IPIntelligenceField> = {
+  country: '',
+  countryCode: '',
+  region: '',
+  city: '',
+  isp: '',
+  org: '',
+  asn: '',
+  lat: 0,
+  lon: 0,
+  timezone: '',
+  isMobile: false,
+  isProxy: false,
+  isHosting: false,
+};
+
+// Fields that only make sense together are taken from a single provider
+const FIELD_GROUPS: IPIntelligenceField[][] = [
+  ['country', 'countryCode'],
+  ['region'],
+  ['city'],
+  ['isp'],
+  ['org'],
+  ['asn'],
+  ['lat', 'lon'],
+  ['timezone'],
+  ['isMobile'],
+  ['isProxy'],
+  ['isHosting'],
+];
+
+function headerNumber(headers: Headers, ...names: string[]): number | undefined {
+  for (const name of names) {
+    const value = Number(headers.get(name) ?? NaN);
+    if (Number.isFinite(value)) return value;
+  }
+  return undefined;
+}
+
+// ip-api sends X-Rl/X-Ttl; most other APIs use the X-RateLimit-* family or Retry-After
+export function readRateLimit(headers: Headers): RateLimitInfo | undefined {
+  const info: RateLimitInfo = {
+    limit: headerNumber(headers, 'x-ratelimit-limit'),
+    remaining: headerNumber(headers, 'x-rl', 'x-ratelimit-remaining'),
+    resetIn: headerNumber(headers, 'x-ttl', 'retry-after', 'x-ratelimit-reset'),
+  };
+  return Object.values(info).some((value) => value !== undefined) ? info : undefined;
+}
+
+async function fetchProviderJSON(provider: string, url: string, signal?: AbortSignal) {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal });
+  } catch (error) {
+    throw new IPIntelligenceError(provider, error instanceof Error ? error.message : String(error));
+  }
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    const rateLimit = readRateLimit(response.headers);
+    const message = response.status === 429 ? 'Rate limit exceeded' : body?.error?.message ?? body?.error ?? body?.message;
+    throw new IPIntelligenceError(provider, message ?? `Returned ${response.status}`, response.status, rateLimit);
+  }
+  if (body === null) throw new IPIntelligenceError(provider, 'Response was not JSON', response.status);
+  return body;
+}
+
+function countryName(code: string | undefined): string | undefined {
+  if (!code) return undefined;
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'region' }).of(code.toUpperCase());
+  } catch {
+    return undefined;
+  }
+}
+
+const IP_API_FIELDS = 'status,message,country,countryCode,regionName,city,isp,org,as,lat,lon,timezone,mobile,proxy,hosting';
+
+// ip-api.com's free endpoint is plain HTTP, so browsers reach it through the
+// /api/ip-api server route rather than directly
+export function createIpApiProvider(id: string, label: string, endpoint = '/api/ip-api'): IPIntelligenceProvider {
+  return {
+    id,
+    label,
+    async lookup(ip, signal) {
+      const data = await fetchProviderJSON(id, `${endpoint}?${new URLSearchParams({ ip, fields: IP_API_FIELDS })}`, signal);
+      if (data.status !== 'success') throw new IPIntelligenceError(id, data.message || 'IP lookup failed');
+
+      return {
+        country: data.country,
+        countryCode: data.countryCode,
+        region: data.regionName,
+        city: data.city,
+        isp: data.isp,
+        org: data.org,
+        asn: data.as,
+        lat: data.lat,
+        lon: data.lon,
+        timezone: data.timezone,
+        isMobile: data.mobile,
+        isProxy: data.proxy,
+        isHosting: data.hosting,
+      };
+    },
+  };
+}
+
+// Response shape of ipinfo.io and compatible services; asn/company/privacy/carrier
+// are only present on paid plans, so the free "org" string is the fallback.
+export interface IpInfoResponse {
+  ip: string;
+  bogon?: boolean;
+  city?: string;
+  region?: string;
+  country?: string;
+  loc?: string;
+  org?: string;
+  timezone?: string;
+  asn?: { asn: string; name: string; type?: string };
+  company?: { name: string; type?: string };
+  carrier?: { name: string };
+  privacy?: { vpn: boolean; proxy: boolean; tor: boolean; relay?: boolean; hosting: boolean };
+}
+
+export function mapIpInfoResponse(data: IpInfoResponse): IPIntelligenceFields {
+  const org = data.org?.match(/^(AS\d+)\s+(.*)$/);
+  const [lat, lon] = (data.loc ?? '').split(',').map(Number);
+  const asType = data.asn?.type ?? data.company?.type;
+
+  return {
+    country: countryName(data.country),
+    countryCode: data.country,
+    region: data.region,
+    city: data.city,
+    isp: data.asn?.name ?? org?.[2],
+    org: data.company?.name ?? org?.[2] ?? data.org,
+    asn: data.asn ? `${data.asn.asn} ${data.asn.name}` : org ? data.org : undefined,
+    lat: data.loc ? lat : undefined,
+    lon: data.loc ? lon : undefined,
+    timezone: data.timezone,
+    isMobile: data.carrier ? true : undefined,
+    isProxy: data.privacy ? data.privacy.vpn || data.privacy.proxy || data.privacy.tor || !!data.privacy.relay : undefined,
+    isHosting: data.privacy?.hosting ?? (asType ? asType === 'hosting' : undefined),
+  };
+}
+
+export function createIpInfoProvider(
+  id: string,
+  label: string,
+  endpoint = 'https://ipinfo.io/',
+  token?: string
+): IPIntelligenceProvider {
+  return {
+    id,
+    label,
+    async lookup(ip, signal) {
+      const query = token ? `?${new URLSearchParams({ token })}` : '';
+      const data: IpInfoResponse = await fetchProviderJSON(id, `${endpoint}${encodeURIComponent(ip)}/json${query}`, signal);
+      if (data.bogon) throw new IPIntelligenceError(id, `${ip} is a bogon address`);
+      return mapIpInfoResponse(data);
+    },
+  };
+}
+
+// Records as stored in GeoIP2/GeoLite2 City and ASN databases
+export interface MMDBCityRecord {
+  city?: { names?: Record<string, string> };
+  country?: { iso_code?: string; names?: Record<string, string> };
+  registered_country?: { iso_code?: string; names?: Record<string, string> };
+  subdivisions?: Array<{ iso_code?: string; names?: Record<string, string> }>;
+  location?: { latitude?: number; longitude?: number; time_zone?: string; accuracy_radius?: number };
+  traits?: {
+    is_anonymous?: boolean;
+    is_anonymous_proxy?: boolean;
+    is_anonymous_vpn?: boolean;
+    is_public_proxy?: boolean;
+    is_tor_exit_node?: boolean;
+    is_hosting_provider?: boolean;
+    connection_type?: string;
+    mobile_country_code?: string;
+    isp?: string;
+    organization?: string;
+  };
+}
+
+export interface MMDBASNRecord {
+  autonomous_system_number?: number;
+  autonomous_system_organization?: string;
+}
+
+export function mapMMDBRecords(city: MMDBCityRecord | null, asn: MMDBASNRecord | null): IPIntelligenceFields {
+  const country = city?.country ?? city?.registered_country;
+  // MaxMind only stores trait flags that are true, so a located address without them is unflagged
+  const traits = city ? city.traits ?? {} : undefined;
+  const proxy = traits && [traits.is_anonymous, traits.is_anonymous_proxy, traits.is_anonymous_vpn, traits.is_public_proxy, traits.is_tor_exit_node];
+
+  return {
+    country: country?.names?.en,
+    countryCode: country?.iso_code,
+    region: city?.subdivisions?.[0]?.names?.en,
+    city: city?.city?.names?.en,
+    isp: traits?.isp ?? asn?.autonomous_system_organization,
+    org: traits?.organization ?? asn?.autonomous_system_organization,
+    asn: asn?.autonomous_system_number
+      ? `AS${asn.autonomous_system_number} ${asn.autonomous_system_organization ?? ''}`.trim()
+      : undefined,
+    lat: city?.location?.latitude,
+    lon: city?.location?.longitude,
+    timezone: city?.location?.time_zone,
+    isMobile: traits && (traits.connection_type === 'Cellular' || !!traits.mobile_country_code),
+    isProxy: proxy && proxy.some(Boolean),
+    isHosting: traits && !!traits.is_hosting_provider,
+  };
+}
+
+// Queries a server route that reads MaxMind-format databases and answers with
+// the raw { city, asn } records for the address.
+export function createMMDBProvider(id: string, label: string, endpoint: string): IPIntelligenceProvider {
+  return {
+    id,
+    label,
+    async lookup(ip, signal) {
+      const data = await fetchProviderJSON(id, `${endpoint}?${new URLSearchParams({ ip })}`, signal);
+      if (!data.city && !data.asn) throw new IPIntelligenceError(id, `${ip} is not in the database`);
+      return mapMMDBRecords(data.city, data.asn);
+    },
+  };
+}
+
+export function createFixtureIPProvider(
+  id: string,
+  label: string,
+  fixtures: Record<string, IPIntelligenceFields>
+): IPIntelligenceProvider {
+  return {
+    id,
+    label,
+    async lookup(ip) {
+      const fields = fixtures[ip];
+      if (!fields) throw new IPIntelligenceError(id, `No fixture for ${ip}`, 404);
+      return fields;
+    },
+  };
+}
+
+export const DEFAULT_IP_PROVIDER_IDS = ['ip-api', 'ipinfo'];
+
+const registry = new Map<string, IPIntelligenceProvider>();
+
+export function registerIPProvider(provider: IPIntelligenceProvider): void {
+  registry.set(provider.id, provider);
+}
+
+[
+  createIpApiProvider('ip-api', 'ip-api.com (via server)'),
+  createIpInfoProvider('ipinfo', 'ipinfo.io'),
+  createMMDBProvider('mmdb', 'Offline MMDB', '/api/mmdb'),
+].forEach(registerIPProvider);
+
+export function listIPProviders(): IPIntelligenceProvider[] {
+  return [...registry.values()];
+}
+
+export function getIPProvider(id: string): IPIntelligenceProvider | undefined {
+  return registry.get(id);
+}
+
+function hasValue(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== '' && !(typeof value === 'number' && Number.isNaN(value));
+}
+
+// Every provider is queried in parallel; each field group is taken from the
+// first provider in list order that supplied it.
+export async function lookupIPIntelligence(
+  ip: string,
+  providers: IPIntelligenceProvider[] = DEFAULT_IP_PROVIDER_IDS.map(getIPProvider).filter((p): p is IPIntelligenceProvider => !!p),
+  signal?: AbortSignal
+): Promise<IPIntelligenceResult> {
+  const settled = await Promise.allSettled(providers.map((provider) => provider.lookup(ip, signal)));
+  const merged: Record<string, unknown> = { ...EMPTY_FIELDS };
+  const sources: IPIntelligenceResult['sources'] = {};
+  const errors: IPProviderFailure[] = [];
+
+  settled.forEach((outcome, index) => {
+    const provider = providers[index];
+    if (outcome.status === 'rejected') {
+      const error = outcome.reason;
+      errors.push(
+        error instanceof IPIntelligenceError
+          ? { provider: provider.id, message: error.message, status: error.status, rateLimit: error.rateLimit }
+          : { provider: provider.id, message: error instanceof Error ? error.message : String(error) }
+      );
+      return;
+    }
+
+    for (const group of FIELD_GROUPS) {
+      if (sources[group[0]] || !group.every((field) => hasValue(outcome.value[field]))) continue;
+      for (const field of group) {
+        merged[field] = outcome.value[field];
+        sources[field] = provider.id;
+      }
+    }
+  });
+
+  const data = Object.keys(sources).length > 0
+    ? ({ ...merged, ip, version: ip.includes(':') ? 6 : 4 } as IPIntelligenceData)
+    : null;
+
+  return { ip, data, sources, providers: providers.map((p) => p.id), errors };
+}
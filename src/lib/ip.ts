@@ -0,0 +1,256 @@
+export type IPVersion = 4 | 6;
+
+export interface CIDR {
+  // Network address with the host bits cleared
+  network: Uint8Array;
+  prefix: number;
+}
+
+export type IPCategory =
+  | 'private'
+  | 'loopback'
+  | 'link-local'
+  | 'cgnat'
+  | 'documentation'
+  | 'multicast'
+  | 'bogon';
+
+export interface SpecialRange {
+  cidr: string;
+  category: IPCategory;
+  name: string;
+  description: string;
+  rfc: string;
+}
+
+export interface IPClassification extends SpecialRange {
+  // Set when an IPv4-mapped IPv6 address was classified by its IPv4 part
+  mapped?: boolean;
+}
+
+// Accepts dotted-quad IPv4 and RFC 4291 section 2.2 IPv6 text, including "::"
+// compression and a trailing dotted quad (::ffff:192.0.2.1). Octets with a
+// leading zero are rejected: inet_aton and getaddrinfo read them as octal.
+export function parseIP(ip: string): Uint8Array | null {
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(ip)) {
+    const parts = ip.split('.');
+    if (parts.some((p) => p.length > 3 || /^0\d/.test(p) || Number(p) > 255)) return null;
+    return Uint8Array.from(parts.map(Number));
+  }
+
+  if (!ip.includes(':')) return null;
+  const v4 = ip.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  const embedded = v4 ? parseIP(v4[2]) : null;
+  if (v4 && !embedded) return null;
+  const tail = embedded ? Array.from(embedded) : [];
+  const address = v4 ? (v4[1].endsWith('::') ? v4[1] : v4[1].slice(0, -1)) : ip;
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+
+  const groups = (part: string) => (part ? part.split(':') : []);
+  const left = groups(halves[0]);
+  const right = halves.length === 2 ? groups(halves[1]) : [];
+  if ([...left, ...right].some((g) => !/^[0-9a-f]{1,4}$/i.test(g))) return null;
+
+  const fill = 8 - left.length - right.length - tail.length / 2;
+  if (halves.length === 1 ? fill !== 0 : fill < 1) return null;
+
+  const words = [...left, ...Array(halves.length === 2 ? fill : 0).fill('0'), ...right].map((g) => parseInt(g, 16));
+  return Uint8Array.from([...words.flatMap((w) => [w >> 8, w & 0xff]), ...tail]);
+}
+
+export function ipVersion(ip: Uint8Array): IPVersion {
+  return ip.length === 4 ? 4 : 6;
+}
+
+export function isIPv4Mapped(ip: Uint8Array): boolean {
+  return ip.length === 16 && ip.slice(0, 10).every((b) => b === 0) && ip[10] === 0xff && ip[11] === 0xff;
+}
+
+// ::ffff:a.b.c.d reaches the IPv4 host a.b.c.d
+export function unmapIPv4(ip: Uint8Array): Uint8Array {
+  return isIPv4Mapped(ip) ? ip.slice(12) : ip;
+}
+
+// Dotted quad for IPv4; RFC 5952 canonical text for IPv6 (lowercase, longest
+// run of two or more zero groups compressed, mapped IPv4 kept dotted)
+export function formatIP(ip: Uint8Array): string {
+  if (ip.length === 4) return Array.from(ip).join('.');
+  if (isIPv4Mapped(ip)) return `::ffff:${Array.from(ip.slice(12)).join('.')}`;
+
+  const groups: string[] = [];
+  for (let i = 0; i < 16; i += 2) groups.push(((ip[i] << 8) | ip[i + 1]).toString(16));
+
+  let bestStart = -1;
+  let bestLen = 0;
+  for (let i = 0; i < 8; i++) {
+    let j = i;
+    while (j < 8 && groups[j] === '0') j++;
+    if (j - i > bestLen && j - i > 1) {
+      bestStart = i;
+      bestLen = j - i;
+    }
+    i = j;
+  }
+
+  if (bestStart < 0) return groups.join(':');
+  const head = groups.slice(0, bestStart).join(':');
+  const tail = groups.slice(bestStart + bestLen).join(':');
+  return `${head}::${tail}`;
+}
+
+export function normalizeIP(ip: string): string | null {
+  const bytes = parseIP(ip.trim());
+  return bytes ? formatIP(bytes) : null;
+}
+
+export function compareIP(a: Uint8Array, b: Uint8Array): number {
+  if (a.length !== b.length) return a.length - b.length;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+}
+
+export function inCidr(ip: Uint8Array, network: Uint8Array, prefix: number): boolean {
+  if (ip.length !== network.length) return false;
+  for (let bit = 0; bit < prefix; bit++) {
+    const mask = 0x80 >> (bit % 8);
+    if ((ip[bit >> 3] & mask) !== (network[bit >> 3] & mask)) return false;
+  }
+  return true;
+}
+
+function withHostBits(ip: Uint8Array, prefix: number, set: boolean): Uint8Array {
+  const out = Uint8Array.from(ip);
+  for (let bit = prefix; bit < out.length * 8; bit++) {
+    const mask = 0x80 >> (bit % 8);
+    out[bit >> 3] = set ? out[bit >> 3] | mask : out[bit >> 3] & ~mask;
+  }
+  return out;
+}
+
+// "a.b.c.d/n" or "x::/n"; a bare address is a host route
+export function parseCIDR(cidr: string): CIDR | null {
+  const [address, length, ...rest] = cidr.trim().split('/');
+  const bytes = parseIP(address);
+  if (!bytes || rest.length > 0) return null;
+  if (length !== undefined && !/^\d{1,3}$/.test(length)) return null;
+  const prefix = length === undefined ? bytes.length * 8 : Number(length);
+  if (prefix > bytes.length * 8) return null;
+  return { network: withHostBits(bytes, prefix, false), prefix };
+}
+
+export function formatCIDR(cidr: CIDR): string {
+  return `${formatIP(cidr.network)}/${cidr.prefix}`;
+}
+
+export function cidrContains(cidr: CIDR | string, ip: Uint8Array | string): boolean {
+  const range = typeof cidr === 'string' ? parseCIDR(cidr) : cidr;
+  const address = typeof ip === 'string' ? parseIP(ip) : ip;
+  return !!range && !!address && inCidr(address, range.network, range.prefix);
+}
+
+export function cidrRange(cidr: CIDR): { first: Uint8Array; last: Uint8Array } {
+  return { first: cidr.network, last: withHostBits(cidr.network, cidr.prefix, true) };
+}
+
+// Number of addresses in the block; above 2^53 (IPv6 prefixes shorter than /75) it is approximate
+export function cidrSize(cidr: CIDR): number {
+  return 2 ** (cidr.network.length * 8 - cidr.prefix);
+}
+
+function nextIP(ip: Uint8Array): Uint8Array | null {
+  const out = Uint8Array.from(ip);
+  for (let i = out.length - 1; i >= 0; i--) {
+    if (out[i] < 0xff) {
+      out[i]++;
+      return out;
+    }
+    out[i] = 0;
+  }
+  return null;
+}
+
+// Yields every address from first to last inclusive; callers bound large ranges with limit
+export function* iterateRange(first: Uint8Array, last: Uint8Array, limit = Infinity): Generator<Uint8Array> {
+  if (first.length !== last.length) return;
+  let current: Uint8Array | null = first;
+  for (let count = 0; current && count < limit && compareIP(current, last) <= 0; count++) {
+    yield current;
+    current = nextIP(current);
+  }
+}
+
+export function* iterateCIDR(cidr: CIDR, limit = Infinity): Generator<Uint8Array> {
+  const { first, last } = cidrRange(cidr);
+  yield* iterateRange(first, last, limit);
+}
+
+// IANA IPv4 and IPv6 Special-Purpose Address Registries (RFC 6890), limited to
+// the blocks that cannot be a public host. The most specific match wins.
+export const SPECIAL_RANGES: SpecialRange[] = [
+  { cidr: '0.0.0.0/8', category: 'bogon', name: 'This network', description: 'Only valid as a source address while a host learns its own address; never routed.', rfc: 'RFC 791' },
+  { cidr: '10.0.0.0/8', category: 'private', name: 'Private use', description: 'Internal network space. The same address is in use on countless private networks.', rfc: 'RFC 1918' },
+  { cidr: '100.64.0.0/10', category: 'cgnat', name: 'Shared address space', description: 'Carrier-grade NAT between an ISP and its subscribers; the public address is on the far side of the NAT.', rfc: 'RFC 6598' },
+  { cidr: '127.0.0.0/8', category: 'loopback', name: 'Loopback', description: 'Refers to the local host itself and never leaves the machine.', rfc: 'RFC 1122' },
+  { cidr: '169.254.0.0/16', category: 'link-local', name: 'Link-local', description: 'Self-assigned when no DHCP server answers; only reachable on the local link.', rfc: 'RFC 3927' },
+  { cidr: '172.16.0.0/12', category: 'private', name: 'Private use', description: 'Internal network space. The same address is in use on countless private networks.', rfc: 'RFC 1918' },
+  { cidr: '192.0.0.0/24', category: 'bogon', name: 'IETF protocol assignments', description: 'Reserved for specific protocols such as DS-Lite and NAT64 discovery; not a public host.', rfc: 'RFC 6890' },
+  { cidr: '192.0.2.0/24', category: 'documentation', name: 'Documentation (TEST-NET-1)', description: 'Reserved for examples in documentation; never assigned or routed.', rfc: 'RFC 5737' },
+  { cidr: '192.88.99.0/24', category: 'bogon', name: '6to4 relay anycast', description: 'Formerly the 6to4 relay anycast prefix, deprecated and no longer routed.', rfc: 'RFC 7526' },
+  { cidr: '192.168.0.0/16', category: 'private', name: 'Private use', description: 'Internal network space. The same address is in use on countless private networks.', rfc: 'RFC 1918' },
+  { cidr: '198.18.0.0/15', category: 'bogon', name: 'Benchmarking', description: 'Reserved for network device benchmarking in lab environments.', rfc: 'RFC 2544' },
+  { cidr: '198.51.100.0/24', category: 'documentation', name: 'Documentation (TEST-NET-2)', description: 'Reserved for examples in documentation; never assigned or routed.', rfc: 'RFC 5737' },
+  { cidr: '203.0.113.0/24', category: 'documentation', name: 'Documentation (TEST-NET-3)', description: 'Reserved for examples in documentation; never assigned or routed.', rfc: 'RFC 5737' },
+  { cidr: '224.0.0.0/4', category: 'multicast', name: 'Multicast', description: 'Identifies a multicast group rather than a single host.', rfc: 'RFC 5771' },
+  { cidr: '240.0.0.0/4', category: 'bogon', name: 'Reserved', description: 'Reserved for future use since 1989 and not routed on the Internet.', rfc: 'RFC 1112' },
+  { cidr: '255.255.255.255/32', category: 'bogon', name: 'Limited broadcast', description: 'Broadcast to every host on the local network segment.', rfc: 'RFC 919' },
+  { cidr: '::/128', category: 'bogon', name: 'Unspecified address', description: 'The absence of an address, e.g. a socket bound to all interfaces.', rfc: 'RFC 4291' },
+  { cidr: '::1/128', category: 'loopback', name: 'Loopback', description: 'Refers to the local host itself and never leaves the machine.', rfc: 'RFC 4291' },
+  { cidr: '100::/64', category: 'bogon', name: 'Discard-only', description: 'Remotely triggered black hole prefix; traffic to it is dropped.', rfc: 'RFC 6666' },
+  { cidr: '2001:db8::/32', category: 'documentation', name: 'Documentation', description: 'Reserved for examples in documentation; never assigned or routed.', rfc: 'RFC 3849' },
+  { cidr: '3fff::/20', category: 'documentation', name: 'Documentation', description: 'Reserved for examples in documentation; never assigned or routed.', rfc: 'RFC 9637' },
+  { cidr: 'fc00::/7', category: 'private', name: 'Unique local', description: 'IPv6 counterpart of private address space, used inside a site and not routed globally.', rfc: 'RFC 4193' },
+  { cidr: 'fe80::/10', category: 'link-local', name: 'Link-local', description: 'Configured automatically on every IPv6 interface; only reachable on the local link.', rfc: 'RFC 4291' },
+  { cidr: 'fec0::/10', category: 'bogon', name: 'Site-local', description: 'Deprecated predecessor of unique local addresses; not routed.', rfc: 'RFC 3879' },
+  { cidr: 'ff00::/8', category: 'multicast', name: 'Multicast', description: 'Identifies a multicast group rather than a single host.', rfc: 'RFC 4291' },
+];
+
+const GLOBAL_UNICAST_V6 = parseCIDR('2000::/3') as CIDR;
+
+const UNALLOCATED_V6: Omit<SpecialRange, 'cidr'> = {
+  category: 'bogon',
+  name: 'Unallocated',
+  description: 'Outside 2000::/3, the only IPv6 space IANA allocates to the regional registries.',
+  rfc: 'RFC 4291',
+};
+
+const parsedRanges = SPECIAL_RANGES.map((range) => ({ range, cidr: parseCIDR(range.cidr) as CIDR }));
+
+// The special-purpose block an address belongs to, or null for a global unicast address
+export function classifyIP(ip: Uint8Array): IPClassification | null {
+  if (isIPv4Mapped(ip)) {
+    const inner = classifyIP(ip.slice(12));
+    return inner && { ...inner, mapped: true };
+  }
+
+  let best: (typeof parsedRanges)[number] | null = null;
+  for (const entry of parsedRanges) {
+    if (inCidr(ip, entry.cidr.network, entry.cidr.prefix) && (!best || entry.cidr.prefix > best.cidr.prefix)) best = entry;
+  }
+  if (best) return best.range;
+
+  if (ip.length === 16 && !inCidr(ip, GLOBAL_UNICAST_V6.network, GLOBAL_UNICAST_V6.prefix)) {
+    return { ...UNALLOCATED_V6, cidr: formatCIDR({ network: withHostBits(ip, 3, false), prefix: 3 }) };
+  }
+  return null;
+}
+
+// Why server routes must not connect to an address (it may reach the server's own
+// network), or null for a public one. IPv4-mapped addresses are judged by their IPv4 part.
+export function nonPublicReason(ip: Uint8Array): string | null {
+  const target = unmapIPv4(ip);
+  const special = classifyIP(target);
+  return special && `${formatIP(target)} is in ${special.cidr} (${special.name}, ${special.rfc})`;
+}
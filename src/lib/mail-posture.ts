@@ -0,0 +1,194 @@
+import { lookupDNS } from './dns';
+import { stripTrailingDot } from './domain';
+import type { Resolver } from './resolver';
+
+export type MTASTSMode = 'enforce' | 'testing' | 'none';
+
+export interface MTASTSPolicy {
+  version: string;
+  mode: MTASTSMode;
+  mx: string[];
+  maxAge: number;
+}
+
+export interface MTASTSCheck {
+  present: boolean;
+  record?: string;
+  id?: string;
+  policy?: MTASTSPolicy;
+  uncoveredMx: string[];
+  errors: string[];
+}
+
+export interface TLSRPTCheck {
+  present: boolean;
+  record?: string;
+  rua: string[];
+  errors: string[];
+}
+
+export interface BIMICheck {
+  present: boolean;
+  record?: string;
+  logo?: string;
+  authority?: string;
+  errors: string[];
+}
+
+export type MTASTSPolicyFetcher = (domain: string) => Promise<string>;
+
+const MODES: MTASTSMode[] = ['enforce', 'testing', 'none'];
+const MAX_POLICY_AGE = 31557600;
+
+export async function fetchMTASTSPolicy(domain: string): Promise<string> {
+  const response = await fetch(`/api/mta-sts?${new URLSearchParams({ domain })}`);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error ?? `Policy fetch returned ${response.status}`);
+  }
+  return response.text();
+}
+
+function parseTags(record: string): Map<string, string> {
+  const tags = new Map<string, string>();
+  for (const tag of record.split(';').map((t) => t.trim()).filter(Boolean)) {
+    const eq = tag.indexOf('=');
+    if (eq > 0) tags.set(tag.slice(0, eq).trim().toLowerCase(), tag.slice(eq + 1).trim());
+  }
+  return tags;
+}
+
+async function fetchTXT(name: string, prefix: RegExp, resolver?: Resolver): Promise<string[]> {
+  const result = await lookupDNS(name, 'TXT', resolver);
+  return result.records.filter((r) => r.type === 'TXT').map((r) => r.value).filter((v) => prefix.test(v.trim()));
+}
+
+export function parseMTASTSPolicy(text: string): { policy: MTASTSPolicy; errors: string[] } {
+  const errors: string[] = [];
+  const policy: MTASTSPolicy = { version: '', mode: 'none', mx: [], maxAge: 0 };
+  const seen = new Set<string>();
+
+  for (const line of text.split(/\r?\n/).map((l) => l.trim()).filter(Boolean)) {
+    const colon = line.indexOf(':');
+    if (colon < 0) {
+      errors.push(`Malformed policy line "${line}"`);
+      continue;
+    }
+    const key = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+
+    if (key !== 'mx' && seen.has(key)) errors.push(`Duplicate policy field "${key}"`);
+    seen.add(key);
+
+    switch (key) {
+      case 'version':
+        policy.version = value;
+        break;
+      case 'mode':
+        if (MODES.includes(value as MTASTSMode)) policy.mode = value as MTASTSMode;
+        else errors.push(`Invalid mode "${value}"; expected enforce, testing or none`);
+        break;
+      case 'mx':
+        policy.mx.push(stripTrailingDot(value));
+        break;
+      case 'max_age': {
+        const maxAge = Number(value);
+        if (Number.isInteger(maxAge) && maxAge >= 0 && maxAge <= MAX_POLICY_AGE) policy.maxAge = maxAge;
+        else errors.push(`Invalid max_age "${value}"`);
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  if (policy.version !== 'STSv1') errors.push('Policy must start with version: STSv1');
+  if (!seen.has('mode')) errors.push('Required field "mode" is missing');
+  if (!seen.has('max_age')) errors.push('Required field "max_age" is missing');
+  if (policy.mode !== 'none' && policy.mx.length === 0) errors.push('Policy lists no mx patterns');
+
+  return { policy, errors };
+}
+
+// RFC 8461 §4.1: a leading "*." matches exactly one label.
+export function mxPatternMatches(pattern: string, host: string): boolean {
+  const name = stripTrailingDot(host);
+  if (!pattern.startsWith('*.')) return name === pattern;
+  const suffix = pattern.slice(1);
+  return name.endsWith(suffix) && !name.slice(0, -suffix.length).includes('.') && name.length > suffix.length;
+}
+
+export async function checkMTASTS(
+  domain: string,
+  mxHosts: string[],
+  resolver?: Resolver,
+  fetchPolicy: MTASTSPolicyFetcher = fetchMTASTSPolicy
+): Promise<MTASTSCheck> {
+  const name = stripTrailingDot(domain);
+  const records = await fetchTXT(`_mta-sts.${name}`, /^v\s*=\s*STSv1\s*(;|$)/, resolver);
+  const check: MTASTSCheck = { present: records.length > 0, uncoveredMx: [], errors: [] };
+
+  if (records.length === 0) return check;
+  if (records.length > 1) check.errors.push(`${records.length} MTA-STS records published at _mta-sts.${name}`);
+
+  check.record = records[0];
+  check.id = parseTags(records[0]).get('id');
+  if (!check.id || !/^[a-zA-Z0-9]{1,32}$/.test(check.id)) {
+    check.errors.push('id= must be 1-32 alphanumeric characters');
+  }
+
+  let text: string;
+  try {
+    text = await fetchPolicy(name);
+  } catch (error) {
+    check.errors.push(`Policy file unavailable: ${error instanceof Error ? error.message : error}`);
+    return check;
+  }
+
+  const { policy, errors } = parseMTASTSPolicy(text);
+  check.policy = policy;
+  check.errors.push(...errors);
+  check.uncoveredMx = mxHosts
+    .map(stripTrailingDot)
+    .filter((host) => !policy.mx.some((pattern) => mxPatternMatches(pattern, host)));
+
+  return check;
+}
+
+export async function checkTLSRPT(domain: string, resolver?: Resolver): Promise<TLSRPTCheck> {
+  const name = stripTrailingDot(domain);
+  const records = await fetchTXT(`_smtp._tls.${name}`, /^v\s*=\s*TLSRPTv1\s*(;|$)/, resolver);
+  const check: TLSRPTCheck = { present: records.length > 0, rua: [], errors: [] };
+
+  if (records.length === 0) return check;
+  if (records.length > 1) check.errors.push(`${records.length} TLS-RPT records published at _smtp._tls.${name}`);
+
+  check.record = records[0];
+  check.rua = (parseTags(records[0]).get('rua') ?? '').split(',').map((uri) => uri.trim()).filter(Boolean);
+  if (check.rua.length === 0) check.errors.push('Required tag "rua" is missing');
+  for (const uri of check.rua) {
+    if (!/^(mailto:[^@\s]+@[^@\s]+|https:\/\/\S+)$/i.test(uri)) check.errors.push(`Invalid rua URI "${uri}"`);
+  }
+
+  return check;
+}
+
+export async function checkBIMI(domain: string, resolver?: Resolver): Promise<BIMICheck> {
+  const name = stripTrailingDot(domain);
+  const records = await fetchTXT(`default._bimi.${name}`, /^v\s*=\s*BIMI1\s*(;|$)/, resolver);
+  const check: BIMICheck = { present: records.length > 0, errors: [] };
+
+  if (records.length === 0) return check;
+  if (records.length > 1) check.errors.push(`${records.length} BIMI records published at default._bimi.${name}`);
+
+  const tags = parseTags(records[0]);
+  check.record = records[0];
+  // An empty l= and a= is a valid declination to publish a logo
+  check.logo = tags.get('l') || undefined;
+  check.authority = tags.get('a') || undefined;
+
+  if (check.logo && !/^https:\/\/\S+\.svg$/i.test(check.logo)) check.errors.push('l= must be an https URL to an SVG logo');
+  if (check.authority && !/^https:\/\/\S+$/i.test(check.authority)) check.errors.push('a= must be an https URL');
+
+  return check;
+}
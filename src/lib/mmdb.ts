@@ -0,0 +1,212 @@
+// Reader for the MaxMind DB format (https://maxmind.github.io/MaxMind-DB/) used by
+// GeoIP2/GeoLite2 and compatible databases. It works on an in-memory copy of the
+// file and has no Node dependencies; /api/mmdb loads the files from disk.
+
+export interface MMDBMetadata {
+  node_count: number;
+  record_size: 24 | 28 | 32;
+  ip_version: 4 | 6;
+  database_type: string;
+  languages?: string[];
+  binary_format_major_version: number;
+  binary_format_minor_version: number;
+  build_epoch: number;
+  description?: Record<string, string>;
+}
+
+export interface MMDBLookup<T> {
+  record: T | null;
+  // Length of the network in the tree that matched the address
+  prefixLength: number;
+}
+
+export interface MMDBReader {
+  metadata: MMDBMetadata;
+  lookup<T = unknown>(ip: Uint8Array): MMDBLookup<T>;
+}
+
+const METADATA_MARKER = [0xab, 0xcd, 0xef, ...Array.from('MaxMind.com', (c) => c.charCodeAt(0))];
+const METADATA_MAX_SIZE = 128 * 1024;
+const DATA_SECTION_SEPARATOR = 16;
+
+const POINTER_BASES = [0, 2048, 526336, 0];
+
+const FIELD_TYPES = {
+  extended: 0,
+  pointer: 1,
+  string: 2,
+  double: 3,
+  bytes: 4,
+  uint16: 5,
+  uint32: 6,
+  map: 7,
+  int32: 8,
+  uint64: 9,
+  uint128: 10,
+  array: 11,
+  boolean: 14,
+  float: 15,
+} as const;
+
+class Decoder {
+  private view: DataView;
+  private text = new TextDecoder();
+
+  constructor(
+    private buffer: Uint8Array,
+    // Pointers are relative to the start of the section being decoded
+    private base: number
+  ) {
+    this.view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  }
+
+  decode(offset: number): { value: unknown; next: number } {
+    const position = this.base + offset;
+    if (position >= this.buffer.length) throw new Error('MMDB data pointer is out of range');
+
+    const control = this.buffer[position];
+    let next = position + 1;
+    let type = control >> 5;
+
+    if (type === FIELD_TYPES.pointer) {
+      const size = (control >> 3) & 0x3;
+      let pointer = size === 3 ? 0 : control & 0x7;
+      for (let i = 0; i <= size; i++) pointer = pointer * 256 + this.buffer[next++];
+      return { value: this.decode(pointer + POINTER_BASES[size]).value, next: next - this.base };
+    }
+
+    if (type === FIELD_TYPES.extended) type = 7 + this.buffer[next++];
+
+    let size = control & 0x1f;
+    if (size >= 29) {
+      const extra = size - 28;
+      let value = 0;
+      for (let i = 0; i < extra; i++) value = value * 256 + this.buffer[next++];
+      size = [0, 29, 285, 65821][extra] + value;
+    }
+
+    const end = next + size;
+    switch (type) {
+      case FIELD_TYPES.string:
+        return { value: this.text.decode(this.buffer.subarray(next, end)), next: end - this.base };
+      case FIELD_TYPES.double:
+        return { value: this.view.getFloat64(next), next: end - this.base };
+      case FIELD_TYPES.float:
+        return { value: this.view.getFloat32(next), next: end - this.base };
+      case FIELD_TYPES.bytes:
+        return { value: this.buffer.slice(next, end), next: end - this.base };
+      case FIELD_TYPES.uint16:
+      case FIELD_TYPES.uint32:
+      case FIELD_TYPES.uint64:
+      case FIELD_TYPES.uint128:
+        return { value: this.unsigned(next, size), next: end - this.base };
+      case FIELD_TYPES.int32: {
+        const value = Number(this.unsigned(next, size));
+        return { value: size === 4 ? value | 0 : value, next: end - this.base };
+      }
+      case FIELD_TYPES.boolean:
+        return { value: size !== 0, next: next - this.base };
+      case FIELD_TYPES.map: {
+        const map: Record<string, unknown> = {};
+        let cursor = next - this.base;
+        for (let i = 0; i < size; i++) {
+          const key = this.decode(cursor);
+          const value = this.decode(key.next);
+          map[String(key.value)] = value.value;
+          cursor = value.next;
+        }
+        return { value: map, next: cursor };
+      }
+      case FIELD_TYPES.array: {
+        const items: unknown[] = [];
+        let cursor = next - this.base;
+        for (let i = 0; i < size; i++) {
+          const item = this.decode(cursor);
+          items.push(item.value);
+          cursor = item.next;
+        }
+        return { value: items, next: cursor };
+      }
+      default:
+        throw new Error(`Unsupported MMDB field type ${type}`);
+    }
+  }
+
+  // 64- and 128-bit values past Number.MAX_SAFE_INTEGER are kept as decimal strings
+  private unsigned(offset: number, size: number): number | string {
+    let value = BigInt(0);
+    for (let i = 0; i < size; i++) value = (value << BigInt(8)) | BigInt(this.buffer[offset + i]);
+    return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value.toString();
+  }
+}
+
+function findMetadata(buffer: Uint8Array): number {
+  const floor = Math.max(0, buffer.length - METADATA_MAX_SIZE);
+  for (let start = buffer.length - METADATA_MARKER.length; start >= floor; start--) {
+    if (METADATA_MARKER.every((byte, i) => buffer[start + i] === byte)) return start + METADATA_MARKER.length;
+  }
+  throw new Error('Not a MaxMind DB file: metadata marker not found');
+}
+
+export function openMMDB(buffer: Uint8Array): MMDBReader {
+  const metadataStart = findMetadata(buffer);
+  const metadata = new Decoder(buffer, metadataStart).decode(0).value as MMDBMetadata;
+
+  if (metadata.binary_format_major_version !== 2) {
+    throw new Error(`Unsupported MaxMind DB format version ${metadata.binary_format_major_version}`);
+  }
+  if (![24, 28, 32].includes(metadata.record_size)) {
+    throw new Error(`Unsupported MaxMind DB record size ${metadata.record_size}`);
+  }
+
+  const { node_count: nodeCount, record_size: recordSize } = metadata;
+  const nodeBytes = recordSize / 4;
+  const treeSize = nodeCount * nodeBytes;
+  const data = new Decoder(buffer, treeSize + DATA_SECTION_SEPARATOR);
+
+  const readRecord = (node: number, bit: 0 | 1): number => {
+    const offset = node * nodeBytes;
+    const read = (start: number, length: number) => {
+      let value = 0;
+      for (let i = 0; i < length; i++) value = value * 256 + buffer[start + i];
+      return value;
+    };
+
+    if (recordSize === 28) {
+      const middle = buffer[offset + 3];
+      return bit === 0
+        ? (middle >> 4) * 2 ** 24 + read(offset, 3)
+        : (middle & 0x0f) * 2 ** 24 + read(offset + 4, 3);
+    }
+    const size = recordSize / 8;
+    return read(offset + bit * size, size);
+  };
+
+  // IPv4 addresses live under ::/96 in IPv6 trees
+  let ipv4Start = 0;
+  if (metadata.ip_version === 6) {
+    for (let i = 0; i < 96 && ipv4Start < nodeCount; i++) ipv4Start = readRecord(ipv4Start, 0);
+  }
+
+  return {
+    metadata,
+    lookup<T>(ip: Uint8Array): MMDBLookup<T> {
+      if (ip.length === 16 && metadata.ip_version === 4) {
+        throw new Error('IPv6 lookup in an IPv4-only database');
+      }
+
+      const bits = ip.length * 8;
+      let node = ip.length === 4 ? ipv4Start : 0;
+      let depth = 0;
+      for (; depth < bits && node < nodeCount; depth++) {
+        node = readRecord(node, ((ip[depth >> 3] >> (7 - (depth % 8))) & 1) as 0 | 1);
+      }
+
+      if (node === nodeCount) return { record: null, prefixLength: depth };
+      if (node < nodeCount) throw new Error('Invalid MaxMind DB search tree');
+
+      const offset = node - nodeCount - DATA_SECTION_SEPARATOR;
+      return { record: data.decode(offset).value as T, prefixLength: depth };
+    },
+  };
+}
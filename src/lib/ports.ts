@@ -0,0 +1,143 @@
+export type PortProfileId = 'web' | 'mail' | 'database' | 'remote-admin';
+
+export interface PortDefinition {
+  port: number;
+  service: string;
+  // greeting: the server speaks first (SMTP, SSH, FTP...); http: answer a HEAD request
+  banner?: 'greeting' | 'http';
+}
+
+export interface PortProfile {
+  id: PortProfileId;
+  label: string;
+  ports: PortDefinition[];
+}
+
+export type PortState = 'open' | 'closed' | 'filtered';
+
+export interface PortScanResult {
+  port: number;
+  service: string;
+  state: PortState;
+  banner?: string;
+  responseTime: number;
+  error?: string;
+}
+
+// Newline-delimited JSON events streamed by /api/ports
+export type PortScanEvent =
+  | { type: 'start'; ip: string; ports: number[] }
+  | { type: 'port'; result: PortScanResult }
+  | { type: 'done'; open: number; elapsed: number }
+  | { type: 'error'; error: string };
+
+export const MAX_CUSTOM_PORTS = 32;
+
+export const PORT_PROFILES: Record<PortProfileId, PortProfile> = {
+  web: {
+    id: 'web',
+    label: 'Web',
+    ports: [
+      { port: 80, service: 'http', banner: 'http' },
+      { port: 443, service: 'https' },
+      { port: 8000, service: 'http-alt', banner: 'http' },
+      { port: 8080, service: 'http-proxy', banner: 'http' },
+      { port: 8443, service: 'https-alt' },
+      { port: 8888, service: 'http-alt', banner: 'http' },
+    ],
+  },
+  mail: {
+    id: 'mail',
+    label: 'Mail',
+    ports: [
+      { port: 25, service: 'smtp', banner: 'greeting' },
+      { port: 110, service: 'pop3', banner: 'greeting' },
+      { port: 143, service: 'imap', banner: 'greeting' },
+      { port: 465, service: 'smtps' },
+      { port: 587, service: 'submission', banner: 'greeting' },
+      { port: 993, service: 'imaps' },
+      { port: 995, service: 'pop3s' },
+    ],
+  },
+  database: {
+    id: 'database',
+    label: 'Databases',
+    ports: [
+      { port: 1433, service: 'mssql' },
+      { port: 1521, service: 'oracle' },
+      { port: 3306, service: 'mysql', banner: 'greeting' },
+      { port: 5432, service: 'postgresql' },
+      { port: 5984, service: 'couchdb', banner: 'http' },
+      { port: 6379, service: 'redis' },
+      { port: 9200, service: 'elasticsearch', banner: 'http' },
+      { port: 11211, service: 'memcached' },
+      { port: 27017, service: 'mongodb' },
+    ],
+  },
+  'remote-admin': {
+    id: 'remote-admin',
+    label: 'Remote Admin',
+    ports: [
+      { port: 21, service: 'ftp', banner: 'greeting' },
+      { port: 22, service: 'ssh', banner: 'greeting' },
+      { port: 23, service: 'telnet' },
+      { port: 2222, service: 'ssh-alt', banner: 'greeting' },
+      { port: 3389, service: 'rdp' },
+      { port: 5900, service: 'vnc', banner: 'greeting' },
+      { port: 5985, service: 'winrm', banner: 'http' },
+      { port: 10000, service: 'webmin', banner: 'http' },
+    ],
+  },
+};
+
+// Well-known services for custom port lists, so banners are still grabbed
+const KNOWN_PORTS = new Map(
+  Object.values(PORT_PROFILES).flatMap((profile) => profile.ports.map((entry) => [entry.port, entry] as const))
+);
+
+export function describePort(port: number): PortDefinition {
+  return KNOWN_PORTS.get(port) ?? { port, service: 'unknown' };
+}
+
+export function parsePortList(value: string): number[] | null {
+  const ports = value.split(/[\s,]+/).filter(Boolean).map(Number);
+  if (ports.length === 0 || ports.length > MAX_CUSTOM_PORTS) return null;
+  if (ports.some((port) => !Number.isInteger(port) || port < 1 || port > 65535)) return null;
+  return [...new Set(ports)];
+}
+
+export async function scanPorts(
+  ip: string,
+  selection: { profile: PortProfileId } | { ports: number[] },
+  onEvent: (event: PortScanEvent) => void,
+  signal?: AbortSignal
+): Promise<PortScanResult[]> {
+  const params = new URLSearchParams({ ip });
+  if ('profile' in selection) params.set('profile', selection.profile);
+  else params.set('ports', selection.ports.join(','));
+
+  const response = await fetch(`/api/ports?${params}`, { signal });
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error ?? `Port scan returned ${response.status}`);
+  }
+
+  const results: PortScanResult[] = [];
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (value) buffered += value;
+    const lines = buffered.split('\n');
+    buffered = done ? '' : lines.pop()!;
+
+    for (const line of lines.filter(Boolean)) {
+      const event = JSON.parse(line) as PortScanEvent;
+      if (event.type === 'port') results.push(event.result);
+      if (event.type === 'error') throw new Error(event.error);
+      onEvent(event);
+    }
+    if (done) return results;
+  }
+}
@@ -0,0 +1,171 @@
+import { lookupDNS, type RecordType } from './dns';
+import { createDohJsonResolver, DEFAULT_RESOLVER_ID, listResolvers, type Resolver } from './resolver';
+
+export interface PropagationAnswer {
+  resolverId: string;
+  label: string;
+  status: 'ok' | 'nxdomain' | 'error';
+  values: string[];
+  ttls: number[];
+  responseTime: number;
+  error?: string;
+}
+
+export interface PropagationSnapshot {
+  timestamp: Date;
+  answers: PropagationAnswer[];
+  consensus?: string;
+  converged: boolean;
+  disagreeing: string[];
+  // Highest remaining TTL among answers that match the consensus: the one
+  // closest to the zone's own TTL, against which the others' cache age shows
+  ttl?: number;
+  // Seconds until every disagreeing resolver's cached answer has expired
+  settlesIn?: number;
+}
+
+export interface PropagationChange {
+  at: Date;
+  key: string;
+}
+
+export interface PropagationWatch {
+  snapshots: PropagationSnapshot[];
+  timeline: Record<string, PropagationChange[]>;
+  converged: boolean;
+}
+
+export interface WatchOptions {
+  intervalMs?: number;
+  maxRounds?: number;
+  expected?: string[];
+  signal?: AbortSignal;
+  onSnapshot?: (snapshot: PropagationSnapshot, watch: PropagationWatch) => void;
+}
+
+const DEFAULT_INTERVAL_MS = 15000;
+const DEFAULT_MAX_ROUNDS = 40;
+
+// Google's JSON API honours edns_client_subnet, so pinning a subnet from each
+// region returns the answer a client there would get from a geo-aware authority.
+export const VANTAGE_POINTS: Resolver[] = [
+  ['us-east', 'US East', '3.80.0.0/24'],
+  ['eu-central', 'EU Central', '3.120.0.0/24'],
+  ['ap-southeast', 'Asia Pacific', '13.228.0.0/24'],
+  ['sa-east', 'South America', '18.228.0.0/24'],
+  ['ap-oceania', 'Oceania', '13.236.0.0/24'],
+].map(([region, name, subnet]) =>
+  createDohJsonResolver(`vantage-${region}`, `${name} (ECS via Google)`, 'https://dns.google/resolve', {
+    edns_client_subnet: subnet,
+  })
+);
+
+export const DEFAULT_PROPAGATION_RESOLVERS = ['google-json', 'cloudflare-json', 'quad9-json'];
+
+export function listPropagationResolvers(): Resolver[] {
+  return [...listResolvers().filter((r) => r.id !== DEFAULT_RESOLVER_ID), ...VANTAGE_POINTS];
+}
+
+export function answerKey(answer: Pick<PropagationAnswer, 'status' | 'values'>): string {
+  if (answer.status === 'nxdomain') return 'NXDOMAIN';
+  return answer.values.length > 0 ? answer.values.join(', ') : 'NODATA';
+}
+
+// The answer leaves the cache when its first record does
+export function remainingTtl(answer: Pick<PropagationAnswer, 'ttls'>): number | undefined {
+  return answer.ttls.length > 0 ? Math.min(...answer.ttls) : undefined;
+}
+
+function maxTtl(answers: PropagationAnswer[]): number | undefined {
+  const ttls = answers.map(remainingTtl).filter((ttl): ttl is number => ttl !== undefined);
+  return ttls.length > 0 ? Math.max(...ttls) : undefined;
+}
+
+async function queryResolver(domain: string, recordType: RecordType, resolver: Resolver): Promise<PropagationAnswer> {
+  const result = await lookupDNS(domain, recordType, resolver);
+  const records = [...result.records].sort((a, b) => a.value.localeCompare(b.value));
+
+  return {
+    resolverId: resolver.id,
+    label: resolver.label,
+    status: result.rcode === 3 ? 'nxdomain' : result.error ? 'error' : 'ok',
+    values: records.map((r) => (r.type === recordType ? r.value : `${r.type} ${r.value}`)),
+    ttls: records.map((r) => r.ttl),
+    responseTime: result.responseTime,
+    error: result.rcode === 3 ? undefined : result.error,
+  };
+}
+
+export async function checkPropagation(
+  domain: string,
+  recordType: RecordType,
+  resolvers: Resolver[],
+  expected?: string[]
+): Promise<PropagationSnapshot> {
+  const answers = await Promise.all(resolvers.map((resolver) => queryResolver(domain, recordType, resolver)));
+  const answered = answers.filter((a) => a.status !== 'error');
+
+  const counts = new Map<string, number>();
+  for (const answer of answered) counts.set(answerKey(answer), (counts.get(answerKey(answer)) ?? 0) + 1);
+
+  const consensus = expected
+    ? answerKey({ status: 'ok', values: [...expected].sort((a, b) => a.localeCompare(b)) })
+    : [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+
+  const disagreeing = answers.filter((a) => a.status === 'error' || answerKey(a) !== consensus).map((a) => a.resolverId);
+
+  return {
+    timestamp: new Date(),
+    answers,
+    consensus,
+    converged: disagreeing.length === 0,
+    disagreeing,
+    ttl: maxTtl(answered.filter((a) => answerKey(a) === consensus)),
+    settlesIn: maxTtl(answered.filter((a) => answerKey(a) !== consensus)),
+  };
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+export async function watchPropagation(
+  domain: string,
+  recordType: RecordType,
+  resolvers: Resolver[],
+  options: WatchOptions = {}
+): Promise<PropagationWatch> {
+  const { intervalMs = DEFAULT_INTERVAL_MS, maxRounds = DEFAULT_MAX_ROUNDS, expected, signal, onSnapshot } = options;
+  const watch: PropagationWatch = {
+    snapshots: [],
+    timeline: Object.fromEntries(resolvers.map((r) => [r.id, []])),
+    converged: false,
+  };
+
+  for (let round = 0; round < maxRounds && !signal?.aborted; round++) {
+    if (round > 0) await wait(intervalMs, signal);
+    if (signal?.aborted) break;
+
+    const snapshot = await checkPropagation(domain, recordType, resolvers, expected);
+    for (const answer of snapshot.answers) {
+      if (answer.status === 'error') continue;
+      const changes = watch.timeline[answer.resolverId];
+      const key = answerKey(answer);
+      if (changes[changes.length - 1]?.key !== key) changes.push({ at: snapshot.timestamp, key });
+    }
+
+    watch.snapshots.push(snapshot);
+    watch.converged = snapshot.converged;
+    onSnapshot?.(snapshot, watch);
+
+    if (snapshot.converged) break;
+  }
+
+  return watch;
+}
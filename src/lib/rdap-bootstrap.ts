@@ -0,0 +1,32 @@
+import asn from '../data/rdap/asn.json';
+import dns from '../data/rdap/dns.json';
+import ipv4 from '../data/rdap/ipv4.json';
+import ipv6 from '../data/rdap/ipv6.json';
+
+// The IANA RDAP bootstrap registries (RFC 9224), bundled as copies of
+// https://data.iana.org/rdap/{dns,ipv4,ipv6,asn}.json. Newer files can be
+// fetched at runtime through /api/rdap with refreshRDAPBootstrap().
+
+export type RDAPRegistry = 'dns' | 'ipv4' | 'ipv6' | 'asn';
+
+export interface RDAPBootstrapFile {
+  publication: string;
+  // [entries, base URLs]: TLDs, CIDR prefixes or "start-end" AS number ranges
+  services: Array<[string[], string[]]>;
+}
+
+// JSON imports type each service as string[][]; the IANA format makes it a pair
+function bootstrapFile(json: { publication: string; services: string[][][] }): RDAPBootstrapFile {
+  return { publication: json.publication, services: json.services.map(([entries, urls]) => [entries, urls]) };
+}
+
+export const BUNDLED_RDAP_BOOTSTRAP: Record<RDAPRegistry, RDAPBootstrapFile> = {
+  dns: bootstrapFile(dns),
+  ipv4: bootstrapFile(ipv4),
+  ipv6: bootstrapFile(ipv6),
+  asn: bootstrapFile(asn),
+};
+
+// RIR servers redirect address and AS number queries for resources another RIR
+// manages, so one of them answers anything the snapshot does not cover.
+export const RDAP_FALLBACK_SERVER = 'https://rdap.arin.net/registry/';
@@ -0,0 +1,310 @@
+import { stripTrailingDot } from './domain';
+import {
+  BUNDLED_RDAP_BOOTSTRAP,
+  RDAP_FALLBACK_SERVER,
+  type RDAPBootstrapFile,
+  type RDAPRegistry,
+} from './rdap-bootstrap';
+import { inCidr, parseIP } from './ip';
+
+export interface RDAPContact {
+  handle?: string;
+  roles: string[];
+  name?: string;
+  organization?: string;
+  emails: string[];
+  phones: string[];
+}
+
+export interface RDAPEvents {
+  registration?: string;
+  expiration?: string;
+  lastChanged?: string;
+}
+
+export interface RDAPDomain {
+  handle?: string;
+  name: string;
+  status: string[];
+  nameservers: string[];
+  registrar?: { name?: string; ianaId?: string };
+  events: RDAPEvents;
+  registrant?: RDAPContact;
+  abuse: RDAPContact[];
+  dnssec?: boolean;
+}
+
+export interface RDAPNetwork {
+  handle?: string;
+  name?: string;
+  type?: string;
+  startAddress: string;
+  endAddress: string;
+  cidrs: string[];
+  country?: string;
+  parentHandle?: string;
+  status: string[];
+  events: RDAPEvents;
+  registrant?: RDAPContact;
+  abuse: RDAPContact[];
+}
+
+export interface RDAPAutnum {
+  handle?: string;
+  name?: string;
+  startAutnum: number;
+  endAutnum: number;
+  country?: string;
+  status: string[];
+  events: RDAPEvents;
+  registrant?: RDAPContact;
+  abuse: RDAPContact[];
+}
+
+export interface RDAPResult<T> {
+  query: string;
+  url?: string;
+  data?: T;
+  error?: string;
+}
+
+// Subset of the RFC 9083 object classes read by the parsers
+export interface RDAPEntity {
+  handle?: string;
+  roles?: string[];
+  vcardArray?: [string, Array<[string, Record<string, unknown>, string, unknown]>];
+  publicIds?: Array<{ type: string; identifier: string }>;
+  entities?: RDAPEntity[];
+}
+
+export interface RDAPResponse extends RDAPEntity {
+  ldhName?: string;
+  unicodeName?: string;
+  name?: string;
+  type?: string;
+  country?: string;
+  status?: string[];
+  events?: Array<{ eventAction: string; eventDate: string }>;
+  nameservers?: Array<{ ldhName: string }>;
+  secureDNS?: { delegationSigned?: boolean };
+  links?: Array<{ rel?: string; href: string; type?: string }>;
+  startAddress?: string;
+  endAddress?: string;
+  parentHandle?: string;
+  cidr0_cidrs?: Array<{ v4prefix?: string; v6prefix?: string; length: number }>;
+  startAutnum?: number;
+  endAutnum?: number;
+  errorCode?: number;
+  title?: string;
+  description?: string[];
+}
+
+const RDAP_ACCEPT = 'application/rdap+json, application/json';
+
+const bootstrap: Record<RDAPRegistry, RDAPBootstrapFile> = { ...BUNDLED_RDAP_BOOTSTRAP };
+
+export function getRDAPBootstrap(registry: RDAPRegistry): RDAPBootstrapFile {
+  return bootstrap[registry];
+}
+
+// Replaces the bundled snapshot with the current IANA files, fetched through /api/rdap
+export async function refreshRDAPBootstrap(
+  registries: RDAPRegistry[] = ['dns', 'ipv4', 'ipv6', 'asn']
+): Promise<Record<string, string>> {
+  const updated = await Promise.all(
+    registries.map(async (registry) => {
+      const response = await fetch(`/api/rdap?${new URLSearchParams({ registry })}`);
+      const body = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(body?.error ?? `RDAP bootstrap refresh returned ${response.status}`);
+      bootstrap[registry] = body as RDAPBootstrapFile;
+      return [registry, bootstrap[registry].publication] as const;
+    })
+  );
+  return Object.fromEntries(updated);
+}
+
+function withSlash(base: string): string {
+  return base.endsWith('/') ? base : `${base}/`;
+}
+
+// Preference for https base URLs, as RFC 9224 section 3 suggests
+function pickServer(urls: string[]): string {
+  return withSlash(urls.find((url) => url.startsWith('https:')) ?? urls[0]);
+}
+
+export function findRDAPServer(registry: RDAPRegistry, query: string): string | null {
+  const { services } = bootstrap[registry];
+
+  if (registry === 'dns') {
+    const labels = stripTrailingDot(query).toLowerCase().split('.');
+    for (let i = 0; i < labels.length; i++) {
+      const suffix = labels.slice(i).join('.');
+      const service = services.find(([entries]) => entries.includes(suffix));
+      if (service) return pickServer(service[1]);
+    }
+    return null;
+  }
+
+  if (registry === 'asn') {
+    const asn = Number(query);
+    const service = services.find(([entries]) =>
+      entries.some((entry) => {
+        const [start, end = start] = entry.split('-').map(Number);
+        return asn >= start && asn <= end;
+      })
+    );
+    return service ? pickServer(service[1]) : null;
+  }
+
+  const address = parseIP(query);
+  if (!address) return null;
+  let best: { length: number; urls: string[] } | null = null;
+  for (const [entries, urls] of services) {
+    for (const entry of entries) {
+      const [network, length] = entry.split('/');
+      const prefix = Number(length);
+      const bytes = parseIP(network);
+      if (bytes && inCidr(address, bytes, prefix) && (!best || prefix > best.length)) best = { length: prefix, urls };
+    }
+  }
+  return best ? pickServer(best.urls) : null;
+}
+
+function contactOf(entity: RDAPEntity): RDAPContact {
+  const properties = entity.vcardArray?.[1] ?? [];
+  const values = (name: string) =>
+    properties
+      .filter(([property]) => property === name)
+      .map(([, , , value]) => (Array.isArray(value) ? value.filter(Boolean).join(' ') : String(value ?? '')))
+      .filter(Boolean);
+
+  return {
+    handle: entity.handle,
+    roles: entity.roles ?? [],
+    name: values('fn')[0],
+    organization: values('org')[0],
+    emails: values('email'),
+    phones: values('tel').map((tel) => tel.replace(/^tel:/, '')),
+  };
+}
+
+// Entities nest, e.g. a registrar entity carries the registrar's abuse contact
+function allEntities(entities: RDAPEntity[] = []): RDAPEntity[] {
+  return entities.flatMap((entity) => [entity, ...allEntities(entity.entities)]);
+}
+
+function withRole(object: RDAPResponse, role: string): RDAPContact[] {
+  return allEntities(object.entities)
+    .filter((entity) => entity.roles?.includes(role))
+    .map(contactOf);
+}
+
+function eventsOf(object: RDAPResponse): RDAPEvents {
+  const date = (action: string) => object.events?.find((event) => event.eventAction === action)?.eventDate;
+  return { registration: date('registration'), expiration: date('expiration'), lastChanged: date('last changed') };
+}
+
+export function parseRDAPDomain(object: RDAPResponse): RDAPDomain {
+  const registrar = allEntities(object.entities).find((entity) => entity.roles?.includes('registrar'));
+  return {
+    handle: object.handle,
+    name: stripTrailingDot(object.unicodeName ?? object.ldhName ?? '').toLowerCase(),
+    status: object.status ?? [],
+    nameservers: (object.nameservers ?? []).map((ns) => stripTrailingDot(ns.ldhName).toLowerCase()),
+    registrar: registrar && {
+      name: contactOf(registrar).name,
+      ianaId: registrar.publicIds?.find((id) => id.type === 'IANA Registrar ID')?.identifier,
+    },
+    events: eventsOf(object),
+    registrant: withRole(object, 'registrant')[0],
+    abuse: withRole(object, 'abuse'),
+    dnssec: object.secureDNS?.delegationSigned,
+  };
+}
+
+export function parseRDAPNetwork(object: RDAPResponse): RDAPNetwork {
+  return {
+    handle: object.handle,
+    name: object.name,
+    type: object.type,
+    startAddress: object.startAddress ?? '',
+    endAddress: object.endAddress ?? '',
+    cidrs: (object.cidr0_cidrs ?? []).map((cidr) => `${cidr.v4prefix ?? cidr.v6prefix}/${cidr.length}`),
+    country: object.country,
+    parentHandle: object.parentHandle,
+    status: object.status ?? [],
+    events: eventsOf(object),
+    registrant: withRole(object, 'registrant')[0],
+    abuse: withRole(object, 'abuse'),
+  };
+}
+
+export function parseRDAPAutnum(object: RDAPResponse): RDAPAutnum {
+  return {
+    handle: object.handle,
+    name: object.name,
+    startAutnum: object.startAutnum ?? 0,
+    endAutnum: object.endAutnum ?? object.startAutnum ?? 0,
+    country: object.country,
+    status: object.status ?? [],
+    events: eventsOf(object),
+    registrant: withRole(object, 'registrant')[0],
+    abuse: withRole(object, 'abuse'),
+  };
+}
+
+async function fetchRDAP(url: string, signal?: AbortSignal): Promise<RDAPResponse> {
+  const response = await fetch(url, { headers: { Accept: RDAP_ACCEPT }, signal });
+  const body: RDAPResponse | null = await response.json().catch(() => null);
+  if (response.status === 404) throw new Error('Not found in the registry');
+  if (!response.ok || !body) {
+    throw new Error(body?.description?.join(' ') || body?.title || `RDAP server returned ${response.status}`);
+  }
+  return body;
+}
+
+async function lookup<T>(
+  query: string,
+  url: string | null,
+  parse: (object: RDAPResponse) => T | Promise<T>,
+  signal?: AbortSignal
+): Promise<RDAPResult<T>> {
+  if (!url) return { query, error: `No RDAP server is known for ${query}; refresh the bootstrap registry` };
+  try {
+    return { query, url, data: await parse(await fetchRDAP(url, signal)) };
+  } catch (error) {
+    return { query, url, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function lookupRDAPDomain(domain: string, signal?: AbortSignal): Promise<RDAPResult<RDAPDomain>> {
+  const name = stripTrailingDot(domain).toLowerCase();
+  const server = findRDAPServer('dns', name);
+
+  return lookup(name, server && `${server}domain/${encodeURIComponent(name)}`, async (object) => {
+    const summary = parseRDAPDomain(object);
+    // Thin registries such as .com leave contacts to the registrar's own RDAP service
+    const related = object.links?.find((link) => link.rel === 'related' && link.type === 'application/rdap+json');
+    if (related && summary.abuse.length === 0) {
+      const registrar = parseRDAPDomain(await fetchRDAP(related.href, signal).catch(() => ({})));
+      summary.abuse = registrar.abuse;
+      summary.registrant ??= registrar.registrant;
+    }
+    return summary;
+  }, signal);
+}
+
+export async function lookupRDAPIP(ip: string): Promise<RDAPResult<RDAPNetwork>> {
+  const address = parseIP(ip.trim());
+  if (!address) return { query: ip, error: `${ip} is not an IP address` };
+  const server = findRDAPServer(address.length === 4 ? 'ipv4' : 'ipv6', ip.trim()) ?? RDAP_FALLBACK_SERVER;
+  return lookup(ip.trim(), `${server}ip/${ip.trim()}`, parseRDAPNetwork);
+}
+
+// Accepts 15169, "AS15169" or ip-api's "AS15169 Google LLC"
+export async function lookupRDAPASN(asn: number | string): Promise<RDAPResult<RDAPAutnum>> {
+  const number = typeof asn === 'number' ? asn : Number(asn.trim().match(/^(?:AS)?(\d+)/i)?.[1] ?? NaN);
+  if (!Number.isInteger(number) || number < 0 || number > 4294967295) return { query: String(asn), error: `${asn} is not an AS number` };
+  const server = findRDAPServer('asn', String(number)) ?? RDAP_FALLBACK_SERVER;
+  return lookup(`AS${number}`, `${server}autnum/${number}`, parseRDAPAutnum);
+}
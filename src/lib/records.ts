@@ -0,0 +1,176 @@
+import { txtChunks } from './dns-message';
+import { parseSOA, type SOARecord } from './soa';
+
+export interface LOCRecord {
+  // Decimal degrees, negative for south and west
+  latitude: number;
+  longitude: number;
+  // Metres
+  altitude: number;
+  size: number;
+  horizontalPrecision: number;
+  verticalPrecision: number;
+}
+
+export type RecordData =
+  | { type: 'A' | 'AAAA'; address: string }
+  | { type: 'CNAME' | 'NS' | 'PTR'; target: string }
+  | { type: 'MX'; priority: number; exchange: string }
+  | { type: 'SRV'; priority: number; weight: number; port: number; target: string }
+  | { type: 'TXT'; chunks: string[]; text: string }
+  | { type: 'CAA'; flags: number; critical: boolean; tag: string; value: string }
+  | ({ type: 'SOA' } & SOARecord)
+  | { type: 'SVCB' | 'HTTPS'; priority: number; target: string; params: Record<string, string> }
+  | { type: 'TLSA'; usage: number; selector: number; matchingType: number; data: string }
+  | { type: 'DS'; keyTag: number; algorithm: number; digestType: number; digest: string }
+  | { type: 'DNSKEY'; flags: number; protocol: number; algorithm: number; publicKey: string }
+  | { type: 'NAPTR'; order: number; preference: number; flags: string; services: string; regexp: string; replacement: string }
+  | { type: 'SSHFP'; algorithm: number; fingerprintType: number; fingerprint: string }
+  | { type: 'HINFO'; cpu: string; os: string }
+  | ({ type: 'LOC' } & LOCRecord);
+
+function toUint16(field: string | undefined): number | null {
+  const n = Number(field);
+  return field !== undefined && Number.isInteger(n) && n >= 0 && n <= 65535 ? n : null;
+}
+
+function toUint8(field: string | undefined): number | null {
+  const n = toUint16(field);
+  return n !== null && n <= 255 ? n : null;
+}
+
+function unquote(value: string): string {
+  return txtChunks(value).join('');
+}
+
+const LOC_PATTERN = new RegExp(
+  [
+    /^(\d+)(?:\s+(\d+)(?:\s+([\d.]+))?)?\s+([NS])/,
+    /\s+(\d+)(?:\s+(\d+)(?:\s+([\d.]+))?)?\s+([EW])/,
+    /\s+(-?[\d.]+)m?(?:\s+([\d.]+)m?(?:\s+([\d.]+)m?(?:\s+([\d.]+)m?)?)?)?$/,
+  ].map((part) => part.source).join(''),
+  'i'
+);
+
+// RFC 1876 section 3 presentation format, e.g. "52 22 23.000 N 4 53 32.000 E -2.00m 1m 10000m 10m"
+export function parseLOC(data: string): LOCRecord | null {
+  const match = LOC_PATTERN.exec(data.trim());
+  if (!match) return null;
+
+  const angle = (d: string, m = '0', s = '0', hemisphere: string, max: number) => {
+    const value = Number(d) + Number(m) / 60 + Number(s) / 3600;
+    if (Number(m) >= 60 || Number(s) >= 60 || value > max) return null;
+    return /[SW]/i.test(hemisphere) ? -value : value;
+  };
+
+  const latitude = angle(match[1], match[2], match[3], match[4], 90);
+  const longitude = angle(match[5], match[6], match[7], match[8], 180);
+  if (latitude === null || longitude === null) return null;
+
+  return {
+    latitude,
+    longitude,
+    altitude: Number(match[9]),
+    size: Number(match[10] ?? 1),
+    horizontalPrecision: Number(match[11] ?? 10000),
+    verticalPrecision: Number(match[12] ?? 10),
+  };
+}
+
+// Parses presentation-format rdata as produced by the wire codec or a DoH JSON
+// answer. Returns null for types without a structured form or malformed data,
+// in which case callers fall back to the raw string.
+export function parseRecordData(type: string, data: string): RecordData | null {
+  const fields = data.trim().split(/\s+/);
+
+  switch (type) {
+    case 'A':
+    case 'AAAA':
+      return { type, address: fields[0] };
+    case 'CNAME':
+    case 'NS':
+    case 'PTR':
+      return { type, target: fields[0] };
+    case 'MX': {
+      const priority = toUint16(fields[0]);
+      if (priority === null || !fields[1]) return null;
+      return { type, priority, exchange: fields[1] };
+    }
+    case 'SRV': {
+      const [priority, weight, port] = fields.slice(0, 3).map(toUint16);
+      if (priority === null || weight === null || port === null || !fields[3]) return null;
+      return { type, priority, weight, port, target: fields[3] };
+    }
+    case 'TXT': {
+      const chunks = txtChunks(data);
+      return { type, chunks, text: chunks.join('') };
+    }
+    case 'CAA': {
+      const match = /^(\d+)\s+([A-Za-z0-9]+)\s+(.*)$/.exec(data.trim());
+      if (!match || Number(match[1]) > 255) return null;
+      const flags = Number(match[1]);
+      // Bit 0 of the flags octet is the issuer-critical flag (RFC 8659 §4.1)
+      return { type, flags, critical: (flags & 0x80) !== 0, tag: match[2].toLowerCase(), value: unquote(match[3]) };
+    }
+    case 'SOA': {
+      const soa = parseSOA(data);
+      return soa && { type, ...soa };
+    }
+    case 'SVCB':
+    case 'HTTPS': {
+      const priority = toUint16(fields[0]);
+      if (priority === null || !fields[1]) return null;
+      const params = Object.fromEntries(fields.slice(2).map((param) => {
+        const eq = param.indexOf('=');
+        return eq < 0 ? [param, ''] : [param.slice(0, eq), unquote(param.slice(eq + 1))];
+      }));
+      return { type, priority, target: fields[1], params };
+    }
+    case 'TLSA': {
+      const [usage, selector, matchingType] = fields.slice(0, 3).map(toUint8);
+      if (usage === null || selector === null || matchingType === null) return null;
+      return { type, usage, selector, matchingType, data: fields.slice(3).join('').toUpperCase() };
+    }
+    case 'DS': {
+      const keyTag = toUint16(fields[0]);
+      const [algorithm, digestType] = fields.slice(1, 3).map(toUint8);
+      if (keyTag === null || algorithm === null || digestType === null) return null;
+      return { type, keyTag, algorithm, digestType, digest: fields.slice(3).join('').toUpperCase() };
+    }
+    case 'DNSKEY': {
+      const flags = toUint16(fields[0]);
+      const [protocol, algorithm] = fields.slice(1, 3).map(toUint8);
+      if (flags === null || protocol === null || algorithm === null) return null;
+      return { type, flags, protocol, algorithm, publicKey: fields.slice(3).join('') };
+    }
+    case 'NAPTR': {
+      const match = /^(\d+)\s+(\d+)\s+("(?:[^"\\]|\\.)*"|\S+)\s+("(?:[^"\\]|\\.)*"|\S+)\s+("(?:[^"\\]|\\.)*"|\S+)\s+(\S+)$/.exec(data.trim());
+      const [order, preference] = [toUint16(match?.[1]), toUint16(match?.[2])];
+      if (!match || order === null || preference === null) return null;
+      return {
+        type,
+        order,
+        preference,
+        flags: unquote(match[3]),
+        services: unquote(match[4]),
+        regexp: unquote(match[5]),
+        replacement: match[6],
+      };
+    }
+    case 'SSHFP': {
+      const [algorithm, fingerprintType] = fields.slice(0, 2).map(toUint8);
+      if (algorithm === null || fingerprintType === null) return null;
+      return { type, algorithm, fingerprintType, fingerprint: fields.slice(2).join('').toUpperCase() };
+    }
+    case 'HINFO': {
+      const chunks = txtChunks(data);
+      return chunks.length === 2 ? { type, cpu: chunks[0], os: chunks[1] } : null;
+    }
+    case 'LOC': {
+      const loc = parseLOC(data);
+      return loc && { type, ...loc };
+    }
+    default:
+      return null;
+  }
+}
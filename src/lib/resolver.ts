@@ -0,0 +1,262 @@
+import type { DNSRecord } from './dns';
+import {
+  TYPE_CODES,
+  decodeMessage,
+  encodeQuery,
+  recordTypeName,
+  toDNSRecord,
+  type DNSMessage,
+  type MessageType,
+  type ResourceRecord,
+} from './dns-message';
+
+export interface ResolverAnswer {
+  status: number;
+  records: DNSRecord[];
+  message?: DNSMessage;
+}
+
+export interface ResolverQueryOptions {
+  dnssecOk?: boolean;
+  checkingDisabled?: boolean;
+  // Only honoured by wire-format backends; DoH JSON always recurses
+  recursionDesired?: boolean;
+}
+
+export interface Resolver {
+  id: string;
+  label: string;
+  query(domain: string, recordType: MessageType, options?: ResolverQueryOptions): Promise<ResolverAnswer>;
+}
+
+export const RCODE_NAMES: Record<number, string> = {
+  0: 'NOERROR',
+  1: 'FORMERR',
+  2: 'SERVFAIL',
+  3: 'NXDOMAIN',
+  4: 'NOTIMP',
+  5: 'REFUSED',
+};
+
+interface DohJsonAnswer {
+  name: string;
+  type: number;
+  TTL: number;
+  data: string;
+}
+
+interface DohJsonResponse {
+  Status: number;
+  TC?: boolean;
+  RD?: boolean;
+  RA?: boolean;
+  AD?: boolean;
+  CD?: boolean;
+  Question?: Array<{ name: string; type: number }>;
+  Answer?: DohJsonAnswer[];
+  Authority?: DohJsonAnswer[];
+  Additional?: DohJsonAnswer[];
+}
+
+function fromJsonAnswer(answer: DohJsonAnswer): ResourceRecord {
+  return {
+    name: answer.name,
+    type: recordTypeName(answer.type),
+    typeCode: answer.type,
+    class: 1,
+    ttl: answer.TTL,
+    data: answer.data,
+  };
+}
+
+function fromJsonResponse(data: DohJsonResponse): DNSMessage {
+  return {
+    id: 0,
+    flags: {
+      qr: true,
+      opcode: 0,
+      aa: false,
+      tc: !!data.TC,
+      rd: !!data.RD,
+      ra: !!data.RA,
+      ad: !!data.AD,
+      cd: !!data.CD,
+      rcode: data.Status,
+    },
+    questions: (data.Question ?? []).map((q) => ({ name: q.name, type: recordTypeName(q.type), class: 1 })),
+    answers: (data.Answer ?? []).map(fromJsonAnswer),
+    authority: (data.Authority ?? []).map(fromJsonAnswer),
+    additional: (data.Additional ?? []).map(fromJsonAnswer),
+  };
+}
+
+export function createDohJsonResolver(
+  id: string,
+  label: string,
+  url: string,
+  extraParams: Record<string, string> = {}
+): Resolver {
+  return {
+    id,
+    label,
+    async query(domain, recordType, options = {}) {
+      const params = new URLSearchParams({
+        ...extraParams,
+        name: domain,
+        type: TYPE_CODES[recordType].toString(),
+      });
+      if (options.dnssecOk) params.set('do', '1');
+      if (options.checkingDisabled) params.set('cd', '1');
+
+      const response = await fetch(`${url}?${params}`, {
+        headers: { Accept: 'application/dns-json' },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Server ${url} returned ${response.status}`);
+      }
+
+      const message = fromJsonResponse(await response.json());
+      return { status: message.flags.rcode, records: message.answers.map(toDNSRecord), message };
+    },
+  };
+}
+
+export function createDohWireResolver(id: string, label: string, url: string): Resolver {
+  return {
+    id,
+    label,
+    async query(domain, recordType, options = {}) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          Accept: 'application/dns-message',
+          'Content-Type': 'application/dns-message',
+        },
+        body: encodeQuery(domain, recordType, options) as BodyInit,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Server ${url} returned ${response.status}`);
+      }
+
+      const message = decodeMessage(new Uint8Array(await response.arrayBuffer()));
+      return { status: message.flags.rcode, records: message.answers.map(toDNSRecord), message };
+    },
+  };
+}
+
+export function createServerRouteResolver(
+  id: string,
+  label: string,
+  transport: 'udp' | 'tcp',
+  server?: string
+): Resolver {
+  const params = new URLSearchParams({ transport });
+  if (server) params.set('server', server);
+  return createDohWireResolver(id, label, `/api/dns?${params}`);
+}
+
+export function createFallbackResolver(id: string, label: string, resolvers: Resolver[]): Resolver {
+  return {
+    id,
+    label,
+    async query(domain, recordType, options) {
+      const errors: string[] = [];
+
+      for (const resolver of resolvers) {
+        try {
+          const answer = await resolver.query(domain, recordType, options);
+          if (answer.status === 0 || answer.status === 3) return answer;
+          errors.push(`${resolver.label} returned ${RCODE_NAMES[answer.status] ?? answer.status}`);
+        } catch (error) {
+          errors.push(`${resolver.label} failed: ${error}`);
+        }
+      }
+
+      throw new Error(`All DNS servers failed: ${errors.join(', ')}`);
+    },
+  };
+}
+
+export interface MockAnswer {
+  status?: number;
+  // Bare strings are RDATA in presentation format owned by the queried name
+  answers?: Array<string | ResourceRecord>;
+  authority?: ResourceRecord[];
+}
+
+// Canned answers keyed by "name TYPE"; a list of strings is shorthand for { answers }
+export type MockZone = Record<string, string[] | MockAnswer>;
+
+function canonicalName(name: string): string {
+  return name.toLowerCase().replace(/\.$/, '');
+}
+
+// Answers from fixtures instead of the network. Records carry no wire RDATA, as
+// from the DoH JSON API, and RRSIGs are only returned when DNSSEC data is requested.
+export function createMockResolver(id: string, label: string, zone: MockZone): Resolver {
+  const entries = new Map(Object.entries(zone).map(([key, answer]) => {
+    const [name, type] = key.trim().split(/\s+/);
+    return [`${canonicalName(name)} ${type.toUpperCase()}`, Array.isArray(answer) ? { answers: answer } : answer];
+  }));
+
+  return {
+    id,
+    label,
+    async query(domain, recordType, options = {}) {
+      const name = `${canonicalName(domain)}.`;
+      const answer = entries.get(`${canonicalName(domain)} ${recordType}`) ?? {};
+      const visible = (record: ResourceRecord) => options.dnssecOk || record.type !== 'RRSIG';
+
+      const answers = (answer.answers ?? []).map((record): ResourceRecord =>
+        typeof record === 'string'
+          ? { name, type: recordType, typeCode: TYPE_CODES[recordType], class: 1, ttl: 300, data: record }
+          : record
+      ).filter(visible);
+
+      const status = answer.status ?? 0;
+      const message: DNSMessage = {
+        id: 0,
+        flags: { qr: true, opcode: 0, aa: true, tc: false, rd: true, ra: true, ad: false, cd: !!options.checkingDisabled, rcode: status },
+        questions: [{ name, type: recordType, class: 1 }],
+        answers,
+        authority: (answer.authority ?? []).filter(visible),
+        additional: [],
+      };
+
+      return { status, records: answers.map(toDNSRecord), message };
+    },
+  };
+}
+
+const googleJson = createDohJsonResolver('google-json', 'Google (JSON)', 'https://dns.google/resolve');
+const cloudflareJson = createDohJsonResolver('cloudflare-json', 'Cloudflare (JSON)', 'https://cloudflare-dns.com/dns-query');
+
+export const DEFAULT_RESOLVER_ID = 'auto';
+
+const registry = new Map<string, Resolver>();
+
+export function registerResolver(resolver: Resolver): void {
+  registry.set(resolver.id, resolver);
+}
+
+[
+  createFallbackResolver(DEFAULT_RESOLVER_ID, 'Auto (Google → Cloudflare)', [googleJson, cloudflareJson]),
+  googleJson,
+  cloudflareJson,
+  createDohJsonResolver('quad9-json', 'Quad9 (JSON)', 'https://dns.quad9.net:5053/dns-query'),
+  createDohWireResolver('google-wire', 'Google (RFC 8484)', 'https://dns.google/dns-query'),
+  createDohWireResolver('cloudflare-wire', 'Cloudflare (RFC 8484)', 'https://cloudflare-dns.com/dns-query'),
+  createDohWireResolver('quad9-wire', 'Quad9 (RFC 8484)', 'https://dns.quad9.net/dns-query'),
+  createServerRouteResolver('server-udp', 'Server UDP', 'udp'),
+  createServerRouteResolver('server-tcp', 'Server TCP', 'tcp'),
+].forEach(registerResolver);
+
+export function listResolvers(): Resolver[] {
+  return [...registry.values()];
+}
+
+export function getResolver(id: string = DEFAULT_RESOLVER_ID): Resolver {
+  return registry.get(id) ?? registry.get(DEFAULT_RESOLVER_ID)!;
+}
@@ -0,0 +1,71 @@
+import { lookupDNS } from './dns';
+import { stripTrailingDot } from './domain';
+import { compareIP, parseIP } from './ip';
+import type { Resolver } from './resolver';
+
+export interface PTRName {
+  name: string;
+  // Forward A/AAAA addresses of the PTR target, in the same family as the queried IP
+  addresses: string[];
+  confirmed: boolean;
+  error?: string;
+}
+
+export interface ReverseDNSCheck {
+  ip: string;
+  reverseName: string;
+  names: PTRName[];
+  // Forward-confirmed reverse DNS: at least one PTR name resolves back to the IP
+  confirmed: boolean;
+  error?: string;
+}
+
+// Upper bound on PTR names that get a forward lookup, as for SPF's ptr mechanism
+const MAX_PTR_NAMES = 10;
+
+// in-addr.arpa for IPv4 (RFC 1035 section 3.5), nibble-reversed ip6.arpa for IPv6 (RFC 3596 section 2.5)
+export function reverseName(ip: Uint8Array): string;
+export function reverseName(ip: string): string | null;
+export function reverseName(ip: Uint8Array | string): string | null {
+  const bytes = typeof ip === 'string' ? parseIP(ip.trim()) : ip;
+  if (!bytes) return null;
+  if (bytes.length === 4) return `${Array.from(bytes).reverse().join('.')}.in-addr.arpa`;
+  const nibbles = Array.from(bytes).flatMap((b) => [b >> 4, b & 0xf]).map((n) => n.toString(16));
+  return `${nibbles.reverse().join('.')}.ip6.arpa`;
+}
+
+export async function checkReverseDNS(ip: string, resolver?: Resolver): Promise<ReverseDNSCheck> {
+  const bytes = parseIP(ip.trim());
+  if (!bytes) return { ip, reverseName: '', names: [], confirmed: false, error: `${ip} is not an IP address` };
+
+  const name = reverseName(bytes);
+  const result = await lookupDNS(name, 'PTR', resolver);
+  const check: ReverseDNSCheck = { ip, reverseName: name, names: [], confirmed: false };
+
+  if (result.error && result.rcode !== 3) {
+    check.error = result.error;
+    return check;
+  }
+
+  const targets = [...new Set(result.records.filter((r) => r.type === 'PTR').map((r) => stripTrailingDot(r.value)))];
+  const type = bytes.length === 4 ? 'A' : 'AAAA';
+
+  check.names = await Promise.all(
+    targets.slice(0, MAX_PTR_NAMES).map(async (target): Promise<PTRName> => {
+      const forward = await lookupDNS(target, type, resolver);
+      const addresses = forward.records.filter((r) => r.type === type).map((r) => r.value);
+      return {
+        name: target,
+        addresses,
+        confirmed: addresses.some((address) => {
+          const forward = parseIP(address);
+          return !!forward && compareIP(bytes, forward) === 0;
+        }),
+        error: forward.error && forward.rcode !== 3 ? forward.error : undefined,
+      };
+    })
+  );
+  check.confirmed = check.names.some((ptr) => ptr.confirmed);
+
+  return check;
+}
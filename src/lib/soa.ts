@@ -0,0 +1,127 @@
+import { stripTrailingDot } from './domain';
+
+export type SOASerialFormat = 'date' | 'unix-time' | 'counter' | 'unknown';
+
+export interface SOARecord {
+  mname: string;
+  rname: string;
+  email: string;
+  serial: number;
+  refresh: number;
+  retry: number;
+  expire: number;
+  minimum: number;
+}
+
+export type SOAProblemKind = 'refresh' | 'retry' | 'expire' | 'minimum' | 'serial' | 'rname';
+
+export interface SOAProblem {
+  kind: SOAProblemKind;
+  severity: 'medium' | 'low';
+  detail: string;
+}
+
+// RFC 1912 §2.2 ranges, with the negative-caching guidance from RFC 2308 §5
+// replacing the original meaning of the minimum field.
+export const SOA_RECOMMENDATIONS = {
+  refresh: { min: 1200, max: 43200 },
+  retry: { min: 180, max: 7200 },
+  expire: { min: 1209600, max: 2419200 },
+  minimum: { min: 300, max: 86400 },
+};
+
+// The first unescaped dot in RNAME separates the mailbox from the domain (RFC 1035 §8).
+function rnameToEmail(rname: string): string {
+  const name = stripTrailingDot(rname);
+  const match = /^((?:[^.\\]|\\.)*)\.(.+)$/.exec(name);
+  if (!match) return name;
+  return `${match[1].replace(/\\\./g, '.')}@${match[2]}`;
+}
+
+export function parseSOA(value: string): SOARecord | null {
+  const fields = value.trim().split(/\s+/);
+  if (fields.length < 7) return null;
+
+  const numbers = fields.slice(2, 7).map(Number);
+  if (numbers.some((n) => !Number.isInteger(n) || n < 0)) return null;
+
+  const [serial, refresh, retry, expire, minimum] = numbers;
+  return {
+    mname: stripTrailingDot(fields[0]),
+    rname: stripTrailingDot(fields[1]),
+    email: rnameToEmail(fields[1]),
+    serial,
+    refresh,
+    retry,
+    expire,
+    minimum,
+  };
+}
+
+function serialDate(serial: number): Date | null {
+  const text = String(serial);
+  if (text.length !== 10) return null;
+  const year = Number(text.slice(0, 4));
+  const month = Number(text.slice(4, 6));
+  const day = Number(text.slice(6, 8));
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (year < 1990 || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date;
+}
+
+// `date +%s` serials fall between 2000-01-01 and shortly after now; anything
+// further ahead is more likely a mistyped date than a timestamp
+const UNIX_TIME_MIN = 946684800;
+const UNIX_TIME_MAX_AHEAD = 2 * 365 * 86400;
+
+export function detectSerialFormat(serial: number, now: Date = new Date()): SOASerialFormat {
+  if (serialDate(serial)) return 'date';
+  if (serial < UNIX_TIME_MIN) return 'counter';
+  if (serial <= now.getTime() / 1000 + UNIX_TIME_MAX_AHEAD) return 'unix-time';
+  return 'unknown';
+}
+
+export function auditSOA(soa: SOARecord, now: Date = new Date()): SOAProblem[] {
+  const problems: SOAProblem[] = [];
+
+  for (const field of ['refresh', 'retry', 'expire', 'minimum'] as const) {
+    const { min, max } = SOA_RECOMMENDATIONS[field];
+    const value = soa[field];
+    if (value < min || value > max) {
+      problems.push({
+        kind: field,
+        severity: 'low',
+        detail: `${field} is ${value}s; RFC 1912 recommends ${min}–${max}s`,
+      });
+    }
+  }
+
+  if (soa.retry >= soa.refresh) {
+    problems.push({ kind: 'retry', severity: 'medium', detail: `retry (${soa.retry}s) should be shorter than refresh (${soa.refresh}s)` });
+  }
+  if (soa.expire <= soa.refresh + soa.retry) {
+    problems.push({ kind: 'expire', severity: 'medium', detail: `expire (${soa.expire}s) should be much longer than refresh + retry` });
+  }
+
+  const format = detectSerialFormat(soa.serial, now);
+  if (format === 'date') {
+    const date = serialDate(soa.serial)!;
+    if (date.getTime() > now.getTime() + 86400000) {
+      problems.push({
+        kind: 'serial',
+        severity: 'medium',
+        detail: `serial ${soa.serial} is dated in the future, so later date-based serials will not increase`,
+      });
+    }
+  } else if (format === 'unix-time' && soa.serial * 1000 > now.getTime() + 86400000) {
+    problems.push({ kind: 'serial', severity: 'medium', detail: `serial ${soa.serial} is a timestamp in the future` });
+  } else if (soa.serial === 0) {
+    problems.push({ kind: 'serial', severity: 'low', detail: 'serial is 0; secondaries cannot detect changes reliably' });
+  }
+
+  if (soa.rname.includes('@') || !soa.email.includes('.')) {
+    problems.push({ kind: 'rname', severity: 'low', detail: `rname "${soa.rname}" is not a valid mailbox in DNS notation (use hostmaster.example.com)` });
+  }
+
+  return problems;
+}
@@ -0,0 +1,480 @@
+import { lookupDNS, type RecordType } from './dns';
+import { stripTrailingDot } from './domain';
+import { inCidr, parseIP } from './ip';
+import type { Resolver } from './resolver';
+import { reverseName } from './reverse-dns';
+
+export type SPFResult = 'pass' | 'fail' | 'softfail' | 'neutral' | 'none' | 'permerror' | 'temperror';
+
+export type SPFQualifier = '+' | '-' | '~' | '?';
+
+export interface SPFTerm {
+  raw: string;
+  kind: 'mechanism' | 'modifier';
+  qualifier: SPFQualifier;
+  name: string;
+  value?: string;
+}
+
+export interface SPFTraceStep {
+  depth: number;
+  domain: string;
+  term?: string;
+  message: string;
+}
+
+export interface SPFNode {
+  domain: string;
+  record?: string;
+  via?: string;
+  lookups: number;
+  children: SPFNode[];
+  error?: string;
+}
+
+export interface SPFCheck {
+  present: boolean;
+  valid: boolean;
+  record?: string;
+  records: string[];
+  lookupCount: number;
+  voidLookupCount: number;
+  allQualifier?: SPFQualifier;
+  errors: string[];
+  warnings: string[];
+  tree?: SPFNode;
+}
+
+export interface SPFEvaluation {
+  ip: string;
+  domain: string;
+  sender: string;
+  result: SPFResult;
+  trace: SPFTraceStep[];
+  lookupCount: number;
+}
+
+export const SPF_LOOKUP_LIMIT = 10;
+export const SPF_VOID_LOOKUP_LIMIT = 2;
+const MX_HOST_LIMIT = 10;
+
+const QUALIFIER_RESULTS: Record<SPFQualifier, SPFResult> = {
+  '+': 'pass',
+  '-': 'fail',
+  '~': 'softfail',
+  '?': 'neutral',
+};
+
+const MECHANISMS = ['all', 'include', 'a', 'mx', 'ptr', 'ip4', 'ip6', 'exists'];
+
+class SPFError extends Error {
+  constructor(
+    public result: 'permerror' | 'temperror',
+    message: string,
+    public reported = false
+  ) {
+    super(message);
+  }
+}
+
+interface Context {
+  resolver?: Resolver;
+  ip?: Uint8Array;
+  sender: string;
+  lookups: number;
+  voidLookups: number;
+  stack: string[];
+  trace: SPFTraceStep[];
+  errors: string[];
+  warnings: string[];
+}
+
+// Parsing
+
+export function isSPFRecord(value: string): boolean {
+  return /^v=spf1(\s|$)/i.test(value.trim());
+}
+
+export function parseSPF(record: string): { terms: SPFTerm[]; errors: string[] } {
+  const errors: string[] = [];
+  const terms: SPFTerm[] = [];
+
+  for (const raw of record.trim().split(/\s+/).slice(1)) {
+    const modifier = raw.match(/^([a-z][a-z0-9_.-]*)=(.*)$/i);
+    if (modifier) {
+      terms.push({ raw, kind: 'modifier', qualifier: '+', name: modifier[1].toLowerCase(), value: modifier[2] });
+      continue;
+    }
+
+    const mechanism = raw.match(/^([+\-~?]?)([a-z0-9]+)(?:([:/])(.*))?$/i);
+    const name = mechanism?.[2].toLowerCase();
+    if (!mechanism || !name || !MECHANISMS.includes(name)) {
+      errors.push(`Unknown term "${raw}"`);
+      continue;
+    }
+
+    const value = mechanism[3] === '/' ? `/${mechanism[4]}` : mechanism[4];
+    if ((name === 'ip4' || name === 'ip6' || name === 'include' || name === 'exists') && !value) {
+      errors.push(`"${name}" requires an argument`);
+      continue;
+    }
+    if (name === 'all' && value) {
+      errors.push(`"all" takes no argument in "${raw}"`);
+      continue;
+    }
+
+    terms.push({
+      raw,
+      kind: 'mechanism',
+      qualifier: (mechanism[1] || '+') as SPFQualifier,
+      name,
+      value,
+    });
+  }
+
+  const redirects = terms.filter((t) => t.name === 'redirect' && t.kind === 'modifier');
+  const exps = terms.filter((t) => t.name === 'exp' && t.kind === 'modifier');
+  if (redirects.length > 1) errors.push('More than one redirect= modifier');
+  if (exps.length > 1) errors.push('More than one exp= modifier');
+
+  return { terms, errors };
+}
+
+// Macros (RFC 7208 section 7)
+
+function expandMacros(spec: string, domain: string, ctx: Context): string | null {
+  let unresolved = false;
+  const [localPart, senderDomain] = ctx.sender.includes('@') ? ctx.sender.split('@') : ['postmaster', ctx.sender];
+
+  const expanded = spec.replace(/%(?:\{([a-z])(\d*)(r?)([.\-+,/_=]*)\}|%|_|-)/gi, (match, letter, digits, reverse, delimiters) => {
+    if (match === '%%') return '%';
+    if (match === '%_') return ' ';
+    if (match === '%-') return '%20';
+
+    const values: Record<string, string | undefined> = {
+      s: ctx.sender,
+      l: localPart,
+      o: senderDomain,
+      d: domain,
+      i: ctx.ip ? (ctx.ip.length === 4 ? Array.from(ctx.ip).join('.') : reverseName(ctx.ip).replace(/\.ip6\.arpa$/, '').split('.').reverse().join('.')) : undefined,
+      v: ctx.ip ? (ctx.ip.length === 4 ? 'in-addr' : 'ip6') : undefined,
+      h: domain,
+      p: 'unknown',
+    };
+
+    const value = values[letter.toLowerCase()];
+    if (value === undefined) {
+      unresolved = true;
+      return match;
+    }
+
+    let parts = value.split(new RegExp(`[${(delimiters || '.').replace(/[-\]\\/]/g, '\\$&')}]`));
+    if (reverse) parts = parts.reverse();
+    if (digits) parts = parts.slice(-parseInt(digits, 10));
+    return parts.join('.');
+  });
+
+  return unresolved ? null : expanded;
+}
+
+// Evaluation
+
+async function query(ctx: Context, name: string, type: RecordType, countVoid: boolean): Promise<string[]> {
+  const result = await lookupDNS(name, type, ctx.resolver);
+  if (result.rcode === undefined || (result.rcode !== 0 && result.rcode !== 3)) {
+    throw new SPFError('temperror', `DNS ${type} lookup for ${name} failed: ${result.error}`);
+  }
+
+  const values = result.records.filter((r) => r.type === type).map((r) => r.value);
+  if (countVoid && values.length === 0) {
+    ctx.voidLookups++;
+    if (ctx.voidLookups === SPF_VOID_LOOKUP_LIMIT + 1) {
+      exceedLimit(ctx, `More than ${SPF_VOID_LOOKUP_LIMIT} void lookups (at ${type} ${name})`);
+    }
+  }
+  return values;
+}
+
+// Evaluating a sender stops at the limit as receivers do; an audit keeps walking to report the full count
+function exceedLimit(ctx: Context, message: string) {
+  if (ctx.ip) throw new SPFError('permerror', message);
+  ctx.errors.push(message);
+}
+
+function countLookup(ctx: Context, term: string) {
+  ctx.lookups++;
+  if (ctx.lookups === SPF_LOOKUP_LIMIT + 1) {
+    exceedLimit(ctx, `More than ${SPF_LOOKUP_LIMIT} DNS lookups (at "${term}")`);
+  }
+}
+
+function parseDualCidr(value: string | undefined, domain: string, ctx: Context) {
+  const match = (value ?? '').match(/^([^/]*)(?:\/(\d+))?(?:\/\/(\d+))?$/);
+  if (!match) throw new SPFError('permerror', `Invalid domain-spec "${value}"`);
+  const target = match[1] ? expandMacros(match[1], domain, ctx) : domain;
+  return {
+    target,
+    cidr4: match[2] !== undefined ? parseInt(match[2], 10) : 32,
+    cidr6: match[3] !== undefined ? parseInt(match[3], 10) : 128,
+  };
+}
+
+async function addressesMatch(ctx: Context, host: string, cidr4: number, cidr6: number, countVoid: boolean): Promise<boolean> {
+  if (!ctx.ip) {
+    const [v4, v6] = await Promise.all([query(ctx, host, 'A', false), query(ctx, host, 'AAAA', false)]);
+    if (countVoid && v4.length === 0 && v6.length === 0) await query(ctx, host, 'A', true);
+    return false;
+  }
+
+  const type: RecordType = ctx.ip.length === 4 ? 'A' : 'AAAA';
+  for (const address of await query(ctx, host, type, countVoid)) {
+    const bytes = parseIP(address);
+    if (bytes && inCidr(ctx.ip, bytes, ctx.ip.length === 4 ? cidr4 : cidr6)) return true;
+  }
+  return false;
+}
+
+async function matchMechanism(ctx: Context, term: SPFTerm, domain: string, node: SPFNode): Promise<boolean> {
+  const depth = ctx.stack.length - 1;
+
+  switch (term.name) {
+    case 'all':
+      return true;
+
+    case 'ip4':
+    case 'ip6': {
+      const [network, prefix] = term.value!.split('/');
+      const bytes = parseIP(network);
+      const length = parseInt(prefix ?? (term.name === 'ip4' ? '32' : '128'), 10);
+      if (!bytes || (term.name === 'ip4') !== (bytes.length === 4) || length > bytes.length * 8) {
+        throw new SPFError('permerror', `Invalid network "${term.value}"`);
+      }
+      return !!ctx.ip && inCidr(ctx.ip, bytes, length);
+    }
+
+    case 'a': {
+      countLookup(ctx, term.raw);
+      node.lookups++;
+      const { target, cidr4, cidr6 } = parseDualCidr(term.value, domain, ctx);
+      if (target === null) return false;
+      return addressesMatch(ctx, target, cidr4, cidr6, true);
+    }
+
+    case 'mx': {
+      countLookup(ctx, term.raw);
+      node.lookups++;
+      const { target, cidr4, cidr6 } = parseDualCidr(term.value, domain, ctx);
+      if (target === null) return false;
+      const hosts = (await query(ctx, target, 'MX', true)).map((mx) => mx.split(' ').pop()!);
+      if (hosts.length > MX_HOST_LIMIT) {
+        throw new SPFError('permerror', `${target} has more than ${MX_HOST_LIMIT} MX hosts`);
+      }
+      for (const host of hosts) {
+        if (await addressesMatch(ctx, host, cidr4, cidr6, false)) return true;
+      }
+      return false;
+    }
+
+    case 'ptr': {
+      countLookup(ctx, term.raw);
+      node.lookups++;
+      ctx.warnings.push(`"${term.raw}" in ${domain} uses the deprecated ptr mechanism`);
+      if (!ctx.ip) return false;
+      const target = stripTrailingDot(term.value ? expandMacros(term.value, domain, ctx) ?? domain : domain);
+      const names = (await query(ctx, reverseName(ctx.ip), 'PTR', true)).slice(0, MX_HOST_LIMIT);
+      for (const name of names) {
+        const host = stripTrailingDot(name);
+        if (host !== target && !host.endsWith(`.${target}`)) continue;
+        if (await addressesMatch(ctx, host, 32, 128, false)) return true;
+      }
+      return false;
+    }
+
+    case 'exists': {
+      countLookup(ctx, term.raw);
+      node.lookups++;
+      const target = expandMacros(term.value!, domain, ctx);
+      if (target === null) {
+        ctx.trace.push({ depth, domain, term: term.raw, message: 'Macro needs a sender IP; skipped' });
+        return false;
+      }
+      return (await query(ctx, target, 'A', true)).length > 0;
+    }
+
+    case 'include': {
+      countLookup(ctx, term.raw);
+      const target = expandMacros(term.value!, domain, ctx);
+      if (target === null) return false;
+      const result = await checkHost(ctx, target, node, term.raw);
+      if (result === 'pass') return true;
+      if (result === 'temperror' || result === 'permerror') {
+        throw new SPFError(result, `include:${target} returned ${result}`, true);
+      }
+      if (result === 'none') throw new SPFError('permerror', `include:${target} has no SPF record`);
+      return false;
+    }
+  }
+
+  return false;
+}
+
+async function fetchSPF(ctx: Context, domain: string): Promise<string[]> {
+  const result = await lookupDNS(domain, 'TXT', ctx.resolver);
+  if (result.rcode === undefined || (result.rcode !== 0 && result.rcode !== 3)) {
+    throw new SPFError('temperror', `TXT lookup for ${domain} failed: ${result.error}`);
+  }
+  return result.records.map((r) => r.value).filter(isSPFRecord);
+}
+
+async function checkHost(ctx: Context, domain: string, parent: SPFNode | null, via?: string): Promise<SPFResult> {
+  const name = stripTrailingDot(domain);
+  const depth = ctx.stack.length;
+  const node: SPFNode = { domain: name, via, lookups: 0, children: [] };
+  parent?.children.push(node);
+
+  if (ctx.stack.includes(name)) {
+    node.error = `Include loop: ${[...ctx.stack, name].join(' → ')}`;
+    ctx.errors.push(node.error);
+    ctx.trace.push({ depth, domain: name, message: node.error });
+    return 'permerror';
+  }
+
+  ctx.stack.push(name);
+  try {
+    const records = await fetchSPF(ctx, name);
+    if (records.length === 0) {
+      node.error = `No SPF record at ${name}`;
+      ctx.trace.push({ depth, domain: name, message: node.error });
+      return 'none';
+    }
+    if (records.length > 1) {
+      throw new SPFError('permerror', `${records.length} SPF records published at ${name}`);
+    }
+
+    node.record = records[0];
+    ctx.trace.push({ depth, domain: name, message: `Evaluating "${records[0]}"` });
+
+    const { terms, errors } = parseSPF(records[0]);
+    if (errors.length > 0) throw new SPFError('permerror', `${name}: ${errors.join('; ')}`);
+
+    const mechanisms = terms.filter((t) => t.kind === 'mechanism');
+    const redirect = terms.find((t) => t.kind === 'modifier' && t.name === 'redirect');
+
+    for (const term of mechanisms) {
+      if (await matchMechanism(ctx, term, name, node)) {
+        const result = QUALIFIER_RESULTS[term.qualifier];
+        ctx.trace.push({ depth, domain: name, term: term.raw, message: `Matched → ${result}` });
+        if (ctx.ip) return result;
+      } else if (ctx.ip) {
+        ctx.trace.push({ depth, domain: name, term: term.raw, message: 'No match' });
+      }
+    }
+
+    if (redirect && !mechanisms.some((t) => t.name === 'all')) {
+      countLookup(ctx, redirect.raw);
+      const target = expandMacros(redirect.value!, name, ctx);
+      if (target === null) return 'neutral';
+      ctx.trace.push({ depth, domain: name, term: redirect.raw, message: `Following redirect to ${target}` });
+      const result = await checkHost(ctx, target, node, redirect.raw);
+      return result === 'none' ? 'permerror' : result;
+    }
+
+    if (ctx.ip) ctx.trace.push({ depth, domain: name, message: 'No mechanism matched → neutral' });
+    return 'neutral';
+  } catch (error) {
+    if (!(error instanceof SPFError)) throw error;
+    if (!node.error) {
+      node.error = error.message;
+      if (!error.reported) ctx.errors.push(error.message);
+      ctx.trace.push({ depth, domain: name, message: `${error.result}: ${error.message}` });
+    }
+    return error.result;
+  } finally {
+    ctx.stack.pop();
+  }
+}
+
+function createContext(resolver: Resolver | undefined, ip: string | undefined, sender: string): Context {
+  return {
+    resolver,
+    ip: ip ? parseIP(ip) ?? undefined : undefined,
+    sender,
+    lookups: 0,
+    voidLookups: 0,
+    stack: [],
+    trace: [],
+    errors: [],
+    warnings: [],
+  };
+}
+
+export async function analyzeSPF(domain: string, resolver?: Resolver): Promise<SPFCheck> {
+  const ctx = createContext(resolver, undefined, `postmaster@${domain}`);
+  let records: string[];
+
+  try {
+    records = await fetchSPF(ctx, domain);
+  } catch (error) {
+    return {
+      present: false,
+      valid: false,
+      records: [],
+      lookupCount: 0,
+      voidLookupCount: 0,
+      errors: [error instanceof Error ? error.message : String(error)],
+      warnings: [],
+    };
+  }
+
+  if (records.length === 0) {
+    return { present: false, valid: false, records, lookupCount: 0, voidLookupCount: 0, errors: [], warnings: [] };
+  }
+
+  const root: SPFNode = { domain, lookups: 0, children: [] };
+  await checkHost(ctx, domain, root);
+  const tree = root.children[0];
+
+  const { terms } = parseSPF(records[0]);
+  const all = terms.find((t) => t.kind === 'mechanism' && t.name === 'all');
+  const hasRedirect = terms.some((t) => t.kind === 'modifier' && t.name === 'redirect');
+
+  if (all?.qualifier === '+') ctx.warnings.push('"+all" authorizes every host on the internet to send as this domain');
+  if (all?.qualifier === '?') ctx.warnings.push('"?all" gives no protection: unlisted senders evaluate to neutral');
+  if (!all && !hasRedirect) ctx.warnings.push('No "all" mechanism or redirect; unlisted senders evaluate to neutral');
+
+  return {
+    present: true,
+    valid: ctx.errors.length === 0,
+    record: records[0],
+    records,
+    lookupCount: ctx.lookups,
+    voidLookupCount: ctx.voidLookups,
+    allQualifier: all?.qualifier,
+    errors: ctx.errors,
+    warnings: [...new Set(ctx.warnings)],
+    tree,
+  };
+}
+
+export async function evaluateSPF(
+  ip: string,
+  domain: string,
+  sender: string = `postmaster@${domain}`,
+  resolver?: Resolver
+): Promise<SPFEvaluation> {
+  const ctx = createContext(resolver, ip, sender);
+
+  if (!ctx.ip) {
+    return {
+      ip,
+      domain,
+      sender,
+      result: 'permerror',
+      trace: [{ depth: 0, domain, message: `"${ip}" is not a valid IP address` }],
+      lookupCount: 0,
+    };
+  }
+
+  const result = await checkHost(ctx, domain, null);
+  return { ip, domain, sender, result, trace: ctx.trace, lookupCount: ctx.lookups };
+}
@@ -0,0 +1,126 @@
+import { lookupDNS } from './dns';
+import { stripTrailingDot } from './domain';
+import type { Resolver } from './resolver';
+
+export interface TakeoverFingerprint {
+  service: string;
+  patterns: RegExp[];
+  // What the provider serves for a name nobody has claimed. Only set where such
+  // names still resolve, so DNS cannot tell a claimed name from a released one.
+  unclaimedPage?: string;
+}
+
+export interface CNAMEChain {
+  host: string;
+  chain: string[];
+  target: string;
+  service?: string;
+  unclaimedPage?: string;
+  dangling: boolean;
+  error?: string;
+}
+
+export interface TakeoverCheck {
+  scanned: string[];
+  chains: CNAMEChain[];
+  // Dangling chains, plus resolving chains into a provider that answers for
+  // unclaimed names; only the page served there shows whether those are taken
+  findings: CNAMEChain[];
+}
+
+// Providers that hand out hostnames on a shared suffix and let anyone claim a
+// released name. Keep in step with https://github.com/EdOverflow/can-i-take-over-xyz
+export const TAKEOVER_FINGERPRINTS: TakeoverFingerprint[] = [
+  { service: 'AWS S3', patterns: [/\.s3[.-]([a-z0-9-]+\.)?amazonaws\.com$/, /\.s3-website[.-][a-z0-9-]+\.amazonaws\.com$/], unclaimedPage: 'NoSuchBucket' },
+  { service: 'AWS Elastic Beanstalk', patterns: [/\.elasticbeanstalk\.com$/] },
+  { service: 'AWS CloudFront', patterns: [/\.cloudfront\.net$/] },
+  {
+    service: 'Microsoft Azure',
+    patterns: [
+      /\.cloudapp\.net$/, /\.cloudapp\.azure\.com$/, /\.azurewebsites\.net$/, /\.blob\.core\.windows\.net$/,
+      /\.trafficmanager\.net$/, /\.azureedge\.net$/, /\.azure-api\.net$/, /\.azurefd\.net$/,
+      /\.azurecontainer\.io$/, /\.azurehdinsight\.net$/, /\.servicebus\.windows\.net$/,
+    ],
+  },
+  { service: 'Google Cloud Storage', patterns: [/^c\.storage\.googleapis\.com$/, /\.storage\.googleapis\.com$/], unclaimedPage: 'NoSuchBucket' },
+  { service: 'GitHub Pages', patterns: [/\.github\.io$/], unclaimedPage: 'There isn\'t a GitHub Pages site here.' },
+  { service: 'Bitbucket', patterns: [/\.bitbucket\.io$/], unclaimedPage: 'Repository not found' },
+  { service: 'Heroku', patterns: [/\.herokuapp\.com$/, /\.herokudns\.com$/, /\.herokussl\.com$/], unclaimedPage: 'No such app' },
+  { service: 'Fastly', patterns: [/\.fastly\.net$/, /\.fastlylb\.net$/] },
+  { service: 'Shopify', patterns: [/\.myshopify\.com$/], unclaimedPage: 'Sorry, this shop is currently unavailable.' },
+  { service: 'Netlify', patterns: [/\.netlify\.app$/, /\.netlify\.com$/] },
+  { service: 'Pantheon', patterns: [/\.pantheonsite\.io$/], unclaimedPage: 'The gods are wise, but do not know of the site which you seek.' },
+  { service: 'Surge', patterns: [/\.surge\.sh$/], unclaimedPage: 'project not found' },
+  { service: 'Ghost', patterns: [/\.ghost\.io$/], unclaimedPage: 'Site unavailable' },
+  { service: 'Tumblr', patterns: [/^domains\.tumblr\.com$/], unclaimedPage: 'Whatever you were looking for doesn\'t currently exist at this address' },
+  { service: 'WordPress.com', patterns: [/\.wordpress\.com$/], unclaimedPage: 'Do you want to register' },
+  { service: 'Zendesk', patterns: [/\.zendesk\.com$/] },
+  { service: 'Help Scout', patterns: [/\.helpscoutdocs\.com$/], unclaimedPage: 'No settings were found for this company:' },
+  { service: 'ReadMe', patterns: [/\.readme\.io$/], unclaimedPage: 'Project doesnt exist... yet!' },
+  { service: 'Unbounce', patterns: [/\.unbouncepages\.com$/], unclaimedPage: 'The requested URL was not found on this server.' },
+  { service: 'Webflow', patterns: [/^proxy-ssl\.webflow\.com$/, /\.webflow\.io$/], unclaimedPage: 'The page you are looking for doesn\'t exist or has been moved.' },
+  { service: 'Fly.io', patterns: [/\.fly\.dev$/] },
+  { service: 'Render', patterns: [/\.onrender\.com$/] },
+];
+
+export const DEFAULT_TAKEOVER_SUBDOMAINS = [
+  'www', 'blog', 'shop', 'store', 'docs', 'help', 'support', 'status', 'cdn', 'assets', 'static',
+  'media', 'img', 'app', 'api', 'dev', 'staging', 'test', 'beta', 'demo', 'portal', 'go', 'm',
+];
+
+const MAX_CHAIN_LENGTH = 10;
+
+export function matchFingerprint(target: string): TakeoverFingerprint | undefined {
+  const name = stripTrailingDot(target);
+  return TAKEOVER_FINGERPRINTS.find((fp) => fp.patterns.some((pattern) => pattern.test(name)));
+}
+
+export async function followCNAMEChain(host: string, resolver?: Resolver): Promise<CNAMEChain | null> {
+  const chain = [stripTrailingDot(host)];
+
+  for (let i = 0; i < MAX_CHAIN_LENGTH; i++) {
+    const current = chain[chain.length - 1];
+    const result = await lookupDNS(current, 'CNAME', resolver);
+    const isStart = chain.length === 1;
+
+    if (result.rcode === 3) {
+      return isStart ? null : { host: chain[0], chain, target: current, dangling: true };
+    }
+    if (result.error) {
+      return isStart ? null : { host: chain[0], chain, target: current, dangling: false, error: result.error };
+    }
+
+    const cname = result.records.find((r) => r.type === 'CNAME');
+    if (!cname) {
+      return isStart ? null : { host: chain[0], chain, target: current, dangling: false };
+    }
+
+    const next = stripTrailingDot(cname.value);
+    if (chain.includes(next)) {
+      return { host: chain[0], chain: [...chain, next], target: next, dangling: false, error: 'CNAME loop' };
+    }
+    chain.push(next);
+  }
+
+  const target = chain[chain.length - 1];
+  return { host: chain[0], chain, target, dangling: false, error: `CNAME chain longer than ${MAX_CHAIN_LENGTH}` };
+}
+
+export async function scanTakeover(
+  domain: string,
+  resolver?: Resolver,
+  subdomains: string[] = DEFAULT_TAKEOVER_SUBDOMAINS
+): Promise<TakeoverCheck> {
+  const name = stripTrailingDot(domain);
+  const scanned = [name, ...new Set(subdomains.map((s) => `${stripTrailingDot(s)}.${name}`))];
+
+  const chains = (await Promise.all(scanned.map((host) => followCNAMEChain(host, resolver))))
+    .filter((chain): chain is CNAMEChain => chain !== null)
+    .map((chain) => {
+      // Any hop can be the claimable one, e.g. a custom CDN name that fronts an S3 bucket
+      const fingerprint = chain.chain.slice(1).map(matchFingerprint).find(Boolean);
+      return fingerprint ? { ...chain, service: fingerprint.service, unclaimedPage: fingerprint.unclaimedPage } : chain;
+    });
+
+  return { scanned, chains, findings: chains.filter((chain) => chain.dangling || chain.unclaimedPage) };
+}
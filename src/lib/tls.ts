@@ -0,0 +1,107 @@
+export interface TLSCertificateInfo {
+  subject: string;
+  subjectName: string;
+  issuer: string;
+  issuerName: string;
+  sans: string[];
+  serialNumber: string;
+  fingerprint256: string;
+  keyType: string;
+  keySize?: number;
+  curve?: string;
+  signatureAlgorithm: string;
+  validFrom: string;
+  validTo: string;
+  ocsp: string[];
+  caIssuers: string[];
+  crl: string[];
+  ca: boolean;
+  selfSigned: boolean;
+}
+
+export interface TLSInspection {
+  host: string;
+  port: number;
+  servername: string;
+  address: string;
+  protocol: string;
+  cipher: { name: string; standardName?: string; version: string };
+  authorized: boolean;
+  authorizationError?: string;
+  // Leaf first, then each issuer as built by the server's trust store
+  chain: TLSCertificateInfo[];
+  responseTime: number;
+}
+
+export type TLSProblemKind = 'hostname-mismatch' | 'expired' | 'expiring' | 'self-signed' | 'untrusted' | 'legacy-protocol';
+
+export interface TLSProblem {
+  kind: TLSProblemKind;
+  severity: 'critical' | 'high' | 'medium' | 'low';
+  detail: string;
+}
+
+export const CERT_EXPIRY_WARNING_DAYS = 30;
+
+const MODERN_PROTOCOLS = ['TLSv1.2', 'TLSv1.3'];
+const SELF_SIGNED_ERRORS = ['DEPTH_ZERO_SELF_SIGNED_CERT', 'SELF_SIGNED_CERT_IN_CHAIN'];
+
+export async function inspectTLS(host: string, port = 443, servername?: string): Promise<TLSInspection> {
+  const params = new URLSearchParams({ host, port: String(port) });
+  if (servername) params.set('servername', servername);
+
+  const response = await fetch(`/api/tls?${params}`);
+  const body = await response.json().catch(() => null);
+  if (!response.ok) throw new Error(body?.error ?? `TLS inspection returned ${response.status}`);
+  return body as TLSInspection;
+}
+
+// RFC 6125 section 6.4.3: a wildcard matches exactly one left-most label
+export function hostnameMatches(hostname: string, names: string[]): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  return names.some((name) => {
+    const pattern = name.toLowerCase().replace(/\.$/, '');
+    if (!pattern.startsWith('*.')) return pattern === host;
+    const dot = host.indexOf('.');
+    return dot > 0 && host.slice(dot + 1) === pattern.slice(2);
+  });
+}
+
+export function auditTLS(inspection: TLSInspection, now: Date = new Date()): TLSProblem[] {
+  const problems: TLSProblem[] = [];
+  const leaf = inspection.chain[0];
+
+  if (leaf && !hostnameMatches(inspection.servername, leaf.sans.length > 0 ? leaf.sans : [leaf.subject])) {
+    problems.push({
+      kind: 'hostname-mismatch',
+      severity: 'high',
+      detail: `Certificate for ${leaf.sans.join(', ') || leaf.subject} does not cover ${inspection.servername}`,
+    });
+  }
+
+  for (const [index, cert] of inspection.chain.entries()) {
+    const remaining = new Date(cert.validTo).getTime() - now.getTime();
+    const label = index === 0 ? 'Leaf certificate' : `Chain certificate "${cert.subject}"`;
+    if (remaining <= 0) {
+      problems.push({ kind: 'expired', severity: 'critical', detail: `${label} expired on ${cert.validTo.slice(0, 10)}` });
+    } else if (remaining < CERT_EXPIRY_WARNING_DAYS * 86400000) {
+      problems.push({
+        kind: 'expiring',
+        severity: index === 0 ? 'medium' : 'high',
+        detail: `${label} expires in ${Math.ceil(remaining / 86400000)} days (${cert.validTo.slice(0, 10)})`,
+      });
+    }
+  }
+
+  if (SELF_SIGNED_ERRORS.includes(inspection.authorizationError ?? '') || (leaf?.selfSigned && !inspection.authorized)) {
+    problems.push({ kind: 'self-signed', severity: 'high', detail: 'The chain ends in a self-signed certificate that browsers do not trust' });
+  } else if (!inspection.authorized && inspection.authorizationError !== 'CERT_HAS_EXPIRED') {
+    problems.push({ kind: 'untrusted', severity: 'high', detail: `Chain validation failed: ${inspection.authorizationError ?? 'unknown error'}` });
+  }
+
+  if (!MODERN_PROTOCOLS.includes(inspection.protocol)) {
+    problems.push({ kind: 'legacy-protocol', severity: 'high', detail: `Negotiated ${inspection.protocol}; TLS 1.2 or later is required` });
+  }
+
+  return problems;
+}
@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { parseIP } from './ip';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -24,21 +25,36 @@ export function formatRelativeTime(date: Date): string {
   return formatDate(date);
 }
 
+export function formatDuration(seconds: number): string {
+  const units: Array<[string, number]> = [['w', 604800], ['d', 86400], ['h', 3600], ['m', 60]];
+  for (const [unit, size] of units) {
+    if (seconds >= size && seconds % size === 0) return `${seconds / size}${unit}`;
+  }
+  return `${seconds}s`;
+}
+
 export function isValidDomain(domain: string): boolean {
   const domainRegex = /^(?!:\/\/)([a-zA-Z0-9-]+\.)*[a-zA-Z0-9-]+\.[a-zA-Z]{2,}$/;
   return domainRegex.test(domain);
 }
 
 export function isValidIP(ip: string): boolean {
-  const ipv4Regex = /^(\d{1,3}\.){3}\d{1,3}$/;
-  const ipv6Regex = /^([0-9a-fA-F]{1,4}:){7}[0-9a-fA-F]{1,4}$/;
-  return ipv4Regex.test(ip) || ipv6Regex.test(ip);
+  return parseIP(ip) !== null;
 }
 
 export function copyToClipboard(text: string): Promise<void> {
   return navigator.clipboard.writeText(text);
 }
 
+export function downloadFile(filename: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 export function saveToLocalStorage<T>(key: string, data: T): void {
   if (typeof window !== 'undefined') {
     localStorage.setItem(key, JSON.stringify(data));
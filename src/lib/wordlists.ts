@@ -0,0 +1,41 @@
+// Bundled subdomain wordlists, ordered roughly by how often each label shows up
+// in certificate transparency logs.
+const COMMON = [
+  'www', 'mail', 'remote', 'blog', 'webmail', 'server', 'ns1', 'ns2', 'smtp', 'secure',
+  'vpn', 'm', 'shop', 'ftp', 'mail2', 'test', 'portal', 'ns', 'ww1', 'host',
+  'support', 'dev', 'web', 'bbs', 'www3', 'mx', 'email', 'cloud', '1', 'mail1',
+  '2', 'forum', 'owa', 'www2', 'gw', 'admin', 'store', 'mx1', 'cdn', 'api',
+  'exchange', 'app', 'vps', 'news', 'go', 'my', 'office', 'extranet', 'crm', 'citrix',
+  'imap', 'pop', 'pop3', 'autodiscover', 'autoconfig', 'staging', 'stage', 'beta', 'demo', 'docs',
+  'help', 'status', 'static', 'assets', 'media', 'img', 'images', 'files', 'download', 'downloads',
+  'git', 'gitlab', 'jenkins', 'ci', 'jira', 'confluence', 'wiki', 'intranet', 'internal', 'sso',
+  'auth', 'login', 'id', 'accounts', 'dashboard', 'grafana', 'kibana', 'monitor', 'metrics', 'logs',
+  'db', 'mysql', 'sql', 'redis', 'backup', 'old', 'new', 'qa', 'uat', 'prod',
+];
+
+const EXTENDED = [
+  ...COMMON,
+  'api2', 'api-dev', 'api-staging', 'apis', 'gateway', 'graphql', 'ws', 'socket', 'realtime', 'push',
+  'cdn1', 'cdn2', 'edge', 'origin', 'lb', 'proxy', 'cache', 'assets1', 'assets2', 'static1',
+  'mobile', 'ios', 'android', 'apps', 'partners', 'partner', 'vendor', 'vendors', 'b2b', 'corp',
+  'hr', 'careers', 'jobs', 'crm', 'erp', 'billing', 'pay', 'payments', 'checkout', 'cart',
+  'shop2', 'store2', 'events', 'community', 'forums', 'learn', 'academy', 'training', 'kb', 'knowledgebase',
+  'developer', 'developers', 'devportal', 'sandbox', 'preview', 'test1', 'test2', 'dev1', 'dev2', 'stg',
+  'preprod', 'pre', 'perf', 'load', 'canary', 'alpha', 'lab', 'labs', 'research', 'beta2',
+  'vpn1', 'vpn2', 'ra', 'citrix', 'rdp', 'remote2', 'gw1', 'gw2', 'fw', 'firewall',
+  'ns3', 'ns4', 'dns', 'dns1', 'dns2', 'mx2', 'mx3', 'smtp1', 'smtp2', 'relay',
+  'webdisk', 'cpanel', 'whm', 'plesk', 'panel', 'cp', 'manage', 'management', 'console', 'control',
+  'registry', 'docker', 'k8s', 'kube', 'rancher', 'argo', 'vault', 'consul', 'nomad', 'prometheus',
+  'elastic', 'es', 'search', 'solr', 'mongo', 'postgres', 'pg', 'rabbit', 'mq', 'kafka',
+  'sentry', 'status2', 'uptime', 'nagios', 'zabbix', 'splunk', 'log', 'syslog', 'audit', 'siem',
+  's3', 'storage', 'bucket', 'files2', 'share', 'sharepoint', 'drive', 'upload', 'uploads', 'cdn-origin',
+  'video', 'stream', 'live', 'tv', 'radio', 'podcast', 'music', 'photos', 'gallery', 'img2',
+  'en', 'de', 'fr', 'es-es', 'uk', 'us', 'eu', 'asia', 'au', 'ca',
+];
+
+export const BUNDLED_WORDLISTS: Record<string, { label: string; words: string[] }> = {
+  common: { label: `Common (${COMMON.length})`, words: COMMON },
+  extended: { label: `Extended (${new Set(EXTENDED).size})`, words: [...new Set(EXTENDED)] },
+};
+
+export const DEFAULT_WORDLIST = 'common';
@@ -0,0 +1,82 @@
+const SIGNATURE_ALGORITHMS: Record<string, string> = {
+  '1.2.840.113549.1.1.4': 'md5WithRSAEncryption',
+  '1.2.840.113549.1.1.5': 'sha1WithRSAEncryption',
+  '1.2.840.113549.1.1.10': 'RSASSA-PSS',
+  '1.2.840.113549.1.1.11': 'sha256WithRSAEncryption',
+  '1.2.840.113549.1.1.12': 'sha384WithRSAEncryption',
+  '1.2.840.113549.1.1.13': 'sha512WithRSAEncryption',
+  '1.2.840.10045.4.1': 'ecdsa-with-SHA1',
+  '1.2.840.10045.4.3.2': 'ecdsa-with-SHA256',
+  '1.2.840.10045.4.3.3': 'ecdsa-with-SHA384',
+  '1.2.840.10045.4.3.4': 'ecdsa-with-SHA512',
+  '1.3.101.112': 'Ed25519',
+  '1.3.101.113': 'Ed448',
+};
+
+const CRL_DISTRIBUTION_POINTS = '2.5.29.31';
+
+export interface TLV {
+  tag: number;
+  start: number;
+  end: number;
+}
+
+export function readTLV(der: Uint8Array, offset: number): TLV {
+  let length = der[offset + 1];
+  let start = offset + 2;
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < count; i++) length = (length << 8) | der[start + i];
+    start += count;
+  }
+  if (start + length > der.length) throw new Error('Truncated DER value');
+  return { tag: der[offset], start, end: start + length };
+}
+
+export function children(der: Uint8Array, { start, end }: TLV): TLV[] {
+  const out: TLV[] = [];
+  for (let offset = start; offset < end; offset = out[out.length - 1].end) out.push(readTLV(der, offset));
+  return out;
+}
+
+export function oidString(der: Uint8Array, { start, end }: TLV): string {
+  const parts = [Math.floor(der[start] / 40), der[start] % 40];
+  let value = 0;
+  for (let i = start + 1; i < end; i++) {
+    value = value * 128 + (der[i] & 0x7f);
+    if (!(der[i] & 0x80)) {
+      parts.push(value);
+      value = 0;
+    }
+  }
+  return parts.join('.');
+}
+
+// uniformResourceIdentifier GeneralNames ([6] IA5String) anywhere below the node
+export function collectURIs(der: Uint8Array, node: TLV): string[] {
+  return children(der, node).flatMap((child) => {
+    if (child.tag === 0x86) return [String.fromCharCode(...der.subarray(child.start, child.end))];
+    return child.tag & 0x20 ? collectURIs(der, child) : [];
+  });
+}
+
+// Node exposes neither the signature algorithm nor CRL distribution points,
+// so both are read from the DER certificate directly.
+export function parseCertificateDER(der: Uint8Array): { signatureAlgorithm: string; crl: string[] } {
+  const [tbs, algorithm] = children(der, readTLV(der, 0));
+  const oid = oidString(der, children(der, algorithm)[0]);
+
+  const crl: string[] = [];
+  const extensions = children(der, tbs).find((field) => field.tag === 0xa3);
+  if (extensions) {
+    for (const extension of children(der, children(der, extensions)[0])) {
+      const [id, ...rest] = children(der, extension);
+      if (oidString(der, id) === CRL_DISTRIBUTION_POINTS) {
+        crl.push(...collectURIs(der, readTLV(der, rest[rest.length - 1].start)));
+      }
+    }
+  }
+
+  return { signatureAlgorithm: SIGNATURE_ALGORITHMS[oid] ?? oid, crl };
+}
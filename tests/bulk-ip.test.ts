@@ -0,0 +1,159 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { bulkResultsToCSV, investigateIPs, parseBulkTargets, type BulkIPResult } from '@/lib/bulk-ip';
+import type { IPIntelligenceData } from '@/lib/dns';
+import { classifyIP } from '@/lib/ip';
+import { IPIntelligenceError, type IPIntelligenceProvider } from '@/lib/ip-intel';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('parseBulkTargets', () => {
+  it('expands CIDR blocks, skips comments and removes duplicates', () => {
+    expect(parseBulkTargets('8.8.8.8, 8.8.8.8/31 # resolvers\n# 1.1.1.1\n2001:4860::/127')).toEqual({
+      addresses: ['8.8.8.8', '8.8.8.9', '2001:4860::', '2001:4860::1'],
+      errors: [],
+    });
+  });
+
+  it('reports invalid entries and host bits', () => {
+    expect(parseBulkTargets('example.com 8.8.8.9/31 10.0.0.0/33')).toEqual({
+      addresses: ['8.8.8.8', '8.8.8.9'],
+      errors: [
+        'example.com: not an IP address or CIDR block',
+        '8.8.8.9/31: host bits set, investigating 8.8.8.8/31',
+        '10.0.0.0/33: not an IP address or CIDR block',
+      ],
+    });
+  });
+
+  it('skips blocks that would exceed the limit', () => {
+    expect(parseBulkTargets('8.8.8.0/24 1.1.1.1/32 9.9.9.0/29', 8)).toEqual({
+      addresses: ['1.1.1.1'],
+      errors: [
+        '8.8.8.0/24: 256 addresses would exceed the limit of 8',
+        '9.9.9.0/29: 8 addresses would exceed the limit of 8',
+      ],
+    });
+  });
+});
+
+// Records when each lookup started, in milliseconds since the fake clock began
+function recordingProvider(answer: (ip: string, attempt: number) => void = () => {}): IPIntelligenceProvider & { starts: Array<[string, number]> } {
+  const began = Date.now();
+  const starts: Array<[string, number]> = [];
+  return {
+    id: 'fixture',
+    label: 'Fixture',
+    starts,
+    async lookup(ip) {
+      const attempt = starts.filter(([seen]) => seen === ip).length;
+      starts.push([ip, Date.now() - began]);
+      answer(ip, attempt);
+      return { country: 'United States', countryCode: 'US' };
+    },
+  };
+}
+
+describe('investigateIPs', () => {
+  it('spaces lookup starts by the rate across all workers', async () => {
+    vi.useFakeTimers();
+    const provider = recordingProvider();
+    const progress: number[] = [];
+    const investigation = investigateIPs(['8.8.8.8', '1.1.1.1', '9.9.9.9'], {
+      providers: [provider],
+      concurrency: 3,
+      ratePerMinute: 60,
+      onProgress: (done) => progress.push(done),
+    });
+    await vi.advanceTimersByTimeAsync(5000);
+
+    const results = await investigation;
+    expect(provider.starts).toEqual([['8.8.8.8', 0], ['1.1.1.1', 1000], ['9.9.9.9', 2000]]);
+    expect(progress).toEqual([1, 2, 3]);
+    expect(results.map((result) => result.ip)).toEqual(['1.1.1.1', '8.8.8.8', '9.9.9.9']);
+  });
+
+  it('classifies special-purpose addresses without asking providers', async () => {
+    const provider = recordingProvider();
+    const [result] = await investigateIPs(['10.0.0.1'], { providers: [provider], ratePerMinute: 0 });
+    expect(provider.starts).toEqual([]);
+    expect(result).toMatchObject({ ip: '10.0.0.1', data: null, special: { category: 'private' } });
+  });
+
+  it('pauses for the reset time after a 429 and retries once', async () => {
+    vi.useFakeTimers();
+    const provider = recordingProvider((ip, attempt) => {
+      if (ip === '8.8.8.8' && attempt === 0) throw new IPIntelligenceError('fixture', 'Rate limit exceeded', 429, { remaining: 0, resetIn: 30 });
+    });
+    const investigation = investigateIPs(['8.8.8.8', '1.1.1.1'], { providers: [provider], concurrency: 1, ratePerMinute: 60 });
+    await vi.advanceTimersByTimeAsync(40000);
+
+    const results = await investigation;
+    expect(provider.starts).toEqual([['8.8.8.8', 0], ['8.8.8.8', 30000], ['1.1.1.1', 31000]]);
+    expect(results.every((result) => result.data?.countryCode === 'US')).toBe(true);
+  });
+
+  it('fails the address when the provider asks for too long a pause', async () => {
+    const provider: IPIntelligenceProvider = {
+      id: 'fixture',
+      label: 'Fixture',
+      lookup: vi.fn(async () => {
+        throw new IPIntelligenceError('fixture', 'Rate limit exceeded', 429, { resetIn: 3600 });
+      }),
+    };
+    const [result] = await investigateIPs(['8.8.8.8'], { providers: [provider], ratePerMinute: 0 });
+    expect(provider.lookup).toHaveBeenCalledTimes(1);
+    expect(result.errors).toEqual([{ provider: 'fixture', message: 'Rate limit exceeded', status: 429, rateLimit: { resetIn: 3600 } }]);
+  });
+
+  it('stops starting lookups once aborted', async () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    const provider = recordingProvider();
+    const investigation = investigateIPs(['8.8.8.8', '1.1.1.1', '9.9.9.9'], {
+      providers: [provider],
+      concurrency: 1,
+      ratePerMinute: 60,
+      signal: controller.signal,
+      onResult: () => controller.abort(),
+    });
+    await vi.advanceTimersByTimeAsync(0);
+
+    const results = await investigation;
+    expect(provider.starts).toEqual([['8.8.8.8', 0]]);
+    expect(results.map((result) => result.ip)).toEqual(['8.8.8.8']);
+  });
+});
+
+describe('bulkResultsToCSV', () => {
+  const data = (fields: Partial<IPIntelligenceData>): IPIntelligenceData => ({
+    ip: '8.8.8.8', version: 4, country: '', countryCode: '', region: '', city: '', isp: '', org: '', asn: '',
+    lat: 0, lon: 0, timezone: '', isMobile: false, isProxy: false, isHosting: false, ...fields,
+  });
+
+  it('neutralizes provider strings that spreadsheets would run as formulas', () => {
+    const results: BulkIPResult[] = [
+      {
+        ip: '8.8.8.8',
+        data: data({ org: '=HYPERLINK("http://evil.example","x")', isp: '@SUM(1,2)', city: 'São Paulo', lat: -23.55 }),
+        sources: {},
+        errors: [],
+      },
+    ];
+    const [header, row] = bulkResultsToCSV(results).split('\r\n');
+    expect(header).toBe('ip,version,country,countryCode,region,city,isp,org,asn,lat,lon,timezone,isMobile,isProxy,isHosting,special,errors');
+    expect(row).toBe(`8.8.8.8,4,,,,São Paulo,"'@SUM(1,2)","'=HYPERLINK(""http://evil.example"",""x"")",,-23.55,0,,false,false,false,,`);
+  });
+
+  it('writes special-purpose classifications and provider errors', () => {
+    const csv = bulkResultsToCSV([
+      { ip: '10.0.0.1', data: null, sources: {}, special: classifyIP(Uint8Array.of(10, 0, 0, 1)) ?? undefined, errors: [] },
+      { ip: '2001:4860::1', data: null, sources: {}, errors: [{ provider: 'ip-api', message: 'reserved range' }, { provider: 'ipinfo', message: 'Rate limit exceeded' }] },
+    ]);
+    expect(csv.split('\r\n').slice(1)).toEqual([
+      '10.0.0.1,4,,,,,,,,,,,,,,Private use (10.0.0.0/8),',
+      '2001:4860::1,6,,,,,,,,,,,,,,,ip-api: reserved range; ipinfo: Rate limit exceeded',
+    ]);
+  });
+});
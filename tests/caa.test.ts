@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { checkCAA, parseIssuer } from '@/lib/caa';
+import { createMockResolver } from '@/lib/resolver';
+
+const resolver = createMockResolver('fixture', 'Fixture', {
+  'example.com CAA': [
+    '0 issue "letsencrypt.org"',
+    '0 issue "pki.goog; cansignhttpexchanges=yes"',
+    '0 issuewild ";"',
+    '0 iodef "mailto:security@example.com"',
+  ],
+  'example.com MX': ['10 mail.example.com.'],
+  'open.example CAA': ['0 issue "digicert.com"', '0 iodef "http://reports.open.example/caa"'],
+  'reports.open.example A': ['192.0.2.10'],
+  'critical.example CAA': ['0 issue "letsencrypt.org"', '0 issuewild "letsencrypt.org"', '128 tbs "unknown"'],
+  'tagsonly.example CAA': ['0 iodef "ftp://example.net/"'],
+  'upper.example CAA': ['0 ISSUE "letsencrypt.org"', '128 IssueWild ";"'],
+});
+
+describe('parseIssuer', () => {
+  it('splits the issuer domain from its parameters', () => {
+    expect(parseIssuer('letsencrypt.org; validationmethods=dns-01; accounturi=https://acme.example/1')).toEqual({
+      domain: 'letsencrypt.org',
+      name: "Let's Encrypt",
+      parameters: { validationmethods: 'dns-01', accounturi: 'https://acme.example/1' },
+    });
+    expect(parseIssuer(';')).toEqual({ domain: '', name: undefined, parameters: {} });
+  });
+});
+
+describe('checkCAA', () => {
+  it('climbs to the organizational domain to find the relevant set', async () => {
+    const check = await checkCAA('www.shop.example.com', resolver);
+    expect(check.checked).toEqual(['www.shop.example.com', 'shop.example.com', 'example.com']);
+    expect(check.relevantName).toBe('example.com');
+    expect(check.issue.issuers.map((issuer) => issuer.domain)).toEqual(['letsencrypt.org', 'pki.goog']);
+    // issuewild ";" forbids wildcard issuance outright
+    expect(check.issueWild).toEqual({ restricted: true, issuers: [] });
+    expect(check.problems).toEqual([]);
+  });
+
+  it('reports a domain without CAA records', async () => {
+    const check = await checkCAA('nothing.example', resolver);
+    expect(check.present).toBe(false);
+    expect(check.issue.restricted).toBe(false);
+    expect(check.problems).toEqual([{ kind: 'missing', detail: 'No CAA records at nothing.example' }]);
+  });
+
+  it('warns when issue also governs wildcard certificates and iodef uses HTTP', async () => {
+    const check = await checkCAA('open.example', resolver);
+    expect(check.issueWild).toBe(check.issue);
+    expect(check.problems.map((problem) => problem.kind)).toEqual(['wildcard-open', 'iodef-invalid']);
+    expect(check.problems[1].detail).toBe('"http://reports.open.example/caa" sends incident reports over plain HTTP');
+  });
+
+  it('flags unknown critical properties', async () => {
+    const check = await checkCAA('critical.example', resolver);
+    expect(check.problems).toEqual([
+      { kind: 'unknown-critical', detail: 'Critical property "tbs" is not understood by CAs, which must then refuse all issuance' },
+    ]);
+  });
+
+  it('matches property tags case-insensitively', async () => {
+    const check = await checkCAA('upper.example', resolver);
+    expect(check.properties.map((property) => property.tag)).toEqual(['issue', 'issuewild']);
+    expect(check.issue.issuers.map((issuer) => issuer.domain)).toEqual(['letsencrypt.org']);
+    expect(check.issueWild).toEqual({ restricted: true, issuers: [] });
+    expect(check.problems).toEqual([]);
+  });
+
+  it('reports a set without issue and iodef URIs with other schemes', async () => {
+    const check = await checkCAA('tagsonly.example', resolver);
+    expect(check.problems.map((problem) => problem.detail)).toEqual([
+      'The CAA set at tagsonly.example has no issue property',
+      '"ftp://example.net/" uses ftp, but only mailto, http and https are defined for iodef',
+    ]);
+  });
+});
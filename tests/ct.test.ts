@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  certificateStatus,
+  createCrtShSource,
+  getCTSource,
+  listCTSources,
+  parseCrtShEntries,
+  searchCertificates,
+  type CrtShEntry,
+} from '@/lib/ct';
+
+const entry = (overrides: Partial<CrtShEntry>): CrtShEntry => ({
+  id: 1,
+  issuer_name: "C=US, O=Let's Encrypt, CN=R11",
+  common_name: 'example.com',
+  name_value: 'example.com',
+  serial_number: '01',
+  not_before: '2026-01-01T00:00:00',
+  not_after: '2026-04-01T00:00:00',
+  ...overrides,
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('parseCrtShEntries', () => {
+  it('merges a precertificate with its final certificate', () => {
+    const certificates = parseCrtShEntries([
+      entry({ id: 2, name_value: 'example.com\nwww.example.com' }),
+      entry({ id: 1, name_value: 'www.example.com\napi.example.com.' }),
+      entry({ id: 3, serial_number: '02' }),
+    ]);
+    expect(certificates).toHaveLength(2);
+    expect(certificates[0]).toMatchObject({
+      id: '2',
+      issuer: "Let's Encrypt R11",
+      names: ['example.com', 'www.example.com', 'api.example.com'],
+    });
+  });
+
+  it('reads crt.sh timestamps as UTC', () => {
+    const [certificate] = parseCrtShEntries([entry({ not_before: '2026-01-01T12:00:00' })]);
+    expect(certificate.notBefore.toISOString()).toBe('2026-01-01T12:00:00.000Z');
+  });
+});
+
+describe('certificateStatus', () => {
+  const [certificate] = parseCrtShEntries([entry({})]);
+
+  it('classifies by validity window', () => {
+    expect(certificateStatus(certificate, new Date('2025-12-31T00:00:00Z'))).toBe('not-yet-valid');
+    expect(certificateStatus(certificate, new Date('2026-01-15T00:00:00Z'))).toBe('valid');
+    expect(certificateStatus(certificate, new Date('2026-03-15T00:00:00Z'))).toBe('expiring');
+    expect(certificateStatus(certificate, new Date('2026-04-01T00:00:00Z'))).toBe('expired');
+  });
+});
+
+describe('crt.sh source', () => {
+  it('queries the apex and its subdomains and merges the rows', async () => {
+    const queries: string[] = [];
+    vi.stubGlobal('fetch', async (url: string) => {
+      const q = new URL(url, 'http://localhost').searchParams.get('q')!;
+      queries.push(q);
+      const rows = q.startsWith('%.')
+        ? [entry({ id: 2, serial_number: '02', common_name: 'www.example.com', name_value: 'www.example.com' })]
+        : [entry({ id: 1 })];
+      return Response.json(rows);
+    });
+
+    const result = await searchCertificates('example.com.', createCrtShSource('test', 'Test', '/api/ct'));
+    expect(queries.sort()).toEqual(['%.example.com', 'example.com']);
+    expect(result.certificates.map((c) => c.commonName).sort()).toEqual(['example.com', 'www.example.com']);
+    expect(result.subdomains).toEqual(['www.example.com']);
+  });
+
+  it('reports upstream errors', async () => {
+    vi.stubGlobal('fetch', async () => Response.json({ error: 'crt.sh returned 503' }, { status: 502 }));
+    const result = await searchCertificates('example.com', createCrtShSource('test', 'Test', '/api/ct'));
+    expect(result.error).toBe('crt.sh returned 503');
+    expect(result.certificates).toEqual([]);
+  });
+});
+
+describe('sample source', () => {
+  it('is registered and answers for example.com offline', async () => {
+    expect(listCTSources().map((source) => source.id)).toContain('sample');
+
+    const result = await searchCertificates('example.com', getCTSource('sample'));
+    expect(result.error).toBeUndefined();
+    expect(result.subdomains).toEqual([
+      'api.staging.example.com',
+      'autodiscover.example.com',
+      'dev.example.com',
+      'mail.example.com',
+      'staging.example.com',
+      'status.example.com',
+      'vpn.example.com',
+      'www.example.com',
+    ]);
+    // The precertificate and final certificate for example.com share a serial
+    expect(result.certificates).toHaveLength(7);
+  });
+
+  it('returns nothing for other domains', async () => {
+    expect((await searchCertificates('example.org', getCTSource('sample'))).certificates).toEqual([]);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { auditDelegation } from '@/lib/delegation';
+import type { DNSMessage, ResourceRecord } from '@/lib/dns-message';
+import { createMockResolver, type Resolver } from '@/lib/resolver';
+
+type ServerAnswer = Partial<Pick<DNSMessage, 'answers' | 'authority' | 'additional'>> & { status?: number; aa?: boolean; ra?: boolean };
+
+function rr(name: string, type: string, data: string): ResourceRecord {
+  return { name, type, typeCode: 0, class: 1, ttl: 3600, data };
+}
+
+function soa(serial: number): ResourceRecord {
+  return rr('example.com.', 'SOA', `ns1.example.com. hostmaster.example.com. ${serial} 7200 3600 1209600 3600`);
+}
+
+// A nameserver queried directly: answers from a table and REFUSES anything else
+function server(address: string, table: Record<string, ServerAnswer>): Resolver {
+  return {
+    id: address,
+    label: address,
+    async query(domain, recordType) {
+      const answer = table[`${domain} ${recordType}`] ?? { status: 5 };
+      const status = answer.status ?? 0;
+      return {
+        status,
+        records: [],
+        message: {
+          id: 0,
+          flags: { qr: true, opcode: 0, aa: !!answer.aa, tc: false, rd: false, ra: !!answer.ra, ad: false, cd: false, rcode: status },
+          questions: [{ name: domain, type: recordType, class: 1 }],
+          answers: answer.answers ?? [],
+          authority: answer.authority ?? [],
+          additional: answer.additional ?? [],
+        },
+      };
+    },
+  };
+}
+
+const recursive = createMockResolver('fixture', 'Fixture', {
+  'example.com NS': ['ns1.example.com.', 'ns2.example.com.', 'ns3.dns-host.net.'],
+  'com NS': ['a.gtld-servers.net.'],
+  'a.gtld-servers.net A': ['192.5.6.30'],
+  'ns2.example.com A': ['198.51.100.54'],
+  'ns3.dns-host.net A': ['203.0.113.53'],
+});
+
+const servers: Record<string, Resolver> = {
+  '192.5.6.30': server('192.5.6.30', {
+    'example.com NS': {
+      authority: [rr('example.com.', 'NS', 'ns1.example.com.'), rr('example.com.', 'NS', 'ns2.example.com.')],
+      additional: [rr('ns1.example.com.', 'A', '198.51.100.53')],
+    },
+  }),
+  '198.51.100.53': server('198.51.100.53', { 'example.com SOA': { aa: true, answers: [soa(2026011501)] } }),
+  '198.51.100.54': server('198.51.100.54', {
+    'example.com SOA': { aa: true, answers: [soa(2026011500)] },
+    'example.org A': { ra: true, answers: [rr('example.org.', 'A', '192.0.2.80')] },
+  }),
+  '203.0.113.53': server('203.0.113.53', {}),
+};
+
+const directResolver = (address: string) => servers[address] ?? server(address, {});
+
+describe('auditDelegation', () => {
+  it('compares the referral with the zone and probes every nameserver', async () => {
+    const check = await auditDelegation('example.com', recursive, { directResolver, lookupASN: async () => 'AS64500' });
+
+    expect(check).toMatchObject({
+      zone: 'example.com',
+      parentZone: 'com',
+      parentNs: ['ns1.example.com', 'ns2.example.com'],
+      childNs: ['ns1.example.com', 'ns2.example.com', 'ns3.dns-host.net'],
+      serials: [2026011501, 2026011500],
+      reachable: true,
+    });
+    expect(check.nameservers.map((ns) => [ns.name, ns.inParent, ns.glue])).toEqual([
+      ['ns1.example.com', true, ['198.51.100.53']],
+      ['ns2.example.com', true, []],
+      ['ns3.dns-host.net', false, []],
+    ]);
+    expect(check.problems.map((problem) => [problem.kind, problem.server])).toEqual([
+      ['ns-mismatch', undefined],
+      ['missing-glue', 'ns2.example.com'],
+      ['open-recursion', 'ns2.example.com'],
+      ['lame-delegation', 'ns3.dns-host.net'],
+      ['serial-mismatch', undefined],
+      ['single-asn', undefined],
+    ]);
+    expect(check.problems[0].detail).toBe('only in the zone: ns3.dns-host.net');
+    expect(check.problems[3].detail).toBe('ns3.dns-host.net does not answer authoritatively for example.com (203.0.113.53: rcode 5)');
+  });
+
+  it('skips the server checks when no nameserver can be queried directly', async () => {
+    const unreachable: Resolver = {
+      id: 'unreachable',
+      label: 'unreachable',
+      async query() {
+        throw new Error('Server UDP returned 404');
+      },
+    };
+    const zone = createMockResolver('fixture', 'Fixture', {
+      'example.net NS': ['ns1.example.net.', 'ns2.example.net.'],
+      'ns1.example.net A': ['192.0.2.1'],
+      'ns2.example.net A': ['192.0.2.2'],
+    });
+
+    const check = await auditDelegation('example.net', zone, { directResolver: () => unreachable, lookupASN: async () => undefined });
+    expect(check.reachable).toBe(false);
+    expect(check.parentNs).toEqual([]);
+    expect(check.problems).toEqual([{ kind: 'single-subnet', detail: 'Every nameserver address is in 192.0.2.0/24' }]);
+  });
+
+  it('returns early for names without NS records', async () => {
+    const check = await auditDelegation('www.example.com', recursive, { directResolver, lookupASN: async () => undefined });
+    expect(check).toEqual({ zone: 'www.example.com', parentNs: [], childNs: [], nameservers: [], serials: [], reachable: false, problems: [] });
+  });
+});
@@ -0,0 +1,89 @@
+import { generateKeyPairSync } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { discoverDKIM, isDKIMRecord, parseDKIM } from '@/lib/dkim';
+import { analyzeAttackSurface } from '@/lib/dns';
+import { createMockResolver } from '@/lib/resolver';
+
+function rsaKey(modulusLength: number, type: 'spki' | 'pkcs1' = 'spki'): string {
+  const { publicKey } = generateKeyPairSync('rsa', { modulusLength });
+  return publicKey.export({ type, format: 'der' }).toString('base64');
+}
+
+const RSA_1024 = rsaKey(1024);
+const RSA_2048 = rsaKey(2048);
+const RSA_2048_PKCS1 = rsaKey(2048, 'pkcs1');
+// The last 32 bytes of an Ed25519 SubjectPublicKeyInfo are the raw key, which is what k=ed25519 publishes
+const ED25519 = generateKeyPairSync('ed25519').publicKey.export({ type: 'spki', format: 'der' }).subarray(-32).toString('base64');
+
+const parse = (record: string) => parseDKIM('s1', 's1._domainkey.example.com', record);
+
+describe('parseDKIM', () => {
+  it('measures RSA keys published as SubjectPublicKeyInfo or PKCS#1', () => {
+    expect(parse(`v=DKIM1; k=rsa; p=${RSA_2048}`)).toMatchObject({ keyType: 'rsa', bits: 2048, errors: [] });
+    expect(parse(`v=DKIM1; p=${RSA_1024}`)).toMatchObject({ keyType: 'rsa', bits: 1024, errors: [] });
+    expect(parse(`v=DKIM1; p=${RSA_2048_PKCS1}`).bits).toBe(2048);
+  });
+
+  it('reads Ed25519 keys and keys split across TXT strings', () => {
+    expect(parse(`v=DKIM1; k=ed25519; p=${ED25519}`)).toMatchObject({ keyType: 'ed25519', bits: 256, errors: [] });
+    const split = `v=DKIM1; p=${RSA_2048.slice(0, 200)} ${RSA_2048.slice(200)}`;
+    expect(parse(split).bits).toBe(2048);
+  });
+
+  it('reads revocation, test mode and hash restrictions', () => {
+    expect(parse('v=DKIM1; p=')).toMatchObject({ revoked: true, errors: [] });
+    const key = parse(`v=DKIM1; t=y:s; h=sha256; p=${RSA_2048}`);
+    expect(key).toMatchObject({ testing: true, strictSubdomains: true, hashAlgorithms: ['sha256'] });
+  });
+
+  it('reports malformed records', () => {
+    expect(parse('k=rsa; v=DKIM1').errors).toEqual(['v=DKIM1 must be the first tag', 'Required tag "p" is missing']);
+    expect(parse('v=DKIM1; p=AAAA').errors[0]).toMatch(/^Unable to decode RSA public key/);
+    expect(parse(`v=DKIM1; h=md5; p=${RSA_2048}`).errors).toEqual(['Unknown hash algorithm in h=md5']);
+    expect(parse('v=DKIM1; k=dsa; p=AAAA').errors).toEqual(['Unknown key type k=dsa']);
+  });
+});
+
+describe('isDKIMRecord', () => {
+  it('accepts key records and ignores other TXT data at the selector', () => {
+    expect(isDKIMRecord('v=DKIM1; p=')).toBe(true);
+    expect(isDKIMRecord(`k=rsa; p=${RSA_1024}`)).toBe(true);
+    expect(isDKIMRecord('v=spf1 -all')).toBe(false);
+  });
+});
+
+const resolver = createMockResolver('fixture', 'Fixture', {
+  'google._domainkey.example.com TXT': [`"v=DKIM1; k=rsa; p=${RSA_2048}"`],
+  'selector1._domainkey.example.com TXT': ['"google-site-verification=abc"', `"v=DKIM1; p=${RSA_1024}"`],
+  'old._domainkey.example.com TXT': ['"v=DKIM1; p="'],
+  'trial._domainkey.example.com TXT': [`"v=DKIM1; t=y; k=ed25519; p=${ED25519}"`],
+});
+
+describe('discoverDKIM', () => {
+  it('probes each distinct selector and keeps those that publish a key', async () => {
+    const check = await discoverDKIM('example.com', resolver, ['Google', 'google', 'selector1', 'missing']);
+    expect(check.selectors).toEqual(['google', 'selector1', 'missing']);
+    expect(check.keys.map((key) => [key.name, key.bits])).toEqual([
+      ['google._domainkey.example.com', 2048],
+      ['selector1._domainkey.example.com', 1024],
+    ]);
+  });
+
+  it('reports nothing when no selector answers', async () => {
+    expect(await discoverDKIM('example.org', resolver, ['google'])).toEqual({ present: false, selectors: ['google'], keys: [] });
+  });
+});
+
+describe('DKIM issues in analyzeAttackSurface', () => {
+  it('flags weak, revoked and test-mode keys but not strong ones', async () => {
+    const result = await analyzeAttackSurface('example.com', resolver, {
+      dkimSelectors: ['google', 'selector1', 'old', 'trial'],
+      takeoverSubdomains: [],
+    });
+    expect(result.issues.filter((issue) => issue.id.startsWith('dkim-')).map((issue) => [issue.id, issue.severity])).toEqual([
+      ['dkim-weak-key-selector1', 'medium'],
+      ['dkim-revoked-old', 'low'],
+      ['dkim-test-mode-trial', 'medium'],
+    ]);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { isDMARCRecord, parseDMARC } from '@/lib/dmarc';
+
+describe('isDMARCRecord', () => {
+  it('recognizes the version tag case-insensitively', () => {
+    expect(isDMARCRecord('v=DMARC1; p=none')).toBe(true);
+    expect(isDMARCRecord(' v = dmarc1 ')).toBe(true);
+    expect(isDMARCRecord('v=spf1 -all')).toBe(false);
+    expect(isDMARCRecord('v=DMARC10; p=none')).toBe(false);
+  });
+});
+
+describe('parseDMARC', () => {
+  it('applies RFC 7489 defaults', () => {
+    const { policy, errors, warnings } = parseDMARC('v=DMARC1; p=reject');
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual([]);
+    expect(policy).toEqual({ p: 'reject', pct: 100, rua: [], ruf: [], adkim: 'r', aspf: 'r', fo: ['0'], ri: 86400 });
+  });
+
+  it('parses every defined tag', () => {
+    const { policy, errors } = parseDMARC(
+      'v=DMARC1; p=Quarantine; sp=reject; pct=25; rua=mailto:a@example.com, mailto:b@example.net!10m; ' +
+      'ruf=mailto:f@example.com; adkim=s; aspf=s; fo=1:d; ri=3600; rf=afrf'
+    );
+    expect(errors).toEqual([]);
+    expect(policy).toEqual({
+      p: 'quarantine',
+      sp: 'reject',
+      pct: 25,
+      rua: ['mailto:a@example.com', 'mailto:b@example.net!10m'],
+      ruf: ['mailto:f@example.com'],
+      adkim: 's',
+      aspf: 's',
+      fo: ['1', 'd'],
+      ri: 3600,
+    });
+  });
+
+  it('reports invalid values', () => {
+    const { errors } = parseDMARC('v=DMARC1; p=block; pct=150; adkim=x; fo=2; ri=-1; rua=https://example.com');
+    expect(errors).toEqual([
+      'Invalid p=block; expected none, quarantine or reject',
+      'Invalid pct=150; expected an integer from 0 to 100',
+      'Invalid adkim=x; expected r or s',
+      'Invalid fo=2',
+      'Invalid ri=-1',
+      'Invalid rua URI "https://example.com"',
+    ]);
+  });
+
+  it('requires v=DMARC1 first', () => {
+    expect(parseDMARC('p=none; v=DMARC1').errors).toContain('First tag must be v=DMARC1');
+  });
+
+  it('flags duplicate and malformed tags', () => {
+    const { errors } = parseDMARC('v=DMARC1; p=none; p=reject; bogus');
+    expect(errors).toEqual(['Duplicate tag "p"', 'Malformed tag "bogus"']);
+  });
+
+  it('falls back to p=none when only rua is given', () => {
+    expect(parseDMARC('v=DMARC1; rua=mailto:d@example.com').policy.p).toBe('none');
+    expect(parseDMARC('v=DMARC1; pct=50').errors).toEqual(['Required tag "p" is missing']);
+  });
+
+  it('warns about unknown tags without invalidating the record', () => {
+    const { policy, errors, warnings } = parseDMARC('v=DMARC1; p=reject; np=reject; t=y');
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual(['Unknown tag "np" is ignored', 'Unknown tag "t" is ignored']);
+    expect(policy.p).toBe('reject');
+  });
+});
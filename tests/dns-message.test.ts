@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import {
+  TYPE_CODES,
+  decodeMessage,
+  encodeMessage,
+  encodeQuery,
+  encodeRdata,
+  recordTypeCode,
+  recordTypeName,
+  toDNSRecord,
+  txtChunks,
+  type DNSMessage,
+  type MessageType,
+  type ResourceRecord,
+} from '@/lib/dns-message';
+
+const FLAGS = { qr: true, opcode: 0, aa: true, tc: false, rd: true, ra: true, ad: false, cd: false, rcode: 0 };
+
+function record(name: string, type: MessageType, data: string): ResourceRecord {
+  return { name, type, typeCode: TYPE_CODES[type], class: 1, ttl: 3600, data };
+}
+
+function roundTrip(message: DNSMessage): DNSMessage {
+  return decodeMessage(encodeMessage(message));
+}
+
+describe('record type names', () => {
+  it('maps mnemonics and the RFC 3597 generic form', () => {
+    expect(recordTypeCode('aaaa')).toBe(28);
+    expect(recordTypeCode('TYPE65534')).toBe(65534);
+    expect(recordTypeCode('TYPE70000')).toBeUndefined();
+    expect(recordTypeCode('BOGUS')).toBeUndefined();
+    expect(recordTypeName(257)).toBe('CAA');
+    expect(recordTypeName(65534)).toBe('TYPE65534');
+  });
+});
+
+describe('encodeQuery', () => {
+  it('writes the header, question and an EDNS OPT record', () => {
+    const query = encodeQuery('example.com', 'MX', { id: 0x1234, dnssecOk: true, checkingDisabled: true });
+    expect(Array.from(query.subarray(0, 12))).toEqual([0x12, 0x34, 0x01, 0x30, 0, 1, 0, 0, 0, 0, 0, 1]);
+
+    const decoded = decodeMessage(query);
+    expect(decoded.questions).toEqual([{ name: 'example.com.', type: 'MX', class: 1 }]);
+    expect(decoded.flags).toMatchObject({ qr: false, rd: true, ad: true, cd: true });
+    expect(decoded.edns).toEqual({ udpSize: 4096, dnssecOk: true, version: 0, extendedRcode: 0 });
+    expect(decoded.additional).toEqual([]);
+  });
+});
+
+describe('encodeMessage and decodeMessage', () => {
+  const records = [
+    record('example.com.', 'A', '192.0.2.1'),
+    record('example.com.', 'AAAA', '2001:db8::1'),
+    record('www.example.com.', 'CNAME', 'example.com.'),
+    record('example.com.', 'MX', '10 mail.example.com.'),
+    record('example.com.', 'NS', 'ns1.example.com.'),
+    record('example.com.', 'SOA', 'ns1.example.com. hostmaster.example.com. 2026011501 7200 3600 1209600 300'),
+    record('example.com.', 'TXT', '"v=spf1 -all" "second string"'),
+    record('_sip._tcp.example.com.', 'SRV', '10 60 5060 sip.example.com.'),
+    record('example.com.', 'CAA', '0 issue "letsencrypt.org"'),
+    record('example.com.', 'DS', '2371 13 2 1F987CC6583E92DF0890718C42'),
+    record('example.com.', 'HTTPS', '1 . alpn=h2,h3 ipv4hint=192.0.2.1'),
+    record('_443._tcp.example.com.', 'TLSA', '3 1 1 0C72AC70B745AC19998811B131D662C9'),
+    record('example.com.', 'SSHFP', '4 2 ABCDEF0123'),
+    record('example.com.', 'NAPTR', '100 10 "S" "SIP+D2U" "" _sip._udp.example.com.'),
+    record('example.com.', 'HINFO', '"RFC8482" ""'),
+    record('example.com.', 'LOC', '52 22 23.000 N 4 53 32.000 E -2.00m 1.00m 10000.00m 10.00m'),
+    record('example.com.', 'NSEC', 'www.example.com. A NS SOA MX TXT AAAA RRSIG NSEC DNSKEY CAA'),
+    record('2t7b4g4vsa5smi47k61mv5bv1a22bojr.example.com.', 'NSEC3', '1 1 0 - 2VPTU5TIMAMQTTGL4LUU9KG21E0AOR3S A RRSIG'),
+    record('example.com.', 'NSEC3', '1 0 10 AABBCCDD 2VPTU5TIMAMQTTGL4LUU9KG21E0AOR3S NS'),
+  ];
+
+  it('round-trips records in every section', () => {
+    const message: DNSMessage = {
+      id: 7,
+      flags: FLAGS,
+      questions: [{ name: 'example.com.', type: 'A', class: 1 }],
+      answers: records,
+      authority: [record('example.com.', 'NS', 'ns2.example.com.')],
+      additional: [record('ns1.example.com.', 'A', '192.0.2.53')],
+    };
+    const decoded = roundTrip(message);
+
+    expect(decoded.answers.map(({ name, type, ttl, data }) => ({ name, type, ttl, data }))).toEqual(
+      records.map(({ name, type, ttl, data }) => ({ name, type, ttl, data }))
+    );
+    expect(decoded.authority[0].data).toBe('ns2.example.com.');
+    expect(decoded.additional[0].data).toBe('192.0.2.53');
+  });
+
+  it('carries unknown types as generic RDATA', () => {
+    const generic: ResourceRecord = { name: 'example.com.', type: 'TYPE65534', typeCode: 65534, class: 1, ttl: 0, data: '\\# 3 010203' };
+    const [decoded] = roundTrip({ id: 0, flags: FLAGS, questions: [], answers: [generic], authority: [], additional: [] }).answers;
+    expect(decoded).toMatchObject({ type: 'TYPE65534', data: '\\# 3 010203' });
+    expect(Array.from(encodeRdata(65534, '\\# 3 010203'))).toEqual([1, 2, 3]);
+  });
+
+  it('combines the extended RCODE from the OPT record', () => {
+    const decoded = roundTrip({
+      id: 0,
+      flags: { ...FLAGS, rcode: 0 },
+      questions: [],
+      answers: [],
+      authority: [],
+      additional: [],
+      edns: { udpSize: 1232, dnssecOk: false, version: 0, extendedRcode: 1 },
+    });
+    // BADVERS is 16: upper eight bits in OPT, lower four in the header
+    expect(decoded.flags.rcode).toBe(16);
+  });
+
+  it('rejects truncated messages and compression loops', () => {
+    expect(() => decodeMessage(new Uint8Array(11))).toThrow('DNS message shorter than header');
+
+    const loop = new Uint8Array([0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0xc0, 12, 0, 1, 0, 1]);
+    expect(() => decodeMessage(loop)).toThrow('Compression loop in name');
+  });
+});
+
+describe('toDNSRecord', () => {
+  it('joins TXT strings and exposes MX priority', () => {
+    expect(txtChunks('"v=spf1 " "-all"')).toEqual(['v=spf1 ', '-all']);
+    expect(toDNSRecord(record('example.com.', 'TXT', '"v=spf1 " "-all"')).value).toBe('v=spf1 -all');
+    expect(toDNSRecord(record('example.com.', 'MX', '10 mail.example.com.'))).toMatchObject({ type: 'MX', priority: 10 });
+  });
+});
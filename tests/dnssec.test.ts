@@ -0,0 +1,225 @@
+import { describe, expect, it } from 'vitest';
+import {
+  TYPE_CODES,
+  bytesToBase32Hex,
+  bytesToBase64,
+  bytesToHex,
+  decodeMessage,
+  encodeMessage,
+  encodeName,
+  encodeRdata,
+  formatTimestamp,
+  normalizeName,
+  toDNSRecord,
+  type MessageType,
+  type ResourceRecord,
+} from '@/lib/dns-message';
+import { computeKeyTag, validateDNSSEC } from '@/lib/dnssec';
+import { createMockResolver, type MockAnswer, type Resolver } from '@/lib/resolver';
+
+const NOW = new Date('2026-01-15T00:00:00Z');
+const INCEPTION = NOW.getTime() / 1000 - 86400;
+const EXPIRATION = NOW.getTime() / 1000 + 30 * 86400;
+
+interface ZoneKey {
+  zone: string;
+  privateKey: CryptoKey;
+  dnskey: ResourceRecord;
+  keyTag: number;
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+// Presentation format only, as the DoH JSON API returns records
+function record(name: string, type: MessageType, data: string): ResourceRecord {
+  return { name: normalizeName(name), type, typeCode: TYPE_CODES[type], class: 1, ttl: 300, data };
+}
+
+async function createKey(zone: string): Promise<ZoneKey> {
+  const pair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+  const raw = new Uint8Array(await crypto.subtle.exportKey('raw', pair.publicKey));
+  const dnskey = record(zone, 'DNSKEY', `257 3 13 ${bytesToBase64(raw.subarray(1))}`);
+  return { zone: normalizeName(zone), privateKey: pair.privateKey, dnskey, keyTag: computeKeyTag(encodeRdata('DNSKEY', dnskey.data)) };
+}
+
+async function dsFor(key: ZoneKey): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', concat(encodeName(key.zone), encodeRdata('DNSKEY', key.dnskey.data)) as BufferSource);
+  return `${key.keyTag} 13 2 ${bytesToHex(new Uint8Array(digest)).toUpperCase()}`;
+}
+
+async function sign(records: ResourceRecord[], key: ZoneKey): Promise<ResourceRecord> {
+  const [{ name, type, typeCode }] = records;
+  const labels = name.split('.').filter(Boolean).length;
+  const fields = `${type} 13 ${labels} 300 ${formatTimestamp(EXPIRATION)} ${formatTimestamp(INCEPTION)} ${key.keyTag} ${key.zone}`;
+  const rdatas = records.map((r) => encodeRdata(typeCode, r.data));
+  const signed = concat(
+    encodeRdata('RRSIG', fields),
+    ...rdatas.map((rdata) => concat(
+      encodeName(name),
+      Uint8Array.of(typeCode >> 8, typeCode & 0xff, 0, 1, 0, 0, 1, 44, rdata.length >> 8, rdata.length & 0xff),
+      rdata
+    ))
+  );
+  const signature = await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, key.privateKey, signed as BufferSource);
+  return record(name, 'RRSIG', `${fields} ${bytesToBase64(new Uint8Array(signature))}`);
+}
+
+async function signed(records: ResourceRecord[], key: ZoneKey): Promise<ResourceRecord[]> {
+  return [...records, await sign(records, key)];
+}
+
+function nsec(owner: string, next: string, types: MessageType[]): ResourceRecord {
+  return record(owner, 'NSEC', `${normalizeName(next)} ${types.join(' ')}`);
+}
+
+async function nsec3Owner(name: string, zone: string): Promise<string> {
+  const hash = new Uint8Array(await crypto.subtle.digest('SHA-1', encodeName(normalizeName(name)) as BufferSource));
+  return `${bytesToBase32Hex(hash)}.${zone}`;
+}
+
+// No salt and no extra iterations, as RFC 9276 recommends
+function nsec3(owner: string, nextHash: Uint8Array, optOut: boolean, types: MessageType[]): ResourceRecord {
+  return record(owner, 'NSEC3', `1 ${optOut ? 1 : 0} 0 - ${bytesToBase32Hex(nextHash).toUpperCase()} ${types.join(' ')}`);
+}
+
+// Passes answers through the wire codec, so records arrive with the RDATA a wire-format resolver would give
+function overTheWire(resolver: Resolver): Resolver {
+  return {
+    ...resolver,
+    async query(domain, recordType, options) {
+      const answer = await resolver.query(domain, recordType, options);
+      const message = decodeMessage(encodeMessage(answer.message!));
+      return { status: answer.status, records: message.answers.map(toDNSRecord), message };
+    },
+  };
+}
+
+async function buildFixture() {
+  const root = await createKey('.');
+  const test = await createKey('test.');
+  const example = await createKey('example.test.');
+  const alg = await createKey('alg.test.');
+  const soa = (zone: string) => record(zone, 'SOA', `ns1.${zone} hostmaster.${zone} 1 7200 3600 1209600 300`);
+  const cname = record('www.example.test.', 'CNAME', 'host.elsewhere.example.');
+  const unsupportedSignature = record(
+    'alg.test.',
+    'RRSIG',
+    `DNSKEY 16 2 300 ${formatTimestamp(EXPIRATION)} ${formatTimestamp(INCEPTION)} ${alg.keyTag} alg.test. ${bytesToBase64(new Uint8Array(114))}`
+  );
+
+  const answers: Record<string, MockAnswer> = {
+    '. DNSKEY': { answers: await signed([root.dnskey], root) },
+    'test. DS': { answers: await signed([record('test.', 'DS', await dsFor(test))], root) },
+    'test. DNSKEY': { answers: await signed([test.dnskey], test) },
+    'example.test. DS': { answers: await signed([record('example.test.', 'DS', await dsFor(example))], test) },
+    'example.test. DNSKEY': { answers: await signed([example.dnskey], example) },
+    'example.test. SOA': { answers: await signed([soa('example.test.')], example) },
+    'www.example.test. DS': {
+      authority: await signed([nsec('www.example.test.', 'zz.example.test.', ['CNAME', 'RRSIG', 'NSEC'])], example),
+    },
+    'www.example.test. SOA': { answers: await signed([cname], example) },
+    'www.example.test. A': { answers: await signed([cname], example) },
+    'www.example.test. CNAME': { answers: await signed([cname], example) },
+    'unsigned.test. DS': { authority: await signed([nsec('unsigned.test.', 'zz.test.', ['NS', 'RRSIG', 'NSEC'])], test) },
+    'unsigned.test. SOA': { answers: [soa('unsigned.test.')] },
+    'forged.test. DS': { authority: await signed([nsec('forged.test.', 'zz.test.', ['NS', 'RRSIG', 'NSEC'])], example) },
+    'ed448.test. DS': { answers: await signed([record('ed448.test.', 'DS', `12345 16 2 ${'AB'.repeat(32)}`)], test) },
+    'alg.test. DS': { answers: await signed([record('alg.test.', 'DS', await dsFor(alg))], test) },
+    'alg.test. DNSKEY': { answers: [alg.dnskey, unsupportedSignature] },
+  };
+
+  // NSEC3 closest encloser proofs for names under test.: the apex hash matches, and a
+  // record spanning the whole hash space covers the next closer name
+  const apex = await nsec3Owner('test.', 'test.');
+  const span = (optOut: boolean) => nsec3(`${'0'.repeat(32)}.test.`, new Uint8Array(20).fill(0xff), optOut, ['NS']);
+  const apexRecord = nsec3(apex, new Uint8Array(20).fill(0xff), false, ['NS', 'SOA', 'RRSIG', 'DNSKEY']);
+  answers['optout.test. DS'] = { authority: [...await signed([apexRecord], test), ...await signed([span(true)], test)] };
+  answers['missing.test. DS'] = { authority: [...await signed([apexRecord], test), ...await signed([span(false)], test)] };
+
+  return { resolver: createMockResolver('fixture', 'Fixture', answers), answers, trustAnchors: [await dsFor(root)], example };
+}
+
+describe('validateDNSSEC', async () => {
+  const fixture = await buildFixture();
+  const validate = (domain: string, resolver: Resolver = fixture.resolver) =>
+    validateDNSSEC(domain, resolver, { now: NOW, trustAnchors: fixture.trustAnchors });
+
+  it('follows the chain of trust from the root to a signed zone', async () => {
+    const result = await validate('example.test');
+    expect(result.status).toBe('secure');
+    expect(result.chain.map((link) => link.zone)).toEqual(['.', 'test.', 'example.test.']);
+    expect(result.algorithms).toEqual(['ECDSAP256SHA256']);
+    expect(result.problems).toEqual([]);
+  });
+
+  it('validates the signature on an alias CNAME rather than its target', async () => {
+    const result = await validate('www.example.test');
+    expect(result.status).toBe('secure');
+    expect(result.problems).toEqual([]);
+  });
+
+  it('reports a bad signature as bogus', async () => {
+    const tampered = fixture.answers['example.test. SOA'].answers!.map((r) =>
+      typeof r !== 'string' && r.type === 'SOA' ? { ...r, data: r.data.replace(' 1 7200', ' 2 7200') } : r
+    );
+    const resolver = createMockResolver('tampered', 'Tampered', { ...fixture.answers, 'example.test. SOA': { answers: tampered } });
+    const result = await validate('example.test', resolver);
+    expect(result.status).toBe('bogus');
+    expect(result.problems.map((p) => p.kind)).toEqual(['bogus-signature']);
+  });
+
+  it('treats a delegation as insecure only with a signed NSEC denial of DS', async () => {
+    const result = await validate('unsigned.test');
+    expect(result.status).toBe('insecure');
+    expect(result.chain.at(-1)).toMatchObject({ zone: 'unsigned.test.', status: 'insecure' });
+    expect(result.problems).toMatchObject([{ kind: 'unsigned', zone: 'unsigned.test.' }]);
+  });
+
+  it('rejects a denial of DS signed by the wrong zone', async () => {
+    const result = await validate('forged.test');
+    expect(result.status).toBe('bogus');
+    expect(result.problems.map((p) => p.kind)).toEqual(['bogus-signature']);
+  });
+
+  it('cannot decide a missing DS without a proof', async () => {
+    const result = await validate('proofless.test');
+    expect(result.status).toBe('indeterminate');
+    expect(result.chain.at(-1)?.message).toMatch(/no NSEC or NSEC3 proof/);
+  });
+
+  it('accepts an NSEC3 opt-out span as proof of an insecure delegation', async () => {
+    expect((await validate('optout.test')).status).toBe('insecure');
+    expect((await validate('optout.test')).chain.at(-1)?.zone).toBe('optout.test.');
+  });
+
+  it('continues past a name an NSEC3 proof shows is not a zone cut', async () => {
+    const result = await validate('missing.test');
+    expect(result.chain.map((link) => link.zone)).toEqual(['.', 'test.']);
+    expect(result.status).toBe('insecure');
+  });
+
+  it('treats zones with only unsupported algorithms as insecure, not bogus', async () => {
+    const ds = await validate('ed448.test');
+    expect(ds.status).toBe('insecure');
+    expect(ds.problems).toEqual([]);
+
+    const signatures = await validate('alg.test');
+    expect(signatures.status).toBe('insecure');
+    expect(signatures.chain.at(-1)?.message).toMatch(/unsupported algorithm ED448/);
+  });
+
+  it('reaches the same verdicts from wire-format answers', async () => {
+    const wire = overTheWire(fixture.resolver);
+    for (const domain of ['example.test', 'www.example.test', 'unsigned.test', 'forged.test', 'optout.test', 'missing.test', 'alg.test']) {
+      expect((await validate(domain, wire)).status, domain).toBe((await validate(domain)).status);
+    }
+  });
+});
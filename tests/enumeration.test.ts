@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import type { ResourceRecord } from '@/lib/dns-message';
+import { detectWildcard, enumerateSubdomains, generatePermutations, parseWordlist } from '@/lib/enumeration';
+import { createMockResolver, type MockZone, type Resolver } from '@/lib/resolver';
+
+function cname(name: string, target: string): ResourceRecord {
+  return { name, type: 'CNAME', typeCode: 5, class: 1, ttl: 300, data: target };
+}
+
+// Answers fixtures first and falls back to a catch-all for any other name in the zone
+function withWildcard(zone: MockZone, wildcard: MockZone[string]): Resolver {
+  const fixtures = createMockResolver('fixture', 'Fixture', zone);
+  const catchAll = createMockResolver('wildcard', 'Wildcard', { '*.example.com A': wildcard });
+  return {
+    id: 'fixture',
+    label: 'Fixture',
+    async query(domain, recordType, options) {
+      const answer = await fixtures.query(domain, recordType, options);
+      if (answer.records.length > 0 || recordType !== 'A') return answer;
+      return catchAll.query('*.example.com', recordType, options);
+    },
+  };
+}
+
+describe('parseWordlist', () => {
+  it('splits on whitespace and commas, drops comments and invalid labels', () => {
+    expect(parseWordlist('www, Mail\n# a comment line\napi # inline note\n-bad\nWWW\ndev.internal.\n_dmarc')).toEqual([
+      'www', 'mail', 'api', 'dev.internal', '_dmarc',
+    ]);
+  });
+});
+
+describe('generatePermutations', () => {
+  it('adds prefixes, suffixes and numbers without repeating existing words', () => {
+    expect(generatePermutations(['api', 'dev'], { prefixes: ['dev'], suffixes: ['staging'], numericSuffixes: 1 })).toEqual([
+      'dev-api', 'api-staging', 'api1', 'api-1', 'dev-staging', 'dev1', 'dev-1',
+    ]);
+  });
+});
+
+describe('enumerateSubdomains', () => {
+  const plain = createMockResolver('fixture', 'Fixture', {
+    'www.example.com A': ['192.0.2.1'],
+    'api-staging.example.com A': ['192.0.2.9'],
+  });
+
+  it('reports names that resolve and tags permutations', async () => {
+    const progress: number[] = [];
+    const result = await enumerateSubdomains('example.com.', ['www', 'api', 'mail'], {
+      resolver: plain,
+      concurrency: 1,
+      permutations: { suffixes: ['staging'] },
+      onProgress: (done) => progress.push(done),
+    });
+    expect(result.wildcard.detected).toBe(false);
+    expect(result.hosts).toEqual([
+      { host: 'www.example.com', addresses: ['192.0.2.1'], cname: undefined, source: 'wordlist' },
+      { host: 'api-staging.example.com', addresses: ['192.0.2.9'], cname: undefined, source: 'permutation' },
+    ]);
+    expect(result.tested).toBe(6);
+    expect(progress).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('discards names that answer exactly like the wildcard', async () => {
+    const resolver = withWildcard({
+      'www.example.com A': ['192.0.2.1'],
+      'shop.example.com A': ['203.0.113.5', '198.51.100.80'],
+    }, ['203.0.113.5']);
+
+    const result = await enumerateSubdomains('example.com', ['www', 'shop', 'api', 'mail'], { resolver, concurrency: 2 });
+    expect(result.wildcard).toEqual({ detected: true, addresses: ['203.0.113.5'], cnames: [] });
+    // shop shares the wildcard address but also answers with one of its own
+    expect(result.hosts.map((host) => host.host).sort()).toEqual(['shop.example.com', 'www.example.com']);
+  });
+
+  it('compares CNAME targets when the wildcard is a CNAME', async () => {
+    const resolver = withWildcard({
+      'blog.example.com A': { answers: [cname('blog.example.com.', 'example.ghost.io.'), '192.0.2.40'] },
+    }, { answers: [cname('*.example.com.', 'parked.example.net.'), '192.0.2.40'] });
+
+    expect(await detectWildcard('example.com', resolver)).toEqual({ detected: true, addresses: ['192.0.2.40'], cnames: ['parked.example.net'] });
+    const result = await enumerateSubdomains('example.com', ['blog', 'www'], { resolver });
+    expect(result.hosts).toEqual([{ host: 'blog.example.com', addresses: ['192.0.2.40'], cname: 'example.ghost.io', source: 'wordlist' }]);
+  });
+
+  it('stops when aborted', async () => {
+    const controller = new AbortController();
+    const result = await enumerateSubdomains('example.com', ['www', 'api', 'mail', 'dev'], {
+      resolver: plain,
+      concurrency: 1,
+      signal: controller.signal,
+      onHost: () => controller.abort(),
+    });
+    expect(result).toMatchObject({ tested: 1, aborted: true });
+  });
+});
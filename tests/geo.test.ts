@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import type { IPIntelligenceData } from '@/lib/dns';
+import { clusterPoints, intelPoint, type GeoPoint } from '@/lib/geo';
+
+const point = (id: string, lon: number, lat: number): GeoPoint => ({ id, lat, lon, label: id, details: [] });
+
+// Equirectangular projection at one pixel per degree, with nothing past the antimeridian
+const project = ({ lon, lat }: GeoPoint): [number, number] | null => (Math.abs(lon) > 180 ? null : [lon + 180, 90 - lat]);
+
+describe('clusterPoints', () => {
+  it('merges points within the radius and centres the cluster on their mean', () => {
+    const clusters = clusterPoints([point('a', 4, 52), point('b', 14, 52), point('c', -74, 40), point('d', 9, 52)], project);
+    expect(clusters).toEqual([
+      { x: 189, y: 38, points: [point('a', 4, 52), point('b', 14, 52), point('d', 9, 52)] },
+      { x: 106, y: 50, points: [point('c', -74, 40)] },
+    ]);
+  });
+
+  it('keeps points apart at a smaller radius and drops unprojectable ones', () => {
+    const clusters = clusterPoints([point('a', 4, 52), point('b', 14, 52), point('x', 200, 0)], project, 5);
+    expect(clusters.map((cluster) => cluster.points.map((p) => p.id))).toEqual([['a'], ['b']]);
+  });
+});
+
+describe('intelPoint', () => {
+  it('labels the point with the address and summarizes its location and network', () => {
+    const data: IPIntelligenceData = {
+      ip: '8.8.8.8', version: 4, country: 'United States', countryCode: 'US', region: '', city: 'Mountain View',
+      isp: 'Google LLC', org: '', asn: 'AS15169 Google LLC', lat: 37.4, lon: -122.1, timezone: 'America/Los_Angeles',
+      isMobile: false, isProxy: false, isHosting: true,
+    };
+    expect(intelPoint(data)).toEqual({
+      id: '8.8.8.8',
+      lat: 37.4,
+      lon: -122.1,
+      label: '8.8.8.8',
+      details: ['Mountain View, United States', 'Google LLC', 'AS15169 Google LLC'],
+    });
+  });
+});
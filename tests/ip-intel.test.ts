@@ -0,0 +1,148 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createFixtureIPProvider,
+  createIpApiProvider,
+  createIpInfoProvider,
+  lookupIPIntelligence,
+  mapIpInfoResponse,
+  mapMMDBRecords,
+  readRateLimit,
+} from '@/lib/ip-intel';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const primary = createFixtureIPProvider('primary', 'Primary', {
+  '192.0.2.1': { country: 'Netherlands', countryCode: 'NL', city: '', asn: 'AS64496 Example', lat: 52.37, lon: undefined },
+});
+const secondary = createFixtureIPProvider('secondary', 'Secondary', {
+  '192.0.2.1': { country: 'Germany', countryCode: 'DE', city: 'Amsterdam', lat: 52.38, lon: 4.9, isHosting: true },
+});
+
+describe('lookupIPIntelligence', () => {
+  it('takes each field group from the first provider that supplied all of it', async () => {
+    const result = await lookupIPIntelligence('192.0.2.1', [primary, secondary]);
+    expect(result.data).toMatchObject({
+      ip: '192.0.2.1',
+      version: 4,
+      country: 'Netherlands',
+      countryCode: 'NL',
+      city: 'Amsterdam',
+      asn: 'AS64496 Example',
+      // lat and lon travel together, so a provider without lon cannot supply lat
+      lat: 52.38,
+      lon: 4.9,
+      isHosting: true,
+      isProxy: false,
+    });
+    expect(result.sources).toEqual({
+      country: 'primary',
+      countryCode: 'primary',
+      asn: 'primary',
+      city: 'secondary',
+      lat: 'secondary',
+      lon: 'secondary',
+      isHosting: 'secondary',
+    });
+    expect(result.errors).toEqual([]);
+  });
+
+  it('keeps the answer of the providers that succeeded and reports the rest', async () => {
+    const result = await lookupIPIntelligence('198.51.100.1', [primary, createFixtureIPProvider('other', 'Other', { '198.51.100.1': { city: 'Berlin' } })]);
+    expect(result.data?.city).toBe('Berlin');
+    expect(result.errors).toEqual([{ provider: 'primary', message: 'No fixture for 198.51.100.1', status: 404, rateLimit: undefined }]);
+  });
+
+  it('returns null data when no provider answered', async () => {
+    const result = await lookupIPIntelligence('2001:db8::1', [primary]);
+    expect(result).toMatchObject({ ip: '2001:db8::1', data: null, providers: ['primary'] });
+  });
+});
+
+describe('readRateLimit', () => {
+  it('reads ip-api and X-RateLimit headers', () => {
+    expect(readRateLimit(new Headers({ 'X-Rl': '0', 'X-Ttl': '42' }))).toEqual({ limit: undefined, remaining: 0, resetIn: 42 });
+    expect(readRateLimit(new Headers({ 'X-RateLimit-Limit': '1000', 'Retry-After': '60' }))).toEqual({ limit: 1000, remaining: undefined, resetIn: 60 });
+    expect(readRateLimit(new Headers())).toBeUndefined();
+  });
+});
+
+describe('createIpApiProvider', () => {
+  it('maps ip-api fields', async () => {
+    const fetchMock = vi.fn(async () => Response.json({
+      status: 'success', country: 'Netherlands', countryCode: 'NL', regionName: 'North Holland', city: 'Amsterdam',
+      isp: 'Example ISP', org: 'Example Org', as: 'AS64496 Example', lat: 52.37, lon: 4.89, timezone: 'Europe/Amsterdam',
+      mobile: false, proxy: false, hosting: true,
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const fields = await createIpApiProvider('ip-api', 'ip-api').lookup('192.0.2.1');
+    expect(fields).toMatchObject({ region: 'North Holland', asn: 'AS64496 Example', isHosting: true });
+    expect(fetchMock).toHaveBeenCalledWith(expect.stringMatching(/^\/api\/ip-api\?ip=192\.0\.2\.1&fields=/), expect.anything());
+  });
+
+  it('turns a 429 into a structured rate-limit error', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 429, headers: { 'X-Rl': '0', 'X-Ttl': '30' } })));
+    await expect(createIpApiProvider('ip-api', 'ip-api').lookup('192.0.2.1')).rejects.toMatchObject({
+      provider: 'ip-api',
+      message: 'Rate limit exceeded',
+      status: 429,
+      rateLimit: { remaining: 0, resetIn: 30 },
+    });
+  });
+
+  it('reports ip-api failures from the response body', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ status: 'fail', message: 'reserved range' })));
+    await expect(createIpApiProvider('ip-api', 'ip-api').lookup('10.0.0.1')).rejects.toThrow('reserved range');
+  });
+});
+
+describe('mapIpInfoResponse', () => {
+  it('splits the free-plan org string into ASN and ISP', () => {
+    expect(mapIpInfoResponse({ ip: '192.0.2.1', country: 'NL', loc: '52.3740,4.8897', org: 'AS64496 Example BV' })).toMatchObject({
+      country: 'Netherlands',
+      countryCode: 'NL',
+      isp: 'Example BV',
+      org: 'Example BV',
+      asn: 'AS64496 Example BV',
+      lat: 52.374,
+      lon: 4.8897,
+      isProxy: undefined,
+      isHosting: undefined,
+    });
+  });
+
+  it('reads privacy flags from paid plans', () => {
+    const fields = mapIpInfoResponse({
+      ip: '192.0.2.1',
+      asn: { asn: 'AS64496', name: 'Example Cloud', type: 'hosting' },
+      privacy: { vpn: false, proxy: false, tor: true, hosting: false },
+    });
+    expect(fields).toMatchObject({ asn: 'AS64496 Example Cloud', isProxy: true, isHosting: false });
+  });
+
+  it('rejects bogon addresses', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ ip: '10.0.0.1', bogon: true })));
+    await expect(createIpInfoProvider('ipinfo', 'ipinfo').lookup('10.0.0.1')).rejects.toThrow('10.0.0.1 is a bogon address');
+  });
+});
+
+describe('mapMMDBRecords', () => {
+  it('combines City and ASN records', () => {
+    const fields = mapMMDBRecords(
+      {
+        city: { names: { en: 'Amsterdam' } },
+        country: { iso_code: 'NL', names: { en: 'Netherlands' } },
+        location: { latitude: 52.37, longitude: 4.89, time_zone: 'Europe/Amsterdam' },
+        traits: { is_anonymous_vpn: true },
+      },
+      { autonomous_system_number: 64496, autonomous_system_organization: 'Example' }
+    );
+    expect(fields).toMatchObject({ city: 'Amsterdam', countryCode: 'NL', asn: 'AS64496 Example', isp: 'Example', isProxy: true, isHosting: false });
+  });
+
+  it('leaves flags unset without a City record', () => {
+    expect(mapMMDBRecords(null, { autonomous_system_number: 64496 })).toMatchObject({ asn: 'AS64496', isProxy: undefined, isMobile: undefined });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import {
+  cidrContains,
+  cidrRange,
+  cidrSize,
+  classifyIP,
+  formatCIDR,
+  formatIP,
+  iterateCIDR,
+  nonPublicReason,
+  normalizeIP,
+  parseCIDR,
+  parseIP,
+} from '@/lib/ip';
+
+const ip = (text: string) => parseIP(text)!;
+
+describe('parseIP', () => {
+  it('parses IPv4 and IPv6 text forms', () => {
+    expect(Array.from(ip('192.0.2.1'))).toEqual([192, 0, 2, 1]);
+    expect(ip('2001:db8::1')).toHaveLength(16);
+    expect(formatIP(ip('::ffff:192.0.2.1'))).toBe('::ffff:192.0.2.1');
+    expect(formatIP(ip('::'))).toBe('::');
+  });
+
+  it('rejects malformed addresses', () => {
+    for (const text of ['256.0.0.1', '1.2.3', '1.2.3.4.5', '1:2:3:4:5:6:7:8:9', '1::2::3', '1:2:3:4:5:6:7:8::', 'g::1', 'example.com']) {
+      expect(parseIP(text), text).toBeNull();
+    }
+  });
+
+  it('rejects IPv4 octets with leading zeros', () => {
+    expect(parseIP('010.0.0.1')).toBeNull();
+    expect(parseIP('127.0.0.01')).toBeNull();
+    expect(parseIP('::ffff:010.0.0.1')).toBeNull();
+    expect(parseIP('10.0.0.0')).not.toBeNull();
+  });
+});
+
+describe('formatIP', () => {
+  it('produces RFC 5952 canonical text', () => {
+    expect(normalizeIP('2001:0DB8:0000:0000:0000:0000:0000:0001')).toBe('2001:db8::1');
+    expect(normalizeIP('2001:db8:0:1:0:0:0:1')).toBe('2001:db8:0:1::1');
+    // A single zero group is not compressed
+    expect(normalizeIP('2001:db8:0:1:1:1:1:1')).toBe('2001:db8:0:1:1:1:1:1');
+    // The first of two equally long runs is compressed
+    expect(normalizeIP('2001:0:0:1:0:0:1:1')).toBe('2001::1:0:0:1:1');
+  });
+});
+
+describe('CIDR helpers', () => {
+  it('clears host bits and reports ranges', () => {
+    const cidr = parseCIDR('192.0.2.77/26')!;
+    expect(formatCIDR(cidr)).toBe('192.0.2.64/26');
+    expect(formatIP(cidrRange(cidr).last)).toBe('192.0.2.127');
+    expect(cidrSize(cidr)).toBe(64);
+    expect(formatCIDR(parseCIDR('2001:db8::1')!)).toBe('2001:db8::1/128');
+  });
+
+  it('rejects invalid prefixes', () => {
+    expect(parseCIDR('192.0.2.0/33')).toBeNull();
+    expect(parseCIDR('192.0.2.0/')).toBeNull();
+    expect(parseCIDR('192.0.2.0/24/1')).toBeNull();
+  });
+
+  it('tests membership without mixing address families', () => {
+    expect(cidrContains('10.0.0.0/8', '10.255.0.1')).toBe(true);
+    expect(cidrContains('10.0.0.0/8', '11.0.0.1')).toBe(false);
+    expect(cidrContains('::/0', '10.0.0.1')).toBe(false);
+  });
+
+  it('iterates addresses up to a limit', () => {
+    const addresses = [...iterateCIDR(parseCIDR('192.0.2.0/30')!)].map(formatIP);
+    expect(addresses).toEqual(['192.0.2.0', '192.0.2.1', '192.0.2.2', '192.0.2.3']);
+    expect([...iterateCIDR(parseCIDR('10.0.0.0/8')!, 2)]).toHaveLength(2);
+  });
+});
+
+describe('classifyIP', () => {
+  it('finds the most specific special-purpose block', () => {
+    expect(classifyIP(ip('10.1.2.3'))).toMatchObject({ cidr: '10.0.0.0/8', category: 'private' });
+    expect(classifyIP(ip('100.64.0.1'))).toMatchObject({ category: 'cgnat' });
+    expect(classifyIP(ip('::1'))).toMatchObject({ category: 'loopback' });
+    expect(classifyIP(ip('2001:db8::1'))).toMatchObject({ category: 'documentation' });
+    expect(classifyIP(ip('fd00::1'))).toMatchObject({ category: 'private' });
+  });
+
+  it('returns null for global unicast addresses', () => {
+    expect(classifyIP(ip('8.8.8.8'))).toBeNull();
+    expect(classifyIP(ip('2606:4700::1111'))).toBeNull();
+  });
+
+  it('treats IPv6 outside 2000::/3 as unallocated', () => {
+    expect(classifyIP(ip('4000::1'))).toMatchObject({ category: 'bogon', cidr: '4000::/3' });
+  });
+
+  it('classifies IPv4-mapped addresses by their IPv4 part', () => {
+    expect(classifyIP(ip('::ffff:127.0.0.1'))).toMatchObject({ category: 'loopback', mapped: true });
+    expect(nonPublicReason(ip('::ffff:127.0.0.1'))).toBe('127.0.0.1 is in 127.0.0.0/8 (Loopback, RFC 1122)');
+    expect(nonPublicReason(ip('::ffff:8.8.8.8'))).toBeNull();
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { parseCIDR, parseIP } from '@/lib/ip';
+import { openMMDB, type MMDBMetadata } from '@/lib/mmdb';
+
+// A minimal MaxMind DB writer: enough of the format to build fixture databases
+
+type Value = string | number | boolean | Value[] | { [key: string]: Value } | { pointer: number };
+
+const MARKER = [0xab, 0xcd, 0xef, ...Array.from('MaxMind.com', (c) => c.charCodeAt(0))];
+
+function uintBytes(value: number): number[] {
+  const bytes: number[] = [];
+  for (let rest = value; rest > 0; rest = Math.floor(rest / 256)) bytes.unshift(rest % 256);
+  return bytes;
+}
+
+function field(type: number, size: number, payload: number[] = []): number[] {
+  const control = type <= 7 ? [(type << 5) | size] : [size, type - 7];
+  return [...control, ...payload];
+}
+
+function encodeValue(value: Value, uintType = 6): number[] {
+  if (typeof value === 'string') {
+    const bytes = Array.from(new TextEncoder().encode(value));
+    return field(2, bytes.length, bytes);
+  }
+  if (typeof value === 'number') {
+    if (!Number.isInteger(value)) {
+      const bytes = new Uint8Array(8);
+      new DataView(bytes.buffer).setFloat64(0, value);
+      return field(3, 8, Array.from(bytes));
+    }
+    const bytes = uintBytes(value);
+    return field(uintType, bytes.length, bytes);
+  }
+  if (typeof value === 'boolean') return field(14, value ? 1 : 0);
+  if (Array.isArray(value)) return [...field(11, value.length), ...value.flatMap((item) => encodeValue(item))];
+  if ('pointer' in value && typeof value.pointer === 'number') {
+    return [(1 << 5) | ((value.pointer >> 8) & 0x7), value.pointer & 0xff];
+  }
+  const entries = Object.entries(value as Record<string, Value>);
+  return [...field(7, entries.length), ...entries.flatMap(([key, item]) => [...encodeValue(key), ...encodeValue(item)])];
+}
+
+type Child = { node: number } | { data: number } | null;
+
+interface FixtureOptions {
+  ipVersion: 4 | 6;
+  recordSize: 24 | 28 | 32;
+  networks: Array<[string, Value]>;
+}
+
+function buildMMDB({ ipVersion, recordSize, networks }: FixtureOptions): Uint8Array {
+  const data: number[] = [];
+  const tree: Child[][] = [[null, null]];
+
+  for (const [cidr, value] of networks) {
+    const parsed = parseCIDR(cidr)!;
+    const mapped = parsed.network.length === 4 && ipVersion === 6;
+    const bytes = mapped ? Uint8Array.from([...new Array(12).fill(0), ...parsed.network]) : parsed.network;
+    const prefix = parsed.prefix + (mapped ? 96 : 0);
+
+    const offset = data.length;
+    data.push(...encodeValue(value));
+
+    let node = 0;
+    for (let depth = 0; depth < prefix; depth++) {
+      const bit = (bytes[depth >> 3] >> (7 - (depth % 8))) & 1;
+      if (depth === prefix - 1) {
+        tree[node][bit] = { data: offset };
+        break;
+      }
+      const child = tree[node][bit];
+      if (child && 'node' in child) {
+        node = child.node;
+      } else {
+        tree.push([null, null]);
+        tree[node][bit] = { node: tree.length - 1 };
+        node = tree.length - 1;
+      }
+    }
+  }
+
+  const nodeCount = tree.length;
+  const resolve = (child: Child) => (!child ? nodeCount : 'node' in child ? child.node : nodeCount + 16 + child.data);
+  const treeBytes = tree.flatMap(([left, right]) => {
+    const [l, r] = [resolve(left), resolve(right)];
+    const be = (value: number, length: number) => Array.from({ length }, (_, i) => Math.floor(value / 256 ** (length - 1 - i)) % 256);
+    if (recordSize === 28) {
+      return [...be(l % 2 ** 24, 3), (Math.floor(l / 2 ** 24) << 4) | Math.floor(r / 2 ** 24), ...be(r % 2 ** 24, 3)];
+    }
+    return [...be(l, recordSize / 8), ...be(r, recordSize / 8)];
+  });
+
+  const metadata = [
+    ...field(7, 7),
+    ...encodeValue('node_count'), ...encodeValue(nodeCount),
+    ...encodeValue('record_size'), ...encodeValue(recordSize, 5),
+    ...encodeValue('ip_version'), ...encodeValue(ipVersion, 5),
+    ...encodeValue('database_type'), ...encodeValue('Test-City'),
+    ...encodeValue('binary_format_major_version'), ...encodeValue(2, 5),
+    ...encodeValue('binary_format_minor_version'), ...encodeValue(0, 5),
+    ...encodeValue('build_epoch'), ...encodeValue(1767225600, 9),
+  ];
+
+  return Uint8Array.from([...treeBytes, ...new Array(16).fill(0), ...data, ...MARKER, ...metadata]);
+}
+
+const CITY = {
+  city: { names: { en: 'Amsterdam' } },
+  location: { latitude: 52.3759, longitude: 4.8975, accuracy_radius: 20 },
+  subdivisions: [{ iso_code: 'NH' }],
+  is_anycast: false,
+};
+
+const networks: Array<[string, Value]> = [
+  ['192.0.2.0/24', CITY],
+  ['198.51.100.0/25', { city: { pointer: 0 }, autonomous_system_number: 64496 }],
+  ['2001:db8::/32', { country: { iso_code: 'NL' } }],
+];
+
+describe('openMMDB', () => {
+  for (const recordSize of [24, 28, 32] as const) {
+    it(`reads ${recordSize}-bit search trees`, () => {
+      const reader = openMMDB(buildMMDB({ ipVersion: 6, recordSize, networks }));
+      expect(reader.metadata).toMatchObject<Partial<MMDBMetadata>>({
+        record_size: recordSize,
+        ip_version: 6,
+        database_type: 'Test-City',
+        build_epoch: 1767225600,
+      });
+
+      expect(reader.lookup(parseIP('192.0.2.77')!)).toEqual({ record: CITY, prefixLength: 24 });
+      expect(reader.lookup(parseIP('2001:db8::1')!)).toEqual({ record: { country: { iso_code: 'NL' } }, prefixLength: 32 });
+    });
+  }
+
+  it('reports the depth of a miss', () => {
+    const reader = openMMDB(buildMMDB({ ipVersion: 6, recordSize: 24, networks }));
+    // 192.0.3.0/24 is the empty sibling of 192.0.2.0/24
+    expect(reader.lookup(parseIP('192.0.3.1')!)).toEqual({ record: null, prefixLength: 24 });
+  });
+
+  it('follows pointers in the data section', () => {
+    const reader = openMMDB(buildMMDB({ ipVersion: 6, recordSize: 24, networks }));
+    expect(reader.lookup(parseIP('198.51.100.1')!).record).toEqual({ city: CITY, autonomous_system_number: 64496 });
+  });
+
+  it('refuses IPv6 lookups in an IPv4 database', () => {
+    const reader = openMMDB(buildMMDB({ ipVersion: 4, recordSize: 24, networks: networks.slice(0, 1) }));
+    expect(reader.lookup(parseIP('192.0.2.1')!).record).toEqual(CITY);
+    expect(() => reader.lookup(parseIP('2001:db8::1')!)).toThrow('IPv6 lookup in an IPv4-only database');
+  });
+
+  it('rejects files without metadata', () => {
+    expect(() => openMMDB(new Uint8Array(64))).toThrow('Not a MaxMind DB file: metadata marker not found');
+  });
+});
@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GET } from '@/app/api/ports/route';
+import { describePort, parsePortList, scanPorts, type PortScanEvent } from '@/lib/ports';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('parsePortList', () => {
+  it('accepts comma or space separated ports and removes duplicates', () => {
+    expect(parsePortList('22, 80 443,80')).toEqual([22, 80, 443]);
+  });
+
+  it('rejects empty, out-of-range and oversized lists', () => {
+    expect(parsePortList(' , ')).toBeNull();
+    expect(parsePortList('0')).toBeNull();
+    expect(parsePortList('65536')).toBeNull();
+    expect(parsePortList('80,http')).toBeNull();
+    expect(parsePortList(Array.from({ length: 33 }, (_, i) => i + 1).join(','))).toBeNull();
+  });
+});
+
+describe('describePort', () => {
+  it('reuses profile definitions so custom lists still grab banners', () => {
+    expect(describePort(22)).toEqual({ port: 22, service: 'ssh', banner: 'greeting' });
+    expect(describePort(4444)).toEqual({ port: 4444, service: 'unknown' });
+  });
+});
+
+describe('GET /api/ports', () => {
+  const scan = (params: Record<string, string>) => GET(new Request(`http://localhost/api/ports?${new URLSearchParams(params)}`));
+
+  it('validates the address, profile and port list', async () => {
+    expect((await scan({ ip: 'example.com', profile: 'web' })).status).toBe(400);
+    expect((await scan({ ip: '8.8.8.8', profile: 'everything' })).status).toBe(400);
+    const response = await scan({ ip: '8.8.8.8', ports: '1-1024' });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'ports must list 1 to 32 port numbers' });
+  });
+
+  it('refuses private, loopback and IPv4-mapped special addresses', async () => {
+    for (const ip of ['10.0.0.1', '127.0.0.1', '::ffff:127.0.0.1', '169.254.169.254', 'fe80::1']) {
+      const response = await scan({ ip, profile: 'web' });
+      expect(response.status, ip).toBe(403);
+      expect((await response.json()).error).toMatch(/^Scanning .* is not allowed$/);
+    }
+  });
+});
+
+describe('scanPorts', () => {
+  it('parses NDJSON events split across chunks', async () => {
+    const lines = [
+      { type: 'start', ip: '198.51.100.7', ports: [22, 80] },
+      { type: 'port', result: { port: 22, service: 'ssh', state: 'open', banner: 'SSH-2.0-OpenSSH_9.6', responseTime: 12 } },
+      { type: 'port', result: { port: 80, service: 'http', state: 'closed', responseTime: 3 } },
+      { type: 'done', open: 1, elapsed: 20 },
+    ].map((event) => `${JSON.stringify(event)}\n`).join('');
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const bytes = new TextEncoder().encode(lines);
+        for (let i = 0; i < bytes.length; i += 50) controller.enqueue(bytes.subarray(i, i + 50));
+        controller.close();
+      },
+    });
+    const fetchMock = vi.fn(async () => new Response(body, { headers: { 'Content-Type': 'application/x-ndjson' } }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const events: PortScanEvent[] = [];
+    const results = await scanPorts('198.51.100.7', { ports: [22, 80] }, (event) => events.push(event));
+    expect(fetchMock).toHaveBeenCalledWith('/api/ports?ip=198.51.100.7&ports=22%2C80', expect.anything());
+    expect(events.map((event) => event.type)).toEqual(['start', 'port', 'port', 'done']);
+    expect(results.map((result) => [result.port, result.state])).toEqual([[22, 'open'], [80, 'closed']]);
+  });
+
+  it('surfaces refusals and stream errors', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ error: 'Address is not in PORT_SCAN_ALLOWLIST' }, { status: 403 })));
+    await expect(scanPorts('198.51.100.7', { profile: 'web' }, () => {})).rejects.toThrow('Address is not in PORT_SCAN_ALLOWLIST');
+
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{"type":"error","error":"scan aborted"}\n')));
+    await expect(scanPorts('198.51.100.7', { profile: 'web' }, () => {})).rejects.toThrow('scan aborted');
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { ResourceRecord } from '@/lib/dns-message';
+import { answerKey, checkPropagation, remainingTtl, watchPropagation } from '@/lib/propagation';
+import { createMockResolver, type Resolver } from '@/lib/resolver';
+
+function a(address: string, ttl: number): ResourceRecord {
+  return { name: 'www.example.com.', type: 'A', typeCode: 1, class: 1, ttl, data: address };
+}
+
+function cache(id: string, records: ResourceRecord[]): Resolver {
+  return createMockResolver(id, id, { 'www.example.com A': { answers: records } });
+}
+
+const fresh = cache('fresh', [a('192.0.2.2', 3600), a('192.0.2.1', 3600)]);
+const older = cache('older', [a('192.0.2.1', 1200), a('192.0.2.2', 1200)]);
+const stale = cache('stale', [a('198.51.100.7', 540)]);
+const gone = createMockResolver('gone', 'gone', { 'www.example.com A': { status: 3 } });
+
+describe('answerKey', () => {
+  it('distinguishes NXDOMAIN from NODATA', () => {
+    expect(answerKey({ status: 'nxdomain', values: [] })).toBe('NXDOMAIN');
+    expect(answerKey({ status: 'ok', values: [] })).toBe('NODATA');
+    expect(answerKey({ status: 'ok', values: ['192.0.2.1', '192.0.2.2'] })).toBe('192.0.2.1, 192.0.2.2');
+  });
+});
+
+describe('checkPropagation', () => {
+  it('compares sorted answer sets and takes the majority as consensus', async () => {
+    const snapshot = await checkPropagation('www.example.com', 'A', [fresh, older, stale, gone]);
+    expect(snapshot.consensus).toBe('192.0.2.1, 192.0.2.2');
+    expect(snapshot.converged).toBe(false);
+    expect(snapshot.disagreeing).toEqual(['stale', 'gone']);
+  });
+
+  it('compares remaining TTLs across resolvers', async () => {
+    const snapshot = await checkPropagation('www.example.com', 'A', [fresh, older, stale, gone]);
+    expect(snapshot.answers.map(remainingTtl)).toEqual([3600, 1200, 540, undefined]);
+    expect(snapshot.ttl).toBe(3600);
+    // The stale copy must be refetched once its TTL runs out
+    expect(snapshot.settlesIn).toBe(540);
+  });
+
+  it('measures agreement against an expected answer', async () => {
+    const snapshot = await checkPropagation('www.example.com', 'A', [fresh, stale], ['198.51.100.7']);
+    expect(snapshot.consensus).toBe('198.51.100.7');
+    expect(snapshot.disagreeing).toEqual(['fresh']);
+    expect(snapshot).toMatchObject({ ttl: 540, settlesIn: 3600 });
+  });
+
+  it('leaves settlesIn unset once every resolver agrees', async () => {
+    const snapshot = await checkPropagation('www.example.com', 'A', [fresh, older]);
+    expect(snapshot.converged).toBe(true);
+    expect(snapshot.settlesIn).toBeUndefined();
+  });
+});
+
+describe('watchPropagation', () => {
+  it('records when each resolver picks up a change and stops at convergence', async () => {
+    let round = 0;
+    const flipping: Resolver = {
+      id: 'flipping',
+      label: 'flipping',
+      query: (domain, type, options) => (round++ < 2 ? stale : fresh).query(domain, type, options),
+    };
+
+    const watch = await watchPropagation('www.example.com', 'A', [fresh, flipping], {
+      intervalMs: 0,
+      expected: ['192.0.2.1', '192.0.2.2'],
+    });
+    expect(watch.converged).toBe(true);
+    expect(watch.snapshots).toHaveLength(3);
+    expect(watch.timeline.fresh.map((change) => change.key)).toEqual(['192.0.2.1, 192.0.2.2']);
+    expect(watch.timeline.flipping.map((change) => change.key)).toEqual(['198.51.100.7', '192.0.2.1, 192.0.2.2']);
+  });
+});
@@ -0,0 +1,188 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  findRDAPServer,
+  getRDAPBootstrap,
+  lookupRDAPASN,
+  lookupRDAPDomain,
+  parseRDAPAutnum,
+  parseRDAPDomain,
+  parseRDAPNetwork,
+  refreshRDAPBootstrap,
+  type RDAPEntity,
+} from '@/lib/rdap';
+import { BUNDLED_RDAP_BOOTSTRAP } from '@/lib/rdap-bootstrap';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const vcard = (...properties: Array<[string, string | string[]]>): RDAPEntity['vcardArray'] => [
+  'vcard',
+  [['version', {}, 'text', '4.0'], ...properties.map(([name, value]) => [name, {}, 'text', value] as [string, Record<string, unknown>, string, unknown])],
+];
+
+const abuse: RDAPEntity = {
+  handle: 'ABUSE-1',
+  roles: ['abuse'],
+  vcardArray: vcard(['fn', 'Abuse Desk'], ['email', 'abuse@registrar.example'], ['tel', 'tel:+1.5555550100']),
+};
+
+describe('findRDAPServer', () => {
+  it('matches the longest registered domain suffix', () => {
+    expect(findRDAPServer('dns', 'www.Example.COM.')).toBe('https://rdap.verisign.com/com/v1/');
+    expect(findRDAPServer('dns', 'example.nl')).toBe('https://rdap.sidn.nl/');
+    expect(findRDAPServer('dns', 'example.test')).toBeNull();
+  });
+
+  it('finds AS numbers inside registry ranges', () => {
+    expect(findRDAPServer('asn', '15169')).toBe('https://rdap.arin.net/registry/');
+    expect(findRDAPServer('asn', '3333')).toBe('https://rdap.db.ripe.net/');
+    expect(findRDAPServer('asn', '64496')).toBeNull();
+  });
+
+  it('finds the registry for IPv4 and IPv6 addresses', () => {
+    expect(findRDAPServer('ipv4', '8.8.8.8')).toBe('https://rdap.arin.net/registry/');
+    expect(findRDAPServer('ipv4', '193.0.6.139')).toBe('https://rdap.db.ripe.net/');
+    expect(findRDAPServer('ipv4', '10.0.0.1')).toBeNull();
+    expect(findRDAPServer('ipv6', '2a00:1450::1')).toBe('https://rdap.db.ripe.net/');
+    expect(findRDAPServer('ipv6', 'not-an-ip')).toBeNull();
+  });
+
+  it('prefers the longest prefix and https servers from a refreshed bootstrap', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({
+      publication: '2026-10-01T00:00:00Z',
+      services: [
+        [['2001::/16'], ['https://rdap.wide.example/']],
+        [['2001:db8::/32'], ['http://rdap.narrow.example', 'https://rdap.narrow.example']],
+      ],
+    })));
+    try {
+      expect(await refreshRDAPBootstrap(['ipv6'])).toEqual({ ipv6: '2026-10-01T00:00:00Z' });
+      expect(findRDAPServer('ipv6', '2001:db8::1')).toBe('https://rdap.narrow.example/');
+      expect(findRDAPServer('ipv6', '2001:db9::1')).toBe('https://rdap.wide.example/');
+    } finally {
+      vi.stubGlobal('fetch', vi.fn(async () => Response.json(BUNDLED_RDAP_BOOTSTRAP.ipv6)));
+      await refreshRDAPBootstrap(['ipv6']);
+    }
+    expect(getRDAPBootstrap('ipv6')).toEqual(BUNDLED_RDAP_BOOTSTRAP.ipv6);
+  });
+});
+
+describe('parseRDAPDomain', () => {
+  it('reads the registrar, nested abuse contact, events and DNSSEC state', () => {
+    const domain = parseRDAPDomain({
+      handle: '2336799_DOMAIN_COM-VRSN',
+      ldhName: 'EXAMPLE.COM',
+      status: ['client transfer prohibited'],
+      nameservers: [{ ldhName: 'A.IANA-SERVERS.NET.' }, { ldhName: 'b.iana-servers.net' }],
+      secureDNS: { delegationSigned: true },
+      events: [
+        { eventAction: 'registration', eventDate: '1995-08-14T04:00:00Z' },
+        { eventAction: 'expiration', eventDate: '2027-08-13T04:00:00Z' },
+        { eventAction: 'last changed', eventDate: '2026-08-14T07:01:38Z' },
+      ],
+      entities: [
+        {
+          handle: '376',
+          roles: ['registrar'],
+          vcardArray: vcard(['fn', 'Example Registrar, Inc.']),
+          publicIds: [{ type: 'IANA Registrar ID', identifier: '376' }],
+          entities: [abuse],
+        },
+        { roles: ['registrant'], vcardArray: vcard(['org', 'Example Org'], ['email', 'hostmaster@example.com']) },
+      ],
+    });
+
+    expect(domain).toEqual({
+      handle: '2336799_DOMAIN_COM-VRSN',
+      name: 'example.com',
+      status: ['client transfer prohibited'],
+      nameservers: ['a.iana-servers.net', 'b.iana-servers.net'],
+      registrar: { name: 'Example Registrar, Inc.', ianaId: '376' },
+      events: { registration: '1995-08-14T04:00:00Z', expiration: '2027-08-13T04:00:00Z', lastChanged: '2026-08-14T07:01:38Z' },
+      registrant: { handle: undefined, roles: ['registrant'], name: undefined, organization: 'Example Org', emails: ['hostmaster@example.com'], phones: [] },
+      abuse: [{ handle: 'ABUSE-1', roles: ['abuse'], name: 'Abuse Desk', organization: undefined, emails: ['abuse@registrar.example'], phones: ['+1.5555550100'] }],
+      dnssec: true,
+    });
+  });
+
+  it('tolerates a sparse response', () => {
+    expect(parseRDAPDomain({ ldhName: 'example.org' })).toEqual({
+      handle: undefined,
+      name: 'example.org',
+      status: [],
+      nameservers: [],
+      registrar: undefined,
+      events: { registration: undefined, expiration: undefined, lastChanged: undefined },
+      registrant: undefined,
+      abuse: [],
+      dnssec: undefined,
+    });
+  });
+});
+
+describe('parseRDAPNetwork', () => {
+  it('formats cidr0 prefixes and finds the abuse contact', () => {
+    const network = parseRDAPNetwork({
+      handle: 'NET-192-0-2-0-1',
+      name: 'TEST-NET-1',
+      type: 'ASSIGNED',
+      startAddress: '192.0.2.0',
+      endAddress: '192.0.2.255',
+      cidr0_cidrs: [{ v4prefix: '192.0.2.0', length: 24 }],
+      parentHandle: 'NET-192-0-0-0-0',
+      entities: [{ handle: 'ORG-1', roles: ['registrant'], vcardArray: vcard(['fn', 'Example Org']), entities: [abuse] }],
+    });
+    expect(network).toMatchObject({ cidrs: ['192.0.2.0/24'], parentHandle: 'NET-192-0-0-0-0', registrant: { name: 'Example Org' } });
+    expect(network.abuse.map((contact) => contact.emails)).toEqual([['abuse@registrar.example']]);
+    expect(parseRDAPNetwork({ cidr0_cidrs: [{ v6prefix: '2001:db8::', length: 32 }] }).cidrs).toEqual(['2001:db8::/32']);
+  });
+});
+
+describe('parseRDAPAutnum', () => {
+  it('treats a single AS number as its own range', () => {
+    expect(parseRDAPAutnum({ handle: 'AS64496', name: 'EXAMPLE', startAutnum: 64496 })).toMatchObject({ startAutnum: 64496, endAutnum: 64496 });
+    expect(parseRDAPAutnum({ startAutnum: 64496, endAutnum: 64511 })).toMatchObject({ startAutnum: 64496, endAutnum: 64511 });
+  });
+});
+
+describe('lookupRDAPDomain', () => {
+  it('follows the registrar link when the registry has no abuse contact', async () => {
+    const fetchMock = vi.fn(async (url: string) => url.startsWith('https://rdap.verisign.com/')
+      ? Response.json({
+        ldhName: 'EXAMPLE.COM',
+        entities: [{ roles: ['registrar'], vcardArray: vcard(['fn', 'Example Registrar, Inc.']) }],
+        links: [{ rel: 'related', type: 'application/rdap+json', href: 'https://rdap.registrar.example/domain/example.com' }],
+      })
+      : Response.json({ ldhName: 'example.com', entities: [abuse] }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await lookupRDAPDomain('Example.com.');
+    expect(result.url).toBe('https://rdap.verisign.com/com/v1/domain/example.com');
+    expect(result.data?.registrar?.name).toBe('Example Registrar, Inc.');
+    expect(result.data?.abuse.map((contact) => contact.name)).toEqual(['Abuse Desk']);
+    expect(fetchMock).toHaveBeenCalledWith('https://rdap.registrar.example/domain/example.com', expect.anything());
+  });
+
+  it('reports unknown TLDs and missing domains', async () => {
+    expect(await lookupRDAPDomain('example.test')).toEqual({
+      query: 'example.test',
+      error: 'No RDAP server is known for example.test; refresh the bootstrap registry',
+    });
+
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ errorCode: 404, title: 'Not Found' }, { status: 404 })));
+    expect((await lookupRDAPDomain('missing.com')).error).toBe('Not found in the registry');
+  });
+});
+
+describe('lookupRDAPASN', () => {
+  it('accepts ip-api style AS strings and rejects anything else', async () => {
+    const fetchMock = vi.fn(async () => Response.json({ handle: 'AS15169', startAutnum: 15169, endAutnum: 15169, name: 'GOOGLE' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await lookupRDAPASN('AS15169 Google LLC');
+    expect(result).toMatchObject({ query: 'AS15169', url: 'https://rdap.arin.net/registry/autnum/15169', data: { name: 'GOOGLE' } });
+    expect(await lookupRDAPASN('Google')).toEqual({ query: 'Google', error: 'Google is not an AS number' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
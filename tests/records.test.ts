@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { parseLOC, parseRecordData } from '@/lib/records';
+
+describe('parseRecordData', () => {
+  it('parses address and name records', () => {
+    expect(parseRecordData('A', '192.0.2.1')).toEqual({ type: 'A', address: '192.0.2.1' });
+    expect(parseRecordData('CNAME', 'example.com.')).toEqual({ type: 'CNAME', target: 'example.com.' });
+  });
+
+  it('parses MX and SRV fields', () => {
+    expect(parseRecordData('MX', '10 mail.example.com.')).toEqual({ type: 'MX', priority: 10, exchange: 'mail.example.com.' });
+    expect(parseRecordData('SRV', '10 60 5060 sip.example.com.')).toEqual({
+      type: 'SRV',
+      priority: 10,
+      weight: 60,
+      port: 5060,
+      target: 'sip.example.com.',
+    });
+  });
+
+  it('keeps TXT string boundaries alongside the joined text', () => {
+    expect(parseRecordData('TXT', '"v=spf1 include:_spf.example.com " "-all"')).toEqual({
+      type: 'TXT',
+      chunks: ['v=spf1 include:_spf.example.com ', '-all'],
+      text: 'v=spf1 include:_spf.example.com -all',
+    });
+    expect(parseRecordData('TXT', '"say \\"hi\\""')).toMatchObject({ text: 'say "hi"' });
+  });
+
+  it('parses CAA flags, tag and value', () => {
+    expect(parseRecordData('CAA', '128 issue "letsencrypt.org; validationmethods=dns-01"')).toEqual({
+      type: 'CAA',
+      flags: 128,
+      critical: true,
+      tag: 'issue',
+      value: 'letsencrypt.org; validationmethods=dns-01',
+    });
+    expect(parseRecordData('CAA', '0 iodef "mailto:security@example.com"')).toMatchObject({ critical: false, tag: 'iodef' });
+  });
+
+  it('returns null for malformed data so callers can fall back to the raw string', () => {
+    expect(parseRecordData('MX', 'mail.example.com.')).toBeNull();
+    expect(parseRecordData('MX', '70000 mail.example.com.')).toBeNull();
+    expect(parseRecordData('SRV', '10 60 sip.example.com.')).toBeNull();
+    expect(parseRecordData('CAA', '256 issue "ca.example"')).toBeNull();
+    expect(parseRecordData('RRSIG', 'A 13 2 300 20260201000000 20260101000000 1 example.com. AA==')).toBeNull();
+  });
+});
+
+describe('parseRecordData for modern types', () => {
+  it('parses SVCB and HTTPS parameters', () => {
+    expect(parseRecordData('HTTPS', '1 . alpn="h2,h3" ipv4hint=192.0.2.1 no-default-alpn')).toEqual({
+      type: 'HTTPS',
+      priority: 1,
+      target: '.',
+      params: { alpn: 'h2,h3', ipv4hint: '192.0.2.1', 'no-default-alpn': '' },
+    });
+  });
+
+  it('joins and upper-cases hex in TLSA, DS and SSHFP', () => {
+    expect(parseRecordData('TLSA', '3 1 1 0c72ac70b745ac19 998811b131d662c9')).toEqual({
+      type: 'TLSA',
+      usage: 3,
+      selector: 1,
+      matchingType: 1,
+      data: '0C72AC70B745AC19998811B131D662C9',
+    });
+    expect(parseRecordData('DS', '2371 13 2 1f987cc6583e92df')).toEqual({
+      type: 'DS',
+      keyTag: 2371,
+      algorithm: 13,
+      digestType: 2,
+      digest: '1F987CC6583E92DF',
+    });
+    expect(parseRecordData('SSHFP', '4 2 abcdef')).toEqual({ type: 'SSHFP', algorithm: 4, fingerprintType: 2, fingerprint: 'ABCDEF' });
+    expect(parseRecordData('TLSA', '3 1 256 00')).toBeNull();
+  });
+
+  it('parses DNSKEY, NAPTR and HINFO', () => {
+    expect(parseRecordData('DNSKEY', '257 3 13 mdsswUyr3DPW132mOi8V9xESWE8jTo0d xCjjnopKl+GqJxpVXckHAeF+KkxLbxIL')).toEqual({
+      type: 'DNSKEY',
+      flags: 257,
+      protocol: 3,
+      algorithm: 13,
+      publicKey: 'mdsswUyr3DPW132mOi8V9xESWE8jTo0dxCjjnopKl+GqJxpVXckHAeF+KkxLbxIL',
+    });
+    expect(parseRecordData('NAPTR', '100 10 "S" "SIP+D2U" "" _sip._udp.example.com.')).toEqual({
+      type: 'NAPTR',
+      order: 100,
+      preference: 10,
+      flags: 'S',
+      services: 'SIP+D2U',
+      regexp: '',
+      replacement: '_sip._udp.example.com.',
+    });
+    expect(parseRecordData('HINFO', '"RFC8482" ""')).toEqual({ type: 'HINFO', cpu: 'RFC8482', os: '' });
+    expect(parseRecordData('HINFO', '"one"')).toBeNull();
+  });
+
+  it('parses LOC coordinates into decimal degrees', () => {
+    expect(parseRecordData('LOC', '52 22 23.000 N 4 53 32.000 E -2.00m 1m 10000m 10m')).toEqual({
+      type: 'LOC',
+      latitude: 52 + 22 / 60 + 23 / 3600,
+      longitude: 4 + 53 / 60 + 32 / 3600,
+      altitude: -2,
+      size: 1,
+      horizontalPrecision: 10000,
+      verticalPrecision: 10,
+    });
+    expect(parseLOC('33 S 70 30 W 0m')).toMatchObject({ latitude: -33, longitude: -70.5, size: 1 });
+    expect(parseLOC('91 N 0 E 0m')).toBeNull();
+    expect(parseLOC('10 61 N 0 E 0m')).toBeNull();
+  });
+
+  it('leaves types without a structured form to the raw string', () => {
+    expect(parseRecordData('TYPE65534', '\\# 3 010203')).toBeNull();
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { createFallbackResolver, createMockResolver, type Resolver } from '@/lib/resolver';
+
+const zone = createMockResolver('fixture', 'Fixture', {
+  'Example.COM. A': ['192.0.2.1', '192.0.2.2'],
+  'example.com TXT': ['"v=spf1 " "-all"'],
+  'www.example.com A': {
+    answers: [
+      { name: 'www.example.com.', type: 'CNAME', typeCode: 5, class: 1, ttl: 60, data: 'example.com.' },
+      { name: 'www.example.com.', type: 'RRSIG', typeCode: 46, class: 1, ttl: 60, data: 'CNAME 13 3 60 20260201000000 20260101000000 1 example.com. AA==' },
+      { name: 'example.com.', type: 'A', typeCode: 1, class: 1, ttl: 300, data: '192.0.2.1' },
+    ],
+  },
+  'gone.example.com A': { status: 3 },
+});
+
+describe('createMockResolver', () => {
+  it('answers from fixtures with case-insensitive names', async () => {
+    const answer = await zone.query('EXAMPLE.com', 'A');
+    expect(answer.status).toBe(0);
+    expect(answer.records.map((r) => r.value)).toEqual(['192.0.2.1', '192.0.2.2']);
+    expect(answer.message?.questions).toEqual([{ name: 'example.com.', type: 'A', class: 1 }]);
+    expect((await zone.query('example.com', 'TXT')).records[0].value).toBe('v=spf1 -all');
+  });
+
+  it('returns RRSIGs only when DNSSEC data is requested', async () => {
+    const plain = await zone.query('www.example.com', 'A');
+    expect(plain.records.map((r) => r.type)).toEqual(['CNAME', 'A']);
+    const signed = await zone.query('www.example.com', 'A', { dnssecOk: true });
+    expect(signed.records.map((r) => r.type)).toEqual(['CNAME', 'RRSIG', 'A']);
+  });
+
+  it('returns NODATA for unknown names and the status a fixture sets', async () => {
+    expect(await zone.query('example.com', 'MX')).toMatchObject({ status: 0, records: [] });
+    expect((await zone.query('gone.example.com', 'A')).status).toBe(3);
+  });
+});
+
+describe('createFallbackResolver', () => {
+  const failing: Resolver = {
+    id: 'failing',
+    label: 'Failing',
+    async query() {
+      throw new Error('unreachable');
+    },
+  };
+  const servfail = createMockResolver('servfail', 'Servfail', { 'example.com A': { status: 2 } });
+
+  it('moves on to the next resolver after an error or SERVFAIL', async () => {
+    const resolver = createFallbackResolver('fallback', 'Fallback', [failing, servfail, zone]);
+    expect((await resolver.query('example.com', 'A')).records).toHaveLength(2);
+  });
+
+  it('reports every failure when all resolvers fail', async () => {
+    const resolver = createFallbackResolver('fallback', 'Fallback', [failing, servfail]);
+    await expect(resolver.query('example.com', 'A')).rejects.toThrow(
+      'All DNS servers failed: Failing failed: Error: unreachable, Servfail returned SERVFAIL'
+    );
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { createMockResolver } from '@/lib/resolver';
+import { checkReverseDNS, reverseName } from '@/lib/reverse-dns';
+
+describe('reverseName', () => {
+  it('builds in-addr.arpa names for IPv4', () => {
+    expect(reverseName('192.0.2.1')).toBe('1.2.0.192.in-addr.arpa');
+    expect(reverseName(Uint8Array.of(10, 0, 0, 255))).toBe('255.0.0.10.in-addr.arpa');
+  });
+
+  it('builds nibble-reversed ip6.arpa names for IPv6', () => {
+    expect(reverseName('2001:db8::567:89ab')).toBe('b.a.9.8.7.6.5.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.8.b.d.0.1.0.0.2.ip6.arpa');
+  });
+
+  it('returns null for anything that is not an address', () => {
+    expect(reverseName('example.com')).toBeNull();
+    expect(reverseName('192.0.2.256')).toBeNull();
+  });
+});
+
+const resolver = createMockResolver('fixture', 'Fixture', {
+  '1.2.0.192.in-addr.arpa PTR': ['mail.example.com.', 'legacy.example.net.'],
+  'mail.example.com A': ['192.0.2.1'],
+  'legacy.example.net A': ['198.51.100.1'],
+  '2.2.0.192.in-addr.arpa PTR': ['spoofed.example.org.'],
+  'spoofed.example.org A': ['203.0.113.9'],
+  '1.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.8.b.d.0.1.0.0.2.ip6.arpa PTR': ['v6.example.com.'],
+  'v6.example.com AAAA': ['2001:db8:0:0::1'],
+  '3.2.0.192.in-addr.arpa PTR': { status: 2 },
+});
+
+describe('checkReverseDNS', () => {
+  it('confirms a PTR name that resolves back to the address', async () => {
+    const check = await checkReverseDNS('192.0.2.1', resolver);
+    expect(check).toEqual({
+      ip: '192.0.2.1',
+      reverseName: '1.2.0.192.in-addr.arpa',
+      names: [
+        { name: 'mail.example.com', addresses: ['192.0.2.1'], confirmed: true, error: undefined },
+        { name: 'legacy.example.net', addresses: ['198.51.100.1'], confirmed: false, error: undefined },
+      ],
+      confirmed: true,
+    });
+  });
+
+  it('compares IPv6 addresses by value rather than text', async () => {
+    expect((await checkReverseDNS('2001:db8::1', resolver)).confirmed).toBe(true);
+  });
+
+  it('does not confirm a PTR name pointing elsewhere', async () => {
+    const check = await checkReverseDNS('192.0.2.2', resolver);
+    expect(check.confirmed).toBe(false);
+    expect(check.names[0]).toMatchObject({ name: 'spoofed.example.org', confirmed: false });
+  });
+
+  it('reports addresses without PTR records, lookup failures and invalid input', async () => {
+    expect(await checkReverseDNS('192.0.2.9', resolver)).toEqual({ ip: '192.0.2.9', reverseName: '9.2.0.192.in-addr.arpa', names: [], confirmed: false });
+    expect((await checkReverseDNS('192.0.2.3', resolver)).error).toBe('Fixture returned SERVFAIL');
+    expect(await checkReverseDNS('not-an-ip', resolver)).toMatchObject({ confirmed: false, error: 'not-an-ip is not an IP address' });
+  });
+});
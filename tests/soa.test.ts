@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { auditSOA, detectSerialFormat, parseSOA, type SOARecord } from '@/lib/soa';
+
+const NOW = new Date('2026-01-15T00:00:00Z');
+
+const soa = (overrides: Partial<SOARecord>): SOARecord => ({
+  mname: 'ns1.example.com',
+  rname: 'hostmaster.example.com',
+  email: 'hostmaster@example.com',
+  serial: 2026011501,
+  refresh: 7200,
+  retry: 3600,
+  expire: 1209600,
+  minimum: 3600,
+  ...overrides,
+});
+
+describe('parseSOA', () => {
+  it('parses presentation format', () => {
+    expect(parseSOA('ns1.example.com. hostmaster.example.com. 2026011501 7200 3600 1209600 3600')).toEqual(soa({}));
+  });
+
+  it('unescapes dots in the mailbox part of RNAME', () => {
+    const record = parseSOA('ns1.example.com. john\\.doe.example.com. 1 7200 3600 1209600 3600');
+    expect(record?.email).toBe('john.doe@example.com');
+  });
+
+  it('rejects short or non-numeric records', () => {
+    expect(parseSOA('ns1.example.com. hostmaster.example.com. 1 7200 3600')).toBeNull();
+    expect(parseSOA('ns1.example.com. hostmaster.example.com. 1 7200 3600 1209600 -1')).toBeNull();
+    expect(parseSOA('ns1.example.com. hostmaster.example.com. 1 7200 1h 1209600 3600')).toBeNull();
+  });
+});
+
+describe('detectSerialFormat', () => {
+  it('recognizes YYYYMMDDnn, Unix time and counters', () => {
+    expect(detectSerialFormat(2026011501, NOW)).toBe('date');
+    expect(detectSerialFormat(1768435200, NOW)).toBe('unix-time');
+    expect(detectSerialFormat(42, NOW)).toBe('counter');
+  });
+
+  it('reports 10-digit serials outside the plausible Unix time range as unknown', () => {
+    // February 31st is not a date, and as a timestamp it would fall in 2034
+    expect(detectSerialFormat(2026023101, NOW)).toBe('unknown');
+    expect(detectSerialFormat(3000000000, NOW)).toBe('unknown');
+    expect(auditSOA(soa({ serial: 2026023101 }), NOW)).toEqual([]);
+  });
+});
+
+describe('auditSOA', () => {
+  it('accepts values within the RFC 1912 ranges', () => {
+    expect(auditSOA(soa({}), NOW)).toEqual([]);
+  });
+
+  it('flags timers outside the recommended ranges', () => {
+    const problems = auditSOA(soa({ refresh: 86400, retry: 60, expire: 604800, minimum: 172800 }), NOW);
+    expect(problems.map((problem) => problem.kind)).toEqual(['refresh', 'retry', 'expire', 'minimum']);
+    expect(problems.every((problem) => problem.severity === 'low')).toBe(true);
+  });
+
+  it('requires retry below refresh and expire well above both', () => {
+    const problems = auditSOA(soa({ refresh: 3600, retry: 3600, expire: 1209600 }), NOW);
+    expect(problems).toContainEqual(expect.objectContaining({ kind: 'retry', severity: 'medium' }));
+  });
+
+  it('flags serials dated in the future', () => {
+    expect(auditSOA(soa({ serial: 2027010101 }), NOW)).toContainEqual(expect.objectContaining({ kind: 'serial', severity: 'medium' }));
+    expect(auditSOA(soa({ serial: 1800000000 }), NOW)).toContainEqual(expect.objectContaining({ kind: 'serial', severity: 'medium' }));
+    expect(auditSOA(soa({ serial: 0 }), NOW)).toContainEqual(expect.objectContaining({ kind: 'serial', severity: 'low' }));
+  });
+
+  it('flags an RNAME written as an email address', () => {
+    const record = parseSOA('ns1.example.com. hostmaster@example.com. 2026011501 7200 3600 1209600 3600')!;
+    expect(auditSOA(record, NOW).map((problem) => problem.kind)).toEqual(['rname']);
+  });
+});
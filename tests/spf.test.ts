@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSPF, evaluateSPF, isSPFRecord, parseSPF } from '@/lib/spf';
+import { createMockResolver } from '@/lib/resolver';
+
+const resolver = createMockResolver('fixture', 'Fixture', {
+  'example.com TXT': ['v=spf1 ip4:192.0.2.0/24 include:_spf.mail.example a:relay.example.com ~all', 'google-site-verification=abc'],
+  '_spf.mail.example TXT': ['v=spf1 ip6:2001:db8::/32 -all'],
+  'relay.example.com A': ['198.51.100.7'],
+  'redirected.example TXT': ['v=spf1 redirect=example.com'],
+  'loop-a.example TXT': ['v=spf1 include:loop-b.example -all'],
+  'loop-b.example TXT': ['v=spf1 include:loop-a.example -all'],
+  'open.example TXT': ['v=spf1 +all'],
+  'twice.example TXT': ['v=spf1 -all', 'v=spf1 ~all'],
+  'deep.example TXT': [`v=spf1 ${Array.from({ length: 11 }, (_, i) => `a:h${i}.deep.example`).join(' ')} -all`],
+  ...Object.fromEntries(Array.from({ length: 11 }, (_, i) => [`h${i}.deep.example A`, [`203.0.113.${i}`]])),
+  'void.example TXT': ['v=spf1 a:nx1.void.example a:nx2.void.example a:nx3.void.example -all'],
+});
+
+describe('parseSPF', () => {
+  it('splits mechanisms and modifiers', () => {
+    expect(isSPFRecord('v=spf1 -all')).toBe(true);
+    expect(isSPFRecord('v=spf10 -all')).toBe(false);
+
+    const { terms, errors } = parseSPF('v=spf1 -ip4:192.0.2.1 mx/24 a:host.example//64 redirect=_spf.example');
+    expect(errors).toEqual([]);
+    expect(terms.map(({ kind, qualifier, name, value }) => ({ kind, qualifier, name, value }))).toEqual([
+      { kind: 'mechanism', qualifier: '-', name: 'ip4', value: '192.0.2.1' },
+      { kind: 'mechanism', qualifier: '+', name: 'mx', value: '/24' },
+      { kind: 'mechanism', qualifier: '+', name: 'a', value: 'host.example//64' },
+      { kind: 'modifier', qualifier: '+', name: 'redirect', value: '_spf.example' },
+    ]);
+  });
+
+  it('reports malformed terms', () => {
+    expect(parseSPF('v=spf1 foo ip4 all:x redirect=a redirect=b').errors).toEqual([
+      'Unknown term "foo"',
+      '"ip4" requires an argument',
+      '"all" takes no argument in "all:x"',
+      'More than one redirect= modifier',
+    ]);
+  });
+});
+
+describe('evaluateSPF', () => {
+  const evaluate = (ip: string, domain = 'example.com') => evaluateSPF(ip, domain, undefined, resolver);
+
+  it('matches ip4, include and a mechanisms', async () => {
+    expect((await evaluate('192.0.2.55')).result).toBe('pass');
+    expect((await evaluate('2001:db8::1')).result).toBe('pass');
+    expect((await evaluate('198.51.100.7')).result).toBe('pass');
+    expect((await evaluate('203.0.113.1')).result).toBe('softfail');
+  });
+
+  it('follows redirect= when no all mechanism is present', async () => {
+    expect((await evaluate('192.0.2.1', 'redirected.example')).result).toBe('pass');
+  });
+
+  it('returns none without a record and permerror for invalid input', async () => {
+    expect((await evaluate('192.0.2.1', 'nothing.example')).result).toBe('none');
+    expect((await evaluate('192.0.2.1', 'twice.example')).result).toBe('permerror');
+    expect((await evaluate('not-an-ip')).result).toBe('permerror');
+  });
+
+  it('stops at the DNS lookup limit', async () => {
+    const evaluation = await evaluate('192.0.2.1', 'deep.example');
+    expect(evaluation.result).toBe('permerror');
+    expect(evaluation.lookupCount).toBe(11);
+  });
+
+  it('stops after too many void lookups', async () => {
+    const evaluation = await evaluate('192.0.2.1', 'void.example');
+    expect(evaluation.result).toBe('permerror');
+    expect(evaluation.trace.at(-1)?.message).toBe('permerror: More than 2 void lookups (at A nx3.void.example)');
+  });
+});
+
+describe('analyzeSPF', () => {
+  it('builds the include tree and counts lookups', async () => {
+    const check = await analyzeSPF('example.com', resolver);
+    expect(check).toMatchObject({ present: true, valid: true, lookupCount: 2, allQualifier: '~', errors: [], warnings: [] });
+    expect(check.tree?.children.map((child) => child.domain)).toEqual(['_spf.mail.example']);
+  });
+
+  it('reports include loops and permissive all mechanisms', async () => {
+    expect((await analyzeSPF('loop-a.example', resolver)).errors).toEqual([
+      'Include loop: loop-a.example → loop-b.example → loop-a.example',
+    ]);
+    expect((await analyzeSPF('open.example', resolver)).warnings).toEqual([
+      '"+all" authorizes every host on the internet to send as this domain',
+    ]);
+  });
+
+  it('keeps counting past the limit when auditing', async () => {
+    const check = await analyzeSPF('deep.example', resolver);
+    expect(check.valid).toBe(false);
+    expect(check.lookupCount).toBe(11);
+    expect(check.errors).toContain('More than 10 DNS lookups (at "a:h10.deep.example")');
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { createMockResolver } from '@/lib/resolver';
+import { followCNAMEChain, matchFingerprint, scanTakeover } from '@/lib/takeover';
+
+const resolver = createMockResolver('fixture', 'Fixture', {
+  'www.example.com CNAME': ['d111111abcdef8.cloudfront.net.'],
+  'blog.example.com CNAME': ['example.github.io.'],
+  'shop.example.com CNAME': ['old-shop.myshopify.com.'],
+  'old-shop.myshopify.com CNAME': { status: 3 },
+  'docs.example.com CNAME': ['docs-cdn.example.net.'],
+  'docs-cdn.example.net CNAME': ['example-docs.s3-website-us-east-1.amazonaws.com.'],
+  'status.example.com CNAME': ['retired.example.org.'],
+  'retired.example.org CNAME': { status: 3 },
+  'loop.example.com CNAME': ['loop2.example.com.'],
+  'loop2.example.com CNAME': ['loop.example.com.'],
+  'help.example.com CNAME': ['example.zendesk.com.'],
+  'api.example.com CNAME': { status: 2 },
+});
+
+describe('matchFingerprint', () => {
+  it('matches catalogued suffixes with or without a trailing dot', () => {
+    expect(matchFingerprint('example.github.io.')?.service).toBe('GitHub Pages');
+    expect(matchFingerprint('bucket.s3.eu-west-1.amazonaws.com')?.service).toBe('AWS S3');
+    expect(matchFingerprint('d111111abcdef8.cloudfront.net')?.service).toBe('AWS CloudFront');
+    expect(matchFingerprint('github.io.example.com')).toBeUndefined();
+  });
+});
+
+describe('followCNAMEChain', () => {
+  it('returns null for names without a CNAME', async () => {
+    expect(await followCNAMEChain('example.com', resolver)).toBeNull();
+  });
+
+  it('marks a chain ending in NXDOMAIN as dangling', async () => {
+    expect(await followCNAMEChain('status.example.com', resolver)).toEqual({
+      host: 'status.example.com',
+      chain: ['status.example.com', 'retired.example.org'],
+      target: 'retired.example.org',
+      dangling: true,
+    });
+  });
+
+  it('stops at loops', async () => {
+    const chain = await followCNAMEChain('loop.example.com', resolver);
+    expect(chain).toMatchObject({ chain: ['loop.example.com', 'loop2.example.com', 'loop.example.com'], dangling: false, error: 'CNAME loop' });
+  });
+});
+
+describe('scanTakeover', () => {
+  const subdomains = ['www', 'blog', 'shop', 'docs', 'status', 'help', 'api'];
+
+  it('reports dangling chains and providers that answer for unclaimed names', async () => {
+    const check = await scanTakeover('example.com', resolver, subdomains);
+    expect(check.scanned).toHaveLength(8);
+    expect(check.findings.map((chain) => [chain.host, chain.service, chain.dangling])).toEqual([
+      ['blog.example.com', 'GitHub Pages', false],
+      ['shop.example.com', 'Shopify', true],
+      ['docs.example.com', 'AWS S3', false],
+      ['status.example.com', undefined, true],
+    ]);
+    expect(check.findings[0].unclaimedPage).toBe("There isn't a GitHub Pages site here.");
+  });
+
+  it('lists live CDN and help-desk chains without reporting them', async () => {
+    const check = await scanTakeover('example.com', resolver, subdomains);
+    const www = check.chains.find((chain) => chain.host === 'www.example.com');
+    expect(www).toMatchObject({ service: 'AWS CloudFront', dangling: false });
+    expect(www?.unclaimedPage).toBeUndefined();
+    expect(check.chains.map((chain) => chain.host)).toContain('help.example.com');
+    expect(check.findings.map((chain) => chain.host)).not.toContain('www.example.com');
+    expect(check.findings.map((chain) => chain.host)).not.toContain('help.example.com');
+  });
+});
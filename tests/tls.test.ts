@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { auditTLS, hostnameMatches, type TLSCertificateInfo, type TLSInspection } from '@/lib/tls';
+
+const NOW = new Date('2026-01-15T00:00:00Z');
+
+const cert = (overrides: Partial<TLSCertificateInfo> = {}): TLSCertificateInfo => ({
+  subject: 'www.example.com',
+  subjectName: 'CN=www.example.com',
+  issuer: 'Example CA',
+  issuerName: 'C=US, O=Example, CN=Example CA',
+  sans: ['example.com', '*.example.com'],
+  serialNumber: '0123',
+  fingerprint256: 'AA:BB',
+  keyType: 'ec',
+  curve: 'prime256v1',
+  signatureAlgorithm: 'ecdsa-with-SHA256',
+  validFrom: '2025-12-01T00:00:00.000Z',
+  validTo: '2026-06-01T00:00:00.000Z',
+  ocsp: [],
+  caIssuers: [],
+  crl: [],
+  ca: false,
+  selfSigned: false,
+  ...overrides,
+});
+
+const inspection = (overrides: Partial<TLSInspection> = {}): TLSInspection => ({
+  host: 'www.example.com',
+  port: 443,
+  servername: 'www.example.com',
+  address: '192.0.2.1',
+  protocol: 'TLSv1.3',
+  cipher: { name: 'TLS_AES_128_GCM_SHA256', version: 'TLSv1.3' },
+  authorized: true,
+  chain: [cert(), cert({ subject: 'Example CA', sans: [], ca: true, validTo: '2030-01-01T00:00:00.000Z' })],
+  responseTime: 40,
+  ...overrides,
+});
+
+describe('hostnameMatches', () => {
+  it('lets a wildcard cover exactly one left-most label', () => {
+    expect(hostnameMatches('www.example.com', ['*.example.com'])).toBe(true);
+    expect(hostnameMatches('WWW.Example.com.', ['*.example.com'])).toBe(true);
+    expect(hostnameMatches('example.com', ['*.example.com'])).toBe(false);
+    expect(hostnameMatches('a.b.example.com', ['*.example.com'])).toBe(false);
+    expect(hostnameMatches('example.com', ['example.com'])).toBe(true);
+  });
+});
+
+describe('auditTLS', () => {
+  it('accepts a trusted, current chain over TLS 1.3', () => {
+    expect(auditTLS(inspection(), NOW)).toEqual([]);
+  });
+
+  it('flags a hostname the leaf does not cover', () => {
+    const problems = auditTLS(inspection({ servername: 'shop.example.org' }), NOW);
+    expect(problems).toEqual([
+      { kind: 'hostname-mismatch', severity: 'high', detail: 'Certificate for example.com, *.example.com does not cover shop.example.org' },
+    ]);
+  });
+
+  it('warns about certificates expiring within 30 days and fails expired ones', () => {
+    const expiring = auditTLS(inspection({ chain: [cert({ validTo: '2026-01-25T00:00:00.000Z' })] }), NOW);
+    expect(expiring).toEqual([{ kind: 'expiring', severity: 'medium', detail: 'Leaf certificate expires in 10 days (2026-01-25)' }]);
+
+    const expired = auditTLS(inspection({
+      authorized: false,
+      authorizationError: 'CERT_HAS_EXPIRED',
+      chain: [cert(), cert({ subject: 'Old CA', validTo: '2026-01-01T00:00:00.000Z' })],
+    }), NOW);
+    expect(expired).toEqual([{ kind: 'expired', severity: 'critical', detail: 'Chain certificate "Old CA" expired on 2026-01-01' }]);
+  });
+
+  it('separates self-signed chains from other validation failures', () => {
+    const selfSigned = auditTLS(inspection({ authorized: false, authorizationError: 'DEPTH_ZERO_SELF_SIGNED_CERT', chain: [cert({ selfSigned: true })] }), NOW);
+    expect(selfSigned.map((problem) => problem.kind)).toEqual(['self-signed']);
+
+    const untrusted = auditTLS(inspection({ authorized: false, authorizationError: 'UNABLE_TO_GET_ISSUER_CERT_LOCALLY' }), NOW);
+    expect(untrusted).toEqual([{ kind: 'untrusted', severity: 'high', detail: 'Chain validation failed: UNABLE_TO_GET_ISSUER_CERT_LOCALLY' }]);
+  });
+
+  it('requires TLS 1.2 or later', () => {
+    expect(auditTLS(inspection({ protocol: 'TLSv1.2' }), NOW)).toEqual([]);
+    expect(auditTLS(inspection({ protocol: 'TLSv1' }), NOW)).toEqual([
+      { kind: 'legacy-protocol', severity: 'high', detail: 'Negotiated TLSv1; TLS 1.2 or later is required' },
+    ]);
+  });
+});
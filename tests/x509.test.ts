@@ -0,0 +1,100 @@
+import { rootCertificates } from 'node:tls';
+import { describe, expect, it } from 'vitest';
+import { children, collectURIs, oidString, parseCertificateDER, readTLV } from '@/lib/x509';
+
+// A minimal DER writer for building certificate skeletons
+
+function tlv(tag: number, ...contents: number[][]): number[] {
+  const body = contents.flat();
+  const length = body.length < 0x80
+    ? [body.length]
+    : body.length < 0x100 ? [0x81, body.length] : [0x82, body.length >> 8, body.length & 0xff];
+  return [tag, ...length, ...body];
+}
+
+function oid(text: string): number[] {
+  const [first, second, ...rest] = text.split('.').map(Number);
+  const bytes = [first * 40 + second];
+  for (const arc of rest) {
+    const base128 = [arc & 0x7f];
+    for (let value = Math.floor(arc / 128); value > 0; value = Math.floor(value / 128)) base128.unshift((value & 0x7f) | 0x80);
+    bytes.push(...base128);
+  }
+  return tlv(0x06, bytes);
+}
+
+const ascii = (text: string) => Array.from(text, (c) => c.charCodeAt(0));
+const sequence = (...contents: number[][]) => tlv(0x30, ...contents);
+
+function crlDistributionPoints(...uris: string[]): number[] {
+  // DistributionPoint { distributionPoint [0] { fullName [0] GeneralNames } }
+  const points = uris.map((uri) => sequence(tlv(0xa0, tlv(0xa0, tlv(0x86, ascii(uri))))));
+  return sequence(oid('2.5.29.31'), tlv(0x04, sequence(...points)));
+}
+
+function certificate(signatureOid: string, extensions: number[][] = []): Uint8Array {
+  const algorithm = sequence(oid(signatureOid), tlv(0x05));
+  const tbs = sequence(
+    tlv(0xa0, tlv(0x02, [2])),
+    tlv(0x02, [0x01, 0x23]),
+    algorithm,
+    sequence(),
+    sequence(tlv(0x17, ascii('260101000000Z')), tlv(0x17, ascii('270101000000Z'))),
+    sequence(),
+    sequence(sequence(oid('1.3.101.112')), tlv(0x03, [0, ...new Array(32).fill(7)])),
+    ...(extensions.length > 0 ? [tlv(0xa3, sequence(...extensions))] : []),
+  );
+  return Uint8Array.from(sequence(tbs, algorithm, tlv(0x03, [0, ...new Array(64).fill(1)])));
+}
+
+describe('readTLV', () => {
+  it('reads short and long form lengths', () => {
+    expect(readTLV(Uint8Array.from(tlv(0x04, [1, 2, 3])), 0)).toEqual({ tag: 0x04, start: 2, end: 5 });
+    const long = Uint8Array.from(tlv(0x04, new Array(300).fill(0)));
+    expect(readTLV(long, 0)).toEqual({ tag: 0x04, start: 4, end: 304 });
+  });
+
+  it('rejects values running past the end of the buffer', () => {
+    expect(() => readTLV(Uint8Array.from([0x30, 0x05, 0x02, 0x01]), 0)).toThrow('Truncated DER value');
+  });
+});
+
+describe('children and oidString', () => {
+  it('walks constructed values and decodes multi-byte OID arcs', () => {
+    const der = Uint8Array.from(sequence(oid('1.2.840.113549.1.1.11'), tlv(0x05)));
+    const [id, nothing] = children(der, readTLV(der, 0));
+    expect(oidString(der, id)).toBe('1.2.840.113549.1.1.11');
+    expect(nothing).toEqual({ tag: 0x05, start: der.length, end: der.length });
+  });
+});
+
+describe('collectURIs', () => {
+  it('finds URIs nested anywhere below constructed values', () => {
+    const der = Uint8Array.from(sequence(tlv(0xa0, tlv(0x86, ascii('http://a.example/'))), tlv(0x86, ascii('ldap://b.example/')), tlv(0x04, ascii('ignored'))));
+    expect(collectURIs(der, readTLV(der, 0))).toEqual(['http://a.example/', 'ldap://b.example/']);
+  });
+});
+
+describe('parseCertificateDER', () => {
+  it('names the signature algorithm and lists CRL distribution points', () => {
+    const der = certificate('1.2.840.10045.4.3.2', [
+      sequence(oid('2.5.29.19'), tlv(0x01, [0xff]), tlv(0x04, sequence())),
+      crlDistributionPoints('http://crl.example/ca.crl', 'http://crl2.example/ca.crl'),
+    ]);
+    expect(parseCertificateDER(der)).toEqual({
+      signatureAlgorithm: 'ecdsa-with-SHA256',
+      crl: ['http://crl.example/ca.crl', 'http://crl2.example/ca.crl'],
+    });
+  });
+
+  it('falls back to the dotted OID and handles certificates without extensions', () => {
+    expect(parseCertificateDER(certificate('1.2.3.4'))).toEqual({ signatureAlgorithm: '1.2.3.4', crl: [] });
+  });
+
+  it('reads every bundled root certificate', () => {
+    for (const pem of rootCertificates) {
+      const der = Uint8Array.from(Buffer.from(pem.replace(/-----[A-Z ]+-----|\s/g, ''), 'base64'));
+      expect(parseCertificateDER(der).signatureAlgorithm).not.toMatch(/^[\d.]+$/);
+    }
+  });
+});
@@ -0,0 +1,13 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('./src', import.meta.url)) },
+  },
+  test: {
+    // tests/smoke.test.js relies on describe/it/expect globals
+    globals: true,
+    include: ['tests/**/*.test.{ts,js}'],
+  },
+});